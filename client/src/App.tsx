@@ -9,6 +9,15 @@ import { useAuth } from "@/hooks/useAuth";
 import Home from "@/pages/Home";
 import AddWine from "@/pages/AddWine";
 import WineDetail from "@/pages/WineDetail";
+import Valuation from "@/pages/Valuation";
+import CellarMap from "@/pages/CellarMap";
+import Stocktakes from "@/pages/Stocktakes";
+import StocktakeSession from "@/pages/StocktakeSession";
+import ImportWines from "@/pages/ImportWines";
+import Backup from "@/pages/Backup";
+import AdminCatalog from "@/pages/AdminCatalog";
+import ImportCatalog from "@/pages/ImportCatalog";
+import CatalogHistory from "@/pages/CatalogHistory";
 import Landing from "@/pages/Landing";
 import NotFound from "@/pages/not-found";
 
@@ -32,6 +41,15 @@ function Router() {
           <Route path="/" component={Home} />
           <Route path="/add" component={AddWine} />
           <Route path="/wine/:id" component={WineDetail} />
+          <Route path="/valuation" component={Valuation} />
+          <Route path="/cellar-map" component={CellarMap} />
+          <Route path="/stocktakes" component={Stocktakes} />
+          <Route path="/stocktakes/:id" component={StocktakeSession} />
+          <Route path="/import" component={ImportWines} />
+          <Route path="/backup" component={Backup} />
+          <Route path="/admin/catalog" component={AdminCatalog} />
+          <Route path="/admin/catalog/import" component={ImportCatalog} />
+          <Route path="/admin/catalog/history" component={CatalogHistory} />
           <Route path="/edit/:id">
             {(params) => <WineDetail key={params.id} />}
           </Route>
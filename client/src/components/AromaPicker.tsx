@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { X } from "lucide-react";
+import { AROMA_WHEEL, getAromaColor } from "@/lib/tasting";
+
+interface AromaPickerProps {
+  value: string[];
+  onChange: (aromas: string[]) => void;
+}
+
+export default function AromaPicker({ value, onChange }: AromaPickerProps) {
+  const [activeFamily, setActiveFamily] = useState(AROMA_WHEEL[0].name);
+  const [custom, setCustom] = useState("");
+
+  const toggle = (aroma: string) => {
+    onChange(value.includes(aroma) ? value.filter(a => a !== aroma) : [...value, aroma]);
+  };
+
+  const addCustom = () => {
+    const aroma = custom.trim();
+    if (aroma && !value.includes(aroma)) {
+      onChange([...value, aroma]);
+    }
+    setCustom("");
+  };
+
+  const family = AROMA_WHEEL.find(f => f.name === activeFamily) ?? AROMA_WHEEL[0];
+
+  return (
+    <div className="space-y-3">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map(aroma => (
+            <Badge
+              key={aroma}
+              style={{ backgroundColor: getAromaColor(aroma) }}
+              className="cursor-pointer"
+              onClick={() => toggle(aroma)}
+            >
+              {aroma}
+              <X className="ml-1 h-3 w-3" />
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {/* Families form the inner ring of the wheel */}
+      <div className="flex flex-wrap gap-1">
+        {AROMA_WHEEL.map(f => (
+          <Button
+            key={f.name}
+            type="button"
+            size="sm"
+            variant={f.name === activeFamily ? "default" : "outline"}
+            style={f.name === activeFamily ? { backgroundColor: f.color } : { borderColor: f.color }}
+            onClick={() => setActiveFamily(f.name)}
+          >
+            {f.name}
+          </Button>
+        ))}
+      </div>
+
+      <div className="space-y-2 border rounded-md p-2">
+        {family.groups.map(group => (
+          <div key={group.name}>
+            <div className="text-xs text-muted-foreground mb-1">{group.name}</div>
+            <div className="flex flex-wrap gap-1">
+              {group.aromas.map(aroma => (
+                <Badge
+                  key={aroma}
+                  variant={value.includes(aroma) ? "default" : "outline"}
+                  style={value.includes(aroma) ? { backgroundColor: family.color } : undefined}
+                  className="cursor-pointer"
+                  onClick={() => toggle(aroma)}
+                >
+                  {aroma}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          value={custom}
+          onChange={(e) => setCustom(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              addCustom();
+            }
+          }}
+          placeholder="Other aroma..."
+          className="h-8"
+        />
+        <Button type="button" size="sm" variant="outline" onClick={addCustom}>
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+}
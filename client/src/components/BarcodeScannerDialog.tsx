@@ -0,0 +1,123 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { BrowserMultiFormatReader, type IScannerControls } from "@zxing/browser";
+import { BarcodeFormat, DecodeHintType } from "@zxing/library";
+import { BarcodeLookup } from "@shared/schema";
+import { normalizeBarcode } from "@shared/barcode";
+import { WineService } from "@/lib/wine-api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+
+// Bottles carry EAN-13 codes, or UPC codes in North America
+const SCAN_HINTS = new Map<DecodeHintType, unknown>([
+  [DecodeHintType.POSSIBLE_FORMATS, [BarcodeFormat.EAN_13, BarcodeFormat.EAN_8, BarcodeFormat.UPC_A, BarcodeFormat.UPC_E]],
+]);
+
+interface BarcodeScannerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onLookup: (lookup: BarcodeLookup) => void;
+}
+
+// Reads a barcode with the camera, or as typed, and looks it up
+export default function BarcodeScannerDialog({ open, onOpenChange, onLookup }: BarcodeScannerDialogProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [typed, setTyped] = useState("");
+  const [typedError, setTypedError] = useState<string | null>(null);
+
+  const lookupMutation = useMutation({
+    mutationFn: (code: string) => WineService.lookupBarcode(code),
+    onSuccess: (lookup) => {
+      onOpenChange(false);
+      onLookup(lookup);
+    },
+  });
+
+  // The camera runs only while the dialog is open, and stops at the first readable code
+  useEffect(() => {
+    if (!open) return;
+    setCameraError(null);
+    setTyped("");
+    setTypedError(null);
+    lookupMutation.reset();
+
+    let controls: IScannerControls | undefined;
+    let stopped = false;
+    const reader = new BrowserMultiFormatReader(SCAN_HINTS);
+    reader
+      .decodeFromConstraints({ video: { facingMode: "environment" } }, videoRef.current!, (result, _error, scanControls) => {
+        const code = result ? normalizeBarcode(result.getText()) : null;
+        if (code) {
+          scanControls.stop();
+          lookupMutation.mutate(code);
+        }
+      })
+      .then(started => {
+        controls = started;
+        if (stopped) started.stop();
+      })
+      .catch(() => setCameraError("The camera is not available. Type the number under the barcode instead."));
+
+    return () => {
+      stopped = true;
+      controls?.stop();
+    };
+  }, [open]);
+
+  const handleTyped = () => {
+    const code = normalizeBarcode(typed);
+    if (!code) {
+      setTypedError("Not a valid EAN or UPC barcode");
+      return;
+    }
+    setTypedError(null);
+    lookupMutation.mutate(code);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Scan a Barcode</DialogTitle>
+          <DialogDescription>Hold the bottle's barcode up to the camera.</DialogDescription>
+        </DialogHeader>
+
+        {cameraError && <p className="text-sm text-muted-foreground">{cameraError}</p>}
+        <video
+          ref={videoRef}
+          className={cameraError ? "hidden" : "w-full rounded-md bg-black aspect-video object-cover"}
+          muted
+          playsInline
+        />
+
+        <div className="flex gap-2">
+          <Input
+            value={typed}
+            onChange={(e) => setTyped(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleTyped()}
+            placeholder="Or type the barcode number"
+            inputMode="numeric"
+          />
+          <Button onClick={handleTyped} disabled={!typed.trim() || lookupMutation.isPending}>
+            Look Up
+          </Button>
+        </div>
+
+        {lookupMutation.isPending && (
+          <p className="flex items-center text-sm text-muted-foreground">
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Looking up barcode...
+          </p>
+        )}
+        {(typedError || lookupMutation.error) && (
+          <p className="text-sm text-destructive">
+            {typedError ?? (lookupMutation.error instanceof Error ? lookupMutation.error.message : "Lookup failed")}
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,58 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BOTTLE_FORMATS, getFormatLabel, isStandardFormat } from "@/lib/bottle-formats";
+
+interface BottleFormatSelectProps {
+  value: number;
+  onChange: (volumeMl: number) => void;
+  id?: string;
+  className?: string;
+}
+
+const CUSTOM = "custom";
+
+export default function BottleFormatSelect({ value, onChange, id, className }: BottleFormatSelectProps) {
+  const [isCustom, setIsCustom] = useState(!isStandardFormat(value));
+
+  const handleSelect = (selected: string) => {
+    if (selected === CUSTOM) {
+      setIsCustom(true);
+      return;
+    }
+    setIsCustom(false);
+    onChange(parseInt(selected));
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <Select value={isCustom ? CUSTOM : value.toString()} onValueChange={handleSelect}>
+        <SelectTrigger id={id} className={className ?? "w-44"}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {BOTTLE_FORMATS.map(format => (
+            <SelectItem key={format.volumeMl} value={format.volumeMl.toString()}>
+              {getFormatLabel(format.volumeMl)}
+            </SelectItem>
+          ))}
+          <SelectItem value={CUSTOM}>Custom...</SelectItem>
+        </SelectContent>
+      </Select>
+      {isCustom && (
+        <>
+          <Input
+            type="number"
+            min={50}
+            max={30000}
+            value={value || ""}
+            onChange={(e) => onChange(parseInt(e.target.value) || 0)}
+            className="w-20"
+            aria-label="Volume in ml"
+          />
+          <span className="text-xs text-muted-foreground">ml</span>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,336 @@
+import { useMemo, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Bottle, BottleStatus, BottleStatusType, CellarWithStock, IN_STOCK_BOTTLE_STATUSES, StockEntry, UpdateBottle, Wine } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { WineService } from "@/lib/wine-api";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { MoreHorizontal, Plus } from "lucide-react";
+import BottleFormatSelect from "@/components/BottleFormatSelect";
+import { getDefaultVolumeMl, getFormatLabel } from "@/lib/bottle-formats";
+import { getCellarName } from "@/lib/cellars";
+
+interface BottleListProps {
+  wine: Wine;
+  isVintageApplicable: boolean;
+}
+
+export const getBottleStatusLabel = (status: string): string => {
+  switch (status) {
+    case BottleStatus.OPENED:
+      return "Opened";
+    case BottleStatus.CONSUMED:
+      return "Consumed";
+    case BottleStatus.GIFTED:
+      return "Gifted";
+    case BottleStatus.LOST:
+      return "Lost";
+    case BottleStatus.IN_CELLAR:
+    default:
+      return "In cellar";
+  }
+};
+
+const isInStock = (bottle: Bottle) =>
+  IN_STOCK_BOTTLE_STATUSES.includes(bottle.status as BottleStatusType);
+
+export default function BottleList({ wine, isVintageApplicable }: BottleListProps) {
+  const { toast } = useToast();
+  const [showPast, setShowPast] = useState(false);
+  const [editing, setEditing] = useState<Bottle | null>(null);
+  const [details, setDetails] = useState<UpdateBottle>({});
+  const [isAdding, setIsAdding] = useState(false);
+  const [newVintage, setNewVintage] = useState<number>(new Date().getFullYear());
+  const [newCount, setNewCount] = useState(1);
+  const [newVolumeMl, setNewVolumeMl] = useState(getDefaultVolumeMl(wine.category));
+  const [newLocation, setNewLocation] = useState("");
+  const [newPrice, setNewPrice] = useState("");
+
+  const { data: bottles = [], isLoading } = useQuery<Bottle[]>({
+    queryKey: [`/api/wines/${wine.id}/bottles`],
+  });
+
+  const { data: cellars = [] } = useQuery<CellarWithStock[]>({
+    queryKey: ["/api/cellars"],
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/wines/${wine.id}/bottles`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/wines/${wine.id}`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/wines/${wine.id}/movements`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/wines"] });
+  };
+
+  const onError = (error: unknown) => {
+    toast({
+      variant: "destructive",
+      title: "Bottle Update Failed",
+      description: error instanceof Error ? error.message : "An unknown error occurred",
+    });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: ({ bottleId, patch }: { bottleId: number; patch: UpdateBottle }) =>
+      WineService.updateBottle(wine.id, bottleId, patch),
+    onSuccess: () => {
+      refresh();
+      setEditing(null);
+    },
+    onError,
+  });
+
+  const trackMutation = useMutation({
+    mutationFn: (entry: StockEntry) => WineService.trackBottles(wine.id, entry.vintage, entry.volumeMl, entry.cellarId),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const addMutation = useMutation({
+    mutationFn: () => WineService.addBottles(wine.id, {
+      vintage: isVintageApplicable ? newVintage : null,
+      volumeMl: newVolumeMl,
+      count: newCount,
+      location: newLocation || null,
+      purchasePrice: newPrice || null,
+    }),
+    onSuccess: () => {
+      refresh();
+      setIsAdding(false);
+      setNewCount(1);
+    },
+    onError,
+  });
+
+  // Stock that exists in the ledger but has no bottle records yet, per vintage, format and cellar
+  const untrackedStock = useMemo(() => {
+    const isTracked = (entry: StockEntry) =>
+      bottles.some(b => b.vintage === entry.vintage && b.volumeMl === entry.volumeMl && b.cellarId === entry.cellarId);
+    return (wine.stockEntries || []).filter(e => e.stock > 0 && !isTracked(e));
+  }, [bottles, wine.stockEntries]);
+
+  const visibleBottles = showPast ? bottles : bottles.filter(isInStock);
+  const pastCount = bottles.length - bottles.filter(isInStock).length;
+
+  const setStatus = (bottle: Bottle, status: BottleStatusType) => {
+    updateMutation.mutate({ bottleId: bottle.id, patch: { status } });
+  };
+
+  const openDetails = (bottle: Bottle) => {
+    setEditing(bottle);
+    setDetails({
+      location: bottle.location,
+      condition: bottle.condition,
+      purchasePrice: bottle.purchasePrice,
+      notes: bottle.notes,
+    });
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading bottles...</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {untrackedStock.map(bucket => (
+        <div key={`${bucket.vintage ?? "nv"}-${bucket.volumeMl}-${bucket.cellarId ?? "none"}`} className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">
+            {bucket.stock} × {bucket.vintage ?? ""} {getFormatLabel(bucket.volumeMl)}
+            {cellars.length > 0 && ` in ${getCellarName(cellars, bucket.cellarId)}`} not tracked individually
+          </span>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => trackMutation.mutate(bucket)}
+            disabled={trackMutation.isPending}
+          >
+            Track Bottles
+          </Button>
+        </div>
+      ))}
+
+      {visibleBottles.length > 0 ? (
+        <div className="space-y-2">
+          {visibleBottles.map(bottle => (
+            <div key={bottle.id} className="flex items-center justify-between text-sm border rounded-md p-2">
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className="font-mono text-xs text-muted-foreground">#{bottle.id}</span>
+                {bottle.vintage && <span className="font-medium">{bottle.vintage}</span>}
+                <span className="text-muted-foreground">{getFormatLabel(bottle.volumeMl)}</span>
+                <Badge variant={isInStock(bottle) ? "secondary" : "outline"}>
+                  {getBottleStatusLabel(bottle.status)}
+                </Badge>
+                {bottle.cellarId !== null && <span>{getCellarName(cellars, bottle.cellarId)}</span>}
+                {bottle.location && <span>{bottle.location}</span>}
+                {bottle.condition && <span className="italic text-muted-foreground">{bottle.condition}</span>}
+                {bottle.purchasePrice && <span className="text-muted-foreground">{bottle.purchasePrice}</span>}
+              </div>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="icon" className="h-7 w-7">
+                    <MoreHorizontal className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {isInStock(bottle) ? (
+                    <>
+                      {bottle.status !== BottleStatus.OPENED && (
+                        <DropdownMenuItem onClick={() => setStatus(bottle, BottleStatus.OPENED)}>Open</DropdownMenuItem>
+                      )}
+                      <DropdownMenuItem onClick={() => setStatus(bottle, BottleStatus.CONSUMED)}>Drink</DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => setStatus(bottle, BottleStatus.GIFTED)}>Gift</DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => setStatus(bottle, BottleStatus.LOST)}>Mark as Lost</DropdownMenuItem>
+                    </>
+                  ) : (
+                    <DropdownMenuItem onClick={() => setStatus(bottle, BottleStatus.IN_CELLAR)}>Return to Cellar</DropdownMenuItem>
+                  )}
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => openDetails(bottle)}>Edit Details</DropdownMenuItem>
+                  {isInStock(bottle) && (
+                    <DropdownMenuItem asChild>
+                      <Link href={`/cellar-map?wine=${wine.id}&bottle=${bottle.id}`}>Find in Cellar Map</Link>
+                    </DropdownMenuItem>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          ))}
+        </div>
+      ) : (
+        untrackedStock.length === 0 && (
+          <p className="text-sm text-muted-foreground">No bottles tracked individually.</p>
+        )
+      )}
+
+      <div className="flex justify-between">
+        {pastCount > 0 ? (
+          <Button variant="link" size="sm" className="pl-0" onClick={() => setShowPast(!showPast)}>
+            {showPast ? "Hide past bottles" : `Show ${pastCount} past bottle${pastCount !== 1 ? "s" : ""}`}
+          </Button>
+        ) : <span />}
+        <Button size="sm" variant="outline" onClick={() => setIsAdding(!isAdding)}>
+          <Plus className="mr-1 h-4 w-4" />
+          Add Bottles
+        </Button>
+      </div>
+
+      {isAdding && (
+        <div className="flex flex-wrap items-end gap-2">
+          {isVintageApplicable && (
+            <div>
+              <Label htmlFor="bottle-vintage" className="text-xs">Vintage</Label>
+              <Input
+                id="bottle-vintage"
+                type="number"
+                value={newVintage || ""}
+                onChange={(e) => setNewVintage(parseInt(e.target.value) || 0)}
+                className="w-24"
+              />
+            </div>
+          )}
+          <div>
+            <Label htmlFor="bottle-count" className="text-xs">Bottles</Label>
+            <Input
+              id="bottle-count"
+              type="number"
+              min={1}
+              value={newCount}
+              onChange={(e) => setNewCount(parseInt(e.target.value) || 1)}
+              className="w-20"
+            />
+          </div>
+          <div>
+            <Label htmlFor="bottle-format" className="text-xs">Format</Label>
+            <BottleFormatSelect id="bottle-format" value={newVolumeMl} onChange={setNewVolumeMl} />
+          </div>
+          <div>
+            <Label htmlFor="bottle-location" className="text-xs">Location</Label>
+            <Input
+              id="bottle-location"
+              value={newLocation}
+              onChange={(e) => setNewLocation(e.target.value)}
+              className="w-32"
+            />
+          </div>
+          <div>
+            <Label htmlFor="bottle-price" className="text-xs">Price</Label>
+            <Input
+              id="bottle-price"
+              inputMode="decimal"
+              value={newPrice}
+              onChange={(e) => setNewPrice(e.target.value)}
+              className="w-24"
+            />
+          </div>
+          <Button size="sm" onClick={() => addMutation.mutate()} disabled={addMutation.isPending}>
+            Add
+          </Button>
+        </div>
+      )}
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Bottle #{editing?.id}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div>
+              <Label htmlFor="edit-location">Location</Label>
+              <Input
+                id="edit-location"
+                value={details.location ?? ""}
+                onChange={(e) => setDetails({ ...details, location: e.target.value || null })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="edit-condition">Condition</Label>
+              <Input
+                id="edit-condition"
+                value={details.condition ?? ""}
+                onChange={(e) => setDetails({ ...details, condition: e.target.value || null })}
+                placeholder="e.g., Slight ullage, scuffed label"
+              />
+            </div>
+            <div>
+              <Label htmlFor="edit-price">Purchase Price</Label>
+              <Input
+                id="edit-price"
+                inputMode="decimal"
+                value={details.purchasePrice ?? ""}
+                onChange={(e) => setDetails({ ...details, purchasePrice: e.target.value || null })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="edit-notes">Notes</Label>
+              <Input
+                id="edit-notes"
+                value={details.notes ?? ""}
+                onChange={(e) => setDetails({ ...details, notes: e.target.value || null })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button
+              onClick={() => editing && updateMutation.mutate({ bottleId: editing.id, patch: details })}
+              disabled={updateMutation.isPending}
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
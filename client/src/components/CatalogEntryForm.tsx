@@ -0,0 +1,104 @@
+import { useEffect, useState } from "react";
+import { InsertWineCatalog, WineCatalog, WineCategory } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+// Text fields of an entry, in the order they are shown
+const FIELDS: { field: keyof InsertWineCatalog; label: string; placeholder?: string }[] = [
+  { field: "name", label: "Name" },
+  { field: "category", label: "Category" },
+  { field: "wine", label: "Wine Type", placeholder: "e.g., Cabernet Sauvignon" },
+  { field: "subType", label: "Sub-Type" },
+  { field: "producer", label: "Producer" },
+  { field: "region", label: "Region" },
+  { field: "country", label: "Country" },
+  { field: "barcode", label: "Barcode", placeholder: "EAN or UPC" },
+];
+
+const EMPTY_ENTRY: InsertWineCatalog = {
+  name: "",
+  category: WineCategory.RED,
+  wine: null,
+  subType: null,
+  producer: null,
+  region: null,
+  country: null,
+  barcode: null,
+};
+
+interface CatalogEntryFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The entry being edited, or undefined to add one
+  entry?: WineCatalog;
+  onSubmit: (entry: InsertWineCatalog) => void;
+  isPending?: boolean;
+}
+
+export default function CatalogEntryForm({ open, onOpenChange, entry, onSubmit, isPending = false }: CatalogEntryFormProps) {
+  const [values, setValues] = useState<InsertWineCatalog>(EMPTY_ENTRY);
+
+  useEffect(() => {
+    if (open) {
+      setValues(entry
+        ? {
+            name: entry.name,
+            category: entry.category,
+            wine: entry.wine,
+            subType: entry.subType,
+            producer: entry.producer,
+            region: entry.region,
+            country: entry.country,
+            barcode: entry.barcode,
+          }
+        : EMPTY_ENTRY);
+    }
+  }, [open, entry]);
+
+  // Optional fields left blank are saved empty
+  const set = (field: keyof InsertWineCatalog, value: string) => {
+    setValues(prev => ({ ...prev, [field]: field === "name" || field === "category" ? value : value || null }));
+  };
+
+  const isValid = values.name.trim().length > 0 && values.category.trim().length > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{entry ? "Edit Catalog Entry" : "Add Catalog Entry"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {FIELDS.map(({ field, label, placeholder }) => (
+            <div key={field} className={field === "name" ? "sm:col-span-2" : undefined}>
+              <Label htmlFor={`catalog-${field}`}>{label}</Label>
+              <Input
+                id={`catalog-${field}`}
+                placeholder={placeholder}
+                value={values[field] ?? ""}
+                onChange={(e) => set(field, e.target.value)}
+                list={field === "category" ? "catalog-categories" : undefined}
+                inputMode={field === "barcode" ? "numeric" : undefined}
+              />
+            </div>
+          ))}
+          <datalist id="catalog-categories">
+            {Object.values(WineCategory).map(category => (
+              <option key={category} value={category} />
+            ))}
+          </datalist>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => onSubmit(values)} disabled={!isValid || isPending}>
+            {entry ? "Save" : "Add"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
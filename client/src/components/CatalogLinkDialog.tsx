@@ -0,0 +1,147 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { CATALOG_SYNC_FIELDS, CatalogLink, CatalogSyncField, Wine } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { WineService } from "@/lib/wine-api";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Unlink } from "lucide-react";
+
+const FIELD_LABELS: Record<CatalogSyncField, string> = {
+  name: "Name",
+  category: "Category",
+  wine: "Wine Type",
+  subType: "Sub-Type",
+  producer: "Producer",
+  region: "Region",
+  country: "Country",
+  barcode: "Barcode",
+};
+
+interface CatalogLinkDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  wine: Wine;
+}
+
+// Shows how a linked wine differs from its catalog entry, and copies the chosen fields across
+export default function CatalogLinkDialog({ open, onOpenChange, wine }: CatalogLinkDialogProps) {
+  const { toast } = useToast();
+  const [selected, setSelected] = useState<CatalogSyncField[]>([]);
+
+  const { data: link, isLoading } = useQuery<CatalogLink>({
+    queryKey: [`/api/wines/${wine.id}/catalog`],
+    enabled: open,
+  });
+
+  const differing = CATALOG_SYNC_FIELDS.filter(field =>
+    link?.values[field] !== undefined && link.values[field] !== (wine[field] ?? ""));
+
+  // Every field that differs is re-synced unless unticked
+  useEffect(() => {
+    if (open && link) {
+      setSelected(differing);
+    }
+  }, [open, link]);
+
+  const onSuccess = (updated: Wine) => {
+    queryClient.setQueryData([`/api/wines/${wine.id}`], updated);
+    queryClient.invalidateQueries({ queryKey: ["/api/wines"] });
+    onOpenChange(false);
+  };
+
+  const onError = (error: unknown) => {
+    // The wine is reloaded so a change made elsewhere shows before trying again
+    queryClient.invalidateQueries({ queryKey: [`/api/wines/${wine.id}`] });
+    toast({
+      variant: "destructive",
+      title: "Update Failed",
+      description: error instanceof Error ? error.message : "An unknown error occurred",
+    });
+  };
+
+  const syncMutation = useMutation({
+    mutationFn: () => WineService.syncWithCatalog(wine.id, selected, wine.version),
+    onSuccess: (updated) => {
+      onSuccess(updated);
+      toast({
+        title: "Bottle Re-synced",
+        description: `${selected.length} field${selected.length !== 1 ? "s" : ""} updated from the catalog.`,
+      });
+    },
+    onError,
+  });
+
+  const unlinkMutation = useMutation({
+    mutationFn: () => WineService.updateWine(wine.id, { catalogId: null }, wine.version),
+    onSuccess: (updated) => {
+      onSuccess(updated);
+      queryClient.invalidateQueries({ queryKey: [`/api/wines/${wine.id}/catalog-suggestions`] });
+      toast({
+        title: "Unlinked from Catalog",
+        description: `${wine.name} is no longer linked to a catalog entry.`,
+      });
+    },
+    onError,
+  });
+
+  const toggle = (field: CatalogSyncField, checked: boolean) => {
+    setSelected(current => checked ? [...current, field] : current.filter(f => f !== field));
+  };
+
+  const isPending = syncMutation.isPending || unlinkMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Linked to Catalog</DialogTitle>
+          <DialogDescription>
+            {link ? `This bottle is linked to ${link.entry.name} in the catalog.` : "This bottle is linked to a catalog entry."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && <p className="text-sm text-muted-foreground">Loading catalog entry...</p>}
+
+        {link && differing.length === 0 && (
+          <p className="text-sm text-muted-foreground">Every field matches the catalog.</p>
+        )}
+
+        {link && differing.length > 0 && (
+          <div className="space-y-3">
+            <p className="text-sm">Choose the fields to update from the catalog:</p>
+            {differing.map(field => (
+              <label key={field} className="flex items-start gap-3 text-sm">
+                <Checkbox
+                  checked={selected.includes(field)}
+                  onCheckedChange={(checked) => toggle(field, checked === true)}
+                  className="mt-0.5"
+                />
+                <div className="min-w-0">
+                  <span className="font-medium">{FIELD_LABELS[field]}</span>
+                  <p className="text-muted-foreground break-words">
+                    <span className="line-through">{wine[field] || "Not specified"}</span>
+                    {" → "}
+                    <span className="text-foreground">{link.values[field]}</span>
+                  </p>
+                </div>
+              </label>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => unlinkMutation.mutate()} disabled={isPending}>
+            <Unlink className="mr-2 h-4 w-4" />
+            Unlink
+          </Button>
+          <Button onClick={() => syncMutation.mutate()} disabled={selected.length === 0 || isPending}>
+            {syncMutation.isPending ? "Updating..." : "Re-sync Fields"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
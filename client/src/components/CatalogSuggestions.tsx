@@ -0,0 +1,86 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { CatalogSuggestion, Wine } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { WineService } from "@/lib/wine-api";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Link2 } from "lucide-react";
+
+interface CatalogSuggestionsProps {
+  wine: Wine;
+}
+
+// Catalog entries the background matcher thinks an unlinked wine may be, to link or turn down
+export default function CatalogSuggestions({ wine }: CatalogSuggestionsProps) {
+  const { toast } = useToast();
+
+  const { data: suggestions = [] } = useQuery<CatalogSuggestion[]>({
+    queryKey: [`/api/wines/${wine.id}/catalog-suggestions`],
+  });
+
+  const onError = (error: unknown) => {
+    toast({
+      variant: "destructive",
+      title: "Update Failed",
+      description: error instanceof Error ? error.message : "An unknown error occurred",
+    });
+  };
+
+  const linkMutation = useMutation({
+    mutationFn: (suggestion: CatalogSuggestion) => WineService.updateWine(wine.id, { catalogId: suggestion.catalogId }, wine.version),
+    onSuccess: (updated, suggestion) => {
+      queryClient.setQueryData([`/api/wines/${wine.id}`], updated);
+      queryClient.invalidateQueries({ queryKey: ["/api/wines"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/wines/${wine.id}/catalog-suggestions`] });
+      toast({
+        title: "Linked to Catalog",
+        description: `${wine.name} is now linked to ${suggestion.entry.name}.`,
+      });
+    },
+    onError,
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: (suggestion: CatalogSuggestion) => WineService.dismissCatalogSuggestion(wine.id, suggestion.catalogId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/wines/${wine.id}/catalog-suggestions`] });
+    },
+    onError,
+  });
+
+  if (suggestions.length === 0) {
+    return null;
+  }
+
+  const isPending = linkMutation.isPending || dismissMutation.isPending;
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <h3 className="text-sm font-medium">Is This Bottle in the Catalog?</h3>
+      {suggestions.map(suggestion => (
+        <div key={suggestion.catalogId} className="flex items-center justify-between gap-2">
+          <div className="min-w-0 text-sm">
+            <span className="font-medium">{suggestion.entry.name}</span>
+            {suggestion.entry.producer && suggestion.entry.producer !== "NA" && (
+              <span className="text-muted-foreground"> · {suggestion.entry.producer}</span>
+            )}
+            {suggestion.entry.region && suggestion.entry.region !== "NA" && (
+              <span className="text-muted-foreground"> · {suggestion.entry.region}</span>
+            )}
+          </div>
+          <div className="flex items-center gap-1 shrink-0">
+            <Badge variant="secondary" title="How closely the catalog entry matches">{suggestion.score}%</Badge>
+            <Button variant="ghost" size="sm" onClick={() => linkMutation.mutate(suggestion)} disabled={isPending}>
+              <Link2 className="mr-1 h-4 w-4" />
+              Link
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => dismissMutation.mutate(suggestion)} disabled={isPending}>
+              Not This One
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { CellarWithStock, InsertCellar } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { WineService } from "@/lib/wine-api";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Edit, Plus, Trash2 } from "lucide-react";
+
+interface CellarManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  cellars: CellarWithStock[];
+}
+
+const emptyCellar: InsertCellar = { name: "", address: null, notes: null, capacity: null };
+
+export default function CellarManager({ open, onOpenChange, cellars }: CellarManagerProps) {
+  const { toast } = useToast();
+  // The cellar being edited: null while adding a new one, undefined when the form is closed
+  const [editingId, setEditingId] = useState<number | null | undefined>(undefined);
+  const [values, setValues] = useState<InsertCellar>(emptyCellar);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/cellars"] });
+  };
+
+  const onError = (error: unknown) => {
+    toast({
+      variant: "destructive",
+      title: "Cellar Not Saved",
+      description: error instanceof Error ? error.message : "An unknown error occurred",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => editingId
+      ? WineService.updateCellar(editingId, values)
+      : WineService.addCellar(values),
+    onSuccess: () => {
+      refresh();
+      setEditingId(undefined);
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => WineService.deleteCellar(id),
+    onSuccess: refresh,
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Cellar Not Deleted",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+      });
+    },
+  });
+
+  const startEditing = (cellar?: CellarWithStock) => {
+    setEditingId(cellar ? cellar.id : null);
+    setValues(cellar
+      ? { name: cellar.name, address: cellar.address, notes: cellar.notes, capacity: cellar.capacity }
+      : emptyCellar);
+  };
+
+  const set = <K extends keyof InsertCellar>(field: K, value: InsertCellar[K]) => {
+    setValues(prev => ({ ...prev, [field]: value }));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Cellars</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {cellars.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              Add the places you keep bottles, such as your home cellar or a storage facility.
+            </p>
+          )}
+          {cellars.map(cellar => (
+            <div key={cellar.id} className="flex items-center justify-between text-sm border rounded-md p-2">
+              <div>
+                <div className="font-medium">{cellar.name}</div>
+                <div className="text-xs text-muted-foreground">
+                  {cellar.bottles}{cellar.capacity ? ` / ${cellar.capacity}` : ""} bottle{cellar.bottles !== 1 ? "s" : ""}
+                  {cellar.address && ` · ${cellar.address}`}
+                </div>
+              </div>
+              <div className="flex gap-1">
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => startEditing(cellar)}>
+                  <Edit className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => deleteMutation.mutate(cellar.id)}
+                  disabled={deleteMutation.isPending || cellar.bottles > 0}
+                  title={cellar.bottles > 0 ? "Move its bottles out before deleting it" : undefined}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {editingId === undefined ? (
+          <div className="flex justify-end">
+            <Button size="sm" variant="outline" onClick={() => startEditing()}>
+              <Plus className="mr-1 h-4 w-4" />
+              Add Cellar
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-3 border-t pt-4">
+            <div className="grid grid-cols-3 gap-2">
+              <div className="col-span-2">
+                <Label htmlFor="cellar-name">Name</Label>
+                <Input
+                  id="cellar-name"
+                  placeholder="e.g., Home cellar"
+                  value={values.name}
+                  onChange={(e) => set("name", e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="cellar-capacity">Capacity</Label>
+                <Input
+                  id="cellar-capacity"
+                  type="number"
+                  min={1}
+                  value={values.capacity ?? ""}
+                  onChange={(e) => set("capacity", parseInt(e.target.value) || null)}
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="cellar-address">Address</Label>
+              <Input
+                id="cellar-address"
+                value={values.address ?? ""}
+                onChange={(e) => set("address", e.target.value || null)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="cellar-notes">Notes</Label>
+              <Textarea
+                id="cellar-notes"
+                value={values.notes ?? ""}
+                onChange={(e) => set("notes", e.target.value || null)}
+              />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setEditingId(undefined)}>Cancel</Button>
+              <Button
+                onClick={() => saveMutation.mutate()}
+                disabled={saveMutation.isPending || !values.name.trim()}
+              >
+                {editingId ? "Save" : "Add"}
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
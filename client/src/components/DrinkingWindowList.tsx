@@ -0,0 +1,108 @@
+import { useMemo } from "react";
+import { Link } from "wouter";
+import { Wine } from "@shared/schema";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Clock } from "lucide-react";
+import { getCategoryColor } from "@/lib/wine-categories";
+import {
+  DrinkingStatus,
+  DrinkingStatusType,
+  DrinkingWindow,
+  formatDrinkingWindow,
+  getDrinkingStatus,
+  getDrinkingStatusLabel,
+  getDrinkingWindow,
+} from "@/lib/drinking-window";
+
+interface DrinkingWindowListProps {
+  wines: Wine[];
+}
+
+interface DrinkingWindowRow {
+  wine: Wine;
+  vintage: number;
+  stock: number;
+  window: DrinkingWindow;
+  status: DrinkingStatusType;
+}
+
+// Most urgent first: past their window, then ready, then ready next year
+const STATUS_ORDER: DrinkingStatusType[] = [DrinkingStatus.PAST, DrinkingStatus.READY, DrinkingStatus.ENTERING];
+
+const getStatusVariant = (status: DrinkingStatusType) => {
+  switch (status) {
+    case DrinkingStatus.PAST:
+      return "destructive" as const;
+    case DrinkingStatus.READY:
+      return "default" as const;
+    default:
+      return "secondary" as const;
+  }
+};
+
+export default function DrinkingWindowList({ wines }: DrinkingWindowListProps) {
+  const rows = useMemo(() => {
+    const result: DrinkingWindowRow[] = [];
+
+    wines.forEach(wine => {
+      (wine.vintageStocks || []).filter(vs => vs.stock > 0).forEach(vs => {
+        const window = getDrinkingWindow(wine.category, wine.region, vs.vintage, vs);
+        if (!window) return;
+
+        const status = getDrinkingStatus(window);
+        if (STATUS_ORDER.includes(status)) {
+          result.push({ wine, vintage: vs.vintage, stock: vs.stock, window, status });
+        }
+      });
+    });
+
+    // Within a status, the window that closes soonest comes first
+    return result.sort((a, b) =>
+      STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) ||
+      a.window.drinkBy - b.window.drinkBy ||
+      a.window.drinkFrom - b.window.drinkFrom
+    );
+  }, [wines]);
+
+  if (rows.length === 0) {
+    return (
+      <Alert className="bg-muted/50">
+        <Clock className="h-5 w-5" />
+        <AlertDescription>
+          Nothing needs drinking yet. Vintages appear here as they approach their drinking window.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {rows.map(row => (
+        <Link key={`${row.wine.id}-${row.vintage}`} href={`/wine/${row.wine.id}`}>
+          <Card className="cursor-pointer hover:bg-muted/50 transition-colors mb-2">
+            <CardContent className="p-4">
+              <div className="flex justify-between items-start gap-2">
+                <div className="flex flex-col">
+                  <h3 className="font-medium">{row.wine.name} {row.vintage}</h3>
+                  <span className="text-sm text-muted-foreground">
+                    Drink {formatDrinkingWindow(row.window)}
+                    {row.window.suggested && " (suggested)"}
+                    {" · "}{row.stock} bottle{row.stock !== 1 ? "s" : ""}
+                  </span>
+                </div>
+                <div className="flex flex-col items-end gap-1">
+                  <Badge variant={getStatusVariant(row.status)}>{getDrinkingStatusLabel(row.status)}</Badge>
+                  <Badge variant="outline" style={{ borderColor: getCategoryColor(row.wine.category) }}>
+                    {row.wine.category}
+                  </Badge>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </Link>
+      ))}
+    </div>
+  );
+}
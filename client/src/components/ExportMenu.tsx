@@ -0,0 +1,50 @@
+import { Download } from "lucide-react";
+import { ExportFormat } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { WineService } from "@/lib/wine-api";
+
+interface ExportMenuProps {
+  category: string;
+  filter: string;
+}
+
+const FORMAT_LABELS = [
+  { format: ExportFormat.CSV, label: "CSV" },
+  { format: ExportFormat.XLSX, label: "Excel (.xlsx)" },
+  { format: ExportFormat.JSON, label: "JSON (for importing)" },
+];
+
+// Downloads the wines currently shown in the collection
+export default function ExportMenu({ category, filter }: ExportMenuProps) {
+  const isFiltered = category !== "All" || !!filter;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" title="Export">
+          <Download className="h-5 w-5" />
+          <span className="sr-only">Export</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>{isFiltered ? "Export filtered wines" : "Export collection"}</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {FORMAT_LABELS.map(({ format, label }) => (
+          <DropdownMenuItem key={format} asChild>
+            <a href={WineService.getExportUrl(format, category, filter)} download>
+              {label}
+            </a>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,68 @@
+import { useState } from "react";
+import { StockEntry } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import StockLevelControl from "@/components/StockLevelControl";
+import BottleFormatSelect from "@/components/BottleFormatSelect";
+import { getFormatLabel } from "@/lib/bottle-formats";
+
+interface FormatStockManagerProps {
+  // Non-vintage stock, one entry per bottle format
+  entries: StockEntry[];
+  onAdjust: (delta: number, volumeMl: number) => void;
+  // Format preselected for new entries
+  defaultVolumeMl: number;
+}
+
+export default function FormatStockManager({ entries, onAdjust, defaultVolumeMl }: FormatStockManagerProps) {
+  const [volumeMl, setVolumeMl] = useState(defaultVolumeMl);
+  const [count, setCount] = useState(1);
+
+  // A wine with no stock still shows a control for its usual format
+  const rows = entries.length > 0
+    ? [...entries].sort((a, b) => a.volumeMl - b.volumeMl)
+    : [{ vintage: null, volumeMl: defaultVolumeMl, stock: 0 }];
+
+  const handleAdd = () => {
+    if (volumeMl >= 50 && count > 0) {
+      onAdjust(count, volumeMl);
+      setCount(1);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {rows.map(entry => (
+        <div key={entry.volumeMl} className="flex items-center justify-between gap-2">
+          <span className="text-sm">{getFormatLabel(entry.volumeMl)}</span>
+          <StockLevelControl
+            value={entry.stock}
+            onChange={(_, delta) => onAdjust(delta, entry.volumeMl)}
+          />
+        </div>
+      ))}
+
+      <div className="pt-2 flex flex-wrap items-end gap-2">
+        <div>
+          <Label htmlFor="format-count" className="text-xs">Bottles</Label>
+          <Input
+            id="format-count"
+            type="number"
+            min={1}
+            value={count}
+            onChange={(e) => setCount(parseInt(e.target.value) || 1)}
+            className="w-20"
+          />
+        </div>
+        <div>
+          <Label htmlFor="format-volume" className="text-xs">Format</Label>
+          <BottleFormatSelect id="format-volume" value={volumeMl} onChange={setVolumeMl} />
+        </div>
+        <Button type="button" size="sm" onClick={handleAdd} className="mb-0.5">
+          Add Format
+        </Button>
+      </div>
+    </div>
+  );
+}
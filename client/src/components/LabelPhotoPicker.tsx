@@ -0,0 +1,86 @@
+import { useRef } from "react";
+import { PhotoSide, PhotoSideType } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Camera, ImageIcon, Trash2 } from "lucide-react";
+
+const SIDE_LABELS: Record<PhotoSideType, string> = {
+  [PhotoSide.FRONT]: "Front Label",
+  [PhotoSide.BACK]: "Back Label",
+};
+
+interface LabelPhotoPickerProps {
+  // Image URLs of the photos each side has
+  photos: Partial<Record<PhotoSideType, string>>;
+  onSelect: (side: PhotoSideType, file: File) => void;
+  onRemove: (side: PhotoSideType) => void;
+  disabled?: boolean;
+}
+
+interface PhotoSlotProps {
+  side: PhotoSideType;
+  url?: string;
+  onSelect: (file: File) => void;
+  onRemove: () => void;
+  disabled?: boolean;
+}
+
+// One side's photo, or buttons to take or choose one. On phones, taking a photo opens the rear camera.
+function PhotoSlot({ side, url, onSelect, onRemove, disabled }: PhotoSlotProps) {
+  const cameraInput = useRef<HTMLInputElement>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Picking the same file again should still count as a change
+    e.target.value = "";
+    if (file) onSelect(file);
+  };
+
+  return (
+    <div className="space-y-2">
+      <span className="text-sm font-medium">{SIDE_LABELS[side]}</span>
+      <div className="aspect-[3/4] rounded-md border bg-muted/30 overflow-hidden flex items-center justify-center">
+        {url ? (
+          <a href={url} target="_blank" rel="noreferrer" className="w-full h-full">
+            <img src={url} alt={SIDE_LABELS[side]} className="w-full h-full object-cover" />
+          </a>
+        ) : (
+          <ImageIcon className="h-8 w-8 text-muted-foreground" />
+        )}
+      </div>
+      <div className="flex gap-1">
+        <Button type="button" variant="outline" size="sm" className="flex-1" onClick={() => cameraInput.current?.click()} disabled={disabled}>
+          <Camera className="mr-1 h-4 w-4" />
+          Take
+        </Button>
+        <Button type="button" variant="outline" size="sm" className="flex-1" onClick={() => fileInput.current?.click()} disabled={disabled}>
+          Choose
+        </Button>
+        {url && (
+          <Button type="button" variant="ghost" size="sm" onClick={onRemove} disabled={disabled} aria-label={`Remove ${SIDE_LABELS[side].toLowerCase()} photo`}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      <input ref={cameraInput} type="file" accept="image/*" capture="environment" className="hidden" onChange={handleChange} />
+      <input ref={fileInput} type="file" accept="image/*" className="hidden" onChange={handleChange} />
+    </div>
+  );
+}
+
+export default function LabelPhotoPicker({ photos, onSelect, onRemove, disabled }: LabelPhotoPickerProps) {
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      {[PhotoSide.FRONT, PhotoSide.BACK].map(side => (
+        <PhotoSlot
+          key={side}
+          side={side}
+          url={photos[side]}
+          onSelect={(file) => onSelect(side, file)}
+          onRemove={() => onRemove(side)}
+          disabled={disabled}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { LABEL_SCAN_FIELDS, LabelScan, LabelScanField, LabelScanSource, WineCatalog } from "@shared/schema";
+import { WineService } from "@/lib/wine-api";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Camera, Check, ImageIcon, Loader2, ScanText, X } from "lucide-react";
+
+const FIELD_LABELS: Record<LabelScanField, string> = {
+  name: "Name",
+  producer: "Producer",
+  vintage: "Vintage",
+  region: "Region",
+  country: "Country",
+};
+
+// Confidence shown as a word, as the exact figure means little to most people
+const getConfidenceHint = (confidence: number): { label: string; variant: "default" | "secondary" | "outline" } => {
+  if (confidence >= 0.8) return { label: "High", variant: "default" };
+  if (confidence >= 0.5) return { label: "Medium", variant: "secondary" };
+  return { label: "Low", variant: "outline" };
+};
+
+interface LabelScannerProps {
+  onAccept: (field: LabelScanField, value: string) => void;
+  onUseCatalogEntry: (entry: WineCatalog) => void;
+  // The photo that was read, which can be kept as the front label photo
+  onScanned?: (photo: File) => void;
+}
+
+// Reads a photographed label and offers what it found for the form, one field at a time
+export default function LabelScanner({ onAccept, onUseCatalogEntry, onScanned }: LabelScannerProps) {
+  const { toast } = useToast();
+  const cameraInput = useRef<HTMLInputElement>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [scan, setScan] = useState<LabelScan | null>(null);
+  const [decided, setDecided] = useState<Partial<Record<LabelScanField, "accepted" | "rejected">>>({});
+  const [showText, setShowText] = useState(false);
+
+  const scanMutation = useMutation({
+    mutationFn: (photo: File) => WineService.scanLabel(photo),
+    onSuccess: (result, photo) => {
+      setScan(result);
+      setDecided({});
+      onScanned?.(photo);
+      if (Object.keys(result.suggestions).length === 0 && result.catalogMatches.length === 0) {
+        toast({
+          title: "Nothing Recognized",
+          description: "No text could be read off the label. Try a closer, sharper photo in good light.",
+        });
+      }
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Label Not Scanned",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+      });
+    },
+  });
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) scanMutation.mutate(file);
+  };
+
+  const accept = (field: LabelScanField) => {
+    const suggestion = scan?.suggestions[field];
+    if (!suggestion) return;
+    onAccept(field, suggestion.value);
+    setDecided(current => ({ ...current, [field]: "accepted" }));
+  };
+
+  const pending = scan ? LABEL_SCAN_FIELDS.filter(field => scan.suggestions[field] && !decided[field]) : [];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={() => cameraInput.current?.click()} disabled={scanMutation.isPending}>
+          <Camera className="mr-2 h-4 w-4" />
+          Photograph Label
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={() => fileInput.current?.click()} disabled={scanMutation.isPending}>
+          <ImageIcon className="mr-2 h-4 w-4" />
+          Choose Photo
+        </Button>
+        {scanMutation.isPending && (
+          <span className="flex items-center text-sm text-muted-foreground">
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Reading label...
+          </span>
+        )}
+        <input ref={cameraInput} type="file" accept="image/*" capture="environment" className="hidden" onChange={handleChange} />
+        <input ref={fileInput} type="file" accept="image/*" className="hidden" onChange={handleChange} />
+      </div>
+
+      {scan && (
+        <div className="space-y-3 rounded-md border p-3">
+          {LABEL_SCAN_FIELDS.map(field => {
+            const suggestion = scan.suggestions[field];
+            if (!suggestion || decided[field] === "rejected") return null;
+            const hint = getConfidenceHint(suggestion.confidence);
+            return (
+              <div key={field} className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <span className="text-xs text-muted-foreground">{FIELD_LABELS[field]}</span>
+                  <p className="text-sm font-medium truncate">{suggestion.value}</p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Badge
+                    variant={hint.variant}
+                    title={`${Math.round(suggestion.confidence * 100)}% confident, from the ${suggestion.source === LabelScanSource.CATALOG ? "catalog" : "label"}`}
+                  >
+                    {hint.label}
+                  </Badge>
+                  {decided[field] === "accepted" ? (
+                    <Check className="h-4 w-4 text-green-600 mx-2" aria-label="Accepted" />
+                  ) : (
+                    <>
+                      <Button type="button" variant="ghost" size="sm" onClick={() => accept(field)} aria-label={`Use ${FIELD_LABELS[field].toLowerCase()}`}>
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setDecided(current => ({ ...current, [field]: "rejected" }))}
+                        aria-label={`Ignore ${FIELD_LABELS[field].toLowerCase()}`}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+
+          {pending.length > 1 && (
+            <Button type="button" size="sm" onClick={() => pending.forEach(accept)}>
+              Use All Suggestions
+            </Button>
+          )}
+
+          {scan.catalogMatches.length > 0 && (
+            <div className="space-y-1">
+              <span className="text-xs text-muted-foreground">Matches in the catalog</span>
+              {scan.catalogMatches.map(({ entry, score }) => (
+                <div key={entry.id} className="flex items-center justify-between gap-2">
+                  <div className="min-w-0 text-sm">
+                    <span className="font-medium">{entry.name}</span>
+                    {entry.producer && entry.producer !== "NA" && (
+                      <span className="text-muted-foreground"> · {entry.producer}</span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Badge variant={getConfidenceHint(score).variant}>{getConfidenceHint(score).label}</Badge>
+                    <Button type="button" variant="ghost" size="sm" onClick={() => onUseCatalogEntry(entry)}>
+                      Use
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {scan.text && (
+            <div>
+              <Button type="button" variant="link" size="sm" className="px-0 h-auto" onClick={() => setShowText(!showText)}>
+                <ScanText className="mr-1 h-4 w-4" />
+                {showText ? "Hide" : "Show"} text read off the label
+              </Button>
+              {showText && (
+                <pre className="mt-1 whitespace-pre-wrap text-xs text-muted-foreground">{scan.text}</pre>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
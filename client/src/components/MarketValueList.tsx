@@ -0,0 +1,199 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { DEFAULT_CURRENCY, InsertMarketValue, MarketValue } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { WineService } from "@/lib/wine-api";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { CURRENCIES, formatMoney } from "@/lib/currency";
+
+interface MarketValueListProps {
+  wineId: number;
+  vintages: number[];
+}
+
+const ALL_VINTAGES = "all";
+
+const toDateInput = (date: Date | string) => new Date(date).toISOString().slice(0, 10);
+
+export default function MarketValueList({ wineId, vintages }: MarketValueListProps) {
+  const { toast } = useToast();
+  const [isAdding, setIsAdding] = useState(false);
+  const [vintage, setVintage] = useState<number | null>(null);
+  const [value, setValue] = useState("");
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
+  const [valuedAt, setValuedAt] = useState(toDateInput(new Date()));
+  const [source, setSource] = useState("");
+
+  const { data: values = [], isLoading } = useQuery<MarketValue[]>({
+    queryKey: [`/api/wines/${wineId}/market-values`],
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/wines/${wineId}/market-values`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/valuation"] });
+  };
+
+  const onError = (error: unknown) => {
+    toast({
+      variant: "destructive",
+      title: "Market Value Not Saved",
+      description: error instanceof Error ? error.message : "An unknown error occurred",
+    });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: (entry: InsertMarketValue) => WineService.addMarketValue(wineId, entry),
+    onSuccess: () => {
+      refresh();
+      setIsAdding(false);
+      setValue("");
+      setSource("");
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (valueId: number) => WineService.deleteMarketValue(wineId, valueId),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const handleAdd = () => {
+    addMutation.mutate({
+      vintage,
+      value,
+      currency,
+      valuedAt: new Date(valuedAt),
+      source: source || null,
+    });
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading market values...</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {values.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No market values recorded yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {values.map(entry => (
+            <div key={entry.id} className="flex items-center justify-between text-sm">
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className="font-medium">{formatMoney(entry.value, entry.currency)}</span>
+                <span>{entry.vintage ?? "All vintages"}</span>
+                {entry.source && <span className="text-muted-foreground italic">{entry.source}</span>}
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-muted-foreground text-xs">
+                  {new Date(entry.valuedAt).toLocaleDateString('en-US', {
+                    month: 'short',
+                    day: 'numeric',
+                    year: 'numeric'
+                  })}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => deleteMutation.mutate(entry.id)}
+                  disabled={deleteMutation.isPending}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Button size="sm" variant="outline" onClick={() => setIsAdding(!isAdding)}>
+          <Plus className="mr-1 h-4 w-4" />
+          Add Market Value
+        </Button>
+      </div>
+
+      {isAdding && (
+        <div className="flex flex-wrap items-end gap-2">
+          {vintages.length > 0 && (
+            <div>
+              <Label htmlFor="value-vintage" className="text-xs">Vintage</Label>
+              <Select
+                value={vintage?.toString() ?? ALL_VINTAGES}
+                onValueChange={(v) => setVintage(v === ALL_VINTAGES ? null : parseInt(v))}
+              >
+                <SelectTrigger id="value-vintage" className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_VINTAGES}>All vintages</SelectItem>
+                  {vintages.map(v => (
+                    <SelectItem key={v} value={v.toString()}>{v}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div>
+            <Label htmlFor="value-amount" className="text-xs">Value per 75cl</Label>
+            <Input
+              id="value-amount"
+              inputMode="decimal"
+              placeholder="0.00"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              className="w-24"
+            />
+          </div>
+          <div>
+            <Label htmlFor="value-currency" className="text-xs">Currency</Label>
+            <Select value={currency} onValueChange={setCurrency}>
+              <SelectTrigger id="value-currency" className="w-24">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CURRENCIES.map(c => (
+                  <SelectItem key={c} value={c}>{c}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="value-date" className="text-xs">Date</Label>
+            <Input
+              id="value-date"
+              type="date"
+              value={valuedAt}
+              onChange={(e) => setValuedAt(e.target.value)}
+              className="w-40"
+            />
+          </div>
+          <div>
+            <Label htmlFor="value-source" className="text-xs">Source</Label>
+            <Input
+              id="value-source"
+              placeholder="e.g., Auction"
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+              className="w-32"
+            />
+          </div>
+          <Button
+            size="sm"
+            onClick={handleAdd}
+            disabled={addMutation.isPending || !/^\d+(\.\d{1,2})?$/.test(value) || !valuedAt}
+          >
+            Save
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import { useEffect, useState } from "react";
+import { DEFAULT_CURRENCY, InsertPurchase } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import BottleFormatSelect from "@/components/BottleFormatSelect";
+import { CURRENCIES } from "@/lib/currency";
+
+interface PurchaseFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  isVintageApplicable: boolean;
+  defaultVolumeMl: number;
+  onSubmit: (purchase: InsertPurchase) => void;
+  isPending?: boolean;
+}
+
+const toDateInput = (date: Date | string) => new Date(date).toISOString().slice(0, 10);
+
+const emptyPurchase = (isVintageApplicable: boolean, volumeMl: number): InsertPurchase => ({
+  vintage: isVintageApplicable ? new Date().getFullYear() : null,
+  volumeMl,
+  quantity: 1,
+  unitPrice: "",
+  currency: DEFAULT_CURRENCY,
+  purchasedAt: new Date(),
+  merchant: null,
+  invoiceRef: null,
+});
+
+export default function PurchaseForm({ open, onOpenChange, isVintageApplicable, defaultVolumeMl, onSubmit, isPending = false }: PurchaseFormProps) {
+  const [values, setValues] = useState<InsertPurchase>(emptyPurchase(isVintageApplicable, defaultVolumeMl));
+
+  // Start from a blank purchase each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setValues(emptyPurchase(isVintageApplicable, defaultVolumeMl));
+    }
+  }, [open]);
+
+  const set = <K extends keyof InsertPurchase>(field: K, value: InsertPurchase[K]) => {
+    setValues(prev => ({ ...prev, [field]: value }));
+  };
+
+  const isValid = values.quantity > 0 && /^\d+(\.\d{1,2})?$/.test(values.unitPrice);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Record Purchase</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-4">
+            <div>
+              <Label htmlFor="purchase-date">Purchased on</Label>
+              <Input
+                id="purchase-date"
+                type="date"
+                value={values.purchasedAt ? toDateInput(values.purchasedAt) : ""}
+                onChange={(e) => set("purchasedAt", e.target.value ? new Date(e.target.value) : undefined)}
+                className="w-40"
+              />
+            </div>
+            {isVintageApplicable && (
+              <div>
+                <Label htmlFor="purchase-vintage">Vintage</Label>
+                <Input
+                  id="purchase-vintage"
+                  type="number"
+                  value={values.vintage ?? ""}
+                  onChange={(e) => set("vintage", parseInt(e.target.value) || null)}
+                  className="w-24"
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-4">
+            <div>
+              <Label htmlFor="purchase-quantity">Bottles</Label>
+              <Input
+                id="purchase-quantity"
+                type="number"
+                min={1}
+                value={values.quantity}
+                onChange={(e) => set("quantity", parseInt(e.target.value) || 1)}
+                className="w-20"
+              />
+            </div>
+            <div>
+              <Label htmlFor="purchase-format">Format</Label>
+              <BottleFormatSelect
+                id="purchase-format"
+                value={values.volumeMl ?? defaultVolumeMl}
+                onChange={(volumeMl) => set("volumeMl", volumeMl)}
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-4">
+            <div>
+              <Label htmlFor="purchase-price">Price per bottle</Label>
+              <Input
+                id="purchase-price"
+                inputMode="decimal"
+                placeholder="0.00"
+                value={values.unitPrice}
+                onChange={(e) => set("unitPrice", e.target.value)}
+                className="w-28"
+              />
+            </div>
+            <div>
+              <Label htmlFor="purchase-currency">Currency</Label>
+              <Select value={values.currency} onValueChange={(currency) => set("currency", currency)}>
+                <SelectTrigger id="purchase-currency" className="w-24">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CURRENCIES.map(currency => (
+                    <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-4">
+            <div className="flex-1">
+              <Label htmlFor="purchase-merchant">Merchant</Label>
+              <Input
+                id="purchase-merchant"
+                placeholder="e.g., Berry Bros. & Rudd"
+                value={values.merchant ?? ""}
+                onChange={(e) => set("merchant", e.target.value || null)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="purchase-invoice">Invoice ref</Label>
+              <Input
+                id="purchase-invoice"
+                value={values.invoiceRef ?? ""}
+                onChange={(e) => set("invoiceRef", e.target.value || null)}
+                className="w-32"
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => onSubmit(values)} disabled={isPending || !isValid}>
+            Add to Stock
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
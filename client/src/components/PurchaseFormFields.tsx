@@ -0,0 +1,135 @@
+import { UseFormReturn } from "react-hook-form";
+import { DEFAULT_CURRENCY, InsertWine } from "@shared/schema";
+import { FormField, FormItem, FormLabel, FormControl, FormDescription, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CURRENCIES } from "@/lib/currency";
+
+interface PurchaseFormFieldsProps {
+  form: UseFormReturn<InsertWine>;
+}
+
+const toDateInput = (date: Date | string) => new Date(date).toISOString().slice(0, 10);
+
+// Optional purchase details for the bottles being added. They are only validated once switched on.
+export default function PurchaseFormFields({ form }: PurchaseFormFieldsProps) {
+  const purchase = form.watch("purchase");
+
+  const togglePurchase = (enabled: boolean) => {
+    form.setValue("purchase", enabled
+      ? { unitPrice: "", currency: DEFAULT_CURRENCY, purchasedAt: new Date(), merchant: null, invoiceRef: null }
+      : null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Switch id="record-purchase" checked={!!purchase} onCheckedChange={togglePurchase} />
+        <Label htmlFor="record-purchase">Record what I paid</Label>
+      </div>
+
+      {purchase && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <FormField
+              control={form.control}
+              name="purchase.unitPrice"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Price per Bottle*</FormLabel>
+                  <FormControl>
+                    <Input inputMode="decimal" placeholder="0.00" {...field} value={field.value ?? ""} />
+                  </FormControl>
+                  <FormDescription>
+                    Applies to every bottle added
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="purchase.currency"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Currency</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value ?? DEFAULT_CURRENCY}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {CURRENCIES.map(currency => (
+                        <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="purchase.purchasedAt"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Purchased On</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="date"
+                      value={field.value ? toDateInput(field.value) : ""}
+                      onChange={(e) => field.onChange(e.target.value ? new Date(e.target.value) : undefined)}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="purchase.merchant"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Merchant</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="e.g., Berry Bros. & Rudd"
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(e.target.value || null)}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="purchase.invoiceRef"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Invoice Reference</FormLabel>
+                  <FormControl>
+                    <Input
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(e.target.value || null)}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
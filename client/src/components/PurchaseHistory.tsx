@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { DEFAULT_VOLUME_ML, InsertPurchase, Purchase, Wine } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { WineService } from "@/lib/wine-api";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Plus } from "lucide-react";
+import PurchaseForm from "@/components/PurchaseForm";
+import { getDefaultVolumeMl, getFormatLabel } from "@/lib/bottle-formats";
+import { formatMoney } from "@/lib/currency";
+
+interface PurchaseHistoryProps {
+  wine: Wine;
+  isVintageApplicable: boolean;
+}
+
+export default function PurchaseHistory({ wine, isVintageApplicable }: PurchaseHistoryProps) {
+  const { toast } = useToast();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  const { data: purchases = [], isLoading } = useQuery<Purchase[]>({
+    queryKey: [`/api/wines/${wine.id}/purchases`],
+  });
+
+  const addMutation = useMutation({
+    mutationFn: (purchase: InsertPurchase) => WineService.addPurchase(wine.id, purchase),
+    onSuccess: (purchase) => {
+      // A purchase adds stock, so everything showing this wine's stock is refreshed
+      queryClient.invalidateQueries({ queryKey: [`/api/wines/${wine.id}/purchases`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/wines/${wine.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/wines/${wine.id}/movements`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/wines/${wine.id}/bottles`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/wines"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/purchases/summary"] });
+      setIsFormOpen(false);
+      toast({
+        title: "Purchase Recorded",
+        description: `${purchase.quantity} bottle${purchase.quantity !== 1 ? "s" : ""} added to your stock.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Purchase Not Recorded",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-3">
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading purchases...</p>
+      ) : purchases.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No purchases recorded yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {purchases.map(purchase => (
+            <div key={purchase.id} className="flex items-center justify-between text-sm">
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className="font-medium">{purchase.quantity} ×</span>
+                {purchase.vintage && <span>{purchase.vintage}</span>}
+                {purchase.volumeMl !== DEFAULT_VOLUME_ML && <span>{getFormatLabel(purchase.volumeMl)}</span>}
+                <span>@ {formatMoney(purchase.unitPrice, purchase.currency)}</span>
+                {purchase.merchant && <span className="text-muted-foreground">from {purchase.merchant}</span>}
+                {purchase.invoiceRef && (
+                  <span className="text-muted-foreground text-xs">#{purchase.invoiceRef}</span>
+                )}
+              </div>
+              <span className="text-muted-foreground text-xs w-20 text-right">
+                {new Date(purchase.purchasedAt).toLocaleDateString('en-US', {
+                  month: 'short',
+                  day: 'numeric',
+                  year: 'numeric'
+                })}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Button size="sm" variant="outline" onClick={() => setIsFormOpen(true)}>
+          <Plus className="mr-1 h-4 w-4" />
+          Record Purchase
+        </Button>
+      </div>
+
+      <PurchaseForm
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        isVintageApplicable={isVintageApplicable}
+        defaultVolumeMl={getDefaultVolumeMl(wine.category)}
+        onSubmit={(purchase) => addMutation.mutate(purchase)}
+        isPending={addMutation.isPending}
+      />
+    </div>
+  );
+}
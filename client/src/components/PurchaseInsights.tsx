@@ -0,0 +1,53 @@
+import { useQuery } from "@tanstack/react-query";
+import { PurchaseSummary } from "@shared/schema";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { formatMoney } from "@/lib/currency";
+
+// Total spend per currency across all categories
+const getTotalsByCurrency = (summary: PurchaseSummary[]) =>
+  Object.entries(
+    summary.reduce<Record<string, number>>((acc, row) => {
+      acc[row.currency] = (acc[row.currency] || 0) + parseFloat(row.totalSpend);
+      return acc;
+    }, {})
+  );
+
+export default function PurchaseInsights() {
+  const { data: summary = [], isLoading } = useQuery<PurchaseSummary[]>({
+    queryKey: ["/api/purchases/summary"],
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading purchases...</p>;
+  }
+
+  if (summary.length === 0) {
+    return <p className="text-sm text-muted-foreground">Record what you paid for bottles to see your spend.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <p>Total spend: {getTotalsByCurrency(summary).map(([currency, total]) => formatMoney(total, currency)).join(" + ")}</p>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Category</TableHead>
+            <TableHead className="text-right">Bottles bought</TableHead>
+            <TableHead className="text-right">Total spend</TableHead>
+            <TableHead className="text-right">Avg. per bottle</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {summary.map(row => (
+            <TableRow key={`${row.category}-${row.currency}`}>
+              <TableCell>{row.category}</TableCell>
+              <TableCell className="text-right">{row.bottles}</TableCell>
+              <TableCell className="text-right">{formatMoney(row.totalSpend, row.currency)}</TableCell>
+              <TableCell className="text-right">{formatMoney(row.averageCost, row.currency)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import { Cellar, InsertRack, Rack } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { UNASSIGNED, fromScopeValue, toScopeValue } from "@/lib/cellars";
+
+interface RackFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The rack being edited, or undefined to add one
+  rack?: Rack;
+  cellars: Cellar[];
+  defaultCellarId: number | null;
+  onSubmit: (rack: InsertRack) => void;
+  isPending?: boolean;
+}
+
+export default function RackForm({ open, onOpenChange, rack, cellars, defaultCellarId, onSubmit, isPending = false }: RackFormProps) {
+  const [values, setValues] = useState<InsertRack>({ name: "", rows: 6, columns: 8, cellarId: null });
+
+  useEffect(() => {
+    if (open) {
+      setValues(rack
+        ? { name: rack.name, rows: rack.rows, columns: rack.columns, cellarId: rack.cellarId }
+        : { name: "", rows: 6, columns: 8, cellarId: defaultCellarId });
+    }
+  }, [open, rack]);
+
+  const set = <K extends keyof InsertRack>(field: K, value: InsertRack[K]) => {
+    setValues(prev => ({ ...prev, [field]: value }));
+  };
+
+  const isValid = values.name.trim().length > 0 && values.rows >= 1 && values.rows <= 50 && values.columns >= 1 && values.columns <= 50;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{rack ? "Edit Rack" : "Add Rack"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="rack-name">Name</Label>
+            <Input
+              id="rack-name"
+              placeholder="e.g., Left wall"
+              value={values.name}
+              onChange={(e) => set("name", e.target.value)}
+            />
+          </div>
+          <div className="flex gap-4">
+            <div>
+              <Label htmlFor="rack-rows">Rows</Label>
+              <Input
+                id="rack-rows"
+                type="number"
+                min={1}
+                max={50}
+                value={values.rows}
+                onChange={(e) => set("rows", parseInt(e.target.value) || 0)}
+                className="w-24"
+              />
+            </div>
+            <div>
+              <Label htmlFor="rack-columns">Columns</Label>
+              <Input
+                id="rack-columns"
+                type="number"
+                min={1}
+                max={50}
+                value={values.columns}
+                onChange={(e) => set("columns", parseInt(e.target.value) || 0)}
+                className="w-24"
+              />
+            </div>
+            {cellars.length > 0 && (
+              <div className="flex-1">
+                <Label htmlFor="rack-cellar">Cellar</Label>
+                <Select
+                  value={toScopeValue(values.cellarId ?? null)}
+                  onValueChange={(value) => set("cellarId", fromScopeValue(value) ?? null)}
+                >
+                  <SelectTrigger id="rack-cellar">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {cellars.map(cellar => (
+                      <SelectItem key={cellar.id} value={cellar.id.toString()}>{cellar.name}</SelectItem>
+                    ))}
+                    <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => onSubmit(values)} disabled={!isValid || isPending}>
+            {rack ? "Save" : "Add"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
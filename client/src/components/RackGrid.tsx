@@ -0,0 +1,59 @@
+import { RackSlotDetail, RackWithSlots } from "@shared/schema";
+import { getCategoryColor } from "@/lib/wine-categories";
+import { cn } from "@/lib/utils";
+
+interface RackGridProps {
+  rack: RackWithSlots;
+  isHighlighted: (slot: RackSlotDetail) => boolean;
+  // True while a search is active, so slots that do not match are dimmed
+  isSearching: boolean;
+  onSlotClick: (row: number, column: number, slot?: RackSlotDetail) => void;
+}
+
+const slotTitle = (row: number, column: number, slot?: RackSlotDetail): string => {
+  const position = slot?.label ? `${slot.label} (${row}-${column})` : `${row}-${column}`;
+  if (!slot?.wineName) return position;
+  const quantity = !slot.bottleId && slot.quantity > 1 ? ` × ${slot.quantity}` : "";
+  return `${position}: ${slot.wineName}${slot.vintage ? ` ${slot.vintage}` : ""}${quantity}`;
+};
+
+// Draws a rack as a grid of slots, row 1 at the top, coloured by the category of what they hold
+export default function RackGrid({ rack, isHighlighted, isSearching, onSlotClick }: RackGridProps) {
+  const slotAt = (row: number, column: number) =>
+    rack.slots.find(s => s.row === row && s.column === column);
+
+  return (
+    <div
+      className="grid gap-1 w-fit"
+      style={{ gridTemplateColumns: `repeat(${rack.columns}, 2.5rem)` }}
+    >
+      {Array.from({ length: rack.rows }, (_, r) =>
+        Array.from({ length: rack.columns }, (_, c) => {
+          const row = r + 1;
+          const column = c + 1;
+          const slot = slotAt(row, column);
+          const highlighted = !!slot && isHighlighted(slot);
+
+          return (
+            <button
+              key={`${row}-${column}`}
+              type="button"
+              title={slotTitle(row, column, slot)}
+              data-highlighted={highlighted || undefined}
+              onClick={() => onSlotClick(row, column, slot)}
+              className={cn(
+                "h-10 w-10 rounded-full border text-[10px] leading-tight text-white overflow-hidden transition-opacity",
+                !slot?.category && "bg-muted text-muted-foreground border-dashed",
+                highlighted && "ring-4 ring-primary ring-offset-2 ring-offset-background animate-pulse",
+                isSearching && !highlighted && "opacity-30",
+              )}
+              style={slot?.category ? { backgroundColor: getCategoryColor(slot.category) } : undefined}
+            >
+              {slot?.label ?? (slot?.vintage ? `'${slot.vintage.toString().slice(-2)}` : "")}
+            </button>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { AssignRackSlot, Bottle, BottleStatusType, IN_STOCK_BOTTLE_STATUSES, RackSlotDetail, Wine } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { WineService } from "@/lib/wine-api";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { getFormatLabel } from "@/lib/bottle-formats";
+
+interface RackSlotDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  rackId: number;
+  rackName: string;
+  row: number;
+  column: number;
+  slot?: RackSlotDetail;
+  wines: Wine[];
+}
+
+// Select values for "nothing chosen", as Radix selects only take strings
+const NONE = "none";
+
+export default function RackSlotDialog({ open, onOpenChange, rackId, rackName, row, column, slot, wines }: RackSlotDialogProps) {
+  const { toast } = useToast();
+  const [label, setLabel] = useState("");
+  const [wineId, setWineId] = useState<number | null>(null);
+  const [bottleId, setBottleId] = useState<number | null>(null);
+  const [vintage, setVintage] = useState<number | null>(null);
+  const [quantity, setQuantity] = useState(1);
+
+  // Start from what the slot holds each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setLabel(slot?.label ?? "");
+      setWineId(slot?.wineId ?? null);
+      setBottleId(slot?.bottleId ?? null);
+      setVintage(slot?.vintage ?? null);
+      setQuantity(slot?.quantity ?? 1);
+    }
+  }, [open, slot]);
+
+  const wine = wines.find(w => w.id === wineId);
+  const vintages = Array.from(new Set((wine?.stockEntries || []).map(e => e.vintage).filter((v): v is number => v !== null))).sort();
+
+  const { data: bottles = [] } = useQuery<Bottle[]>({
+    queryKey: [`/api/wines/${wineId}/bottles`],
+    enabled: open && wineId !== null,
+  });
+  const inStockBottles = bottles.filter(b => IN_STOCK_BOTTLE_STATUSES.includes(b.status as BottleStatusType));
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/racks"] });
+    onOpenChange(false);
+  };
+
+  const onError = (error: unknown) => {
+    toast({
+      variant: "destructive",
+      title: "Slot Not Saved",
+      description: error instanceof Error ? error.message : "An unknown error occurred",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (assignment: AssignRackSlot) => WineService.assignRackSlot(rackId, row, column, assignment),
+    onSuccess,
+    onError,
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: () => WineService.clearRackSlot(rackId, row, column),
+    onSuccess,
+    onError,
+  });
+
+  const handleSave = () => {
+    saveMutation.mutate({
+      label: label || null,
+      wineId,
+      bottleId,
+      vintage: bottleId ? null : vintage,
+      quantity: bottleId ? 1 : quantity,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{rackName}, slot {row}-{column}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="slot-wine">Wine</Label>
+            <Select
+              value={wineId?.toString() ?? NONE}
+              onValueChange={(value) => {
+                setWineId(value === NONE ? null : parseInt(value));
+                setBottleId(null);
+                setVintage(null);
+              }}
+            >
+              <SelectTrigger id="slot-wine">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>Empty</SelectItem>
+                {wines.map(w => (
+                  <SelectItem key={w.id} value={w.id.toString()}>
+                    {w.name}{w.producer ? ` · ${w.producer}` : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {wine && inStockBottles.length > 0 && (
+            <div>
+              <Label htmlFor="slot-bottle">Bottle</Label>
+              <Select
+                value={bottleId?.toString() ?? NONE}
+                onValueChange={(value) => setBottleId(value === NONE ? null : parseInt(value))}
+              >
+                <SelectTrigger id="slot-bottle">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Any bottle</SelectItem>
+                  {inStockBottles.map(b => (
+                    <SelectItem key={b.id} value={b.id.toString()}>
+                      #{b.id} {b.vintage ?? ""} {getFormatLabel(b.volumeMl)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {wine && !bottleId && (
+            <div className="flex gap-4">
+              {vintages.length > 0 && (
+                <div>
+                  <Label htmlFor="slot-vintage">Vintage</Label>
+                  <Select
+                    value={vintage?.toString() ?? NONE}
+                    onValueChange={(value) => setVintage(value === NONE ? null : parseInt(value))}
+                  >
+                    <SelectTrigger id="slot-vintage" className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>Any</SelectItem>
+                      {vintages.map(v => (
+                        <SelectItem key={v} value={v.toString()}>{v}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div>
+                <Label htmlFor="slot-quantity">Bottles</Label>
+                <Input
+                  id="slot-quantity"
+                  type="number"
+                  min={1}
+                  value={quantity}
+                  onChange={(e) => setQuantity(parseInt(e.target.value) || 1)}
+                  className="w-24"
+                />
+              </div>
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="slot-label">Bin name</Label>
+            <Input
+              id="slot-label"
+              placeholder="e.g., A1"
+              maxLength={50}
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          {slot && (
+            <Button
+              variant="outline"
+              className="text-destructive mr-auto"
+              onClick={() => clearMutation.mutate()}
+              disabled={clearMutation.isPending}
+            >
+              Clear Slot
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saveMutation.isPending}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,92 @@
+import { useEffect, useState } from "react";
+import { RatingScale, RatingScaleType } from "@shared/schema";
+import { Slider } from "@/components/ui/slider";
+import { Star, StarHalf } from "lucide-react";
+import { RATING_SCALES, formatRating, fromScale, toScale } from "@/lib/rating";
+
+interface RatingInputProps {
+  // Normalized 0-100 rating, or null when unrated
+  value: number | null | undefined;
+  onChange: (value: number | null) => void;
+  scale: RatingScaleType;
+}
+
+interface RatingDisplayProps {
+  value: number | null | undefined;
+  scale: RatingScaleType;
+  className?: string;
+}
+
+// Read-only rating in the user's scale: stars for the five-star scale, points otherwise
+export function RatingDisplay({ value, scale, className }: RatingDisplayProps) {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  if (scale !== RatingScale.FIVE_STAR) {
+    return <span className={className}>{formatRating(value, scale)}</span>;
+  }
+
+  const stars = toScale(value, scale, 0.5);
+  return (
+    <span className={`flex items-center text-yellow-500 ${className ?? ""}`} title={formatRating(value, scale)}>
+      {Array.from({ length: Math.floor(stars) }, (_, i) => (
+        <Star key={i} className="h-3 w-3 fill-current" />
+      ))}
+      {stars % 1 !== 0 && <StarHalf className="h-3 w-3 fill-current" />}
+    </span>
+  );
+}
+
+// Rating input in the user's scale: clickable stars for the five-star scale, a slider for points
+export default function RatingInput({ value, onChange, scale }: RatingInputProps) {
+  const { max, step } = RATING_SCALES[scale];
+  const current = value === null || value === undefined ? null : toScale(value, scale);
+  // The slider moves freely and only reports the rating once it is released
+  const [draft, setDraft] = useState<number | null>(current);
+
+  useEffect(() => {
+    setDraft(current);
+  }, [current]);
+
+  if (scale === RatingScale.FIVE_STAR) {
+    return (
+      <div className="flex items-center gap-1">
+        {[1, 2, 3, 4, 5].map((star) => (
+          <button
+            key={star}
+            type="button"
+            aria-label={`${star} star${star !== 1 ? "s" : ""}`}
+            // Clicking the current rating again clears it
+            onClick={() => onChange(current === star ? null : fromScale(star, scale))}
+            className={current !== null && star <= current ? "text-yellow-500" : "text-muted-foreground"}
+          >
+            <Star className="h-5 w-5" />
+          </button>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-3">
+      <Slider
+        min={0}
+        max={max}
+        step={step}
+        value={[draft ?? max / 2]}
+        onValueChange={([points]) => setDraft(points)}
+        onValueCommit={([points]) => onChange(fromScale(points, scale))}
+        className={`flex-1 ${draft === null ? "opacity-50" : ""}`}
+      />
+      <span className="text-sm w-16 text-right">
+        {draft === null ? "Not rated" : `${draft}/${max}`}
+      </span>
+      {current !== null && (
+        <button type="button" className="text-xs text-muted-foreground underline" onClick={() => onChange(null)}>
+          Clear
+        </button>
+      )}
+    </div>
+  );
+}
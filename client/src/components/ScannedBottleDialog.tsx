@@ -0,0 +1,126 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { StockMovementType, StockTotals, Wine } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { WineService } from "@/lib/wine-api";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { getDefaultVolumeMl, getFormatLabel } from "@/lib/bottle-formats";
+import { GlassWater, Plus } from "lucide-react";
+
+interface ScannedBottleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  wine: Wine;
+}
+
+interface Bucket {
+  vintage: number | null;
+  volumeMl: number;
+  stock: number;
+}
+
+const bucketKey = (b: { vintage: number | null; volumeMl: number }) => `${b.vintage ?? "nv"}:${b.volumeMl}`;
+
+// Offered after scanning the barcode of a wine already in the collection: record another
+// bottle bought, or one drunk. Stock is summed across cellars.
+export default function ScannedBottleDialog({ open, onOpenChange, wine }: ScannedBottleDialogProps) {
+  const { toast } = useToast();
+  const buckets = new Map<string, Bucket>();
+  for (const entry of wine.stockEntries || []) {
+    const key = bucketKey(entry);
+    const bucket = buckets.get(key) ?? { vintage: entry.vintage, volumeMl: entry.volumeMl, stock: 0 };
+    bucket.stock += entry.stock;
+    buckets.set(key, bucket);
+  }
+  const options = Array.from(buckets.values()).filter(b => b.stock > 0);
+  // A wine without stock gets a bottle of its usual format
+  if (options.length === 0) {
+    options.push({ vintage: null, volumeMl: getDefaultVolumeMl(wine.category), stock: 0 });
+  }
+  const [selectedKey, setSelectedKey] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setSelectedKey(bucketKey(options[0]));
+    }
+  }, [open]);
+
+  const selected = options.find(b => bucketKey(b) === selectedKey) ?? options[0];
+
+  const adjustMutation = useMutation({
+    mutationFn: (delta: 1 | -1) => WineService.adjustStock(wine.id, {
+      vintage: selected.vintage,
+      volumeMl: selected.volumeMl,
+      delta,
+      type: delta > 0 ? StockMovementType.PURCHASE : StockMovementType.CONSUMPTION,
+    }),
+    onSuccess: (totals: StockTotals, delta) => {
+      queryClient.setQueryData([`/api/wines/${wine.id}`], (current: Wine | undefined) =>
+        current ? { ...current, ...totals } : current
+      );
+      queryClient.invalidateQueries({ queryKey: ["/api/wines"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cellars"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/wines/${wine.id}/movements`] });
+      toast({
+        title: delta > 0 ? "Bottle Added" : "Enjoy!",
+        description: delta > 0 ? `Added a bottle of ${wine.name}.` : `Recorded a bottle of ${wine.name} as drunk.`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Stock Update Failed",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+      });
+    },
+  });
+
+  const totalStock = options.reduce((sum, b) => sum + b.stock, 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{wine.name}</DialogTitle>
+          <DialogDescription>
+            Already in your collection, with {totalStock} bottle{totalStock !== 1 ? "s" : ""} in stock.
+          </DialogDescription>
+        </DialogHeader>
+
+        {options.length > 1 && (
+          <div>
+            <Label htmlFor="scanned-bottle">Bottle</Label>
+            <Select value={bucketKey(selected)} onValueChange={setSelectedKey}>
+              <SelectTrigger id="scanned-bottle">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {options.map(b => (
+                  <SelectItem key={bucketKey(b)} value={bucketKey(b)}>
+                    {b.vintage ?? "NV"} {getFormatLabel(b.volumeMl)}: {b.stock} in stock
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => adjustMutation.mutate(1)} disabled={adjustMutation.isPending}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add One
+          </Button>
+          <Button onClick={() => adjustMutation.mutate(-1)} disabled={selected.stock <= 0 || adjustMutation.isPending}>
+            <GlassWater className="mr-2 h-4 w-4" />
+            Drink One
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -13,12 +13,28 @@ import {
 } from "@/components/ui/command";
 import { Dialog, DialogContent } from "@/components/ui/dialog";
 import { Search, X, Plus } from "lucide-react";
+import { splitHighlights } from "@/lib/highlight";
 
 interface SearchWineProps {
   value: string;
   onChange: (value: string) => void;
 }
 
+// Text with the fragments matching the search marked
+function Highlighted({ text, query }: { text: string; query: string }) {
+  return (
+    <>
+      {splitHighlights(text, query).map((part, index) =>
+        part.match ? (
+          <mark key={index} className="bg-primary/20 text-inherit rounded-sm">{part.text}</mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        ),
+      )}
+    </>
+  );
+}
+
 export default function SearchWine({ value, onChange }: SearchWineProps) {
   const [, navigate] = useLocation();
   const [open, setOpen] = useState(false);
@@ -48,6 +64,7 @@ export default function SearchWine({ value, onChange }: SearchWineProps) {
       producer: wine.producer,
       region: wine.region,
       country: wine.country,
+      barcode: wine.barcode,
     };
 
     // Log the wine being selected
@@ -105,7 +122,8 @@ export default function SearchWine({ value, onChange }: SearchWineProps) {
                 <Search className="absolute left-7 top-[2.1rem] h-4 w-4 text-muted-foreground" />
               </div>
 
-              <Command className="rounded-t-none border-t">
+              {/* Results come ranked from the server, so cmdk neither filters nor reorders them */}
+              <Command className="rounded-t-none border-t" shouldFilter={false}>
                 <CommandList>
                   {searchTerm.length <= 2 ? (
                     <CommandEmpty>
@@ -138,7 +156,7 @@ export default function SearchWine({ value, onChange }: SearchWineProps) {
                           className="cursor-pointer"
                         >
                           <div className="flex flex-col py-1">
-                            <span className="font-medium">{wine.name}</span>
+                            <span className="font-medium"><Highlighted text={wine.name} query={searchTerm} /></span>
                             <div className="flex text-xs text-muted-foreground gap-1">
                               {wine.wine && <span>{wine.wine}</span>}
                               {wine.wine && (wine.subType || wine.producer) && (
@@ -146,16 +164,16 @@ export default function SearchWine({ value, onChange }: SearchWineProps) {
                               )}
                               {wine.subType && <span>{wine.subType}</span>}
                               {wine.subType && wine.producer && <span>·</span>}
-                              {wine.producer && <span>{wine.producer}</span>}
+                              {wine.producer && <span><Highlighted text={wine.producer} query={searchTerm} /></span>}
                               {(wine.wine || wine.subType || wine.producer) &&
                                 wine.region && <span>·</span>}
-                              {wine.region && <span>{wine.region}</span>}
+                              {wine.region && <span><Highlighted text={wine.region} query={searchTerm} /></span>}
                               {(wine.wine ||
                                 wine.subType ||
                                 wine.producer ||
                                 wine.region) &&
                                 wine.country && <span>·</span>}
-                              {wine.country && <span>{wine.country}</span>}
+                              {wine.country && <span><Highlighted text={wine.country} query={searchTerm} /></span>}
                             </div>
                           </div>
                         </CommandItem>
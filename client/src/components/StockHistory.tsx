@@ -0,0 +1,72 @@
+import { useQuery } from "@tanstack/react-query";
+import { DEFAULT_VOLUME_ML, StockMovement, StockMovementType } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { getFormatLabel } from "@/lib/bottle-formats";
+
+interface StockHistoryProps {
+  wineId: number;
+  limit?: number;
+}
+
+export const getMovementTypeLabel = (type: string): string => {
+  switch (type) {
+    case StockMovementType.PURCHASE:
+      return "Purchase";
+    case StockMovementType.CONSUMPTION:
+      return "Consumed";
+    case StockMovementType.GIFT:
+      return "Gift";
+    case StockMovementType.BREAKAGE:
+      return "Breakage";
+    case StockMovementType.TRANSFER:
+      return "Transfer";
+    case StockMovementType.ADJUSTMENT:
+    default:
+      return "Adjustment";
+  }
+};
+
+export default function StockHistory({ wineId, limit = 10 }: StockHistoryProps) {
+  const { data: movements, isLoading } = useQuery<StockMovement[]>({
+    queryKey: [`/api/wines/${wineId}/movements`],
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading history...</p>;
+  }
+
+  if (!movements || movements.length === 0) {
+    return <p className="text-sm text-muted-foreground">No stock changes recorded yet.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {movements.slice(0, limit).map(movement => (
+        <div key={movement.id} className="flex items-center justify-between text-sm">
+          <div className="flex items-center gap-2">
+            <Badge variant="outline">{getMovementTypeLabel(movement.type)}</Badge>
+            {movement.vintage && <span>{movement.vintage}</span>}
+            {movement.volumeMl !== DEFAULT_VOLUME_ML && <span>{getFormatLabel(movement.volumeMl)}</span>}
+            {movement.reason && (
+              <span className="text-muted-foreground italic">{movement.reason}</span>
+            )}
+          </div>
+          <div className="flex items-center gap-3">
+            <span className={movement.delta > 0 ? "text-green-600" : "text-destructive"}>
+              {movement.delta > 0 ? `+${movement.delta}` : movement.delta}
+            </span>
+            <span className="text-muted-foreground text-xs w-20 text-right">
+              {movement.createdAt
+                ? new Date(movement.createdAt).toLocaleDateString('en-US', {
+                    month: 'short',
+                    day: 'numeric',
+                    year: 'numeric'
+                  })
+                : ''}
+            </span>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -4,7 +4,8 @@ import { Minus, Plus } from "lucide-react";
 
 interface StockLevelControlProps {
   value: number;
-  onChange: (value: number) => void;
+  // Receives the new total and the change from the previous value
+  onChange: (value: number, delta: number) => void;
   min?: number;
   max?: number;
   disabled?: boolean;
@@ -19,13 +20,13 @@ export default function StockLevelControl({
 }: StockLevelControlProps) {
   const handleIncrement = () => {
     if (value < max) {
-      onChange(value + 1);
+      onChange(value + 1, 1);
     }
   };
 
   const handleDecrement = () => {
     if (value > min) {
-      onChange(value - 1);
+      onChange(value - 1, -1);
     }
   };
 
@@ -34,7 +35,9 @@ export default function StockLevelControl({
     if (!isNaN(parsedValue)) {
       // Clamp value between min and max
       const clampedValue = Math.min(Math.max(parsedValue, min), max);
-      onChange(clampedValue);
+      if (clampedValue !== value) {
+        onChange(clampedValue, clampedValue - value);
+      }
     }
   };
 
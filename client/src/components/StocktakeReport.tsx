@@ -0,0 +1,62 @@
+import { Cellar, StocktakeLineDetail } from "@shared/schema";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { getFormatLabel } from "@/lib/bottle-formats";
+import { getCellarName } from "@/lib/cellars";
+
+interface StocktakeReportProps {
+  lines: StocktakeLineDetail[];
+  cellars: Cellar[];
+}
+
+// Expected against counted stock, listing only the lines that differ
+export default function StocktakeReport({ lines, cellars }: StocktakeReportProps) {
+  const discrepancies = lines.filter(l => l.counted !== null && l.counted !== l.expected);
+  const uncounted = lines.filter(l => l.counted === null).length;
+  const net = discrepancies.reduce((sum, l) => sum + l.counted! - l.expected, 0);
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm">
+        {discrepancies.length === 0
+          ? "Everything counted matches your records."
+          : `${discrepancies.length} discrepanc${discrepancies.length !== 1 ? "ies" : "y"}, ${net > 0 ? "+" : ""}${net} bottle${Math.abs(net) !== 1 ? "s" : ""} overall.`}
+        {uncounted > 0 && ` ${uncounted} line${uncounted !== 1 ? "s were" : " was"} not counted and will be left as they are.`}
+      </p>
+
+      {discrepancies.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Wine</TableHead>
+              {cellars.length > 0 && <TableHead>Cellar</TableHead>}
+              <TableHead className="text-right">Expected</TableHead>
+              <TableHead className="text-right">Counted</TableHead>
+              <TableHead className="text-right">Difference</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {discrepancies.map(line => {
+              const difference = line.counted! - line.expected;
+              return (
+                <TableRow key={line.id}>
+                  <TableCell>
+                    <div className="font-medium">{line.wineName} {line.vintage ?? ""}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {line.producer && `${line.producer} · `}{getFormatLabel(line.volumeMl)}
+                    </div>
+                  </TableCell>
+                  {cellars.length > 0 && <TableCell>{getCellarName(cellars, line.cellarId)}</TableCell>}
+                  <TableCell className="text-right">{line.expected}</TableCell>
+                  <TableCell className="text-right">{line.counted}</TableCell>
+                  <TableCell className={`text-right font-medium ${difference < 0 ? "text-destructive" : "text-green-600"}`}>
+                    {difference > 0 ? "+" : ""}{difference}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
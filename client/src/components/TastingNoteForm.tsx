@@ -0,0 +1,172 @@
+import { useEffect, useState } from "react";
+import { InsertTastingNote, TastingNote } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import AromaPicker from "@/components/AromaPicker";
+import RatingInput from "@/components/RatingInput";
+import { useRatingScale } from "@/hooks/useRatingScale";
+import { TASTING_LEVEL_FIELDS, getTastingLevelLabel } from "@/lib/tasting";
+
+interface TastingNoteFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Note being edited, or null for a new note
+  note: TastingNote | null;
+  vintages: number[];
+  onSubmit: (note: InsertTastingNote) => void;
+  isPending?: boolean;
+}
+
+const NO_VINTAGE = "none";
+
+const toDateInput = (date: Date | string) => new Date(date).toISOString().slice(0, 10);
+
+const emptyNote = (vintage: number | null): InsertTastingNote => ({
+  vintage,
+  tastedAt: new Date(),
+  appearance: null,
+  nose: null,
+  palate: null,
+  finish: null,
+  sweetness: null,
+  acidity: null,
+  tannin: null,
+  body: null,
+  aromas: [],
+  score: null,
+  comments: null,
+});
+
+export default function TastingNoteForm({ open, onOpenChange, note, vintages, onSubmit, isPending = false }: TastingNoteFormProps) {
+  const [values, setValues] = useState<InsertTastingNote>(emptyNote(null));
+  const { scale } = useRatingScale();
+
+  // Start from the note being edited, or a blank note for the newest vintage.
+  // Only resets when the dialog opens so edits survive parent re-renders.
+  useEffect(() => {
+    if (!open) return;
+    if (note) {
+      const { id, wineId, userId, createdAt, updatedAt, ...editable } = note;
+      setValues(editable);
+    } else {
+      setValues(emptyNote(vintages.length > 0 ? Math.max(...vintages) : null));
+    }
+  }, [open, note]);
+
+  const set = <K extends keyof InsertTastingNote>(field: K, value: InsertTastingNote[K]) => {
+    setValues(prev => ({ ...prev, [field]: value }));
+  };
+
+  const textField = (field: "appearance" | "nose" | "palate" | "finish" | "comments", label: string, placeholder: string) => (
+    <div>
+      <Label htmlFor={`tasting-${field}`}>{label}</Label>
+      <Textarea
+        id={`tasting-${field}`}
+        value={values[field] ?? ""}
+        onChange={(e) => set(field, e.target.value || null)}
+        placeholder={placeholder}
+        rows={2}
+      />
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{note ? "Edit Tasting Note" : "Add Tasting Note"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-4">
+            <div>
+              <Label htmlFor="tasting-date">Tasted on</Label>
+              <Input
+                id="tasting-date"
+                type="date"
+                value={values.tastedAt ? toDateInput(values.tastedAt) : ""}
+                onChange={(e) => set("tastedAt", e.target.value ? new Date(e.target.value) : undefined)}
+                className="w-40"
+              />
+            </div>
+            {vintages.length > 0 && (
+              <div>
+                <Label htmlFor="tasting-vintage">Vintage</Label>
+                <Select
+                  value={values.vintage?.toString() ?? NO_VINTAGE}
+                  onValueChange={(v) => set("vintage", v === NO_VINTAGE ? null : parseInt(v))}
+                >
+                  <SelectTrigger id="tasting-vintage" className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_VINTAGE}>Any</SelectItem>
+                    {vintages.map(v => (
+                      <SelectItem key={v} value={v.toString()}>{v}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          {textField("appearance", "Appearance", "e.g., Deep ruby with a garnet rim")}
+          {textField("nose", "Nose", "e.g., Pronounced, developing")}
+
+          <div>
+            <Label>Aromas</Label>
+            <AromaPicker value={values.aromas ?? []} onChange={(aromas) => set("aromas", aromas)} />
+          </div>
+
+          {textField("palate", "Palate", "e.g., Ripe black fruit, fine-grained tannins")}
+          {textField("finish", "Finish", "e.g., Long, with lingering spice")}
+
+          <div className="space-y-3">
+            {TASTING_LEVEL_FIELDS.map(({ field, label }) => (
+              <div key={field}>
+                <div className="flex justify-between text-sm mb-1">
+                  <span>{label}</span>
+                  <span className="text-muted-foreground">
+                    {getTastingLevelLabel(field, values[field])}
+                    {values[field] != null && (
+                      <button type="button" className="ml-2 underline" onClick={() => set(field, null)}>
+                        Clear
+                      </button>
+                    )}
+                  </span>
+                </div>
+                <Slider
+                  min={1}
+                  max={5}
+                  step={1}
+                  value={[values[field] ?? 3]}
+                  onValueChange={([level]) => set(field, level)}
+                  className={values[field] == null ? "opacity-50" : undefined}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <Label>Score</Label>
+            <RatingInput value={values.score} onChange={(score) => set("score", score)} scale={scale} />
+          </div>
+
+          {textField("comments", "Comments", "Impressions, pairing ideas, occasion...")}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => onSubmit(values)} disabled={isPending}>
+            Save Note
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
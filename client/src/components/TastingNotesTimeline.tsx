@@ -0,0 +1,162 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { InsertTastingNote, TastingNote } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { WineService } from "@/lib/wine-api";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Edit, Plus, Trash2 } from "lucide-react";
+import TastingNoteForm from "@/components/TastingNoteForm";
+import { RatingDisplay } from "@/components/RatingInput";
+import { useRatingScale } from "@/hooks/useRatingScale";
+import { TASTING_LEVEL_FIELDS, getAromaColor, getTastingLevelLabel } from "@/lib/tasting";
+
+interface TastingNotesTimelineProps {
+  wineId: number;
+  vintages: number[];
+}
+
+const TEXT_FIELDS: { field: "appearance" | "nose" | "palate" | "finish"; label: string }[] = [
+  { field: "appearance", label: "Appearance" },
+  { field: "nose", label: "Nose" },
+  { field: "palate", label: "Palate" },
+  { field: "finish", label: "Finish" },
+];
+
+export default function TastingNotesTimeline({ wineId, vintages }: TastingNotesTimelineProps) {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<TastingNote | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const { scale } = useRatingScale();
+
+  const { data: notes = [], isLoading } = useQuery<TastingNote[]>({
+    queryKey: [`/api/wines/${wineId}/tasting-notes`],
+  });
+
+  const onError = (error: unknown) => {
+    toast({
+      variant: "destructive",
+      title: "Tasting Note Not Saved",
+      description: error instanceof Error ? error.message : "An unknown error occurred",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (note: InsertTastingNote) => editing
+      ? WineService.updateTastingNote(wineId, editing.id, note)
+      : WineService.addTastingNote(wineId, note),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/wines/${wineId}/tasting-notes`] });
+      setIsFormOpen(false);
+      setEditing(null);
+      toast({
+        title: "Tasting Note Saved",
+        description: "Your tasting note has been saved.",
+      });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (noteId: number) => WineService.deleteTastingNote(wineId, noteId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/wines/${wineId}/tasting-notes`] });
+    },
+    onError,
+  });
+
+  const openForm = (note: TastingNote | null) => {
+    setEditing(note);
+    setIsFormOpen(true);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-end">
+        <Button size="sm" variant="outline" onClick={() => openForm(null)}>
+          <Plus className="mr-1 h-4 w-4" />
+          Add Tasting Note
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading tasting notes...</p>
+      ) : notes.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No tasting notes yet.</p>
+      ) : (
+        <ol className="relative border-l border-border ml-2 space-y-4">
+          {notes.map(note => (
+            <li key={note.id} className="ml-4">
+              <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-primary" />
+              <div className="flex justify-between items-start gap-2">
+                <div className="flex items-center gap-2 flex-wrap text-sm">
+                  <time className="font-medium">
+                    {new Date(note.tastedAt).toLocaleDateString('en-US', {
+                      year: 'numeric',
+                      month: 'short',
+                      day: 'numeric'
+                    })}
+                  </time>
+                  {note.vintage && <Badge variant="outline">{note.vintage}</Badge>}
+                  <RatingDisplay value={note.score} scale={scale} />
+                </div>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => openForm(note)}>
+                    <Edit className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => deleteMutation.mutate(note.id)}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+
+              <div className="mt-1 space-y-1 text-sm">
+                {TEXT_FIELDS.filter(({ field }) => note[field]).map(({ field, label }) => (
+                  <p key={field}>
+                    <span className="text-muted-foreground">{label}: </span>
+                    {note[field]}
+                  </p>
+                ))}
+                {note.aromas.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {note.aromas.map(aroma => (
+                      <Badge key={aroma} style={{ backgroundColor: getAromaColor(aroma) }}>{aroma}</Badge>
+                    ))}
+                  </div>
+                )}
+                {TASTING_LEVEL_FIELDS.some(({ field }) => note[field] != null) && (
+                  <p className="text-muted-foreground">
+                    {TASTING_LEVEL_FIELDS
+                      .filter(({ field }) => note[field] != null)
+                      .map(({ field, label }) => `${label}: ${getTastingLevelLabel(field, note[field])}`)
+                      .join(" · ")}
+                  </p>
+                )}
+                {note.comments && <p className="italic">{note.comments}</p>}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <TastingNoteForm
+        open={isFormOpen}
+        onOpenChange={(open) => {
+          setIsFormOpen(open);
+          if (!open) setEditing(null);
+        }}
+        note={editing}
+        vintages={vintages}
+        onSubmit={(note) => saveMutation.mutate(note)}
+        isPending={saveMutation.isPending}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Cellar, StockTotals, Wine } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { WineService } from "@/lib/wine-api";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { getFormatLabel } from "@/lib/bottle-formats";
+import { fromScopeValue, getCellarName, toScopeValue, UNASSIGNED } from "@/lib/cellars";
+
+interface TransferStockDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  wine: Wine;
+  cellars: Cellar[];
+}
+
+const entryKey = (e: { vintage: number | null; volumeMl: number; cellarId: number | null }) =>
+  `${e.vintage ?? "nv"}:${e.volumeMl}:${e.cellarId ?? UNASSIGNED}`;
+
+export default function TransferStockDialog({ open, onOpenChange, wine, cellars }: TransferStockDialogProps) {
+  const { toast } = useToast();
+  const entries = (wine.stockEntries || []).filter(e => e.stock > 0);
+  const [fromKey, setFromKey] = useState("");
+  const [toValue, setToValue] = useState("");
+  const [quantity, setQuantity] = useState(1);
+
+  // Start from the first holding each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setFromKey(entries[0] ? entryKey(entries[0]) : "");
+      setToValue("");
+      setQuantity(1);
+    }
+  }, [open]);
+
+  const from = entries.find(e => entryKey(e) === fromKey);
+  const destinations = [...cellars.map(c => c.id as number | null), null].filter(id => id !== from?.cellarId);
+
+  const transferMutation = useMutation({
+    mutationFn: () => WineService.transferStock(wine.id, {
+      vintage: from!.vintage,
+      volumeMl: from!.volumeMl,
+      fromCellarId: from!.cellarId,
+      toCellarId: fromScopeValue(toValue) ?? null,
+      quantity,
+    }),
+    onSuccess: (totals: StockTotals) => {
+      queryClient.setQueryData([`/api/wines/${wine.id}`], (current: Wine | undefined) =>
+        current ? { ...current, ...totals } : current
+      );
+      queryClient.invalidateQueries({ queryKey: ["/api/wines"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cellars"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/wines/${wine.id}/bottles`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/wines/${wine.id}/movements`] });
+      toast({
+        title: "Bottles Moved",
+        description: `${quantity} bottle${quantity !== 1 ? "s" : ""} moved to ${getCellarName(cellars, fromScopeValue(toValue) ?? null)}.`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Transfer Failed",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+      });
+    },
+  });
+
+  const isValid = !!from && toValue !== "" && quantity > 0 && quantity <= from.stock;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Move Bottles</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="transfer-from">From</Label>
+            <Select value={fromKey} onValueChange={(value) => { setFromKey(value); setToValue(""); }}>
+              <SelectTrigger id="transfer-from">
+                <SelectValue placeholder="Choose bottles" />
+              </SelectTrigger>
+              <SelectContent>
+                {entries.map(e => (
+                  <SelectItem key={entryKey(e)} value={entryKey(e)}>
+                    {getCellarName(cellars, e.cellarId)}: {e.stock} × {e.vintage ?? ""} {getFormatLabel(e.volumeMl)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex gap-4">
+            <div className="flex-1">
+              <Label htmlFor="transfer-to">To</Label>
+              <Select value={toValue} onValueChange={setToValue}>
+                <SelectTrigger id="transfer-to">
+                  <SelectValue placeholder="Choose a cellar" />
+                </SelectTrigger>
+                <SelectContent>
+                  {destinations.map(cellarId => (
+                    <SelectItem key={toScopeValue(cellarId)} value={toScopeValue(cellarId)}>
+                      {getCellarName(cellars, cellarId)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="transfer-quantity">Bottles</Label>
+              <Input
+                id="transfer-quantity"
+                type="number"
+                min={1}
+                max={from?.stock}
+                value={quantity}
+                onChange={(e) => setQuantity(parseInt(e.target.value) || 0)}
+                className="w-24"
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => transferMutation.mutate()} disabled={!isValid || transferMutation.isPending}>
+            Move
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,20 +1,106 @@
 import { useState, useEffect } from "react";
-import { VintageStock } from "@shared/schema";
+import { DEFAULT_VOLUME_ML, VintageStock } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Minus, Plus, AlertCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import BottleFormatSelect from "@/components/BottleFormatSelect";
+import { getFormatLabel } from "@/lib/bottle-formats";
+import { formatDrinkingWindow, suggestDrinkingWindow } from "@/lib/drinking-window";
 
 interface VintageManagerProps {
   vintageStocks: VintageStock[];
-  onChange: (vintageStocks: VintageStock[]) => void;
+  onChange?: (vintageStocks: VintageStock[]) => void;
+  // When provided, changes are reported as per-vintage, per-format deltas instead of replacing the totals
+  onAdjust?: (vintage: number, delta: number, volumeMl: number) => void;
+  // Format preselected for new entries
+  defaultVolumeMl?: number;
+  // Used to suggest a drinking window when none is entered
+  category?: string;
+  region?: string | null;
+  // When provided, drinking window edits are saved through this instead of onChange
+  onWindowChange?: (vintage: number, drinkFrom: number | null, drinkBy: number | null) => void;
 }
 
-export default function VintageManager({ vintageStocks, onChange }: VintageManagerProps) {
+const volumeOf = (vs: VintageStock) => vs.volumeMl ?? DEFAULT_VOLUME_ML;
+
+const isSameEntry = (vs: VintageStock, vintage: number, volumeMl: number) =>
+  vs.vintage === vintage && volumeOf(vs) === volumeMl;
+
+const parseYear = (value: string): number | null => {
+  const year = parseInt(value);
+  return isNaN(year) ? null : year;
+};
+
+interface DrinkingWindowFieldsProps {
+  vintage: number;
+  drinkFrom: number | null;
+  drinkBy: number | null;
+  placeholder: { drinkFrom: number; drinkBy: number } | null;
+  onSave: (drinkFrom: number | null, drinkBy: number | null) => void;
+}
+
+// Drink-from / drink-by inputs for one vintage, saved when the input loses focus
+function DrinkingWindowFields({ vintage, drinkFrom, drinkBy, placeholder, onSave }: DrinkingWindowFieldsProps) {
+  const [from, setFrom] = useState(drinkFrom?.toString() ?? "");
+  const [by, setBy] = useState(drinkBy?.toString() ?? "");
+
+  useEffect(() => {
+    setFrom(drinkFrom?.toString() ?? "");
+    setBy(drinkBy?.toString() ?? "");
+  }, [drinkFrom, drinkBy]);
+
+  const handleBlur = () => {
+    const newFrom = parseYear(from);
+    const newBy = parseYear(by);
+    if (newFrom !== drinkFrom || newBy !== drinkBy) {
+      onSave(newFrom, newBy);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 pl-16 text-xs text-muted-foreground">
+      <span>Drink</span>
+      <Input
+        type="number"
+        aria-label={`Drink ${vintage} from`}
+        value={from}
+        placeholder={placeholder?.drinkFrom.toString() ?? "From"}
+        onChange={(e) => setFrom(e.target.value)}
+        onBlur={handleBlur}
+        className="h-7 w-20 text-xs"
+      />
+      <span>to</span>
+      <Input
+        type="number"
+        aria-label={`Drink ${vintage} by`}
+        value={by}
+        placeholder={placeholder?.drinkBy.toString() ?? "By"}
+        onChange={(e) => setBy(e.target.value)}
+        onBlur={handleBlur}
+        className="h-7 w-20 text-xs"
+      />
+      {placeholder && drinkFrom === null && drinkBy === null && (
+        <span>Suggested: {formatDrinkingWindow({ ...placeholder, suggested: true })}</span>
+      )}
+    </div>
+  );
+}
+
+export default function VintageManager({
+  vintageStocks,
+  onChange,
+  onAdjust,
+  defaultVolumeMl = DEFAULT_VOLUME_ML,
+  category,
+  region,
+  onWindowChange,
+}: VintageManagerProps) {
   const currentYear = new Date().getFullYear();
   const [vintage, setVintage] = useState<number>(currentYear);
   const [stock, setStock] = useState<number>(1);
+  const [volumeMl, setVolumeMl] = useState<number>(defaultVolumeMl);
   const [error, setError] = useState<string | null>(null);
   const { toast } = useToast();
   
@@ -40,39 +126,62 @@ export default function VintageManager({ vintageStocks, onChange }: VintageManag
       return;
     }
     
-    // Check if vintage already exists
-    const exists = vintageStocks.some(vs => vs.vintage === vintage);
+    if (volumeMl < 50) {
+      toast({
+        variant: "destructive",
+        title: "Invalid Bottle Format",
+        description: "Enter the bottle volume in ml",
+      });
+      return;
+    }
+    
+    if (onAdjust) {
+      onAdjust(vintage, stock, volumeMl);
+      setStock(1);
+      return;
+    }
+    
+    // Check if this vintage already exists in the same format
+    const exists = vintageStocks.some(vs => isSameEntry(vs, vintage, volumeMl));
     
     if (exists) {
-      // Update existing vintage
+      // Update existing entry
       const updated = vintageStocks.map(vs => 
-        vs.vintage === vintage 
+        isSameEntry(vs, vintage, volumeMl)
           ? { ...vs, stock: vs.stock + stock } 
           : vs
       );
-      onChange(updated);
+      onChange?.(updated);
     } else {
-      // Add new vintage
-      onChange([...vintageStocks, { vintage, stock }]);
+      // Add new entry
+      onChange?.([...vintageStocks, { vintage, stock, volumeMl }]);
     }
     
     // Reset stock input but keep vintage
     setStock(1);
   };
   
-  const handleRemoveVintage = (vintageToRemove: number) => {
-    onChange(vintageStocks.filter(vs => vs.vintage !== vintageToRemove));
+  const handleRemoveVintage = (entry: VintageStock) => {
+    onChange?.(vintageStocks.filter(vs => !isSameEntry(vs, entry.vintage, volumeOf(entry))));
   };
   
-  const handleStockChange = (vintage: number, newStock: number) => {
+  const handleStockChange = (entry: VintageStock, newStock: number) => {
+    if (onAdjust) {
+      const delta = Math.max(newStock, 0) - entry.stock;
+      if (delta !== 0) {
+        onAdjust(entry.vintage, delta, volumeOf(entry));
+      }
+      return;
+    }
+    
     if (newStock <= 0) {
       // Remove if stock is zero or negative
-      handleRemoveVintage(vintage);
+      handleRemoveVintage(entry);
     } else {
       // Update stock level
-      onChange(
+      onChange?.(
         vintageStocks.map(vs => 
-          vs.vintage === vintage 
+          isSameEntry(vs, entry.vintage, volumeOf(entry))
             ? { ...vs, stock: newStock } 
             : vs
         )
@@ -90,49 +199,91 @@ export default function VintageManager({ vintageStocks, onChange }: VintageManag
     }
   };
   
-  // Sort vintages by year (newest first)
-  const sortedVintages = [...vintageStocks].sort((a, b) => b.vintage - a.vintage);
+  const handleWindowChange = (vintage: number, drinkFrom: number | null, drinkBy: number | null) => {
+    if (drinkFrom !== null && drinkBy !== null && drinkFrom > drinkBy) {
+      toast({
+        variant: "destructive",
+        title: "Invalid Drinking Window",
+        description: "Drink-from year must not be after drink-by year",
+      });
+      return;
+    }
+    
+    if (onWindowChange) {
+      onWindowChange(vintage, drinkFrom, drinkBy);
+      return;
+    }
+    
+    onChange?.(
+      vintageStocks.map(vs => 
+        vs.vintage === vintage 
+          ? { ...vs, drinkFrom, drinkBy } 
+          : vs
+      )
+    );
+  };
+  
+  // Sort vintages by year (newest first), then by format
+  const sortedVintages = [...vintageStocks].sort((a, b) => b.vintage - a.vintage || volumeOf(a) - volumeOf(b));
+  const vintageYears = Array.from(new Set(sortedVintages.map(vs => vs.vintage)));
   
   return (
     <div className="space-y-4">
       <Label>Vintages</Label>
       
       {sortedVintages.length > 0 ? (
-        <div className="space-y-2">
-          {sortedVintages.map(vs => (
-            <div key={vs.vintage} className="flex items-center gap-2">
-              <span className="font-medium w-16">{vs.vintage}</span>
-              <div className="flex items-center">
-                <Button
-                  type="button"
-                  variant="outline"
-                  size="icon"
-                  className="h-7 w-7 rounded-r-none"
-                  onClick={() => handleStockChange(vs.vintage, vs.stock - 1)}
-                >
-                  <Minus className="h-3 w-3" />
-                </Button>
-                <Input
-                  type="number"
-                  value={vs.stock}
-                  onChange={(e) => handleStockChange(vs.vintage, parseInt(e.target.value) || 0)}
-                  className="h-7 w-16 rounded-none text-center [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
-                />
-                <Button
-                  type="button"
-                  variant="outline"
-                  size="icon"
-                  className="h-7 w-7 rounded-l-none"
-                  onClick={() => handleStockChange(vs.vintage, vs.stock + 1)}
-                >
-                  <Plus className="h-3 w-3" />
-                </Button>
+        <div className="space-y-3">
+          {vintageYears.map(year => {
+            const entries = sortedVintages.filter(vs => vs.vintage === year);
+            const stored = entries.find(vs => vs.drinkFrom != null || vs.drinkBy != null);
+            return (
+              <div key={year} className="space-y-1">
+                {entries.map((vs, index) => (
+                  <div key={`${vs.vintage}-${volumeOf(vs)}`} className="flex items-center gap-2">
+                    <span className="font-medium w-16">{index === 0 ? vs.vintage : ""}</span>
+                    <div className="flex items-center">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="icon"
+                        className="h-7 w-7 rounded-r-none"
+                        onClick={() => handleStockChange(vs, vs.stock - 1)}
+                      >
+                        <Minus className="h-3 w-3" />
+                      </Button>
+                      <Input
+                        type="number"
+                        value={vs.stock}
+                        onChange={(e) => handleStockChange(vs, parseInt(e.target.value) || 0)}
+                        className="h-7 w-16 rounded-none text-center [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
+                      />
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="icon"
+                        className="h-7 w-7 rounded-l-none"
+                        onClick={() => handleStockChange(vs, vs.stock + 1)}
+                      >
+                        <Plus className="h-3 w-3" />
+                      </Button>
+                    </div>
+                    <span className="text-sm text-muted-foreground">
+                      {vs.stock} × {getFormatLabel(volumeOf(vs))}
+                    </span>
+                  </div>
+                ))}
+                {category && (
+                  <DrinkingWindowFields
+                    vintage={year}
+                    drinkFrom={stored?.drinkFrom ?? null}
+                    drinkBy={stored?.drinkBy ?? null}
+                    placeholder={suggestDrinkingWindow(category, region, year)}
+                    onSave={(drinkFrom, drinkBy) => handleWindowChange(year, drinkFrom, drinkBy)}
+                  />
+                )}
               </div>
-              <span className="text-sm text-muted-foreground">
-                {vs.stock} bottle{vs.stock !== 1 ? 's' : ''}
-              </span>
-            </div>
-          ))}
+            );
+          })}
         </div>
       ) : (
         <p className="text-sm text-muted-foreground">No vintages added yet.</p>
@@ -170,6 +321,10 @@ export default function VintageManager({ vintageStocks, onChange }: VintageManag
             className="w-20"
           />
         </div>
+        <div>
+          <Label htmlFor="vintage-format" className="text-xs">Format</Label>
+          <BottleFormatSelect id="vintage-format" value={volumeMl} onChange={setVolumeMl} />
+        </div>
         <Button 
           type="button" 
           size="sm" 
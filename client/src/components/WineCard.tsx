@@ -11,7 +11,7 @@ interface WineCardProps {
 }
 
 export default function WineCard({ wine, viewMode = "grid" }: WineCardProps) {
-  const { id, name, wine: wineType, subType, producer, stockLevel, vintageStocks = [] } = wine;
+  const { id, name, wine: wineType, subType, producer, stockLevel, vintageStocks = [], imageUrl, thumbnailUrl } = wine;
   
   // Get active vintages (with stock > 0)
   const activeVintages = useMemo(() => {
@@ -69,7 +69,15 @@ export default function WineCard({ wine, viewMode = "grid" }: WineCardProps) {
   // Grid view (default)
   return (
     <Link href={`/wine/${id}`}>
-      <Card className="cursor-pointer hover:bg-muted/50 transition-colors h-full flex flex-col">
+      <Card className="cursor-pointer hover:bg-muted/50 transition-colors h-full flex flex-col overflow-hidden">
+        {(thumbnailUrl || imageUrl) && (
+          <img
+            src={thumbnailUrl || imageUrl!}
+            alt={name}
+            loading="lazy"
+            className="w-full h-40 object-cover bg-muted"
+          />
+        )}
         <CardContent className="p-4 flex-1">
           <div className="flex justify-between mb-2">
             <h3 className="font-medium text-lg">{name}</h3>
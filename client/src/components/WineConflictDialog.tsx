@@ -0,0 +1,65 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+export interface FieldConflict {
+  field: string;
+  label: string;
+  mine: unknown;
+  theirs: unknown;
+}
+
+interface WineConflictDialogProps {
+  open: boolean;
+  conflicts: FieldConflict[];
+  onReload: () => void;
+  onKeepMine: () => void;
+}
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === "") return "Not specified";
+  return String(value);
+};
+
+export default function WineConflictDialog({ open, conflicts, onReload, onKeepMine }: WineConflictDialogProps) {
+  return (
+    <AlertDialog open={open}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Changed Elsewhere</AlertDialogTitle>
+          <AlertDialogDescription>
+            Someone else saved changes to this bottle while you were editing. Choose which version to keep.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-3 text-sm">
+          {conflicts.map(conflict => (
+            <div key={conflict.field} className="border rounded-md p-2">
+              <div className="font-medium mb-1">{conflict.label}</div>
+              <div className="flex justify-between gap-2">
+                <span className="text-muted-foreground">Yours:</span>
+                <span className="text-right">{formatValue(conflict.mine)}</span>
+              </div>
+              <div className="flex justify-between gap-2">
+                <span className="text-muted-foreground">Theirs:</span>
+                <span className="text-right">{formatValue(conflict.theirs)}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onReload}>Reload Theirs</AlertDialogCancel>
+          <AlertDialogAction onClick={onKeepMine}>Keep Mine</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
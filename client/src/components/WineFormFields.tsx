@@ -2,8 +2,15 @@ import { UseFormReturn } from "react-hook-form";
 import { InsertWine, WineCategory } from "@shared/schema";
 import { FormField, FormItem, FormLabel, FormControl, FormDescription, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import BottleFormatSelect from "@/components/BottleFormatSelect";
+import RatingInput from "@/components/RatingInput";
+import { useRatingScale } from "@/hooks/useRatingScale";
+import { getDefaultVolumeMl } from "@/lib/bottle-formats";
+import { RATING_SCALES } from "@/lib/rating";
+import { ScanBarcode } from "lucide-react";
 
 // Helper function to safely convert null values to empty string for form inputs
 const nullToString = (value: string | null | undefined): string => {
@@ -13,9 +20,13 @@ const nullToString = (value: string | null | undefined): string => {
 
 interface WineFormFieldsProps {
   form: UseFormReturn<InsertWine>;
+  // Offers a button to fill in the barcode with the camera
+  onScanBarcode?: () => void;
 }
 
-export default function WineFormFields({ form }: WineFormFieldsProps) {
+export default function WineFormFields({ form, onScanBarcode }: WineFormFieldsProps) {
+  const { scale } = useRatingScale();
+
   return (
     <>
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -140,6 +151,29 @@ export default function WineFormFields({ form }: WineFormFieldsProps) {
         />
       </div>
       
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <FormField
+          control={form.control}
+          name="volumeMl"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Bottle Format</FormLabel>
+              <FormControl>
+                <BottleFormatSelect
+                  value={field.value ?? getDefaultVolumeMl(form.watch("category"))}
+                  onChange={field.onChange}
+                  className="w-full"
+                />
+              </FormControl>
+              <FormDescription>
+                Size of the bottles being added
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+      
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <FormField
           control={form.control}
@@ -170,6 +204,27 @@ export default function WineFormFields({ form }: WineFormFieldsProps) {
         />
       </div>
       
+      <FormField
+        control={form.control}
+        name="barcode"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Barcode</FormLabel>
+            <div className="flex gap-2">
+              <FormControl>
+                <Input placeholder="EAN or UPC" inputMode="numeric" {...field} value={field.value ?? ''} />
+              </FormControl>
+              {onScanBarcode && (
+                <Button type="button" variant="outline" size="icon" onClick={onScanBarcode} aria-label="Scan barcode">
+                  <ScanBarcode className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      
       <FormField
         control={form.control}
         name="notes"
@@ -195,20 +250,12 @@ export default function WineFormFields({ form }: WineFormFieldsProps) {
         name="rating"
         render={({ field }) => (
           <FormItem>
-            <FormLabel>Your Rating (1-5)</FormLabel>
+            <FormLabel>Your Rating</FormLabel>
             <FormControl>
-              <Input 
-                type="number" 
-                min={1}
-                max={5}
-                {...field}
-                onChange={(e) => field.onChange(parseInt(e.target.value) || null)}
-                value={field.value?.toString() || ""}
-                placeholder="Rate from 1 to 5"
-              />
+              <RatingInput value={field.value} onChange={field.onChange} scale={scale} />
             </FormControl>
             <FormDescription>
-              Rate this from 1 (poor) to 5 (excellent)
+              Rated out of {RATING_SCALES[scale].label}
             </FormDescription>
             <FormMessage />
           </FormItem>
@@ -1,18 +1,38 @@
 import { useMemo, useState } from "react";
-import { Wine, WineCategoryType } from "@shared/schema";
+import { useQuery } from "@tanstack/react-query";
+import { CellarWithStock, Wine, WineCategoryType } from "@shared/schema";
 import WineCard from "@/components/WineCard";
+import CellarManager from "@/components/CellarManager";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Wine as WineIcon, ChevronDown, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Wine as WineIcon, ChevronDown, ChevronRight, Warehouse } from "lucide-react";
 import { getCategoryColor } from "@/lib/wine-categories";
+import { formatLitres, getTotalLitres } from "@/lib/bottle-formats";
+import { ALL_CELLARS, CellarScope, UNASSIGNED, fromScopeValue, scopeWine, toScopeValue } from "@/lib/cellars";
 
 interface WineInventoryProps {
   wines: Wine[];
   viewMode?: "grid" | "list";
 }
 
-export default function WineInventory({ wines, viewMode = "grid" }: WineInventoryProps) {
+export default function WineInventory({ wines: allWines, viewMode = "grid" }: WineInventoryProps) {
   // State for collapsible categories
   const [collapsedCategories, setCollapsedCategories] = useState<Record<string, boolean>>({});
+  const [cellarScope, setCellarScope] = useState<CellarScope>(undefined);
+  const [isManagingCellars, setIsManagingCellars] = useState(false);
+  
+  const { data: cellars = [] } = useQuery<CellarWithStock[]>({
+    queryKey: ["/api/cellars"],
+  });
+  
+  // Within one cellar, only wines held there are shown, with the stock held there
+  const wines = useMemo(() => {
+    if (cellarScope === undefined) return allWines;
+    return allWines
+      .map(wine => scopeWine(wine, cellarScope))
+      .filter(wine => (wine.stockLevel || 0) > 0);
+  }, [allWines, cellarScope]);
   
   // Toggle category collapse state
   const toggleCategory = (category: string) => {
@@ -52,6 +72,17 @@ export default function WineInventory({ wines, viewMode = "grid" }: WineInventor
     return result;
   }, [winesByCategory]);
   
+  // Calculate total volume per category across all bottle formats
+  const litresPerCategory = useMemo(() => {
+    const result: Record<string, number> = {};
+    
+    Object.entries(winesByCategory).forEach(([category, categoryWines]) => {
+      result[category] = getTotalLitres(categoryWines.flatMap(wine => wine.stockEntries || []));
+    });
+    
+    return result;
+  }, [winesByCategory]);
+  
   // Sort categories in a specific order
   const sortedCategories = useMemo(() => {
     const categoryOrder: WineCategoryType[] = [
@@ -63,20 +94,48 @@ export default function WineInventory({ wines, viewMode = "grid" }: WineInventor
     );
   }, [winesByCategory]);
   
+  const cellarBar = (
+    <div className="flex items-center gap-2 mb-4">
+      <Select value={toScopeValue(cellarScope)} onValueChange={(value) => setCellarScope(fromScopeValue(value))}>
+        <SelectTrigger className="w-48 h-8">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_CELLARS}>All cellars</SelectItem>
+          {cellars.map(cellar => (
+            <SelectItem key={cellar.id} value={cellar.id.toString()}>{cellar.name}</SelectItem>
+          ))}
+          {cellars.length > 0 && <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>}
+        </SelectContent>
+      </Select>
+      <Button variant="outline" size="sm" onClick={() => setIsManagingCellars(true)}>
+        <Warehouse className="mr-1 h-4 w-4" />
+        Manage Cellars
+      </Button>
+      <CellarManager open={isManagingCellars} onOpenChange={setIsManagingCellars} cellars={cellars} />
+    </div>
+  );
+  
   if (wines.length === 0) {
     return (
-      <Alert className="bg-muted/50">
-        <WineIcon className="h-5 w-5" />
-        <AlertDescription>
-          No wines found in your collection. Add your first wine to get started!
-        </AlertDescription>
-      </Alert>
+      <>
+        {cellarBar}
+        <Alert className="bg-muted/50">
+          <WineIcon className="h-5 w-5" />
+          <AlertDescription>
+            {cellarScope === undefined
+              ? "No wines found in your collection. Add your first wine to get started!"
+              : "No bottles are kept here."}
+          </AlertDescription>
+        </Alert>
+      </>
     );
   }
   
   if (viewMode === "list") {
     return (
       <div className="space-y-6">
+        {cellarBar}
         {sortedCategories.map(category => (
           <div key={category}>
             <h2 className="text-lg font-semibold mb-2">{category}</h2>
@@ -94,6 +153,7 @@ export default function WineInventory({ wines, viewMode = "grid" }: WineInventor
   // Grid view (default)
   return (
     <div className="space-y-8">
+      {cellarBar}
       {sortedCategories.map(category => {
         const isCollapsed = collapsedCategories[category];
         const totalBottles = bottlesPerCategory[category];
@@ -117,7 +177,7 @@ export default function WineInventory({ wines, viewMode = "grid" }: WineInventor
                     <h2 className="text-xl font-semibold">{category}</h2>
                   </div>
                   <div className="px-3 py-1 bg-black/30 rounded-full text-sm">
-                    {totalBottles} bottle{totalBottles !== 1 ? 's' : ''}
+                    {totalBottles} bottle{totalBottles !== 1 ? 's' : ''} · {formatLitres(litresPerCategory[category])}
                   </div>
                 </div>
               </div>
@@ -0,0 +1,64 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { PhotoSideType, WinePhoto } from "@shared/schema";
+import { getPhotoUrl } from "@shared/photos";
+import { queryClient } from "@/lib/queryClient";
+import { WineService } from "@/lib/wine-api";
+import { useToast } from "@/hooks/use-toast";
+import LabelPhotoPicker from "@/components/LabelPhotoPicker";
+
+interface WinePhotosProps {
+  wineId: number;
+}
+
+export default function WinePhotos({ wineId }: WinePhotosProps) {
+  const { toast } = useToast();
+
+  const { data: photos = [], isLoading } = useQuery<WinePhoto[]>({
+    queryKey: [`/api/wines/${wineId}/photos`],
+  });
+
+  // The front photo is also the wine's image, shown in the collection
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/wines/${wineId}/photos`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/wines/${wineId}`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/wines"] });
+  };
+
+  const onError = (error: unknown) => {
+    toast({
+      variant: "destructive",
+      title: "Photo Not Saved",
+      description: error instanceof Error ? error.message : "An unknown error occurred",
+    });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: ({ side, file }: { side: PhotoSideType; file: File }) => WineService.uploadPhoto(wineId, side, file),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (side: PhotoSideType) => WineService.deletePhoto(wineId, side),
+    onSuccess: refresh,
+    onError,
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading photos...</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <LabelPhotoPicker
+        photos={Object.fromEntries(photos.map(photo => [photo.side, getPhotoUrl(photo.key)]))}
+        onSelect={(side, file) => uploadMutation.mutate({ side, file })}
+        onRemove={(side) => deleteMutation.mutate(side)}
+        disabled={uploadMutation.isPending || deleteMutation.isPending}
+      />
+      {uploadMutation.isPending && (
+        <p className="text-sm text-muted-foreground">Uploading photo...</p>
+      )}
+    </div>
+  );
+}
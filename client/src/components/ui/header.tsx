@@ -1,5 +1,7 @@
 
+import type { ReactNode } from "react";
 import ThemeToggle from "@/components/ui/theme-toggle";
+import RatingScaleMenu from "@/components/ui/rating-scale-menu";
 import { LogOut } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
@@ -7,11 +9,12 @@ import { useAuth } from "@/hooks/useAuth";
 
 interface HeaderProps {
   title?: string;
+  actions?: ReactNode; // Page-specific buttons shown before the user menu
 }
 
-export default function Header({ title = "Cellars.me" }: HeaderProps) {
+export default function Header({ title = "Cellars.me", actions }: HeaderProps) {
   const { toast } = useToast();
-  const { user } = useAuth();
+  const { user, isAuthenticated } = useAuth();
 
   const handleLogout = () => {
     window.location.href = "/api/logout";
@@ -30,6 +33,7 @@ export default function Header({ title = "Cellars.me" }: HeaderProps) {
         </div>
 
         <div className="flex items-center gap-4">
+          {actions}
           {user && (
             <span className="text-sm text-muted-foreground">
               {user.name}
@@ -44,6 +48,7 @@ export default function Header({ title = "Cellars.me" }: HeaderProps) {
             <LogOut className="h-5 w-5" />
             <span className="sr-only">Logout</span>
           </Button>
+          {isAuthenticated && <RatingScaleMenu />}
           <ThemeToggle />
         </div>
       </div>
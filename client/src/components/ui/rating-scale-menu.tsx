@@ -0,0 +1,40 @@
+import { Star } from "lucide-react";
+import { RatingScaleType } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useRatingScale } from "@/hooks/useRatingScale";
+import { RATING_SCALES } from "@/lib/rating";
+
+export default function RatingScaleMenu() {
+  const { scale, setScale, isSaving } = useRatingScale();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" title="Rating scale" disabled={isSaving}>
+          <Star className="h-5 w-5" />
+          <span className="sr-only">Rating scale</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Rating scale</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup value={scale} onValueChange={(value) => setScale(value as RatingScaleType)}>
+          {Object.entries(RATING_SCALES).map(([value, { label }]) => (
+            <DropdownMenuRadioItem key={value} value={value}>
+              {label}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
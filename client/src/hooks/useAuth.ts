@@ -1,4 +1,5 @@
 import { useQuery } from "@tanstack/react-query";
+import { User, UserRole } from "@shared/schema";
 
 export function useAuth() {
   const { data: user, isLoading } = useQuery({
@@ -10,5 +11,6 @@ export function useAuth() {
     user,
     isLoading,
     isAuthenticated: !!user,
+    isAdmin: (user as User | undefined)?.role === UserRole.ADMIN,
   };
 }
\ No newline at end of file
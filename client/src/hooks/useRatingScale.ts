@@ -0,0 +1,26 @@
+import { useMutation } from "@tanstack/react-query";
+import { RatingScaleType, User } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { getRatingScale } from "@/lib/rating";
+
+export function useRatingScale() {
+  const { user } = useAuth();
+  const scale = getRatingScale((user as User | undefined)?.ratingScale);
+
+  const mutation = useMutation({
+    mutationFn: async (ratingScale: RatingScaleType) => {
+      const response = await apiRequest("PATCH", "/api/auth/user/preferences", { ratingScale });
+      return response.json() as Promise<User>;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/auth/user"], updated);
+    },
+  });
+
+  return {
+    scale,
+    setScale: mutation.mutate,
+    isSaving: mutation.isPending,
+  };
+}
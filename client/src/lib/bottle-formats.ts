@@ -0,0 +1,60 @@
+import { DEFAULT_VOLUME_ML, WineCategory } from "@shared/schema";
+
+export interface BottleFormat {
+  volumeMl: number;
+  name: string;
+}
+
+// Standard formats, smallest first. Anything else is shown as a custom volume.
+export const BOTTLE_FORMATS: BottleFormat[] = [
+  { volumeMl: 187, name: "Piccolo" },
+  { volumeMl: 330, name: "Can / Bottle (330ml)" },
+  { volumeMl: 375, name: "Half Bottle" },
+  { volumeMl: 440, name: "Pint Can (440ml)" },
+  { volumeMl: 500, name: "Half Litre" },
+  { volumeMl: 700, name: "70cl" },
+  { volumeMl: 750, name: "Standard" },
+  { volumeMl: 1000, name: "Litre" },
+  { volumeMl: 1500, name: "Magnum" },
+  { volumeMl: 3000, name: "Double Magnum" },
+  { volumeMl: 4500, name: "Rehoboam" },
+  { volumeMl: 6000, name: "Imperial" },
+  { volumeMl: 9000, name: "Salmanazar" },
+  { volumeMl: 12000, name: "Balthazar" },
+  { volumeMl: 15000, name: "Nebuchadnezzar" },
+];
+
+export const isStandardFormat = (volumeMl: number): boolean =>
+  BOTTLE_FORMATS.some(f => f.volumeMl === volumeMl);
+
+const formatVolume = (volumeMl: number): string =>
+  volumeMl >= 1000 ? `${volumeMl / 1000}L` : `${volumeMl}ml`;
+
+export const getFormatLabel = (volumeMl: number): string => {
+  const format = BOTTLE_FORMATS.find(f => f.volumeMl === volumeMl);
+  if (!format) {
+    return formatVolume(volumeMl);
+  }
+  return format.name.includes("ml") ? format.name : `${format.name} (${formatVolume(volumeMl)})`;
+};
+
+// The format new stock of a category is most likely bought in
+export const getDefaultVolumeMl = (category: string | undefined): number => {
+  switch (category) {
+    case WineCategory.BEER:
+      return 330;
+    case WineCategory.CIDER:
+      return 500;
+    case WineCategory.WHISKIES:
+      return 700;
+    default:
+      return DEFAULT_VOLUME_ML;
+  }
+};
+
+// Total volume in litres of stock entries
+export const getTotalLitres = (entries: { volumeMl?: number; stock: number }[]): number =>
+  entries.reduce((sum, e) => sum + (e.volumeMl ?? DEFAULT_VOLUME_ML) * e.stock, 0) / 1000;
+
+export const formatLitres = (litres: number): string =>
+  `${litres.toLocaleString(undefined, { maximumFractionDigits: 2 })} L`;
@@ -0,0 +1,56 @@
+import { Cellar, StockEntry, Wine } from "@shared/schema";
+
+// A view of stock: one cellar, unassigned stock (null) or every cellar (undefined)
+export type CellarScope = number | null | undefined;
+
+// Select values for the scopes, as Radix selects only take strings
+export const ALL_CELLARS = "all";
+export const UNASSIGNED = "unassigned";
+
+export const toScopeValue = (scope: CellarScope): string =>
+  scope === undefined ? ALL_CELLARS : scope === null ? UNASSIGNED : scope.toString();
+
+export const fromScopeValue = (value: string): CellarScope =>
+  value === ALL_CELLARS ? undefined : value === UNASSIGNED ? null : parseInt(value);
+
+export const getCellarName = (cellars: Cellar[], cellarId: number | null): string =>
+  cellarId === null ? "Unassigned" : cellars.find(c => c.id === cellarId)?.name ?? "Unknown cellar";
+
+// Stock entries within a scope. Across every cellar, entries of the same vintage and format are summed.
+export const getScopedEntries = (entries: StockEntry[], scope: CellarScope): StockEntry[] => {
+  if (scope !== undefined) {
+    return entries.filter(e => e.cellarId === scope);
+  }
+
+  const merged = new Map<string, StockEntry>();
+  for (const entry of entries) {
+    const key = `${entry.vintage ?? "nv"}:${entry.volumeMl}`;
+    const current = merged.get(key);
+    merged.set(key, current
+      ? { ...current, stock: current.stock + entry.stock }
+      : { ...entry, cellarId: null });
+  }
+  return Array.from(merged.values());
+};
+
+// A wine with its stock totals limited to one cellar
+export const scopeWine = (wine: Wine, scope: CellarScope): Wine => {
+  if (scope === undefined) {
+    return wine;
+  }
+
+  const stockEntries = getScopedEntries(wine.stockEntries || [], scope);
+  const vintageStocks = (wine.vintageStocks || [])
+    .map(vs => ({
+      ...vs,
+      stock: stockEntries.filter(e => e.vintage === vs.vintage).reduce((sum, e) => sum + e.stock, 0),
+    }))
+    .filter(vs => vs.stock > 0);
+
+  return {
+    ...wine,
+    stockEntries,
+    vintageStocks,
+    stockLevel: stockEntries.reduce((sum, e) => sum + e.stock, 0),
+  };
+};
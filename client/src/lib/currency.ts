@@ -0,0 +1,14 @@
+import { DEFAULT_CURRENCY } from "@shared/schema";
+
+// Currencies offered when recording a purchase. Amounts are never converted between them.
+export const CURRENCIES = ["USD", "EUR", "GBP", "AUD", "NZD", "CAD", "CHF", "ZAR", "JPY"];
+
+export const formatMoney = (amount: string | number, currency: string = DEFAULT_CURRENCY): string => {
+  const value = typeof amount === "string" ? parseFloat(amount) : amount;
+  try {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(value);
+  } catch {
+    // Unknown currency codes fall back to a plain amount
+    return `${value.toFixed(2)} ${currency}`;
+  }
+};
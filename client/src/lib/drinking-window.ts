@@ -0,0 +1,113 @@
+import { WineCategory } from "@shared/schema";
+
+export interface DrinkingWindow {
+  drinkFrom: number;
+  drinkBy: number;
+  // True when the window was estimated rather than entered by the user
+  suggested: boolean;
+}
+
+export const DrinkingStatus = {
+  TOO_YOUNG: "too_young",
+  ENTERING: "entering",
+  READY: "ready",
+  PAST: "past",
+} as const;
+
+export type DrinkingStatusType = typeof DrinkingStatus[keyof typeof DrinkingStatus];
+
+// Years after the vintage that a category typically starts and stops drinking well
+interface Ageing {
+  from: number;
+  by: number;
+}
+
+const CATEGORY_AGEING: Record<string, Ageing> = {
+  [WineCategory.RED]: { from: 3, by: 10 },
+  [WineCategory.WHITE]: { from: 1, by: 5 },
+  [WineCategory.ROSE]: { from: 0, by: 2 },
+  [WineCategory.FORTIFIED]: { from: 5, by: 30 },
+};
+
+// Regions known for longer-lived wines. Matched case-insensitively against the region name.
+const REGION_AGEING: Record<string, { pattern: RegExp; ageing: Ageing }[]> = {
+  [WineCategory.RED]: [
+    { pattern: /barolo|barbaresco/i, ageing: { from: 8, by: 25 } },
+    { pattern: /bordeaux|pauillac|margaux|saint-julien|st-julien|saint-[ée]milion|pomerol/i, ageing: { from: 6, by: 20 } },
+    { pattern: /brunello|montalcino/i, ageing: { from: 6, by: 20 } },
+    { pattern: /burgundy|bourgogne|c[ôo]te d'or|hermitage|c[ôo]te-r[ôo]tie/i, ageing: { from: 5, by: 15 } },
+    { pattern: /rioja|ribera|napa|douro|chianti/i, ageing: { from: 4, by: 12 } },
+    { pattern: /beaujolais/i, ageing: { from: 1, by: 4 } },
+  ],
+  [WineCategory.WHITE]: [
+    { pattern: /burgundy|bourgogne|chablis|meursault|montrachet/i, ageing: { from: 2, by: 10 } },
+    { pattern: /mosel|rheingau|alsace|loire|vouvray/i, ageing: { from: 2, by: 12 } },
+    { pattern: /sauternes|barsac|tokaj/i, ageing: { from: 5, by: 30 } },
+    { pattern: /marlborough/i, ageing: { from: 0, by: 3 } },
+  ],
+};
+
+// Estimates a drinking window from category, region and vintage.
+// Returns null for categories that are not aged, such as beer or spirits.
+export const suggestDrinkingWindow = (category: string, region: string | null | undefined, vintage: number): DrinkingWindow | null => {
+  const base = CATEGORY_AGEING[category];
+  if (!base) {
+    return null;
+  }
+
+  const regional = region ? REGION_AGEING[category]?.find(r => r.pattern.test(region)) : undefined;
+  const ageing = regional?.ageing ?? base;
+  return { drinkFrom: vintage + ageing.from, drinkBy: vintage + ageing.by, suggested: true };
+};
+
+// Uses the stored window where set, filling any blank year from the suggestion
+export const getDrinkingWindow = (
+  category: string,
+  region: string | null | undefined,
+  vintage: number,
+  stored: { drinkFrom?: number | null; drinkBy?: number | null },
+): DrinkingWindow | null => {
+  const suggestion = suggestDrinkingWindow(category, region, vintage);
+  const drinkFrom = stored.drinkFrom ?? suggestion?.drinkFrom;
+  const drinkBy = stored.drinkBy ?? suggestion?.drinkBy;
+
+  if (drinkFrom === undefined || drinkBy === undefined) {
+    return null;
+  }
+
+  return {
+    drinkFrom,
+    drinkBy: Math.max(drinkFrom, drinkBy),
+    suggested: stored.drinkFrom == null || stored.drinkBy == null,
+  };
+};
+
+export const getDrinkingStatus = (window: DrinkingWindow, year = new Date().getFullYear()): DrinkingStatusType => {
+  if (year > window.drinkBy) {
+    return DrinkingStatus.PAST;
+  }
+  if (year >= window.drinkFrom) {
+    return DrinkingStatus.READY;
+  }
+  if (year === window.drinkFrom - 1) {
+    return DrinkingStatus.ENTERING;
+  }
+  return DrinkingStatus.TOO_YOUNG;
+};
+
+export const getDrinkingStatusLabel = (status: DrinkingStatusType): string => {
+  switch (status) {
+    case DrinkingStatus.PAST:
+      return "Past its best";
+    case DrinkingStatus.READY:
+      return "Ready to drink";
+    case DrinkingStatus.ENTERING:
+      return "Ready next year";
+    case DrinkingStatus.TOO_YOUNG:
+    default:
+      return "Too young";
+  }
+};
+
+export const formatDrinkingWindow = (window: DrinkingWindow): string =>
+  window.drinkFrom === window.drinkBy ? `${window.drinkFrom}` : `${window.drinkFrom}–${window.drinkBy}`;
@@ -0,0 +1,41 @@
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+// Lower-cases text and strips its accents, keeping the index of the character each folded one came from
+function fold(text: string): { folded: string; sources: number[] } {
+  let folded = "";
+  const sources: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i].normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+    folded += char;
+    for (let j = 0; j < char.length; j++) sources.push(i);
+  }
+  return { folded, sources };
+}
+
+// Splits text into the fragments that match a word of the query and the text around them,
+// ignoring case and accents as catalog search does
+export function splitHighlights(text: string, query: string): HighlightPart[] {
+  const words = fold(query).folded.split(/\s+/).filter(word => word.length >= 2);
+  if (words.length === 0 || !text) {
+    return [{ text, match: false }];
+  }
+
+  const { folded, sources } = fold(text);
+  const matched = new Array<boolean>(text.length).fill(false);
+  for (const word of words) {
+    for (let at = folded.indexOf(word); at !== -1; at = folded.indexOf(word, at + 1)) {
+      for (let i = at; i < at + word.length; i++) matched[sources[i]] = true;
+    }
+  }
+
+  const parts: HighlightPart[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const last = parts[parts.length - 1];
+    if (last && last.match === matched[i]) last.text += text[i];
+    else parts.push({ text: text[i], match: matched[i] });
+  }
+  return parts;
+}
@@ -0,0 +1,39 @@
+import { RatingScale, RatingScaleType } from "@shared/schema";
+
+// Ratings are stored from 0 to 100 and converted to the user's scale for display and input
+export const NORMALIZED_MAX = 100;
+
+export interface RatingScaleConfig {
+  label: string;
+  max: number;
+  // Smallest increment a rating is entered in on this scale
+  step: number;
+}
+
+export const RATING_SCALES: Record<RatingScaleType, RatingScaleConfig> = {
+  [RatingScale.FIVE_STAR]: { label: "5 stars", max: 5, step: 1 },
+  [RatingScale.TWENTY_POINT]: { label: "20 points", max: 20, step: 0.5 },
+  [RatingScale.HUNDRED_POINT]: { label: "100 points", max: 100, step: 1 },
+};
+
+export const getRatingScale = (scale: string | null | undefined): RatingScaleType =>
+  scale && scale in RATING_SCALES ? scale as RatingScaleType : RatingScale.FIVE_STAR;
+
+// Converts a stored rating to the given scale, rounded to the nearest step.
+// Five-star ratings are rounded to half stars for display.
+export const toScale = (normalized: number, scale: RatingScaleType, step = RATING_SCALES[scale].step): number => {
+  const { max } = RATING_SCALES[scale];
+  return Math.round((normalized / NORMALIZED_MAX) * max / step) * step;
+};
+
+export const fromScale = (value: number, scale: RatingScaleType): number => {
+  const { max } = RATING_SCALES[scale];
+  return Math.round((value / max) * NORMALIZED_MAX);
+};
+
+export const formatRating = (normalized: number | null | undefined, scale: RatingScaleType): string => {
+  if (normalized === null || normalized === undefined) return "Not rated";
+  const { max } = RATING_SCALES[scale];
+  const step = scale === RatingScale.FIVE_STAR ? 0.5 : RATING_SCALES[scale].step;
+  return `${toScale(normalized, scale, step)}/${max}`;
+};
@@ -0,0 +1,98 @@
+// Aroma wheel: families, each split into groups of descriptors
+export interface AromaFamily {
+  name: string;
+  color: string;
+  groups: { name: string; aromas: string[] }[];
+}
+
+export const AROMA_WHEEL: AromaFamily[] = [
+  {
+    name: "Fruity",
+    color: "#be185d",
+    groups: [
+      { name: "Citrus", aromas: ["Lemon", "Lime", "Grapefruit", "Orange peel"] },
+      { name: "Tree fruit", aromas: ["Green apple", "Red apple", "Pear", "Quince"] },
+      { name: "Stone fruit", aromas: ["Peach", "Apricot", "Nectarine"] },
+      { name: "Tropical", aromas: ["Pineapple", "Mango", "Passion fruit", "Lychee", "Melon"] },
+      { name: "Red fruit", aromas: ["Strawberry", "Raspberry", "Red cherry", "Cranberry", "Redcurrant"] },
+      { name: "Black fruit", aromas: ["Blackberry", "Blackcurrant", "Black cherry", "Plum", "Blueberry"] },
+      { name: "Dried fruit", aromas: ["Raisin", "Fig", "Prune", "Date"] },
+    ],
+  },
+  {
+    name: "Floral",
+    color: "#9333ea",
+    groups: [
+      { name: "Flowers", aromas: ["Rose", "Violet", "Elderflower", "Orange blossom", "Honeysuckle", "Jasmine"] },
+    ],
+  },
+  {
+    name: "Herbaceous",
+    color: "#65a30d",
+    groups: [
+      { name: "Fresh", aromas: ["Cut grass", "Green pepper", "Tomato leaf", "Asparagus"] },
+      { name: "Herbal", aromas: ["Mint", "Eucalyptus", "Thyme", "Fennel", "Dill"] },
+    ],
+  },
+  {
+    name: "Spicy",
+    color: "#b45309",
+    groups: [
+      { name: "Sweet spice", aromas: ["Vanilla", "Cinnamon", "Clove", "Nutmeg", "Liquorice"] },
+      { name: "Pungent spice", aromas: ["Black pepper", "White pepper"] },
+    ],
+  },
+  {
+    name: "Oak & Toast",
+    color: "#854d0e",
+    groups: [
+      { name: "Oak", aromas: ["Cedar", "Smoke", "Toast", "Coconut", "Coffee"] },
+      { name: "Lees & yeast", aromas: ["Bread", "Brioche", "Biscuit", "Yoghurt"] },
+    ],
+  },
+  {
+    name: "Earthy",
+    color: "#475569",
+    groups: [
+      { name: "Earth", aromas: ["Forest floor", "Mushroom", "Wet stone", "Flint", "Petrol"] },
+      { name: "Animal", aromas: ["Leather", "Game", "Meat"] },
+    ],
+  },
+  {
+    name: "Developed",
+    color: "#7f1d1d",
+    groups: [
+      { name: "Sweet", aromas: ["Honey", "Caramel", "Toffee", "Chocolate"] },
+      { name: "Nutty", aromas: ["Almond", "Hazelnut", "Walnut"] },
+      { name: "Tertiary", aromas: ["Tobacco", "Tea", "Dried leaves"] },
+    ],
+  },
+];
+
+// Colour of the family an aroma belongs to, for free-text aromas the neutral slate
+export const getAromaColor = (aroma: string): string => {
+  const family = AROMA_WHEEL.find(f => f.groups.some(g => g.aromas.includes(aroma)));
+  return family?.color ?? "#475569";
+};
+
+export type TastingLevelField = "sweetness" | "acidity" | "tannin" | "body";
+
+export const TASTING_LEVEL_FIELDS: { field: TastingLevelField; label: string }[] = [
+  { field: "sweetness", label: "Sweetness" },
+  { field: "acidity", label: "Acidity" },
+  { field: "tannin", label: "Tannin" },
+  { field: "body", label: "Body" },
+];
+
+// Labels for levels 1 to 5
+const LEVEL_LABELS: Record<TastingLevelField, string[]> = {
+  sweetness: ["Dry", "Off-dry", "Medium", "Sweet", "Luscious"],
+  acidity: ["Low", "Medium-", "Medium", "Medium+", "High"],
+  tannin: ["Low", "Medium-", "Medium", "Medium+", "High"],
+  body: ["Light", "Medium-", "Medium", "Medium+", "Full"],
+};
+
+export const getTastingLevelLabel = (field: TastingLevelField, level: number | null | undefined): string => {
+  if (level === null || level === undefined) return "Not assessed";
+  return LEVEL_LABELS[field][level - 1] ?? "Not assessed";
+};
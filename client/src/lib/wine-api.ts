@@ -1,6 +1,9 @@
-import { Wine, InsertWine, VintageStock, WineCatalog } from "@shared/schema";
+import { Wine, InsertWine, WineVintage, InsertWineVintage, Bottle, AddBottles, UpdateBottle, WineCatalog, StockMovement, InsertStockMovement, StockAdjustment, StockMovementTypeValue, StockTotals, TastingNote, InsertTastingNote, UpdateTastingNote, Purchase, InsertPurchase, PurchaseSummary, MarketValue, InsertMarketValue, ValuationReport, CellarWithStock, Cellar, InsertCellar, UpdateCellar, TransferStock, Rack, RackSlot, RackWithSlots, InsertRack, UpdateRack, AssignRackSlot, Stocktake, StocktakeLine, StocktakeSummary, StocktakeWithLines, StartStocktake, StocktakeCount, ImportSheet, WineImport, WineImportRow, WineImportResult, ExportFormatType, RestoreModeType, RestoreResult, WinePhoto, PhotoSideType, LabelScan, BarcodeLookup, CatalogSuggestion, CatalogLink, CatalogSyncField, CatalogPage, InsertWineCatalog, UpdateWineCatalog, CatalogImport, CatalogImportReport, CatalogBatchSummary, CatalogDiff, CatalogRollbackResult } from "@shared/schema";
 import { apiRequest } from "./queryClient";
 
+const ifMatch = (version?: number): Record<string, string> | undefined =>
+  version !== undefined ? { "If-Match": `"${version}"` } : undefined;
+
 /**
  * Service class for interacting with the wine API
  */
@@ -59,32 +62,563 @@ export class WineService {
   }
   
   /**
-   * Updates an existing wine
+   * Updates an existing wine. When a version is given the update only succeeds
+   * if the wine has not changed since, otherwise it fails with a 409.
+   */
+  static async updateWine(id: number, wine: Partial<InsertWine>, version?: number): Promise<Wine> {
+    const response = await apiRequest("PATCH", `/api/wines/${id}`, wine, ifMatch(version));
+    return response.json();
+  }
+  
+  /**
+   * Atomically adjusts the stock of one vintage (or non-vintage stock) by a delta.
+   * Fails with a 409 if the change would take the stock below zero.
+   */
+  static async adjustStock(id: number, adjustment: StockAdjustment): Promise<StockTotals> {
+    const response = await apiRequest("POST", `/api/wines/${id}/stock/adjust`, adjustment);
+    return response.json();
+  }
+  
+  /**
+   * Changes the non-vintage stock level of a wine by a delta, optionally for one bottle format
+   */
+  static async updateStockLevel(id: number, delta: number, type?: StockMovementTypeValue, volumeMl?: number, cellarId?: number | null): Promise<StockTotals> {
+    return this.adjustStock(id, { delta, type, volumeMl, cellarId });
+  }
+  
+  /**
+   * Changes the stock of a single vintage of a wine by a delta, optionally for one bottle format
+   */
+  static async updateVintageStocks(id: number, vintage: number, delta: number, type?: StockMovementTypeValue, volumeMl?: number, cellarId?: number | null): Promise<StockTotals> {
+    return this.adjustStock(id, { vintage, delta, type, volumeMl, cellarId });
+  }
+  
+  /**
+   * Moves bottles of one vintage and format from one cellar to another
+   */
+  static async transferStock(id: number, transfer: TransferStock): Promise<StockTotals> {
+    const response = await apiRequest("POST", `/api/wines/${id}/transfer`, transfer);
+    return response.json();
+  }
+  
+  /**
+   * Gets the user's cellars with the number of bottles each holds
+   */
+  static async getCellars(): Promise<CellarWithStock[]> {
+    const response = await fetch("/api/cellars", {
+      credentials: "include",
+    });
+    
+    if (!response.ok) {
+      throw new Error(`Failed to fetch cellars: ${response.statusText}`);
+    }
+    
+    return response.json();
+  }
+  
+  /**
+   * Adds a cellar
+   */
+  static async addCellar(cellar: InsertCellar): Promise<Cellar> {
+    const response = await apiRequest("POST", "/api/cellars", cellar);
+    return response.json();
+  }
+  
+  /**
+   * Updates a cellar's details
+   */
+  static async updateCellar(id: number, patch: UpdateCellar): Promise<Cellar> {
+    const response = await apiRequest("PATCH", `/api/cellars/${id}`, patch);
+    return response.json();
+  }
+  
+  /**
+   * Deletes a cellar. Only empty cellars can be deleted.
+   */
+  static async deleteCellar(id: number): Promise<void> {
+    await apiRequest("DELETE", `/api/cellars/${id}`);
+  }
+  
+  /**
+   * Gets the user's racks with what each slot holds
+   */
+  static async getRacks(): Promise<RackWithSlots[]> {
+    const response = await fetch("/api/racks", {
+      credentials: "include",
+    });
+    
+    if (!response.ok) {
+      throw new Error(`Failed to fetch racks: ${response.statusText}`);
+    }
+    
+    return response.json();
+  }
+  
+  /**
+   * Adds a rack
+   */
+  static async addRack(rack: InsertRack): Promise<Rack> {
+    const response = await apiRequest("POST", "/api/racks", rack);
+    return response.json();
+  }
+  
+  /**
+   * Renames, moves or resizes a rack
+   */
+  static async updateRack(id: number, patch: UpdateRack): Promise<Rack> {
+    const response = await apiRequest("PATCH", `/api/racks/${id}`, patch);
+    return response.json();
+  }
+  
+  /**
+   * Deletes a rack and its slot assignments
+   */
+  static async deleteRack(id: number): Promise<void> {
+    await apiRequest("DELETE", `/api/racks/${id}`);
+  }
+  
+  /**
+   * Puts a bottle or vintage stock in a slot, or names it as a bin. Returns null when the slot was emptied.
+   */
+  static async assignRackSlot(id: number, row: number, column: number, slot: AssignRackSlot): Promise<RackSlot | null> {
+    const response = await apiRequest("PUT", `/api/racks/${id}/slots/${row}/${column}`, slot);
+    return response.status === 204 ? null : response.json();
+  }
+  
+  /**
+   * Empties a slot
+   */
+  static async clearRackSlot(id: number, row: number, column: number): Promise<void> {
+    await apiRequest("DELETE", `/api/racks/${id}/slots/${row}/${column}`);
+  }
+  
+  /**
+   * Gets all vintages of a wine, including those without stock
+   */
+  static async getVintages(id: number): Promise<WineVintage[]> {
+    const response = await fetch(`/api/wines/${id}/vintages`, {
+      credentials: "include",
+    });
+    
+    if (!response.ok) {
+      throw new Error(`Failed to fetch vintages: ${response.statusText}`);
+    }
+    
+    return response.json();
+  }
+  
+  /**
+   * Creates or updates a vintage of a wine
+   */
+  static async saveVintage(id: number, vintage: InsertWineVintage): Promise<WineVintage> {
+    const response = await apiRequest("PUT", `/api/wines/${id}/vintages/${vintage.vintage}`, vintage);
+    return response.json();
+  }
+  
+  /**
+   * Removes a vintage from a wine, writing off its remaining stock
+   */
+  static async removeVintage(id: number, vintage: number): Promise<void> {
+    await apiRequest("DELETE", `/api/wines/${id}/vintages/${vintage}`);
+  }
+  
+  /**
+   * Gets the individual bottle records of a wine
+   */
+  static async getBottles(id: number): Promise<Bottle[]> {
+    const response = await fetch(`/api/wines/${id}/bottles`, {
+      credentials: "include",
+    });
+    
+    if (!response.ok) {
+      throw new Error(`Failed to fetch bottles: ${response.statusText}`);
+    }
+    
+    return response.json();
+  }
+  
+  /**
+   * Adds newly purchased bottles as individual records
+   */
+  static async addBottles(id: number, input: AddBottles): Promise<Bottle[]> {
+    const response = await apiRequest("POST", `/api/wines/${id}/bottles`, input);
+    return response.json();
+  }
+  
+  /**
+   * Starts tracking the existing stock of a vintage and format as individual bottles
+   */
+  static async trackBottles(id: number, vintage: number | null, volumeMl?: number, cellarId?: number | null): Promise<Bottle[]> {
+    const response = await apiRequest("POST", `/api/wines/${id}/bottles/track`, { vintage, volumeMl, cellarId });
+    return response.json();
+  }
+  
+  /**
+   * Updates a single bottle
+   */
+  static async updateBottle(id: number, bottleId: number, patch: UpdateBottle): Promise<Bottle> {
+    const response = await apiRequest("PATCH", `/api/wines/${id}/bottles/${bottleId}`, patch);
+    return response.json();
+  }
+  
+  /**
+   * Gets the stock movement history of a wine, newest first
+   */
+  static async getStockMovements(id: number): Promise<StockMovement[]> {
+    const response = await fetch(`/api/wines/${id}/movements`, {
+      credentials: "include",
+    });
+    
+    if (!response.ok) {
+      throw new Error(`Failed to fetch stock movements: ${response.statusText}`);
+    }
+    
+    return response.json();
+  }
+  
+  /**
+   * Records a stock movement and returns the wine with its recomputed stock
+   */
+  static async recordStockMovement(id: number, movement: InsertStockMovement): Promise<Wine> {
+    const response = await apiRequest("POST", `/api/wines/${id}/movements`, movement);
+    return response.json();
+  }
+  
+  /**
+   * Gets past and current stocktakes with their progress, newest first
+   */
+  static async getStocktakes(): Promise<StocktakeSummary[]> {
+    const response = await fetch("/api/stocktakes", {
+      credentials: "include",
+    });
+    
+    if (!response.ok) {
+      throw new Error(`Failed to fetch stocktakes: ${response.statusText}`);
+    }
+    
+    return response.json();
+  }
+  
+  /**
+   * Gets a stocktake with its expected and counted quantities
+   */
+  static async getStocktake(id: number): Promise<StocktakeWithLines> {
+    const response = await fetch(`/api/stocktakes/${id}`, {
+      credentials: "include",
+    });
+    
+    if (!response.ok) {
+      throw new Error(`Failed to fetch stocktake: ${response.statusText}`);
+    }
+    
+    return response.json();
+  }
+  
+  /**
+   * Starts a stocktake of every cellar, or of one
+   */
+  static async startStocktake(input: StartStocktake): Promise<Stocktake> {
+    const response = await apiRequest("POST", "/api/stocktakes", input);
+    return response.json();
+  }
+  
+  /**
+   * Records the counted quantity of one vintage and format of a wine
+   */
+  static async recordStocktakeCount(id: number, count: StocktakeCount): Promise<StocktakeLine> {
+    const response = await apiRequest("PUT", `/api/stocktakes/${id}/counts`, count);
+    return response.json();
+  }
+  
+  /**
+   * Adjusts stock to the counted quantities and closes the stocktake
+   */
+  static async applyStocktake(id: number): Promise<StocktakeWithLines> {
+    const response = await apiRequest("POST", `/api/stocktakes/${id}/apply`);
+    return response.json();
+  }
+  
+  /**
+   * Closes a stocktake without changing any stock
+   */
+  static async discardStocktake(id: number): Promise<Stocktake> {
+    const response = await apiRequest("POST", `/api/stocktakes/${id}/discard`);
+    return response.json();
+  }
+  
+  /**
+   * Gets the purchases of a wine, newest first
    */
-  static async updateWine(id: number, wine: Partial<InsertWine>): Promise<Wine> {
-    const response = await apiRequest("PATCH", `/api/wines/${id}`, wine);
+  static async getPurchases(id: number): Promise<Purchase[]> {
+    const response = await fetch(`/api/wines/${id}/purchases`, {
+      credentials: "include",
+    });
+    
+    if (!response.ok) {
+      throw new Error(`Failed to fetch purchases: ${response.statusText}`);
+    }
+    
     return response.json();
   }
   
   /**
-   * Updates the stock level of a wine
+   * Records a purchase, which adds its bottles to the wine's stock
    */
-  static async updateStockLevel(id: number, stockLevel: number): Promise<Wine> {
-    return this.updateWine(id, { stockLevel });
+  static async addPurchase(id: number, purchase: InsertPurchase): Promise<Purchase> {
+    const response = await apiRequest("POST", `/api/wines/${id}/purchases`, purchase);
+    return response.json();
+  }
+  
+  /**
+   * Gets total spend and average cost per bottle by category and currency
+   */
+  static async getPurchaseSummary(): Promise<PurchaseSummary[]> {
+    const response = await fetch("/api/purchases/summary", {
+      credentials: "include",
+    });
+    
+    if (!response.ok) {
+      throw new Error(`Failed to fetch purchase summary: ${response.statusText}`);
+    }
+    
+    return response.json();
+  }
+  
+  /**
+   * Gets the recorded market values of a wine, newest first
+   */
+  static async getMarketValues(id: number): Promise<MarketValue[]> {
+    const response = await fetch(`/api/wines/${id}/market-values`, {
+      credentials: "include",
+    });
+    
+    if (!response.ok) {
+      throw new Error(`Failed to fetch market values: ${response.statusText}`);
+    }
+    
+    return response.json();
+  }
+  
+  /**
+   * Records a market value for a vintage of a wine
+   */
+  static async addMarketValue(id: number, value: InsertMarketValue): Promise<MarketValue> {
+    const response = await apiRequest("POST", `/api/wines/${id}/market-values`, value);
+    return response.json();
   }
   
   /**
-   * Updates the vintage stocks of a wine
+   * Deletes a market value
    */
-  static async updateVintageStocks(id: number, vintageStocks: VintageStock[]): Promise<Wine> {
-    return this.updateWine(id, { vintageStocks });
+  static async deleteMarketValue(id: number, valueId: number): Promise<void> {
+    await apiRequest("DELETE", `/api/wines/${id}/market-values/${valueId}`);
+  }
+  
+  /**
+   * Imports market values from CSV text. Rows that could not be imported are returned with their line numbers.
+   */
+  static async importMarketValues(csv: string): Promise<{ imported: number; errors: { line: number; message: string }[] }> {
+    const response = await fetch("/api/market-values/import", {
+      method: "POST",
+      headers: { "Content-Type": "text/csv" },
+      body: csv,
+      credentials: "include",
+    });
+    
+    if (!response.ok) {
+      const { message } = await response.json().catch(() => ({ message: response.statusText }));
+      throw new Error(`Failed to import market values: ${message}`);
+    }
+    
+    return response.json();
+  }
+  
+  /**
+   * Gets the current value, unrealized gain and value over time of the collection
+   */
+  static async getValuation(): Promise<ValuationReport> {
+    const response = await fetch("/api/valuation", {
+      credentials: "include",
+    });
+    
+    if (!response.ok) {
+      throw new Error(`Failed to fetch valuation: ${response.statusText}`);
+    }
+    
+    return response.json();
+  }
+  
+  /**
+   * Gets the tasting notes of a wine, newest first
+   */
+  static async getTastingNotes(id: number): Promise<TastingNote[]> {
+    const response = await fetch(`/api/wines/${id}/tasting-notes`, {
+      credentials: "include",
+    });
+    
+    if (!response.ok) {
+      throw new Error(`Failed to fetch tasting notes: ${response.statusText}`);
+    }
+    
+    return response.json();
+  }
+  
+  /**
+   * Adds a tasting note to a wine
+   */
+  static async addTastingNote(id: number, note: InsertTastingNote): Promise<TastingNote> {
+    const response = await apiRequest("POST", `/api/wines/${id}/tasting-notes`, note);
+    return response.json();
+  }
+  
+  /**
+   * Updates a tasting note
+   */
+  static async updateTastingNote(id: number, noteId: number, patch: UpdateTastingNote): Promise<TastingNote> {
+    const response = await apiRequest("PATCH", `/api/wines/${id}/tasting-notes/${noteId}`, patch);
+    return response.json();
+  }
+  
+  /**
+   * Deletes a tasting note
+   */
+  static async deleteTastingNote(id: number, noteId: number): Promise<void> {
+    await apiRequest("DELETE", `/api/wines/${id}/tasting-notes/${noteId}`);
+  }
+  
+  /**
+   * Gets the label photos of a wine
+   */
+  static async getPhotos(id: number): Promise<WinePhoto[]> {
+    const response = await fetch(`/api/wines/${id}/photos`, {
+      credentials: "include",
+    });
+    
+    if (!response.ok) {
+      throw new Error(`Failed to fetch photos: ${response.statusText}`);
+    }
+    
+    return response.json();
+  }
+  
+  /**
+   * Uploads a photo of the front or back label, replacing any photo of that side.
+   * A front photo becomes the wine's image.
+   */
+  static async uploadPhoto(id: number, side: PhotoSideType, photo: File): Promise<WinePhoto> {
+    const body = new FormData();
+    body.append("side", side);
+    body.append("photo", photo);
+    const response = await fetch(`/api/wines/${id}/photos`, {
+      method: "POST",
+      body,
+      credentials: "include",
+    });
+    
+    if (!response.ok) {
+      const { message } = await response.json().catch(() => ({ message: response.statusText }));
+      throw new Error(message);
+    }
+    
+    return response.json();
+  }
+  
+  /**
+   * Reads a label photo and suggests the name, producer, vintage, region and country it shows
+   */
+  static async scanLabel(photo: File): Promise<LabelScan> {
+    const body = new FormData();
+    body.append("photo", photo);
+    const response = await fetch("/api/wines/scan-label", {
+      method: "POST",
+      body,
+      credentials: "include",
+    });
+    
+    if (!response.ok) {
+      const { message } = await response.json().catch(() => ({ message: response.statusText }));
+      throw new Error(message);
+    }
+    
+    return response.json();
+  }
+  
+  /**
+   * Removes the photo of one side of a wine's label
+   */
+  static async deletePhoto(id: number, side: PhotoSideType): Promise<void> {
+    await apiRequest("DELETE", `/api/wines/${id}/photos/${side}`);
+  }
+  
+  /**
+   * Gets the download URL of the collection in a file format, limited to a category and filter text
+   */
+  static getExportUrl(format: ExportFormatType, category: string, filter: string): string {
+    const params = new URLSearchParams({ format });
+    if (category !== "All") params.set("category", category);
+    if (filter) params.set("q", filter);
+    return `/api/wines/export?${params}`;
+  }
+  
+  /**
+   * Reads a CSV, XLSX or JSON export file into its columns and rows, ready to be mapped for import
+   */
+  static async parseImportFile(file: File): Promise<ImportSheet> {
+    const response = await fetch("/api/wines/import/parse", {
+      method: "POST",
+      headers: { "Content-Type": file.name.toLowerCase().endsWith(".csv") ? "text/csv" : "application/octet-stream" },
+      body: file,
+      credentials: "include",
+    });
+    
+    if (!response.ok) {
+      const { message } = await response.json().catch(() => ({ message: response.statusText }));
+      throw new Error(message);
+    }
+    
+    return response.json();
+  }
+  
+  /**
+   * Shows what each mapped row of an import would add, with any validation errors
+   */
+  static async previewImport(input: WineImport): Promise<WineImportRow[]> {
+    const response = await apiRequest("POST", "/api/wines/import/preview", input);
+    return response.json();
+  }
+  
+  /**
+   * Imports the valid rows of a mapped spreadsheet
+   */
+  static async importWines(input: WineImport): Promise<WineImportResult> {
+    const response = await apiRequest("POST", "/api/wines/import", input);
+    return response.json();
+  }
+  
+  /**
+   * Restores a backup archive into the account, replacing its data or adding what it is missing
+   */
+  static async restoreBackup(archive: File, mode: RestoreModeType): Promise<RestoreResult> {
+    const response = await fetch(`/api/backup/restore?mode=${mode}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/zip" },
+      body: archive,
+      credentials: "include",
+    });
+    
+    if (!response.ok) {
+      const { message } = await response.json().catch(() => ({ message: response.statusText }));
+      throw new Error(message);
+    }
+    
+    return response.json();
   }
   
   /**
    * Deletes a wine from the inventory
    */
-  static async deleteWine(id: number): Promise<void> {
-    await apiRequest("DELETE", `/api/wines/${id}`);
+  static async deleteWine(id: number, version?: number): Promise<void> {
+    await apiRequest("DELETE", `/api/wines/${id}`, undefined, ifMatch(version));
   }
   
   /**
@@ -101,4 +635,151 @@ export class WineService {
     
     return response.json();
   }
+  
+  /**
+   * Finds what a scanned barcode belongs to, in the collection and in the catalog
+   */
+  static async lookupBarcode(code: string): Promise<BarcodeLookup> {
+    const response = await fetch(`/api/catalog/barcode/${encodeURIComponent(code)}`, {
+      credentials: "include",
+    });
+    
+    if (!response.ok) {
+      const { message } = await response.json().catch(() => ({ message: response.statusText }));
+      throw new Error(message);
+    }
+    
+    return response.json();
+  }
+  
+  /**
+   * Gets the catalog entry a wine is linked to, with the values re-syncing would give its fields
+   */
+  static async getCatalogLink(id: number): Promise<CatalogLink> {
+    const response = await fetch(`/api/wines/${id}/catalog`, {
+      credentials: "include",
+    });
+    
+    if (!response.ok) {
+      throw new Error(`Failed to fetch catalog link: ${response.statusText}`);
+    }
+    
+    return response.json();
+  }
+  
+  /**
+   * Copies the given fields from the wine's linked catalog entry onto the wine
+   */
+  static async syncWithCatalog(id: number, fields: CatalogSyncField[], version?: number): Promise<Wine> {
+    const response = await apiRequest("POST", `/api/wines/${id}/catalog/sync`, { fields }, ifMatch(version));
+    return response.json();
+  }
+  
+  /**
+   * Gets the catalog entries suggested for a wine that is not linked to one, best first
+   */
+  static async getCatalogSuggestions(id: number): Promise<CatalogSuggestion[]> {
+    const response = await fetch(`/api/wines/${id}/catalog-suggestions`, {
+      credentials: "include",
+    });
+    
+    if (!response.ok) {
+      throw new Error(`Failed to fetch catalog suggestions: ${response.statusText}`);
+    }
+    
+    return response.json();
+  }
+  
+  /**
+   * Turns down a suggested catalog entry, so it is not suggested for the wine again
+   */
+  static async dismissCatalogSuggestion(id: number, catalogId: number): Promise<void> {
+    await apiRequest("POST", `/api/wines/${id}/catalog-suggestions/${catalogId}/dismiss`);
+  }
+  
+  /**
+   * Gets a page of catalog entries for the admin console, optionally searched
+   */
+  static async getCatalogPage(query: string, page: number): Promise<CatalogPage> {
+    const params = new URLSearchParams({ q: query, page: page.toString() });
+    const response = await fetch(`/api/admin/catalog?${params}`, {
+      credentials: "include",
+    });
+    
+    if (!response.ok) {
+      throw new Error(`Failed to fetch wine catalog: ${response.statusText}`);
+    }
+    
+    return response.json();
+  }
+  
+  /**
+   * Adds an entry to the wine catalog. Admins only.
+   */
+  static async addCatalogEntry(entry: InsertWineCatalog): Promise<WineCatalog> {
+    const response = await apiRequest("POST", "/api/admin/catalog", entry);
+    return response.json();
+  }
+  
+  /**
+   * Corrects a catalog entry. Admins only.
+   */
+  static async updateCatalogEntry(id: number, patch: UpdateWineCatalog): Promise<WineCatalog> {
+    const response = await apiRequest("PATCH", `/api/admin/catalog/${id}`, patch);
+    return response.json();
+  }
+  
+  /**
+   * Deletes a catalog entry. Wines linked to it are unlinked. Admins only.
+   */
+  static async deleteCatalogEntry(id: number): Promise<void> {
+    await apiRequest("DELETE", `/api/admin/catalog/${id}`);
+  }
+  
+  /**
+   * Adds and updates catalog entries from the mapped rows of a file read by parseImportFile,
+   * or with dryRun reports what that would do. Admins only.
+   */
+  static async importCatalog(input: CatalogImport): Promise<CatalogImportReport> {
+    const response = await apiRequest("POST", "/api/admin/catalog/import", input);
+    return response.json();
+  }
+  
+  /**
+   * Gets every batch of catalog changes, newest first. Admins only.
+   */
+  static async getCatalogBatches(): Promise<CatalogBatchSummary[]> {
+    const response = await fetch("/api/admin/catalog/batches", {
+      credentials: "include",
+    });
+    
+    if (!response.ok) {
+      throw new Error(`Failed to fetch catalog history: ${response.statusText}`);
+    }
+    
+    return response.json();
+  }
+  
+  /**
+   * Gets the entries that differ between two versions of the catalog. Admins only.
+   */
+  static async getCatalogDiff(from: number, to: number): Promise<CatalogDiff> {
+    const response = await fetch(`/api/admin/catalog/batches/diff?from=${from}&to=${to}`, {
+      credentials: "include",
+    });
+    
+    if (!response.ok) {
+      throw new Error(`Failed to compare catalog versions: ${response.statusText}`);
+    }
+    
+    return response.json();
+  }
+  
+  /**
+   * Rolls back a batch of catalog changes. Admins only.
+   */
+  static async rollbackCatalogBatch(id: number): Promise<CatalogRollbackResult> {
+    const response = await apiRequest("POST", `/api/admin/catalog/batches/${id}/rollback`);
+    return response.json();
+  }
 }
@@ -0,0 +1,61 @@
+import { WineImportField } from "@shared/schema";
+
+export const IMPORT_FIELD_LABELS: Record<WineImportField, string> = {
+  name: "Name",
+  category: "Category",
+  wine: "Wine Type",
+  subType: "Sub-Type",
+  producer: "Producer",
+  region: "Region",
+  country: "Country",
+  barcode: "Barcode",
+  vintage: "Vintage",
+  quantity: "Quantity",
+  volumeMl: "Bottle Size",
+  drinkFrom: "Drink From",
+  drinkBy: "Drink By",
+  rating: "Rating (0-100)",
+  notes: "Notes",
+};
+
+// Column headings used for each field by spreadsheets and by CellarTracker and Vivino exports
+const COLUMN_ALIASES: Record<WineImportField, string[]> = {
+  name: ["name", "wine", "wine name"],
+  category: ["category", "type", "wine type", "color", "colour"],
+  wine: ["varietal", "master varietal", "grape", "grapes"],
+  subType: ["sub-type", "sub type", "subtype", "appellation", "designation"],
+  producer: ["producer", "winery", "maker", "brand"],
+  region: ["region", "sub-region", "subregion"],
+  country: ["country"],
+  barcode: ["barcode", "ean", "upc", "gtin", "ean13", "upc code"],
+  vintage: ["vintage", "year"],
+  quantity: ["quantity", "qty", "bottles", "count", "stock", "user cellar count"],
+  volumeMl: ["size", "bottle size", "format", "volume"],
+  drinkFrom: ["drink from", "begin consume", "drink window start"],
+  drinkBy: ["drink by", "end consume", "drink window end"],
+  rating: ["rating", "score", "ct", "my score"],
+  notes: ["notes", "note", "comments", "personal note", "my notes"],
+};
+
+const normalizeHeading = (heading: string) => heading.trim().toLowerCase().replace(/[_\s]+/g, " ");
+
+// Guesses which column each field comes from by its heading. Columns named exactly after a field,
+// as in exports, are matched first. Each column is used at most once. Catalog imports map the
+// catalog's fields, which wine imports share.
+export const guessImportMapping = <F extends WineImportField>(columns: string[], fields: readonly F[]): Partial<Record<F, number>> => {
+  const mapping: Partial<Record<F, number>> = {};
+  const used = new Set<number>();
+  const match = (isMatch: (field: F, heading: string) => boolean) => {
+    for (const field of fields) {
+      if (mapping[field] !== undefined) continue;
+      const index = columns.findIndex((column, i) => !used.has(i) && isMatch(field, normalizeHeading(column)));
+      if (index !== -1) {
+        mapping[field] = index;
+        used.add(index);
+      }
+    }
+  };
+  match((field, heading) => heading === field.toLowerCase());
+  match((field, heading) => COLUMN_ALIASES[field].includes(heading));
+  return mapping;
+};
@@ -1,24 +1,40 @@
 import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
+import { useQuery } from "@tanstack/react-query";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useLocation, useRoute } from "wouter";
-import { wineFormSchema, InsertWine, VintageStock, WineCategory, WineCatalog } from "@shared/schema";
+import { useLocation, useRoute, useSearch } from "wouter";
+import { wineFormSchema, InsertWine, VintageStock, WineCategory, WineCatalog, CellarWithStock, Wine, PhotoSide, PhotoSideType, LabelScanField, BarcodeLookup } from "@shared/schema";
+import { normalizeCategory } from "@shared/category";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
+import { WineService } from "@/lib/wine-api";
 import { useToast } from "@/hooks/use-toast";
-import { Form } from "@/components/ui/form";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import Header from "@/components/ui/header";
 import WineFormFields from "@/components/WineFormFields";
 import VintageManager from "@/components/VintageManager";
+import PurchaseFormFields from "@/components/PurchaseFormFields";
+import LabelPhotoPicker from "@/components/LabelPhotoPicker";
+import LabelScanner from "@/components/LabelScanner";
+import BarcodeScannerDialog from "@/components/BarcodeScannerDialog";
 import { ArrowLeft } from "lucide-react";
 import { getVintageApplicableCategories } from "@/lib/wine-categories";
+import { getDefaultVolumeMl } from "@/lib/bottle-formats";
+import { UNASSIGNED, fromScopeValue, toScopeValue } from "@/lib/cellars";
 
 export default function AddWine() {
   const [, navigate] = useLocation();
   const [location] = useLocation();
   const [isVintageApplicable, setIsVintageApplicable] = useState(false);
+  // Label photos are uploaded once the wine has been added
+  const [photos, setPhotos] = useState<Partial<Record<PhotoSideType, File>>>({});
+  const [photoUrls, setPhotoUrls] = useState<Partial<Record<PhotoSideType, string>>>({});
+  const [isScanningBarcode, setIsScanningBarcode] = useState(false);
+  // A barcode scanned elsewhere that matched nothing, to be saved with the new wine
+  const scannedBarcode = new URLSearchParams(useSearch()).get("barcode");
   const { toast } = useToast();
   
   // Get the wine data from localStorage (added by the search component)
@@ -41,35 +57,42 @@ export default function AddWine() {
   
   const catalogWine = getSelectedWineData();
   
-  // Map catalog categories to app categories, handling "NA" or other unknown values
-  const mapCategoryToAppCategory = (catalogCategory: string | undefined): keyof typeof WineCategory => {
-    if (!catalogCategory || catalogCategory === "NA" || catalogCategory === "Spirit") {
-      return "OTHER";
-    }
-    
-    // Check if the category exists in WineCategory
-    const categoryExists = Object.values(WineCategory).includes(catalogCategory as any);
-    return categoryExists ? (catalogCategory as keyof typeof WineCategory) : "OTHER";
-  };
-  
   // Setup form with default values or values from search selection
   const form = useForm<InsertWine>({
     resolver: zodResolver(wineFormSchema),
     defaultValues: {
       name: catalogWine?.name || "",
-      category: mapCategoryToAppCategory(catalogWine?.category),
+      category: normalizeCategory(catalogWine?.category),
       wine: catalogWine?.wine || "",      // Include Wine Type
       subType: catalogWine?.subType || "", // Include Sub-Type
       producer: catalogWine?.producer || "",
       region: catalogWine?.region || "",
       country: catalogWine?.country || "",
+      barcode: catalogWine?.barcode || scannedBarcode || "",
+      catalogId: catalogWine?.id ?? null, // Keeps the wine linked to the entry it was picked from
       stockLevel: 1, // Default to 1 bottle for better user experience
       notes: "",
       vintageStocks: [],
+      purchase: null,
+      cellarId: null,
     },
   });
   
+  const { data: cellars = [] } = useQuery<CellarWithStock[]>({
+    queryKey: ["/api/cellars"],
+  });
+  
   const watchCategory = form.watch("category");
+  const linkedCatalogId = form.watch("catalogId");
+  
+  // Previews of the chosen photos, released when they are replaced or the page is left
+  useEffect(() => {
+    const urls = Object.fromEntries(
+      Object.entries(photos).map(([side, file]) => [side, URL.createObjectURL(file)]),
+    );
+    setPhotoUrls(urls);
+    return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+  }, [photos]);
   
   // Check if the wine category allows vintages
   useEffect(() => {
@@ -79,6 +102,9 @@ export default function AddWine() {
   
   const onSubmit = async (data: InsertWine) => {
     try {
+      // Stock is added in the format shown, which follows the category until one is picked
+      data.volumeMl = data.volumeMl ?? getDefaultVolumeMl(data.category);
+      
       // If vintage is applicable but stockLevel > 0 and no vintageStocks,
       // create a default vintage for the current year
       if (isVintageApplicable && data.stockLevel && data.stockLevel > 0 && (!data.vintageStocks || data.vintageStocks.length === 0)) {
@@ -86,12 +112,34 @@ export default function AddWine() {
         const stockLevel = data.stockLevel || 1;
         data.vintageStocks = [{
           vintage: currentYear,
-          stock: stockLevel
+          stock: stockLevel,
+          volumeMl: data.volumeMl
         }];
       }
       
-      await apiRequest("POST", "/api/wines", data);
+      const response = await apiRequest("POST", "/api/wines", data);
+      const created: Wine = await response.json();
+      
+      // The wine is added even if a photo fails, and photos can be added again from its page
+      const failedUploads: string[] = [];
+      for (const [side, file] of Object.entries(photos) as [PhotoSideType, File][]) {
+        try {
+          await WineService.uploadPhoto(created.id, side, file);
+        } catch (error) {
+          failedUploads.push(error instanceof Error ? error.message : String(error));
+        }
+      }
+      if (failedUploads.length > 0) {
+        toast({
+          variant: "destructive",
+          title: "Photo Not Uploaded",
+          description: failedUploads.join(" "),
+        });
+      }
+      
       queryClient.invalidateQueries({ queryKey: ["/api/wines"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/purchases/summary"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cellars"] });
       
       toast({
         title: "Bottle Added",
@@ -108,6 +156,55 @@ export default function AddWine() {
     }
   };
   
+  // Fills in a field from a scanned label. A vintage becomes the vintage the stock is added in.
+  const handleAcceptScan = (field: LabelScanField, value: string) => {
+    if (field !== "vintage") {
+      form.setValue(field, value, { shouldDirty: true });
+      return;
+    }
+    
+    const vintage = parseInt(value);
+    const current = form.getValues("vintageStocks") ?? [];
+    if (current.some(vs => vs.vintage === vintage)) return;
+    const volumeMl = form.getValues("volumeMl") ?? getDefaultVolumeMl(form.getValues("category"));
+    handleVintageStocksChange(current.length === 0
+      ? [{ vintage, stock: form.getValues("stockLevel") || 1, volumeMl }]
+      : [...current, { vintage, stock: 1, volumeMl }]);
+  };
+  
+  const handleUseCatalogEntry = (entry: WineCatalog) => {
+    form.setValue("catalogId", entry.id, { shouldDirty: true });
+    form.setValue("name", entry.name, { shouldDirty: true });
+    form.setValue("category", normalizeCategory(entry.category), { shouldDirty: true });
+    form.setValue("wine", entry.wine || "", { shouldDirty: true });
+    form.setValue("subType", entry.subType || "", { shouldDirty: true });
+    form.setValue("producer", entry.producer || "", { shouldDirty: true });
+    form.setValue("region", entry.region || "", { shouldDirty: true });
+    form.setValue("country", entry.country || "", { shouldDirty: true });
+    if (entry.barcode) {
+      form.setValue("barcode", entry.barcode, { shouldDirty: true });
+    }
+  };
+  
+  // A wine already in the collection is opened instead, so its stock can be changed
+  const handleBarcodeLookup = (lookup: BarcodeLookup) => {
+    if (lookup.wine) {
+      navigate(`/wine/${lookup.wine.id}?scanned=1`);
+      return;
+    }
+    
+    if (lookup.catalog) {
+      handleUseCatalogEntry(lookup.catalog);
+    }
+    form.setValue("barcode", lookup.barcode, { shouldDirty: true });
+    toast({
+      title: lookup.catalog ? "Found in Catalog" : "Barcode Not Found",
+      description: lookup.catalog
+        ? `Details of ${lookup.catalog.name} have been filled in.`
+        : "Fill in the details, and the barcode will be recognized next time.",
+    });
+  };
+  
   // Handle vintage stock changes
   const handleVintageStocksChange = (vintageStocks: VintageStock[]) => {
     // Validate vintage years
@@ -146,9 +243,18 @@ export default function AddWine() {
             <CardTitle className="text-2xl">
               {catalogWine ? `Add ${catalogWine.name}` : "Add New Bottle"}
             </CardTitle>
-            {catalogWine && (
+            {linkedCatalogId != null && (
               <p className="text-sm text-muted-foreground">
-                Information populated from catalog
+                Information populated from catalog. The bottle will stay linked to its catalog entry.{" "}
+                <Button
+                  type="button"
+                  variant="link"
+                  size="sm"
+                  className="px-0 h-auto"
+                  onClick={() => form.setValue("catalogId", null, { shouldDirty: true })}
+                >
+                  Don't link
+                </Button>
               </p>
             )}
           </CardHeader>
@@ -156,14 +262,67 @@ export default function AddWine() {
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)}>
               <CardContent className="space-y-6">
-                <WineFormFields form={form} />
+                <div className="space-y-2">
+                  <h3 className="text-sm font-medium">Scan the Label</h3>
+                  <LabelScanner
+                    onAccept={handleAcceptScan}
+                    onUseCatalogEntry={handleUseCatalogEntry}
+                    onScanned={(photo) => setPhotos(current => current[PhotoSide.FRONT] ? current : { ...current, [PhotoSide.FRONT]: photo })}
+                  />
+                </div>
+                
+                <WineFormFields form={form} onScanBarcode={() => setIsScanningBarcode(true)} />
                 
                 {isVintageApplicable && (
                   <VintageManager
                     vintageStocks={Array.isArray(form.watch("vintageStocks")) ? form.watch("vintageStocks") : []}
                     onChange={handleVintageStocksChange}
+                    defaultVolumeMl={form.watch("volumeMl") ?? getDefaultVolumeMl(watchCategory)}
+                    category={watchCategory}
+                    region={form.watch("region")}
+                  />
+                )}
+                
+                {cellars.length > 0 && (
+                  <FormField
+                    control={form.control}
+                    name="cellarId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Cellar</FormLabel>
+                        <Select 
+                          onValueChange={(value) => field.onChange(fromScopeValue(value))} 
+                          value={toScopeValue(field.value ?? null)}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {cellars.map(cellar => (
+                              <SelectItem key={cellar.id} value={cellar.id.toString()}>{cellar.name}</SelectItem>
+                            ))}
+                            <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
                   />
                 )}
+                
+                <div className="space-y-2">
+                  <h3 className="text-sm font-medium">Label Photos</h3>
+                  <LabelPhotoPicker
+                    photos={photoUrls}
+                    onSelect={(side, file) => setPhotos(current => ({ ...current, [side]: file }))}
+                    onRemove={(side) => setPhotos(({ [side]: _removed, ...rest }) => rest)}
+                    disabled={form.formState.isSubmitting}
+                  />
+                </div>
+                
+                <PurchaseFormFields form={form} />
               </CardContent>
               
               <CardFooter className="flex justify-end gap-2">
@@ -180,6 +339,12 @@ export default function AddWine() {
           </Form>
         </Card>
       </main>
+      
+      <BarcodeScannerDialog
+        open={isScanningBarcode}
+        onOpenChange={setIsScanningBarcode}
+        onLookup={handleBarcodeLookup}
+      />
     </div>
   );
 }
@@ -0,0 +1,242 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { CatalogPage, InsertWineCatalog, WineCatalog } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { WineService } from "@/lib/wine-api";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import Header from "@/components/ui/header";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import CatalogEntryForm from "@/components/CatalogEntryForm";
+import { ArrowLeft, ChevronLeft, ChevronRight, Edit, History, Plus, Search, Trash2, Upload } from "lucide-react";
+
+// The catalog writes "NA" for values it does not have
+const display = (value: string | null) => (value && value !== "NA" ? value : "");
+
+export default function AdminCatalog() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const { isAdmin } = useAuth();
+  const [search, setSearch] = useState("");
+  const [query, setQuery] = useState("");
+  const [page, setPage] = useState(1);
+  // undefined while closed, null to add an entry
+  const [editing, setEditing] = useState<WineCatalog | null | undefined>(undefined);
+  const [deleting, setDeleting] = useState<WineCatalog | null>(null);
+
+  // Searches once typing pauses, from the first page
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setQuery(search.trim());
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const { data, isLoading, isError, error } = useQuery<CatalogPage>({
+    queryKey: ["/api/admin/catalog", query, page],
+    queryFn: () => WineService.getCatalogPage(query, page),
+    placeholderData: (previous) => previous,
+    enabled: isAdmin,
+  });
+
+  const pageCount = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  const onSaved = (title: string, description: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/catalog"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/catalog/batches"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/catalog"] });
+    toast({ title, description });
+  };
+
+  const onError = (error: unknown) => {
+    toast({
+      variant: "destructive",
+      title: "Catalog Not Updated",
+      description: error instanceof Error ? error.message : "An unknown error occurred",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (values: InsertWineCatalog) => editing
+      ? WineService.updateCatalogEntry(editing.id, values)
+      : WineService.addCatalogEntry(values),
+    onSuccess: (entry) => {
+      onSaved(editing ? "Entry Updated" : "Entry Added", `${entry.name} has been saved to the catalog.`);
+      setEditing(undefined);
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (entry: WineCatalog) => WineService.deleteCatalogEntry(entry.id),
+    onSuccess: (_result, entry) => {
+      onSaved("Entry Deleted", `${entry.name} has been removed from the catalog.`);
+      // Stepping back from a page the deletion emptied
+      if (data && data.entries.length === 1 && page > 1) {
+        setPage(page - 1);
+      }
+    },
+    onError,
+  });
+
+  if (!isAdmin) {
+    return (
+      <div className="flex flex-col min-h-screen bg-background text-foreground">
+        <Header title="Catalog" />
+        <main className="flex-1 container px-4 py-6 mx-auto">
+          <Alert variant="destructive">
+            <AlertDescription>Only admins can manage the wine catalog.</AlertDescription>
+          </Alert>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background text-foreground pb-20">
+      <Header title="Catalog" />
+
+      <main className="flex-1 container px-4 py-6 mx-auto">
+        <div className="mb-6">
+          <Button variant="ghost" onClick={() => navigate("/")} className="pl-0">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Collection
+          </Button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="relative flex-1 min-w-[200px] max-w-md">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search name, category, producer, region or country..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-8"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => navigate("/admin/catalog/history")}>
+                <History className="mr-2 h-4 w-4" />
+                History
+              </Button>
+              <Button variant="outline" onClick={() => navigate("/admin/catalog/import")}>
+                <Upload className="mr-2 h-4 w-4" />
+                Import
+              </Button>
+              <Button onClick={() => setEditing(null)}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Entry
+              </Button>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="h-64 rounded-md bg-muted animate-pulse"></div>
+          ) : isError ? (
+            <Alert variant="destructive">
+              <AlertDescription>
+                Failed to load the catalog: {error?.message || "Unknown error"}
+              </AlertDescription>
+            </Alert>
+          ) : !data || data.entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {query ? `No catalog entries match "${query}".` : "The catalog is empty."}
+            </p>
+          ) : (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Producer</TableHead>
+                    <TableHead>Region</TableHead>
+                    <TableHead>Country</TableHead>
+                    <TableHead>Barcode</TableHead>
+                    <TableHead className="w-24"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.entries.map(entry => (
+                    <TableRow key={entry.id}>
+                      <TableCell>
+                        <div className="font-medium">{entry.name}</div>
+                        {display(entry.wine) && <div className="text-xs text-muted-foreground">{display(entry.wine)}</div>}
+                      </TableCell>
+                      <TableCell>{display(entry.category)}</TableCell>
+                      <TableCell>{display(entry.producer)}</TableCell>
+                      <TableCell>{display(entry.region)}</TableCell>
+                      <TableCell>{display(entry.country)}</TableCell>
+                      <TableCell className="font-mono text-xs">{entry.barcode}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button variant="ghost" size="icon" onClick={() => setEditing(entry)} title="Edit">
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="text-destructive" onClick={() => setDeleting(entry)} title="Delete">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">
+                  {data.total} entr{data.total !== 1 ? "ies" : "y"}
+                </span>
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                    <ChevronLeft className="h-4 w-4" />
+                    Previous
+                  </Button>
+                  <span className="text-sm">Page {page} of {pageCount}</span>
+                  <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= pageCount}>
+                    Next
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </main>
+
+      <CatalogEntryForm
+        open={editing !== undefined}
+        onOpenChange={(open) => !open && setEditing(undefined)}
+        entry={editing ?? undefined}
+        onSubmit={(values) => saveMutation.mutate(values)}
+        isPending={saveMutation.isPending}
+      />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Catalog Entry?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleting?.name} will be removed from the catalog. Bottles linked to it stay in their
+              owners' collections, no longer linked, until the deletion is rolled back from the history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleting && deleteMutation.mutate(deleting)}
+              className="bg-destructive text-destructive-foreground"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { RestoreMode, RestoreModeType, RestoreResult } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { WineService } from "@/lib/wine-api";
+import { useToast } from "@/hooks/use-toast";
+import Header from "@/components/ui/header";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { ArrowLeft, Download, Upload } from "lucide-react";
+
+// Table names like "stockMovements" as words
+const getTableLabel = (table: string): string => table.replace(/([A-Z])/g, " $1").toLowerCase();
+
+export default function Backup() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [archive, setArchive] = useState<File | null>(null);
+  const [mode, setMode] = useState<RestoreModeType>(RestoreMode.MERGE);
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [result, setResult] = useState<RestoreResult | null>(null);
+
+  const restoreMutation = useMutation({
+    mutationFn: () => WineService.restoreBackup(archive!, mode),
+    onSuccess: (restored) => {
+      setResult(restored);
+      setArchive(null);
+      // Everything in the account may have changed
+      queryClient.invalidateQueries();
+      toast({
+        title: "Backup Restored",
+        description: `${restored.restored.wines ?? 0} wine${restored.restored.wines !== 1 ? "s" : ""} restored.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Backup Not Restored",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+      });
+    },
+  });
+
+  const handleRestore = () => {
+    if (mode === RestoreMode.REPLACE) {
+      setIsConfirming(true);
+    } else {
+      restoreMutation.mutate();
+    }
+  };
+
+  const restoredRows = result ? Object.entries(result.restored).filter(([, rows]) => rows > 0) : [];
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background text-foreground pb-20">
+      <Header title="Backup" />
+
+      <main className="flex-1 container px-4 py-6 mx-auto">
+        <div className="mb-6">
+          <Button variant="ghost" onClick={() => navigate("/")} className="pl-0">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Collection
+          </Button>
+        </div>
+
+        <div className="max-w-3xl mx-auto space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Download a Backup</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                A single archive of everything in your account: wines and vintages, bottles, the stock history,
+                purchases, market values, tasting notes, cellars, racks and stocktakes.
+              </p>
+              <Button asChild>
+                <a href="/api/backup" download>
+                  <Download className="mr-2 h-4 w-4" />
+                  Download Backup
+                </a>
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Restore a Backup</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center gap-2">
+                <Input
+                  type="file"
+                  accept=".zip,application/zip"
+                  onChange={(e) => {
+                    setArchive(e.target.files?.[0] ?? null);
+                    setResult(null);
+                  }}
+                  disabled={restoreMutation.isPending}
+                />
+                <Upload className="h-4 w-4 text-muted-foreground" />
+              </div>
+
+              <RadioGroup value={mode} onValueChange={(value) => setMode(value as RestoreModeType)}>
+                <div className="flex items-start gap-2">
+                  <RadioGroupItem value={RestoreMode.MERGE} id="restore-merge" className="mt-1" />
+                  <Label htmlFor="restore-merge" className="font-normal">
+                    <span className="font-medium">Merge</span>: bring back what is missing, such as deleted wines.
+                    Anything still in your account is left as it is.
+                  </Label>
+                </div>
+                <div className="flex items-start gap-2">
+                  <RadioGroupItem value={RestoreMode.REPLACE} id="restore-replace" className="mt-1" />
+                  <Label htmlFor="restore-replace" className="font-normal">
+                    <span className="font-medium">Replace</span>: delete everything in your account and restore the backup in its place.
+                  </Label>
+                </div>
+              </RadioGroup>
+
+              <Button onClick={handleRestore} disabled={!archive || restoreMutation.isPending}>
+                Restore Backup
+              </Button>
+
+              {result && (
+                <p className="text-sm">
+                  {restoredRows.length > 0
+                    ? `Restored ${restoredRows.map(([table, rows]) => `${rows} ${getTableLabel(table)}`).join(", ")}.`
+                    : "Nothing needed restoring."}
+                  {result.skipped > 0 && ` ${result.skipped} row${result.skipped !== 1 ? "s were" : " was"} already in your account.`}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+
+      <AlertDialog open={isConfirming} onOpenChange={setIsConfirming}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Replace everything in your account?</AlertDialogTitle>
+            <AlertDialogDescription>
+              All your wines, bottles, history, cellars, racks and stocktakes are deleted and replaced
+              by the backup. This cannot be undone, so consider downloading a backup first.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => restoreMutation.mutate()}
+              className="bg-destructive text-destructive-foreground"
+            >
+              Replace
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,307 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { CatalogBatchKind, CatalogBatchSummary, CatalogDiff, CatalogDiffEntry } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { WineService } from "@/lib/wine-api";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import Header from "@/components/ui/header";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { ArrowLeft, GitCompare, Undo2 } from "lucide-react";
+import { IMPORT_FIELD_LABELS } from "@/lib/wine-import";
+
+interface VersionRange {
+  from: number;
+  to: number;
+}
+
+const describeBatch = (batch: CatalogBatchSummary): string => {
+  if (batch.kind === CatalogBatchKind.ROLLBACK) return `Rollback of #${batch.rollbackOf}`;
+  return batch.kind === CatalogBatchKind.IMPORT ? "Import" : "Edit";
+};
+
+const describeCounts = (batch: CatalogBatchSummary): string => {
+  const parts = [
+    batch.inserted > 0 && `${batch.inserted} added`,
+    batch.updated > 0 && `${batch.updated} updated`,
+    batch.deleted > 0 && `${batch.deleted} deleted`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(", ") : "No changes";
+};
+
+const describeChange = (entry: CatalogDiffEntry): string => {
+  if (!entry.before) return "Added";
+  return entry.after ? "Updated" : "Deleted";
+};
+
+export default function CatalogHistory() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const { isAdmin } = useAuth();
+  const [compareFrom, setCompareFrom] = useState("0");
+  const [compareTo, setCompareTo] = useState("");
+  const [range, setRange] = useState<VersionRange | null>(null);
+  const [rollingBack, setRollingBack] = useState<CatalogBatchSummary | null>(null);
+
+  const { data: batches = [], isLoading, isError, error } = useQuery<CatalogBatchSummary[]>({
+    queryKey: ["/api/admin/catalog/batches"],
+    queryFn: () => WineService.getCatalogBatches(),
+    enabled: isAdmin,
+  });
+
+  const { data: diff, isFetching: isDiffLoading } = useQuery<CatalogDiff>({
+    queryKey: ["/api/admin/catalog/batches/diff", range?.from, range?.to],
+    queryFn: () => WineService.getCatalogDiff(range!.from, range!.to),
+    enabled: isAdmin && range !== null,
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: (batch: CatalogBatchSummary) => WineService.rollbackCatalogBatch(batch.id),
+    onSuccess: (result, batch) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/catalog"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/catalog/batches"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/catalog"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/wines"] });
+      setRange({ from: result.batch.id - 1, to: result.batch.id });
+      const notes = [
+        result.kept > 0 && `${result.kept} added entr${result.kept !== 1 ? "ies were" : "y was"} kept as wines are linked to ${result.kept !== 1 ? "them" : "it"}`,
+        result.conflicts > 0 && `${result.conflicts} changed again since ${result.conflicts !== 1 ? "were" : "was"} left as ${result.conflicts !== 1 ? "they are" : "it is"}`,
+      ].filter(Boolean);
+      toast({
+        title: "Batch Rolled Back",
+        description: `Version #${batch.id} was rolled back, restoring ${result.restored} entr${result.restored !== 1 ? "ies" : "y"}.${notes.length > 0 ? ` ${notes.join("; ")}.` : ""}`,
+      });
+    },
+    onError: (error: unknown) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/catalog/batches"] });
+      toast({
+        variant: "destructive",
+        title: "Rollback Failed",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+      });
+    },
+  });
+
+  if (!isAdmin) {
+    return (
+      <div className="flex flex-col min-h-screen bg-background text-foreground">
+        <Header title="Catalog History" />
+        <main className="flex-1 container px-4 py-6 mx-auto">
+          <Alert variant="destructive">
+            <AlertDescription>Only admins can see the catalog history.</AlertDescription>
+          </Alert>
+        </main>
+      </div>
+    );
+  }
+
+  const from = parseInt(compareFrom);
+  const to = compareTo ? parseInt(compareTo) : batches[0]?.id;
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background text-foreground pb-20">
+      <Header title="Catalog History" />
+
+      <main className="flex-1 container px-4 py-6 mx-auto">
+        <div className="mb-6">
+          <Button variant="ghost" onClick={() => navigate("/admin/catalog")} className="pl-0">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Catalog
+          </Button>
+        </div>
+
+        <div className="max-w-5xl mx-auto space-y-6">
+          {isLoading ? (
+            <div className="h-64 rounded-md bg-muted animate-pulse"></div>
+          ) : isError ? (
+            <Alert variant="destructive">
+              <AlertDescription>
+                Failed to load the catalog history: {error?.message || "Unknown error"}
+              </AlertDescription>
+            </Alert>
+          ) : batches.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No changes have been made to the catalog yet. Imports and edits are listed here as they are made.
+            </p>
+          ) : (
+            <>
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Versions</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-20">Version</TableHead>
+                        <TableHead>Change</TableHead>
+                        <TableHead>By</TableHead>
+                        <TableHead>Entries</TableHead>
+                        <TableHead className="w-48"></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {batches.map(batch => (
+                        <TableRow key={batch.id}>
+                          <TableCell className="font-medium">#{batch.id}</TableCell>
+                          <TableCell>
+                            <div>{describeBatch(batch)}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {batch.createdAt ? new Date(batch.createdAt).toLocaleString() : ""}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-sm">{batch.userEmail ?? batch.userId}</TableCell>
+                          <TableCell className="text-sm">
+                            {describeCounts(batch)}
+                            {batch.rolledBackAt && <Badge variant="outline" className="ml-2">Rolled back</Badge>}
+                          </TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            <Button variant="ghost" size="sm" onClick={() => setRange({ from: batch.id - 1, to: batch.id })}>
+                              Changes
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setRollingBack(batch)}
+                              disabled={!!batch.rolledBackAt || rollbackMutation.isPending}
+                            >
+                              <Undo2 className="mr-1 h-4 w-4" />
+                              Roll Back
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Compare Versions</CardTitle>
+                </CardHeader>
+                <CardContent className="flex flex-wrap items-end gap-4">
+                  <div>
+                    <Label htmlFor="compare-from" className="text-xs">From</Label>
+                    <Select value={compareFrom} onValueChange={setCompareFrom}>
+                      <SelectTrigger id="compare-from" className="w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="0">Before any changes</SelectItem>
+                        {batches.map(batch => (
+                          <SelectItem key={batch.id} value={batch.id.toString()}>#{batch.id} · {describeBatch(batch)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="compare-to" className="text-xs">To</Label>
+                    <Select value={to?.toString() ?? ""} onValueChange={setCompareTo}>
+                      <SelectTrigger id="compare-to" className="w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {batches.map(batch => (
+                          <SelectItem key={batch.id} value={batch.id.toString()}>#{batch.id} · {describeBatch(batch)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button onClick={() => setRange({ from, to: to! })} disabled={to === undefined || to <= from}>
+                    <GitCompare className="mr-2 h-4 w-4" />
+                    Compare
+                  </Button>
+                </CardContent>
+              </Card>
+            </>
+          )}
+
+          {range && (
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between pb-2">
+                <CardTitle className="text-base">
+                  {range.to - range.from === 1 ? `Changes in #${range.to}` : `Changes from #${range.from} to #${range.to}`}
+                </CardTitle>
+                {diff && (
+                  <span className="text-sm text-muted-foreground">
+                    {diff.entries.length} entr{diff.entries.length !== 1 ? "ies" : "y"} differ
+                  </span>
+                )}
+              </CardHeader>
+              <CardContent>
+                {isDiffLoading ? (
+                  <p className="text-sm text-muted-foreground">Comparing versions...</p>
+                ) : !diff || diff.entries.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No entries differ.</p>
+                ) : (
+                  <div className="max-h-[28rem] overflow-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Entry</TableHead>
+                          <TableHead>Change</TableHead>
+                          <TableHead>Details</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {diff.entries.map(entry => (
+                          <TableRow key={entry.catalogId}>
+                            <TableCell>
+                              <div className="font-medium">{(entry.after ?? entry.before)?.name}</div>
+                              <div className="text-xs text-muted-foreground">#{entry.catalogId}</div>
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant="outline">{describeChange(entry)}</Badge>
+                            </TableCell>
+                            <TableCell className="text-xs">
+                              {entry.changes.map(field => (
+                                <div key={field} className="break-words">
+                                  <span className="font-medium">{IMPORT_FIELD_LABELS[field]}:</span>{" "}
+                                  <span className="line-through text-muted-foreground">{entry.before?.[field] || "blank"}</span>
+                                  {" → "}
+                                  {entry.after?.[field] || "blank"}
+                                </div>
+                              ))}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </main>
+
+      <AlertDialog open={!!rollingBack} onOpenChange={(open) => !open && setRollingBack(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Roll Back #{rollingBack?.id}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The entries this {rollingBack ? describeBatch(rollingBack).toLowerCase() : "batch"} changed go back to how they
+              were. Entries changed again since are left alone, and added entries that bottles have been linked to are kept
+              so those bottles stay linked. The rollback is recorded as a new version.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => rollingBack && rollbackMutation.mutate(rollingBack)}>
+              Roll Back
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
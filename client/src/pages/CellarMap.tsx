@@ -0,0 +1,286 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation, useSearch } from "wouter";
+import { CellarWithStock, InsertRack, Rack, RackSlotDetail, RackWithSlots, Wine } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { WineService } from "@/lib/wine-api";
+import { useToast } from "@/hooks/use-toast";
+import Header from "@/components/ui/header";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { ArrowLeft, Edit, Plus, Search, Trash2, X } from "lucide-react";
+import RackGrid from "@/components/RackGrid";
+import RackForm from "@/components/RackForm";
+import RackSlotDialog from "@/components/RackSlotDialog";
+import { ALL_CELLARS, CellarScope, UNASSIGNED, fromScopeValue, getCellarName, toScopeValue } from "@/lib/cellars";
+
+interface SelectedSlot {
+  rack: RackWithSlots;
+  row: number;
+  column: number;
+  slot?: RackSlotDetail;
+}
+
+export default function CellarMap() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  // A wine or bottle to find, e.g. when coming from a bottle's page
+  const params = new URLSearchParams(useSearch());
+  const findWineId = params.get("wine") ? parseInt(params.get("wine")!) : null;
+  const findBottleId = params.get("bottle") ? parseInt(params.get("bottle")!) : null;
+
+  const [search, setSearch] = useState("");
+  const [cellarScope, setCellarScope] = useState<CellarScope>(undefined);
+  const [isArranging, setIsArranging] = useState(false);
+  const [editingRack, setEditingRack] = useState<Rack | undefined>(undefined);
+  const [isRackFormOpen, setIsRackFormOpen] = useState(false);
+  const [selected, setSelected] = useState<SelectedSlot | null>(null);
+
+  const { data: racks = [], isLoading, isError, error } = useQuery<RackWithSlots[]>({
+    queryKey: ["/api/racks"],
+  });
+  const { data: cellars = [] } = useQuery<CellarWithStock[]>({
+    queryKey: ["/api/cellars"],
+  });
+  const { data: wines = [] } = useQuery<Wine[]>({
+    queryKey: ["/api/wines"],
+  });
+
+  const onError = (error: unknown) => {
+    toast({
+      variant: "destructive",
+      title: "Rack Not Saved",
+      description: error instanceof Error ? error.message : "An unknown error occurred",
+    });
+  };
+
+  const saveRackMutation = useMutation({
+    mutationFn: (rack: InsertRack) => editingRack
+      ? WineService.updateRack(editingRack.id, rack)
+      : WineService.addRack(rack),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/racks"] });
+      setIsRackFormOpen(false);
+    },
+    onError,
+  });
+
+  const deleteRackMutation = useMutation({
+    mutationFn: (id: number) => WineService.deleteRack(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/racks"] });
+    },
+    onError,
+  });
+
+  const searchTerm = search.trim().toLowerCase();
+  const isSearching = !!searchTerm || findWineId !== null || findBottleId !== null;
+
+  // A bottle without a slot of its own is looked for where its wine is kept
+  const bottleHasSlot = findBottleId !== null && racks.some(r => r.slots.some(s => s.bottleId === findBottleId));
+
+  const isHighlighted = (slot: RackSlotDetail): boolean => {
+    if (bottleHasSlot) return slot.bottleId === findBottleId;
+    if (findWineId !== null) return slot.wineId === findWineId;
+    if (!searchTerm) return false;
+    return (
+      (!!slot.wineName && slot.wineName.toLowerCase().includes(searchTerm)) ||
+      (!!slot.label && slot.label.toLowerCase().includes(searchTerm)) ||
+      (slot.bottleId !== null && `#${slot.bottleId}` === searchTerm) ||
+      (slot.vintage !== null && slot.vintage.toString() === searchTerm)
+    );
+  };
+
+  const visibleRacks = cellarScope === undefined ? racks : racks.filter(r => r.cellarId === cellarScope);
+  const found = visibleRacks.reduce((sum, r) => sum + r.slots.filter(isHighlighted).length, 0);
+
+  // Bring the first slot found into view
+  useEffect(() => {
+    if (!isSearching || found === 0) return;
+    document.querySelector("[data-highlighted]")?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [isSearching, found, searchTerm]);
+
+  const handleSlotClick = (rack: RackWithSlots, row: number, column: number, slot?: RackSlotDetail) => {
+    if (!isArranging && slot?.wineId) {
+      navigate(`/wine/${slot.wineId}`);
+      return;
+    }
+    setSelected({ rack, row, column, slot });
+  };
+
+  const openRackForm = (rack?: Rack) => {
+    setEditingRack(rack);
+    setIsRackFormOpen(true);
+  };
+
+  const clearFind = () => {
+    setSearch("");
+    if (findWineId !== null || findBottleId !== null) {
+      navigate("/cellar-map");
+    }
+  };
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background text-foreground pb-20">
+      <Header title="Cellar Map" />
+
+      <main className="flex-1 container px-4 py-6 mx-auto">
+        <div className="mb-6">
+          <Button variant="ghost" onClick={() => navigate("/")} className="pl-0">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Collection
+          </Button>
+        </div>
+
+        <div className="max-w-5xl mx-auto space-y-6">
+          <div className="flex flex-wrap items-center gap-2">
+            <div className="relative flex-1 min-w-[200px]">
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Find a bottle by name, vintage, bin or #id..."
+                className="pl-10"
+              />
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              {isSearching && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="absolute right-1 top-1/2 transform -translate-y-1/2 h-6 w-6"
+                  onClick={clearFind}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+            {cellars.length > 0 && (
+              <Select value={toScopeValue(cellarScope)} onValueChange={(value) => setCellarScope(fromScopeValue(value))}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_CELLARS}>All cellars</SelectItem>
+                  {cellars.map(cellar => (
+                    <SelectItem key={cellar.id} value={cellar.id.toString()}>{cellar.name}</SelectItem>
+                  ))}
+                  <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+            <Button variant={isArranging ? "default" : "outline"} onClick={() => setIsArranging(!isArranging)}>
+              {isArranging ? "Done" : "Arrange"}
+            </Button>
+            <Button variant="outline" onClick={() => openRackForm()}>
+              <Plus className="mr-1 h-4 w-4" />
+              Add Rack
+            </Button>
+          </div>
+
+          {isSearching && (
+            <p className="text-sm text-muted-foreground">
+              {found > 0
+                ? `Found in ${found} slot${found !== 1 ? "s" : ""}.`
+                : "Not in any rack. Use Arrange to give it a slot."}
+            </p>
+          )}
+          {isArranging && (
+            <p className="text-sm text-muted-foreground">Click a slot to choose what it holds or to name it as a bin.</p>
+          )}
+
+          {isLoading ? (
+            <div className="h-64 rounded-md bg-muted animate-pulse"></div>
+          ) : isError ? (
+            <Alert variant="destructive">
+              <AlertDescription>
+                Failed to load your racks: {error?.message || "Unknown error"}
+              </AlertDescription>
+            </Alert>
+          ) : visibleRacks.length === 0 ? (
+            <p className="text-muted-foreground">
+              Add a rack to lay out where your bottles are kept.
+            </p>
+          ) : (
+            visibleRacks.map(rack => (
+              <Card key={rack.id}>
+                <CardHeader className="flex flex-row items-center justify-between pb-2">
+                  <div>
+                    <CardTitle className="text-base">{rack.name}</CardTitle>
+                    <p className="text-xs text-muted-foreground">
+                      {rack.rows} × {rack.columns}
+                      {cellars.length > 0 && ` · ${getCellarName(cellars, rack.cellarId)}`}
+                      {` · ${rack.slots.filter(s => s.wineId !== null).length} slots in use`}
+                    </p>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openRackForm(rack)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete {rack.name}?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            The rack's slots and bin names are removed. Your bottles stay in your collection.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => deleteRackMutation.mutate(rack.id)}
+                            className="bg-destructive text-destructive-foreground"
+                          >
+                            Delete
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </CardHeader>
+                <CardContent className="overflow-x-auto">
+                  <RackGrid
+                    rack={rack}
+                    isHighlighted={isHighlighted}
+                    isSearching={isSearching}
+                    onSlotClick={(row, column, slot) => handleSlotClick(rack, row, column, slot)}
+                  />
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
+      </main>
+
+      <RackForm
+        open={isRackFormOpen}
+        onOpenChange={setIsRackFormOpen}
+        rack={editingRack}
+        cellars={cellars}
+        defaultCellarId={cellarScope ?? null}
+        onSubmit={(rack) => saveRackMutation.mutate(rack)}
+        isPending={saveRackMutation.isPending}
+      />
+
+      {selected && (
+        <RackSlotDialog
+          open={!!selected}
+          onOpenChange={(open) => !open && setSelected(null)}
+          rackId={selected.rack.id}
+          rackName={selected.rack.name}
+          row={selected.row}
+          column={selected.column}
+          slot={selected.slot}
+          wines={wines}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,21 +1,32 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { Wine } from "@shared/schema";
+import { Link, useLocation } from "wouter";
+import { BarcodeLookup, Wine } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Input } from "@/components/ui/input";
 import Header from "@/components/ui/header";
 import WineInventory from "@/components/WineInventory";
+import DrinkingWindowList from "@/components/DrinkingWindowList";
+import PurchaseInsights from "@/components/PurchaseInsights";
 import SearchWine from "@/components/SearchWine";
 import CategoryFilter from "@/components/CategoryFilter";
+import ExportMenu from "@/components/ExportMenu";
+import BarcodeScannerDialog from "@/components/BarcodeScannerDialog";
 import { WineCategory, WineCategoryType } from "@shared/schema";
-import { Search, X } from "lucide-react";
+import { matchesWineFilter } from "@shared/wine-filter";
+import { ScanBarcode, Search, X } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { formatLitres, getTotalLitres } from "@/lib/bottle-formats";
+import { useAuth } from "@/hooks/useAuth";
 
 export default function Home() {
   const [selectedCategory, setSelectedCategory] = useState<WineCategoryType | "All">("All");
   const [activeView, setActiveView] = useState<"grid" | "list">("grid");
   const [inventoryFilter, setInventoryFilter] = useState("");
+  const [isScanning, setIsScanning] = useState(false);
+  const [, navigate] = useLocation();
+  const { isAdmin } = useAuth();
 
   // Fetch the wine inventory
   const {
@@ -28,34 +39,41 @@ export default function Home() {
   });
 
   // Filter wines based on selected category and filter text
-  const filteredWines = wines?.filter(wine => {
-    // Category filter
-    const categoryMatch = selectedCategory === "All" || wine.category === selectedCategory;
-    
-    // Text filter for inventory - search by name, producer, wine type, sub-type, region, country and vintages
-    const searchTerm = inventoryFilter.toLowerCase();
-    const filterMatch = !searchTerm || 
-      wine.name.toLowerCase().includes(searchTerm) ||
-      (wine.producer && wine.producer.toLowerCase().includes(searchTerm)) ||
-      (wine.wine && wine.wine.toLowerCase().includes(searchTerm)) ||
-      (wine.subType && wine.subType.toLowerCase().includes(searchTerm)) ||
-      (wine.region && wine.region.toLowerCase().includes(searchTerm)) ||
-      (wine.country && wine.country.toLowerCase().includes(searchTerm)) ||
-      // Search in vintages if they exist
-      (Array.isArray(wine.vintageStocks) && wine.vintageStocks.some(vs => 
-        vs.vintage.toString().includes(searchTerm)
-      ));
-    
-    return categoryMatch && filterMatch;
-  });
+  const filteredWines = wines?.filter(wine => matchesWineFilter(wine, selectedCategory, inventoryFilter));
 
   const clearFilter = () => {
     setInventoryFilter("");
   };
 
+  // Bottles already in the collection open with a stock prompt; others are added,
+  // prefilled from the catalog when it knows the barcode
+  const handleBarcodeLookup = (lookup: BarcodeLookup) => {
+    if (lookup.wine) {
+      navigate(`/wine/${lookup.wine.id}?scanned=1`);
+    } else if (lookup.catalog) {
+      localStorage.setItem("selected_wine", JSON.stringify(lookup.catalog));
+      navigate("/add");
+    } else {
+      navigate(`/add?barcode=${lookup.barcode}`);
+    }
+  };
+
   return (
     <div className="flex flex-col min-h-screen bg-background text-foreground pb-20">
-      <Header title="Cellars.me" />
+      <Header
+        title="Cellars.me"
+        actions={
+          <>
+            <Button variant="ghost" size="icon" title="Scan a barcode" onClick={() => setIsScanning(true)}>
+              <ScanBarcode className="h-5 w-5" />
+              <span className="sr-only">Scan a barcode</span>
+            </Button>
+            <ExportMenu category={selectedCategory} filter={inventoryFilter} />
+          </>
+        }
+      />
+      
+      <BarcodeScannerDialog open={isScanning} onOpenChange={setIsScanning} onLookup={handleBarcodeLookup} />
       
       <main className="flex-1 container px-4 py-6 mx-auto">
         <div className="flex flex-col gap-6">
@@ -85,6 +103,7 @@ export default function Home() {
                 <Tabs defaultValue="inventory" className="w-full">
                   <TabsList className="mb-4">
                     <TabsTrigger value="inventory">Inventory</TabsTrigger>
+                    <TabsTrigger value="drink">Drink Now</TabsTrigger>
                     <TabsTrigger value="insights">Insights</TabsTrigger>
                   </TabsList>
                   
@@ -94,6 +113,23 @@ export default function Home() {
                         {filteredWines ? `${filteredWines.length} wines` : 'Loading...'}
                       </span>
                       <div className="flex gap-2">
+                        <Button variant="outline" size="sm" asChild>
+                          <Link href="/cellar-map">Cellar Map</Link>
+                        </Button>
+                        <Button variant="outline" size="sm" asChild>
+                          <Link href="/stocktakes">Stocktake</Link>
+                        </Button>
+                        <Button variant="outline" size="sm" asChild>
+                          <Link href="/import">Import</Link>
+                        </Button>
+                        <Button variant="outline" size="sm" asChild>
+                          <Link href="/backup">Backup</Link>
+                        </Button>
+                        {isAdmin && (
+                          <Button variant="outline" size="sm" asChild>
+                            <Link href="/admin/catalog">Catalog</Link>
+                          </Button>
+                        )}
                         <Button 
                           variant={activeView === "grid" ? "default" : "outline"} 
                           size="sm"
@@ -131,12 +167,21 @@ export default function Home() {
                     )}
                   </TabsContent>
                   
+                  <TabsContent value="drink">
+                    {isLoading ? (
+                      <div className="h-24 rounded-md bg-muted animate-pulse"></div>
+                    ) : (
+                      <DrinkingWindowList wines={filteredWines || []} />
+                    )}
+                  </TabsContent>
+                  
                   <TabsContent value="insights">
                     <div className="p-6 border rounded-md">
                       <h3 className="text-xl font-medium mb-4">Collection Insights</h3>
                       {wines && wines.length > 0 ? (
                         <div className="space-y-4">
                           <p>Total bottles: {wines.reduce((sum, wine) => sum + (wine.stockLevel || 0), 0)}</p>
+                          <p>Total volume: {formatLitres(getTotalLitres(wines.flatMap(wine => wine.stockEntries || [])))}</p>
                           <p>Most common category: {
                             Object.entries(
                               wines.reduce<Record<string, number>>((acc, wine) => {
@@ -145,6 +190,13 @@ export default function Home() {
                               }, {})
                             ).sort((a, b) => b[1] - a[1])[0]?.[0] || 'None'
                           }</p>
+                          <div>
+                            <h4 className="font-medium mb-2">Spend</h4>
+                            <PurchaseInsights />
+                          </div>
+                          <Button variant="outline" asChild>
+                            <Link href="/valuation">View Valuation</Link>
+                          </Button>
                         </div>
                       ) : (
                         <p>Add some wines to see insights about your collection.</p>
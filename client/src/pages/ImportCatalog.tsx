@@ -0,0 +1,293 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { CATALOG_IMPORT_FIELDS, CatalogImport, CatalogImportAction, CatalogImportField, CatalogImportReport, CatalogImportRow, ImportSheet, MAX_IMPORT_ROWS } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { WineService } from "@/lib/wine-api";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import Header from "@/components/ui/header";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Upload } from "lucide-react";
+import { IMPORT_FIELD_LABELS, guessImportMapping } from "@/lib/wine-import";
+
+// Select value for fields that are not read from any column
+const NOT_IMPORTED = "none";
+
+type Mapping = Partial<Record<CatalogImportField, number>>;
+
+const ACTION_LABELS: Record<CatalogImportRow["action"], string> = {
+  [CatalogImportAction.INSERT]: "New entry",
+  [CatalogImportAction.UPDATE]: "Update",
+  [CatalogImportAction.UNCHANGED]: "Unchanged",
+  [CatalogImportAction.DUPLICATE]: "Duplicate",
+  [CatalogImportAction.REJECTED]: "Rejected",
+};
+
+const getRowDetails = (row: CatalogImportRow): string => {
+  if (row.action === CatalogImportAction.UPDATE) {
+    return `Changes ${row.changes.map(field => IMPORT_FIELD_LABELS[field].toLowerCase()).join(", ")}`;
+  }
+  if (row.action === CatalogImportAction.DUPLICATE) {
+    return `Same entry as row ${row.duplicateOf}, left out`;
+  }
+  return "";
+};
+
+export default function ImportCatalog() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const { isAdmin } = useAuth();
+  const [sheet, setSheet] = useState<ImportSheet | null>(null);
+  const [mapping, setMapping] = useState<Mapping>({});
+  const [report, setReport] = useState<CatalogImportReport | null>(null);
+
+  const onError = (title: string) => (error: unknown) => {
+    toast({
+      variant: "destructive",
+      title,
+      description: error instanceof Error ? error.message : "An unknown error occurred",
+    });
+  };
+
+  const buildImport = (dryRun: boolean): CatalogImport => ({
+    rows: sheet?.rows ?? [],
+    mapping,
+    dryRun,
+  });
+
+  const parseMutation = useMutation({
+    mutationFn: (file: File) => WineService.parseImportFile(file),
+    onSuccess: (parsed) => {
+      setSheet(parsed);
+      setMapping(guessImportMapping(parsed.columns, CATALOG_IMPORT_FIELDS));
+      setReport(null);
+    },
+    onError: onError("File Not Read"),
+  });
+
+  const dryRunMutation = useMutation({
+    mutationFn: () => WineService.importCatalog(buildImport(true)),
+    onSuccess: setReport,
+    onError: onError("Check Failed"),
+  });
+
+  const importMutation = useMutation({
+    mutationFn: () => WineService.importCatalog(buildImport(false)),
+    onSuccess: (imported) => {
+      setReport(imported);
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/catalog"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/catalog/batches"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/catalog"] });
+      toast({
+        title: "Import Complete",
+        description: `${imported.inserted} entr${imported.inserted !== 1 ? "ies" : "y"} added and ${imported.updated} updated.`,
+      });
+    },
+    onError: onError("Import Failed"),
+  });
+
+  const setField = (field: CatalogImportField, value: string) => {
+    const next = { ...mapping };
+    if (value === NOT_IMPORTED) {
+      delete next[field];
+    } else {
+      next[field] = parseInt(value);
+    }
+    setMapping(next);
+    setReport(null);
+  };
+
+  if (!isAdmin) {
+    return (
+      <div className="flex flex-col min-h-screen bg-background text-foreground">
+        <Header title="Import Catalog" />
+        <main className="flex-1 container px-4 py-6 mx-auto">
+          <Alert variant="destructive">
+            <AlertDescription>Only admins can import into the wine catalog.</AlertDescription>
+          </Alert>
+        </main>
+      </div>
+    );
+  }
+
+  const changes = report ? report.inserted + report.updated : 0;
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background text-foreground pb-20">
+      <Header title="Import Catalog" />
+
+      <main className="flex-1 container px-4 py-6 mx-auto">
+        <div className="mb-6">
+          <Button variant="ghost" onClick={() => navigate("/admin/catalog")} className="pl-0">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Catalog
+          </Button>
+        </div>
+
+        <div className="max-w-5xl mx-auto space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">1. Choose a File</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                A CSV or Excel (.xlsx) file with a header row and one catalog entry per row, of up to {MAX_IMPORT_ROWS} rows.
+                Columns named NAME, TYPE, WINE, SUB_TYPE, PRODUCER, REGION, COUNTRY and BARCODE are matched up by themselves.
+              </p>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="file"
+                  accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) parseMutation.mutate(file);
+                    e.target.value = "";
+                  }}
+                  disabled={parseMutation.isPending}
+                />
+                <Upload className="h-4 w-4 text-muted-foreground" />
+              </div>
+              {sheet && (
+                <p className="text-sm">{sheet.rows.length} row{sheet.rows.length !== 1 ? "s" : ""} and {sheet.columns.length} columns read.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          {sheet && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">2. Match Columns</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+                  {CATALOG_IMPORT_FIELDS.map(field => (
+                    <div key={field}>
+                      <Label htmlFor={`import-${field}`} className="text-xs">{IMPORT_FIELD_LABELS[field]}</Label>
+                      <Select
+                        value={mapping[field] !== undefined ? mapping[field]!.toString() : NOT_IMPORTED}
+                        onValueChange={(value) => setField(field, value)}
+                      >
+                        <SelectTrigger id={`import-${field}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NOT_IMPORTED}>Not imported</SelectItem>
+                          {sheet.columns.map((column, index) => (
+                            <SelectItem key={index} value={index.toString()}>{column}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Rows are matched to existing entries by barcode, or by name and producer, and update them; blank
+                  and "NA" cells leave an entry's values as they are. Categories are brought to the app's own, so
+                  "Spirit" becomes Spirits and anything unknown becomes Other.
+                </p>
+                <div className="flex justify-end">
+                  <Button
+                    onClick={() => dryRunMutation.mutate()}
+                    disabled={mapping.name === undefined || dryRunMutation.isPending}
+                  >
+                    Check Import
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {report && (
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between pb-2">
+                <CardTitle className="text-base">3. Check and Import</CardTitle>
+                <div className="flex flex-wrap gap-1">
+                  <Badge variant="secondary">{report.inserted} new</Badge>
+                  <Badge variant="secondary">{report.updated} updated</Badge>
+                  <Badge variant="outline">{report.unchanged} unchanged</Badge>
+                  <Badge variant="outline">{report.duplicates} duplicate{report.duplicates !== 1 ? "s" : ""}</Badge>
+                  <Badge variant={report.rejected > 0 ? "destructive" : "outline"}>{report.rejected} rejected</Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="max-h-[28rem] overflow-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-14">Row</TableHead>
+                        <TableHead>Entry</TableHead>
+                        <TableHead>Action</TableHead>
+                        <TableHead>Details</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.rows.map(row => (
+                        <TableRow key={row.line}>
+                          <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                          <TableCell>
+                            {row.entry ? (
+                              <>
+                                <div className="font-medium">{row.entry.name}</div>
+                                <div className="text-xs text-muted-foreground">
+                                  {[row.entry.producer, row.entry.category, row.entry.region, row.entry.barcode].filter(Boolean).join(" · ")}
+                                </div>
+                              </>
+                            ) : (
+                              <span className="text-muted-foreground">{sheet?.rows[row.line - 2]?.[mapping.name ?? 0] || "—"}</span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={row.action === CatalogImportAction.REJECTED ? "destructive" : "outline"}>
+                              {ACTION_LABELS[row.action]}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            {row.errors.length > 0 ? (
+                              <ul className="text-xs text-destructive space-y-0.5">
+                                {row.errors.map(error => <li key={error}>{error}</li>)}
+                              </ul>
+                            ) : (
+                              <span className="text-xs text-muted-foreground">{getRowDetails(row)}</span>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                {report.dryRun ? (
+                  <div className="flex justify-end">
+                    <Button
+                      onClick={() => importMutation.mutate()}
+                      disabled={changes === 0 || importMutation.isPending}
+                    >
+                      Import {changes} Change{changes !== 1 ? "s" : ""}
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm">
+                      Added {report.inserted} entr{report.inserted !== 1 ? "ies" : "y"} and updated {report.updated}
+                      {report.rejected > 0 && `, leaving out ${report.rejected} rejected row${report.rejected !== 1 ? "s" : ""}`}.
+                      {report.batchId !== null && ` Recorded as version #${report.batchId}, which can be rolled back from the history.`}
+                    </p>
+                    <Button onClick={() => navigate("/admin/catalog")}>View Catalog</Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,327 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { CellarWithStock, ImportDuplicateAction, ImportDuplicateActionType, ImportSheet, WINE_IMPORT_FIELDS, WineImport, WineImportField, WineImportResult, WineImportRow } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { WineService } from "@/lib/wine-api";
+import { useToast } from "@/hooks/use-toast";
+import Header from "@/components/ui/header";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Upload } from "lucide-react";
+import { UNASSIGNED, getCellarName } from "@/lib/cellars";
+import { getFormatLabel } from "@/lib/bottle-formats";
+import { IMPORT_FIELD_LABELS, guessImportMapping } from "@/lib/wine-import";
+
+// Select value for fields that are not read from any column
+const NOT_IMPORTED = "none";
+
+type Mapping = Partial<Record<WineImportField, number>>;
+
+const getRowStock = (row: WineImportRow): string => {
+  if (!row.wine) return "";
+  const vintageStock = row.wine.vintageStocks?.[0];
+  const volumeMl = vintageStock?.volumeMl ?? row.wine.volumeMl;
+  const bottles = vintageStock ? vintageStock.stock : row.wine.stockLevel ?? 0;
+  return `${vintageStock ? vintageStock.vintage : "NV"} · ${bottles} × ${volumeMl ? getFormatLabel(volumeMl) : ""}`;
+};
+
+export default function ImportWines() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [sheet, setSheet] = useState<ImportSheet | null>(null);
+  const [mapping, setMapping] = useState<Mapping>({});
+  const [matchCatalog, setMatchCatalog] = useState(true);
+  const [duplicates, setDuplicates] = useState<ImportDuplicateActionType>(ImportDuplicateAction.SKIP);
+  const [cellarValue, setCellarValue] = useState(UNASSIGNED);
+  const [preview, setPreview] = useState<WineImportRow[] | null>(null);
+  const [result, setResult] = useState<WineImportResult | null>(null);
+
+  const { data: cellars = [] } = useQuery<CellarWithStock[]>({
+    queryKey: ["/api/cellars"],
+  });
+
+  const onError = (title: string) => (error: unknown) => {
+    toast({
+      variant: "destructive",
+      title,
+      description: error instanceof Error ? error.message : "An unknown error occurred",
+    });
+  };
+
+  const buildImport = (): WineImport => ({
+    rows: sheet?.rows ?? [],
+    mapping,
+    matchCatalog,
+    duplicates,
+    cellarId: cellarValue === UNASSIGNED ? null : parseInt(cellarValue),
+  });
+
+  const parseMutation = useMutation({
+    mutationFn: (file: File) => WineService.parseImportFile(file),
+    onSuccess: (parsed) => {
+      setSheet(parsed);
+      setMapping(guessImportMapping(parsed.columns, WINE_IMPORT_FIELDS));
+      setPreview(null);
+      setResult(null);
+    },
+    onError: onError("File Not Read"),
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: () => WineService.previewImport(buildImport()),
+    onSuccess: setPreview,
+    onError: onError("Preview Failed"),
+  });
+
+  const importMutation = useMutation({
+    mutationFn: () => WineService.importWines(buildImport()),
+    onSuccess: (imported) => {
+      setResult(imported);
+      queryClient.invalidateQueries({ queryKey: ["/api/wines"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cellars"] });
+      toast({
+        title: "Import Complete",
+        description: `${imported.created} wine${imported.created !== 1 ? "s" : ""} added.`,
+      });
+    },
+    onError: onError("Import Failed"),
+  });
+
+  const setField = (field: WineImportField, value: string) => {
+    const next = { ...mapping };
+    if (value === NOT_IMPORTED) {
+      delete next[field];
+    } else {
+      next[field] = parseInt(value);
+    }
+    setMapping(next);
+    setPreview(null);
+  };
+
+  const valid = preview?.filter(r => r.wine) ?? [];
+  const willSkip = duplicates === ImportDuplicateAction.SKIP ? valid.filter(r => r.duplicateOf).length : 0;
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background text-foreground pb-20">
+      <Header title="Import Wines" />
+
+      <main className="flex-1 container px-4 py-6 mx-auto">
+        <div className="mb-6">
+          <Button variant="ghost" onClick={() => navigate("/")} className="pl-0">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Collection
+          </Button>
+        </div>
+
+        <div className="max-w-5xl mx-auto space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">1. Choose a File</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                A CSV or Excel (.xlsx) file with a header row, such as a CellarTracker or Vivino export,
+                or a JSON export from Cellars.me.
+                Each row is one vintage of a wine; rows for the same wine are combined.
+              </p>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="file"
+                  accept=".csv,.xlsx,.json,text/csv,application/json,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) parseMutation.mutate(file);
+                    e.target.value = "";
+                  }}
+                  disabled={parseMutation.isPending}
+                />
+                <Upload className="h-4 w-4 text-muted-foreground" />
+              </div>
+              {sheet && (
+                <p className="text-sm">{sheet.rows.length} row{sheet.rows.length !== 1 ? "s" : ""} and {sheet.columns.length} columns read.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          {sheet && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">2. Match Columns</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+                  {WINE_IMPORT_FIELDS.map(field => (
+                    <div key={field}>
+                      <Label htmlFor={`import-${field}`} className="text-xs">{IMPORT_FIELD_LABELS[field]}</Label>
+                      <Select
+                        value={mapping[field] !== undefined ? mapping[field]!.toString() : NOT_IMPORTED}
+                        onValueChange={(value) => setField(field, value)}
+                      >
+                        <SelectTrigger id={`import-${field}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NOT_IMPORTED}>Not imported</SelectItem>
+                          {sheet.columns.map((column, index) => (
+                            <SelectItem key={index} value={index.toString()}>{column}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Without a quantity column each row adds one bottle. Vintages of "NV" or 1001 are imported as non-vintage.
+                </p>
+
+                <div className="flex flex-wrap items-end gap-4 border-t pt-4">
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="import-catalog"
+                      checked={matchCatalog}
+                      onCheckedChange={(checked) => { setMatchCatalog(checked); setPreview(null); }}
+                    />
+                    <Label htmlFor="import-catalog">Fill in details from the wine catalog</Label>
+                  </div>
+                  <div>
+                    <Label htmlFor="import-duplicates" className="text-xs">Wines already in your collection</Label>
+                    <Select
+                      value={duplicates}
+                      onValueChange={(value) => { setDuplicates(value as ImportDuplicateActionType); setPreview(null); }}
+                    >
+                      <SelectTrigger id="import-duplicates" className="w-56">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ImportDuplicateAction.SKIP}>Skip them</SelectItem>
+                        <SelectItem value={ImportDuplicateAction.ADD_STOCK}>Add the stock to them</SelectItem>
+                        <SelectItem value={ImportDuplicateAction.CREATE}>Import as new wines</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {cellars.length > 0 && (
+                    <div>
+                      <Label htmlFor="import-cellar" className="text-xs">Cellar</Label>
+                      <Select value={cellarValue} onValueChange={(value) => { setCellarValue(value); setPreview(null); }}>
+                        <SelectTrigger id="import-cellar" className="w-48">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                          {cellars.map(cellar => (
+                            <SelectItem key={cellar.id} value={cellar.id.toString()}>{cellar.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  <Button
+                    onClick={() => previewMutation.mutate()}
+                    disabled={mapping.name === undefined || previewMutation.isPending}
+                  >
+                    Preview Import
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {preview && (
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between pb-2">
+                <CardTitle className="text-base">3. Check and Import</CardTitle>
+                <span className="text-sm text-muted-foreground">
+                  {valid.length} of {preview.length} rows valid
+                  {willSkip > 0 && `, ${willSkip} skipped as duplicates`}
+                </span>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="max-h-[28rem] overflow-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-14">Row</TableHead>
+                        <TableHead>Wine</TableHead>
+                        <TableHead>Stock</TableHead>
+                        <TableHead>Status</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {preview.map(row => (
+                        <TableRow key={row.line}>
+                          <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                          <TableCell>
+                            {row.wine ? (
+                              <>
+                                <div className="font-medium">{row.wine.name}</div>
+                                <div className="text-xs text-muted-foreground">
+                                  {[row.wine.producer, row.wine.category, row.wine.region].filter(Boolean).join(" · ")}
+                                </div>
+                              </>
+                            ) : (
+                              <span className="text-muted-foreground">{sheet?.rows[row.line - 2]?.[mapping.name ?? 0] || "—"}</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-sm whitespace-nowrap">{getRowStock(row)}</TableCell>
+                          <TableCell>
+                            {row.errors.length > 0 ? (
+                              <ul className="text-xs text-destructive space-y-0.5">
+                                {row.errors.map(error => <li key={error}>{error}</li>)}
+                              </ul>
+                            ) : (
+                              <div className="flex flex-wrap gap-1">
+                                {row.catalogMatch && <Badge variant="secondary">Catalog match</Badge>}
+                                {row.duplicateOf && (
+                                  <Badge variant="outline" title={row.duplicateOf.name}>
+                                    {duplicates === ImportDuplicateAction.SKIP ? "Already in collection, skipped" : "Already in collection"}
+                                  </Badge>
+                                )}
+                                {row.sameWineAs !== null && <Badge variant="outline">Same wine as row {row.sameWineAs}</Badge>}
+                                {!row.catalogMatch && !row.duplicateOf && row.sameWineAs === null && (
+                                  <span className="text-xs text-muted-foreground">New wine</span>
+                                )}
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                {result ? (
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm">
+                      Added {result.created} wine{result.created !== 1 ? "s" : ""}
+                      {result.updated > 0 && `, added stock to ${result.updated}`}
+                      {result.skipped > 0 && `, skipped ${result.skipped} duplicate row${result.skipped !== 1 ? "s" : ""}`}
+                      {result.invalid > 0 && `, left out ${result.invalid} invalid row${result.invalid !== 1 ? "s" : ""}`}
+                      {cellarValue !== UNASSIGNED && ` in ${getCellarName(cellars, parseInt(cellarValue))}`}.
+                    </p>
+                    <Button onClick={() => navigate("/")}>View Collection</Button>
+                  </div>
+                ) : (
+                  <div className="flex justify-end">
+                    <Button
+                      onClick={() => importMutation.mutate()}
+                      disabled={valid.length - willSkip === 0 || importMutation.isPending}
+                    >
+                      Import {valid.length - willSkip} Row{valid.length - willSkip !== 1 ? "s" : ""}
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,400 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation, useRoute } from "wouter";
+import { CellarWithStock, DEFAULT_VOLUME_ML, StocktakeCount, StocktakeLineDetail, StocktakeStatus, StocktakeWithLines, Wine, WineCategoryType } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { WineService } from "@/lib/wine-api";
+import { useToast } from "@/hooks/use-toast";
+import Header from "@/components/ui/header";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { ArrowLeft, Check, ChevronLeft, ChevronRight, Plus } from "lucide-react";
+import BottleFormatSelect from "@/components/BottleFormatSelect";
+import StocktakeReport from "@/components/StocktakeReport";
+import { getStocktakeStatusLabel } from "@/pages/Stocktakes";
+import { getCategoryColor } from "@/lib/wine-categories";
+import { getFormatLabel } from "@/lib/bottle-formats";
+import { getCellarName } from "@/lib/cellars";
+
+const CATEGORY_ORDER: WineCategoryType[] = ["Red", "White", "Rose", "Fortified", "Beer", "Cider", "Whiskies", "Other"];
+
+interface LineGroup {
+  key: string;
+  cellarId: number | null;
+  category: string;
+  lines: StocktakeLineDetail[];
+}
+
+interface CountRowProps {
+  line: StocktakeLineDetail;
+  onCount: (line: StocktakeLineDetail, counted: number) => void;
+}
+
+// One vintage and format to count. The count is saved when the field loses focus.
+function CountRow({ line, onCount }: CountRowProps) {
+  const [value, setValue] = useState(line.counted?.toString() ?? "");
+
+  useEffect(() => {
+    setValue(line.counted?.toString() ?? "");
+  }, [line.counted]);
+
+  const commit = () => {
+    const counted = parseInt(value);
+    if (!isNaN(counted) && counted >= 0 && counted !== line.counted) {
+      onCount(line, counted);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-2 text-sm border rounded-md p-2">
+      <div>
+        <div className="font-medium">{line.wineName} {line.vintage ?? ""}</div>
+        <div className="text-xs text-muted-foreground">
+          {line.producer && `${line.producer} · `}{getFormatLabel(line.volumeMl)} · expected {line.expected}
+        </div>
+      </div>
+      <div className="flex items-center gap-1">
+        <Input
+          type="number"
+          min={0}
+          inputMode="numeric"
+          placeholder="Count"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => e.key === "Enter" && commit()}
+          className={`w-20 ${line.counted !== null && line.counted !== line.expected ? "border-destructive" : ""}`}
+        />
+        <Button
+          variant={line.counted === line.expected ? "default" : "outline"}
+          size="icon"
+          className="h-9 w-9"
+          title="Matches what was expected"
+          onClick={() => onCount(line, line.expected)}
+        >
+          <Check className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default function StocktakeSession() {
+  const [, navigate] = useLocation();
+  const [, params] = useRoute<{ id: string }>("/stocktakes/:id");
+  const { toast } = useToast();
+  const id = params?.id ? parseInt(params.id) : null;
+  const [step, setStep] = useState(0);
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [found, setFound] = useState<StocktakeCount | null>(null);
+
+  const { data: stocktake, isLoading, isError } = useQuery<StocktakeWithLines>({
+    queryKey: [`/api/stocktakes/${id}`],
+    enabled: !!id,
+    refetchOnMount: "always",
+  });
+  const { data: cellars = [] } = useQuery<CellarWithStock[]>({
+    queryKey: ["/api/cellars"],
+  });
+  const { data: wines = [] } = useQuery<Wine[]>({
+    queryKey: ["/api/wines"],
+  });
+
+  // Walk through the lines a cellar and category at a time
+  const groups = useMemo(() => {
+    const byKey = new Map<string, LineGroup>();
+    for (const line of stocktake?.lines ?? []) {
+      const key = `${line.cellarId ?? "none"}:${line.category}`;
+      const group = byKey.get(key) ?? { key, cellarId: line.cellarId, category: line.category, lines: [] };
+      group.lines.push(line);
+      byKey.set(key, group);
+    }
+    return Array.from(byKey.values()).sort((a, b) =>
+      getCellarName(cellars, a.cellarId).localeCompare(getCellarName(cellars, b.cellarId)) ||
+      CATEGORY_ORDER.indexOf(a.category as WineCategoryType) - CATEGORY_ORDER.indexOf(b.category as WineCategoryType)
+    );
+  }, [stocktake, cellars]);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/stocktakes/${id}`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/stocktakes"] });
+  };
+
+  const onError = (title: string) => (error: unknown) => {
+    toast({
+      variant: "destructive",
+      title,
+      description: error instanceof Error ? error.message : "An unknown error occurred",
+    });
+  };
+
+  const countMutation = useMutation({
+    mutationFn: (count: StocktakeCount) => WineService.recordStocktakeCount(id!, count),
+    onSuccess: refresh,
+    onError: onError("Count Not Saved"),
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: () => WineService.applyStocktake(id!),
+    onSuccess: (applied) => {
+      queryClient.setQueryData([`/api/stocktakes/${id}`], applied);
+      queryClient.invalidateQueries({ queryKey: ["/api/stocktakes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/wines"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cellars"] });
+      toast({
+        title: "Stocktake Applied",
+        description: "Your stock now matches what was counted.",
+      });
+    },
+    onError: onError("Stocktake Not Applied"),
+  });
+
+  const discardMutation = useMutation({
+    mutationFn: () => WineService.discardStocktake(id!),
+    onSuccess: () => {
+      refresh();
+      navigate("/stocktakes");
+    },
+    onError: onError("Stocktake Not Discarded"),
+  });
+
+  const handleCount = (line: StocktakeLineDetail, counted: number) => {
+    countMutation.mutate({
+      wineId: line.wineId,
+      vintage: line.vintage,
+      volumeMl: line.volumeMl,
+      cellarId: line.cellarId,
+      counted,
+    });
+  };
+
+  const handleAddFound = () => {
+    if (!found) return;
+    countMutation.mutate(found, { onSuccess: () => setFound(null) });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex flex-col min-h-screen bg-background text-foreground pb-20">
+        <Header title="Stocktake" />
+        <main className="flex-1 container px-4 py-6 mx-auto">
+          <div className="max-w-3xl mx-auto bg-muted h-96 rounded-lg animate-pulse"></div>
+        </main>
+      </div>
+    );
+  }
+
+  if (isError || !stocktake) {
+    return (
+      <div className="flex flex-col min-h-screen bg-background text-foreground pb-20">
+        <Header title="Error" />
+        <main className="flex-1 container px-4 py-6 mx-auto">
+          <Card className="max-w-3xl mx-auto">
+            <CardContent className="pt-6">
+              <h2 className="text-xl font-bold text-destructive mb-2">Stocktake Not Found</h2>
+              <Button onClick={() => navigate("/stocktakes")} className="mt-4">
+                Back to Stocktakes
+              </Button>
+            </CardContent>
+          </Card>
+        </main>
+      </div>
+    );
+  }
+
+  const isOpen = stocktake.status === StocktakeStatus.IN_PROGRESS;
+  const counted = stocktake.lines.filter(l => l.counted !== null).length;
+  const group = groups[Math.min(step, groups.length - 1)];
+  const groupCellarId = group?.cellarId ?? stocktake.cellarId;
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background text-foreground pb-20">
+      <Header title={`Stocktake #${stocktake.id}`} />
+
+      <main className="flex-1 container px-4 py-6 mx-auto">
+        <div className="mb-6">
+          <Button variant="ghost" onClick={() => navigate("/stocktakes")} className="pl-0">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            All Stocktakes
+          </Button>
+        </div>
+
+        <div className="max-w-3xl mx-auto space-y-6">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <h2 className="text-xl font-medium">
+                  {stocktake.cellarId === null ? "All cellars" : getCellarName(cellars, stocktake.cellarId)}
+                </h2>
+                <Badge variant={isOpen ? "default" : "outline"}>{getStocktakeStatusLabel(stocktake.status)}</Badge>
+              </div>
+              <span className="text-sm text-muted-foreground">
+                {stocktake.createdAt && new Date(stocktake.createdAt).toLocaleDateString()}
+                {stocktake.appliedAt && ` · applied ${new Date(stocktake.appliedAt).toLocaleDateString()}`}
+              </span>
+            </div>
+            {stocktake.notes && <p className="text-sm text-muted-foreground">{stocktake.notes}</p>}
+            <Progress value={stocktake.lines.length > 0 ? (counted / stocktake.lines.length) * 100 : 100} className="h-2" />
+            <p className="text-xs text-muted-foreground">{counted} of {stocktake.lines.length} counted</p>
+          </div>
+
+          {isOpen && !isReviewing && (
+            <Card>
+              {group ? (
+                <>
+                  <CardHeader className="flex flex-row items-center justify-between pb-2">
+                    <CardTitle className="text-base flex items-center gap-2">
+                      <span className="h-3 w-3 rounded-full" style={{ backgroundColor: getCategoryColor(group.category) }} />
+                      {cellars.length > 0 && `${getCellarName(cellars, group.cellarId)} · `}{group.category}
+                    </CardTitle>
+                    <span className="text-sm text-muted-foreground">{step + 1} of {groups.length}</span>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    {group.lines.map(line => (
+                      <CountRow key={line.id} line={line} onCount={handleCount} />
+                    ))}
+                  </CardContent>
+                </>
+              ) : (
+                <CardContent className="pt-6">
+                  <p className="text-sm text-muted-foreground">No stock was expected. Add anything you find below.</p>
+                </CardContent>
+              )}
+              <CardContent className="flex justify-between border-t pt-4">
+                <Button variant="outline" onClick={() => setStep(step - 1)} disabled={step === 0}>
+                  <ChevronLeft className="mr-1 h-4 w-4" />
+                  Previous
+                </Button>
+                {step < groups.length - 1 ? (
+                  <Button onClick={() => setStep(step + 1)}>
+                    Next
+                    <ChevronRight className="ml-1 h-4 w-4" />
+                  </Button>
+                ) : (
+                  <Button onClick={() => setIsReviewing(true)}>Review Discrepancies</Button>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {isOpen && !isReviewing && (
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">Found Something Else?</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {found ? (
+                  <div className="flex flex-wrap items-end gap-2">
+                    <div className="flex-1 min-w-[180px]">
+                      <Label htmlFor="found-wine" className="text-xs">Wine</Label>
+                      <Select
+                        value={found.wineId ? found.wineId.toString() : ""}
+                        onValueChange={(value) => setFound({ ...found, wineId: parseInt(value) })}
+                      >
+                        <SelectTrigger id="found-wine">
+                          <SelectValue placeholder="Choose a wine" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {wines.map(w => (
+                            <SelectItem key={w.id} value={w.id.toString()}>{w.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor="found-vintage" className="text-xs">Vintage</Label>
+                      <Input
+                        id="found-vintage"
+                        type="number"
+                        placeholder="NV"
+                        value={found.vintage ?? ""}
+                        onChange={(e) => setFound({ ...found, vintage: parseInt(e.target.value) || null })}
+                        className="w-24"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="found-format" className="text-xs">Format</Label>
+                      <BottleFormatSelect
+                        id="found-format"
+                        value={found.volumeMl ?? DEFAULT_VOLUME_ML}
+                        onChange={(volumeMl) => setFound({ ...found, volumeMl })}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="found-count" className="text-xs">Count</Label>
+                      <Input
+                        id="found-count"
+                        type="number"
+                        min={1}
+                        value={found.counted}
+                        onChange={(e) => setFound({ ...found, counted: parseInt(e.target.value) || 0 })}
+                        className="w-20"
+                      />
+                    </div>
+                    <Button onClick={handleAddFound} disabled={!found.wineId || found.counted < 1 || countMutation.isPending}>
+                      Add
+                    </Button>
+                    <Button variant="ghost" onClick={() => setFound(null)}>Cancel</Button>
+                  </div>
+                ) : (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setFound({ wineId: 0, vintage: null, volumeMl: DEFAULT_VOLUME_ML, cellarId: groupCellarId, counted: 1 })}
+                  >
+                    <Plus className="mr-1 h-4 w-4" />
+                    Add Bottles Not Listed
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {(isReviewing || !isOpen) && (
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">Discrepancy Report</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <StocktakeReport lines={stocktake.lines} cellars={cellars} />
+                {isOpen && (
+                  <div className="flex justify-between">
+                    <Button variant="outline" onClick={() => setIsReviewing(false)}>Back to Counting</Button>
+                    <div className="flex gap-2">
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="outline" className="text-destructive">Discard</Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Discard this stocktake?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              No stock will change. The counts stay available for review.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => discardMutation.mutate()}>Discard</AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                      <Button onClick={() => applyMutation.mutate()} disabled={applyMutation.isPending}>
+                        Apply Adjustments
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
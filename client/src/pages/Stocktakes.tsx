@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { CellarWithStock, StocktakeStatus, StocktakeSummary } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { WineService } from "@/lib/wine-api";
+import { useToast } from "@/hooks/use-toast";
+import Header from "@/components/ui/header";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, ClipboardCheck } from "lucide-react";
+import { ALL_CELLARS, getCellarName } from "@/lib/cellars";
+
+export const getStocktakeStatusLabel = (status: string): string => {
+  switch (status) {
+    case StocktakeStatus.APPLIED:
+      return "Applied";
+    case StocktakeStatus.DISCARDED:
+      return "Discarded";
+    case StocktakeStatus.IN_PROGRESS:
+    default:
+      return "In progress";
+  }
+};
+
+export default function Stocktakes() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [cellarValue, setCellarValue] = useState(ALL_CELLARS);
+  const [notes, setNotes] = useState("");
+
+  const { data: sessions = [], isLoading, isError, error } = useQuery<StocktakeSummary[]>({
+    queryKey: ["/api/stocktakes"],
+    refetchOnMount: "always",
+  });
+  const { data: cellars = [] } = useQuery<CellarWithStock[]>({
+    queryKey: ["/api/cellars"],
+  });
+
+  const startMutation = useMutation({
+    mutationFn: () => WineService.startStocktake({
+      cellarId: cellarValue === ALL_CELLARS ? null : parseInt(cellarValue),
+      notes: notes || null,
+    }),
+    onSuccess: (stocktake) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/stocktakes"] });
+      navigate(`/stocktakes/${stocktake.id}`);
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Stocktake Not Started",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+      });
+    },
+  });
+
+  const inProgress = sessions.find(s => s.status === StocktakeStatus.IN_PROGRESS);
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background text-foreground pb-20">
+      <Header title="Stocktake" />
+
+      <main className="flex-1 container px-4 py-6 mx-auto">
+        <div className="mb-6">
+          <Button variant="ghost" onClick={() => navigate("/")} className="pl-0">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Collection
+          </Button>
+        </div>
+
+        <div className="max-w-3xl mx-auto space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Count Your Cellar</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {inProgress ? (
+                <div className="flex items-center justify-between">
+                  <p className="text-sm">
+                    Stocktake #{inProgress.id} is in progress: {inProgress.counted} of {inProgress.lines} counted.
+                  </p>
+                  <Button onClick={() => navigate(`/stocktakes/${inProgress.id}`)}>Continue</Button>
+                </div>
+              ) : (
+                <>
+                  <p className="text-sm text-muted-foreground">
+                    Walk through your bottles and count what is actually there. Nothing changes until you
+                    review the differences and apply them.
+                  </p>
+                  <div className="flex flex-wrap items-end gap-4">
+                    {cellars.length > 0 && (
+                      <div>
+                        <Label htmlFor="stocktake-cellar">Cellar</Label>
+                        <Select value={cellarValue} onValueChange={setCellarValue}>
+                          <SelectTrigger id="stocktake-cellar" className="w-48">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={ALL_CELLARS}>All cellars</SelectItem>
+                            {cellars.map(cellar => (
+                              <SelectItem key={cellar.id} value={cellar.id.toString()}>{cellar.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+                    <div className="flex-1 min-w-[200px]">
+                      <Label htmlFor="stocktake-notes">Notes</Label>
+                      <Input
+                        id="stocktake-notes"
+                        placeholder="e.g., Q3 count"
+                        value={notes}
+                        onChange={(e) => setNotes(e.target.value)}
+                      />
+                    </div>
+                    <Button onClick={() => startMutation.mutate()} disabled={startMutation.isPending}>
+                      <ClipboardCheck className="mr-2 h-4 w-4" />
+                      Start Stocktake
+                    </Button>
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+
+          <div>
+            <h2 className="text-lg font-medium mb-2">Past Stocktakes</h2>
+            {isLoading ? (
+              <div className="h-32 rounded-md bg-muted animate-pulse"></div>
+            ) : isError ? (
+              <Alert variant="destructive">
+                <AlertDescription>
+                  Failed to load stocktakes: {error?.message || "Unknown error"}
+                </AlertDescription>
+              </Alert>
+            ) : sessions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No stocktakes yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Started</TableHead>
+                    <TableHead>Cellar</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Counted</TableHead>
+                    <TableHead className="text-right">Discrepancies</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sessions.map(session => (
+                    <TableRow
+                      key={session.id}
+                      className="cursor-pointer"
+                      onClick={() => navigate(`/stocktakes/${session.id}`)}
+                    >
+                      <TableCell>
+                        <div>{session.createdAt ? new Date(session.createdAt).toLocaleDateString() : ""}</div>
+                        {session.notes && <div className="text-xs text-muted-foreground">{session.notes}</div>}
+                      </TableCell>
+                      <TableCell>{session.cellarId === null ? "All cellars" : getCellarName(cellars, session.cellarId)}</TableCell>
+                      <TableCell>
+                        <Badge variant={session.status === StocktakeStatus.IN_PROGRESS ? "default" : "outline"}>
+                          {getStocktakeStatusLabel(session.status)}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{session.counted} / {session.lines}</TableCell>
+                      <TableCell className="text-right">{session.discrepancies}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { ValuationReport } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { WineService } from "@/lib/wine-api";
+import { useToast } from "@/hooks/use-toast";
+import Header from "@/components/ui/header";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { ArrowLeft, Upload } from "lucide-react";
+import { getFormatLabel } from "@/lib/bottle-formats";
+import { formatMoney } from "@/lib/currency";
+
+const chartConfig = {
+  value: {
+    label: "Value",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+const formatMonth = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
+
+export default function Valuation() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [selectedCurrency, setSelectedCurrency] = useState<string | null>(null);
+  const [importErrors, setImportErrors] = useState<{ line: number; message: string }[]>([]);
+
+  // The valuation follows stock, purchases and market values, so it is recomputed on every visit
+  const { data: report, isLoading, isError, error } = useQuery<ValuationReport>({
+    queryKey: ["/api/valuation"],
+    refetchOnMount: "always",
+  });
+
+  const importMutation = useMutation({
+    mutationFn: (csv: string) => WineService.importMarketValues(csv),
+    onSuccess: ({ imported, errors }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/valuation"] });
+      setImportErrors(errors);
+      toast({
+        title: "Market Values Imported",
+        description: `${imported} value${imported !== 1 ? "s" : ""} imported${errors.length > 0 ? `, ${errors.length} row${errors.length !== 1 ? "s" : ""} skipped` : ""}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+      });
+    },
+  });
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    importMutation.mutate(await file.text());
+  };
+
+  const valuations = report?.valuations ?? [];
+  const valuation = valuations.find(v => v.currency === selectedCurrency) ?? valuations[0];
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background text-foreground pb-20">
+      <Header title="Valuation" />
+
+      <main className="flex-1 container px-4 py-6 mx-auto">
+        <div className="mb-6">
+          <Button variant="ghost" onClick={() => navigate("/")} className="pl-0">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Collection
+          </Button>
+        </div>
+
+        <div className="max-w-4xl mx-auto space-y-6">
+          {isLoading ? (
+            <div className="h-64 rounded-md bg-muted animate-pulse"></div>
+          ) : isError ? (
+            <Alert variant="destructive">
+              <AlertDescription>
+                Failed to load the valuation: {error?.message || "Unknown error"}
+              </AlertDescription>
+            </Alert>
+          ) : !valuation ? (
+            <p className="text-muted-foreground">
+              Record market values on a bottle's page, or import them below, to value your collection.
+            </p>
+          ) : (
+            <>
+              <div className="flex justify-between items-center">
+                <h2 className="text-xl font-medium">Collection Value</h2>
+                {valuations.length > 1 && (
+                  <Select value={valuation.currency} onValueChange={setSelectedCurrency}>
+                    <SelectTrigger className="w-24">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {valuations.map(v => (
+                        <SelectItem key={v.currency} value={v.currency}>{v.currency}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm font-medium text-muted-foreground">Current value</CardTitle>
+                  </CardHeader>
+                  <CardContent className="text-2xl font-bold">
+                    {formatMoney(valuation.currentValue, valuation.currency)}
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm font-medium text-muted-foreground">Cost basis</CardTitle>
+                  </CardHeader>
+                  <CardContent className="text-2xl font-bold">
+                    {formatMoney(valuation.costBasis, valuation.currency)}
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm font-medium text-muted-foreground">Unrealized gain</CardTitle>
+                  </CardHeader>
+                  <CardContent className={`text-2xl font-bold ${valuation.unrealizedGain < 0 ? "text-destructive" : "text-green-600"}`}>
+                    {formatMoney(valuation.unrealizedGain, valuation.currency)}
+                  </CardContent>
+                </Card>
+              </div>
+
+              {report && report.unvaluedBottles > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  {report.unvaluedBottles} bottle{report.unvaluedBottles !== 1 ? "s have" : " has"} no market value yet.
+                  The gain only covers bottles with a recorded purchase price.
+                </p>
+              )}
+
+              {valuation.series.length > 1 && (
+                <ChartContainer config={chartConfig} className="h-64 w-full">
+                  <AreaChart data={valuation.series} margin={{ left: 12, right: 12 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="date" tickLine={false} axisLine={false} tickFormatter={formatMonth} />
+                    <YAxis
+                      tickLine={false}
+                      axisLine={false}
+                      width={80}
+                      tickFormatter={(value: number) => formatMoney(value, valuation.currency)}
+                    />
+                    <ChartTooltip
+                      content={
+                        <ChartTooltipContent
+                          labelFormatter={(_, payload) => payload[0] ? formatMonth(payload[0].payload.date) : ""}
+                          formatter={(value) => formatMoney(value as number, valuation.currency)}
+                        />
+                      }
+                    />
+                    <Area
+                      dataKey="value"
+                      type="monotone"
+                      fill="var(--color-value)"
+                      fillOpacity={0.3}
+                      stroke="var(--color-value)"
+                    />
+                  </AreaChart>
+                </ChartContainer>
+              )}
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Wine</TableHead>
+                    <TableHead className="text-right">Bottles</TableHead>
+                    <TableHead className="text-right">Per bottle</TableHead>
+                    <TableHead className="text-right">Value</TableHead>
+                    <TableHead className="text-right">Gain</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {valuation.holdings.map(holding => (
+                    <TableRow
+                      key={`${holding.wineId}-${holding.vintage ?? "nv"}-${holding.volumeMl}`}
+                      className="cursor-pointer"
+                      onClick={() => navigate(`/wine/${holding.wineId}`)}
+                    >
+                      <TableCell>
+                        <div className="font-medium">{holding.name} {holding.vintage ?? ""}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {getFormatLabel(holding.volumeMl)}
+                          {holding.source && ` · ${holding.source}`}
+                          {` · ${new Date(holding.valuedAt).toLocaleDateString()}`}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{holding.bottles}</TableCell>
+                      <TableCell className="text-right">{formatMoney(holding.unitValue, valuation.currency)}</TableCell>
+                      <TableCell className="text-right">{formatMoney(holding.value, valuation.currency)}</TableCell>
+                      <TableCell className="text-right">
+                        {holding.costBasis === null ? "—" : formatMoney(holding.value - holding.costBasis, valuation.currency)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Import Market Values</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                CSV with a header row and the columns <code>name</code> (or <code>wine_id</code>), <code>producer</code>,{" "}
+                <code>vintage</code>, <code>value</code>, <code>currency</code>, <code>date</code> and <code>source</code>.
+                Values are per 75cl bottle.
+              </p>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="file"
+                  accept=".csv,text/csv"
+                  onChange={(e) => {
+                    handleFile(e.target.files?.[0]);
+                    e.target.value = "";
+                  }}
+                  disabled={importMutation.isPending}
+                />
+                <Upload className="h-4 w-4 text-muted-foreground" />
+              </div>
+              {importErrors.length > 0 && (
+                <Alert variant="destructive">
+                  <AlertDescription>
+                    <ul className="space-y-1 text-sm">
+                      {importErrors.map(e => (
+                        <li key={e.line}>Line {e.line}: {e.message}</li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
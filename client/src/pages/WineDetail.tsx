@@ -1,33 +1,71 @@
 import { useEffect, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { useLocation, useRoute } from "wouter";
-import { VintageStock, Wine } from "@shared/schema";
+import { Link, useLocation, useRoute, useSearch } from "wouter";
+import { VintageStock, StockEntry, Wine, InsertWine, StockMovementType, StockMovementTypeValue, StockTotals, CellarWithStock } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import { queryClient, ApiError } from "@/lib/queryClient";
+import { WineService } from "@/lib/wine-api";
 import Header from "@/components/ui/header";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
-import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
-import { ArrowLeft, Edit, Trash2, Star } from "lucide-react";
-import StockLevelControl from "@/components/StockLevelControl";
+import { ArrowLeft, ArrowRightLeft, Edit, Link2, MapPin, Trash2 } from "lucide-react";
 import VintageManager from "@/components/VintageManager";
+import FormatStockManager from "@/components/FormatStockManager";
+import StockHistory from "@/components/StockHistory";
+import BottleList from "@/components/BottleList";
+import PurchaseHistory from "@/components/PurchaseHistory";
+import MarketValueList from "@/components/MarketValueList";
+import TransferStockDialog from "@/components/TransferStockDialog";
+import TastingNotesTimeline from "@/components/TastingNotesTimeline";
+import WinePhotos from "@/components/WinePhotos";
+import ScannedBottleDialog from "@/components/ScannedBottleDialog";
+import CatalogLinkDialog from "@/components/CatalogLinkDialog";
+import CatalogSuggestions from "@/components/CatalogSuggestions";
+import RatingInput from "@/components/RatingInput";
+import { useRatingScale } from "@/hooks/useRatingScale";
+import WineConflictDialog, { FieldConflict } from "@/components/WineConflictDialog";
 import { getCategoryColor, getVintageApplicableCategories } from "@/lib/wine-categories";
+import { formatLitres, getDefaultVolumeMl, getTotalLitres } from "@/lib/bottle-formats";
+import { formatDrinkingWindow, getDrinkingWindow } from "@/lib/drinking-window";
+import { ALL_CELLARS, CellarScope, UNASSIGNED, fromScopeValue, getScopedEntries, toScopeValue } from "@/lib/cellars";
+
+// Fields that can be edited on this page, used to detect conflicting edits
+const EDITABLE_FIELDS: Record<string, string> = {
+  name: "Name",
+  wine: "Wine Type",
+  subType: "Sub-Type",
+  producer: "Producer",
+  region: "Region",
+  country: "Country",
+  barcode: "Barcode",
+  rating: "Rating",
+};
 
 export default function WineDetail() {
   const [, navigate] = useLocation();
   const [, params] = useRoute<{ id: string }>("/wine/:id");
   const { toast } = useToast();
   const id = params?.id ? parseInt(params.id) : null;
+  // Scanning the barcode of a wine already in the collection lands here with a quick stock prompt
+  const wasScanned = new URLSearchParams(useSearch()).has("scanned");
   
   // Main wine data states
   const [vintageStocks, setVintageStocks] = useState<VintageStock[]>([]);
+  const [stockEntries, setStockEntries] = useState<StockEntry[]>([]);
   const [totalStock, setTotalStock] = useState(0);
   const [isEditing, setIsEditing] = useState(false);
-  const [notes, setNotes] = useState("");
   const [rating, setRating] = useState<number | null>(null);
+  const { scale } = useRatingScale();
+  const [removalType, setRemovalType] = useState<StockMovementTypeValue>(StockMovementType.CONSUMPTION);
+  // Cellar that stock adjustments apply to; across all cellars, removals are spread over them
+  const [cellarScope, setCellarScope] = useState<CellarScope>(undefined);
+  const [isTransferring, setIsTransferring] = useState(false);
+  const [isCatalogLinkOpen, setIsCatalogLinkOpen] = useState(false);
+  const [conflict, setConflict] = useState<{ mine: Partial<InsertWine>; current: Wine; fields: FieldConflict[] } | null>(null);
   
   // Additional editable fields
   const [name, setName] = useState("");
@@ -36,6 +74,7 @@ export default function WineDetail() {
   const [producer, setProducer] = useState<string | null>(null);
   const [region, setRegion] = useState<string | null>(null);
   const [country, setCountry] = useState<string | null>(null);
+  const [barcode, setBarcode] = useState<string | null>(null);
   
   const isVintageApplicable = (category?: string) => {
     if (!category) return false;
@@ -62,6 +101,10 @@ export default function WineDetail() {
     enabled: !!id
   });
   
+  const { data: cellars = [] } = useQuery<CellarWithStock[]>({
+    queryKey: ["/api/cellars"],
+  });
+  
   // Update local state when the wine data changes
   useEffect(() => {
     if (wine) {
@@ -74,10 +117,12 @@ export default function WineDetail() {
       setProducer(wine.producer || "");
       setRegion(wine.region || "");
       setCountry(wine.country || "");
+      setBarcode(wine.barcode || "");
       
       // Set vintage stocks, ensuring it's an array
       const stocks = Array.isArray(wine.vintageStocks) ? wine.vintageStocks : [];
       setVintageStocks(stocks);
+      setStockEntries(Array.isArray(wine.stockEntries) ? wine.stockEntries : []);
       
       // Calculate total stock based on whether we're using vintages or not
       let total = 0;
@@ -88,18 +133,14 @@ export default function WineDetail() {
       }
       setTotalStock(total);
       
-      // Set notes (prioritize notes field, fall back to description if needed)
-      const noteText = wine.notes || wine.description || "";
-      setNotes(noteText);
-      
       // Set rating
       setRating(wine.rating !== null && wine.rating !== undefined ? wine.rating : null);
     }
   }, [wine]);
   
   const updateMutation = useMutation({
-    mutationFn: (data: Partial<Wine>) => 
-      apiRequest("PATCH", `/api/wines/${id}`, data),
+    mutationFn: ({ data, version }: { data: Partial<InsertWine>; version?: number }) => 
+      WineService.updateWine(id!, data, version),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/wines/${id}`] });
       queryClient.invalidateQueries({ queryKey: ["/api/wines"] });
@@ -109,7 +150,13 @@ export default function WineDetail() {
       });
       setIsEditing(false);
     },
-    onError: (error) => {
+    onError: (error, { data }) => {
+      if (error instanceof ApiError && error.status === 409) {
+        const { current } = JSON.parse(error.body) as { current: Wine };
+        handleConflict(data, current);
+        return;
+      }
+      
       toast({
         variant: "destructive",
         title: "Update Failed",
@@ -118,8 +165,52 @@ export default function WineDetail() {
     },
   });
   
+  const stockMutation = useMutation({
+    mutationFn: ({ vintage, delta, volumeMl, type }: { vintage: number | null; delta: number; volumeMl: number; type: StockMovementTypeValue }) => 
+      vintage === null
+        ? WineService.updateStockLevel(id!, delta, type, volumeMl, cellarScope)
+        : WineService.updateVintageStocks(id!, vintage, delta, type, volumeMl, cellarScope),
+    onSuccess: (totals: StockTotals) => {
+      queryClient.setQueryData([`/api/wines/${id}`], (current: Wine | undefined) => 
+        current ? { ...current, ...totals } : current
+      );
+      queryClient.invalidateQueries({ queryKey: ["/api/wines"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cellars"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/wines/${id}/movements`] });
+    },
+    onError: (error) => {
+      // Resync local totals with the ledger
+      queryClient.invalidateQueries({ queryKey: [`/api/wines/${id}`] });
+      toast({
+        variant: "destructive",
+        title: "Stock Update Failed",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+      });
+    },
+  });
+  
+  const windowMutation = useMutation({
+    mutationFn: ({ vintage, drinkFrom, drinkBy }: { vintage: number; drinkFrom: number | null; drinkBy: number | null }) =>
+      WineService.saveVintage(id!, { vintage, drinkFrom, drinkBy }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/wines/${id}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/wines"] });
+      toast({
+        title: "Drinking Window Saved",
+        description: "The drinking window has been updated.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Failed to Save Drinking Window",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+      });
+    },
+  });
+  
   const deleteMutation = useMutation({
-    mutationFn: () => apiRequest("DELETE", `/api/wines/${id}`),
+    mutationFn: () => WineService.deleteWine(id!, wine?.version),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/wines"] });
       toast({
@@ -129,6 +220,16 @@ export default function WineDetail() {
       navigate("/");
     },
     onError: (error) => {
+      if (error instanceof ApiError && error.status === 409) {
+        queryClient.invalidateQueries({ queryKey: [`/api/wines/${id}`] });
+        toast({
+          variant: "destructive",
+          title: "Changed Elsewhere",
+          description: "This bottle was changed by someone else. Review the latest version before removing it.",
+        });
+        return;
+      }
+      
       toast({
         variant: "destructive",
         title: "Deletion Failed",
@@ -137,36 +238,104 @@ export default function WineDetail() {
     },
   });
   
-  const handleStockChange = (newStock: number) => {
-    setTotalStock(newStock);
+  const saveChanges = (data: Partial<InsertWine>) => {
+    updateMutation.mutate({ data, version: wine?.version });
+  };
+  
+  // Three-way merge: retry silently when the other change touched different fields,
+  // otherwise let the user pick between their edits and the saved version
+  const handleConflict = (mine: Partial<InsertWine>, current: Wine) => {
+    const fields = Object.keys(mine)
+      .filter(field => field in EDITABLE_FIELDS)
+      .filter(field => {
+        const base = (wine as Record<string, unknown>)[field] ?? null;
+        const theirs = (current as Record<string, unknown>)[field] ?? null;
+        const ours = (mine as Record<string, unknown>)[field] ?? null;
+        return theirs !== base && theirs !== ours;
+      })
+      .map(field => ({
+        field,
+        label: EDITABLE_FIELDS[field],
+        mine: (mine as Record<string, unknown>)[field],
+        theirs: (current as Record<string, unknown>)[field],
+      }));
     
-    if (!isVintageApplicable(wine?.category)) {
-      updateMutation.mutate({ stockLevel: newStock });
+    if (fields.length === 0) {
+      updateMutation.mutate({ data: mine, version: current.version });
+      return;
     }
+    
+    setConflict({ mine, current, fields });
   };
   
-  const handleVintageStocksChange = (newVintageStocks: VintageStock[]) => {
-    setVintageStocks(newVintageStocks);
-    const newTotalStock = newVintageStocks.reduce((sum, v) => sum + v.stock, 0);
-    setTotalStock(newTotalStock);
-    
-    updateMutation.mutate({ 
-      vintageStocks: newVintageStocks, 
-      stockLevel: newTotalStock 
+  const handleReloadTheirs = () => {
+    if (!conflict) return;
+    queryClient.setQueryData([`/api/wines/${id}`], conflict.current);
+    queryClient.invalidateQueries({ queryKey: ["/api/wines"] });
+    setIsEditing(false);
+    setConflict(null);
+  };
+  
+  const handleKeepMine = () => {
+    if (!conflict) return;
+    updateMutation.mutate({ data: conflict.mine, version: conflict.current.version });
+    setConflict(null);
+  };
+  
+  // Additions are recorded as adjustments, since bought bottles are added through a purchase,
+  // and removals with the selected movement type
+  const recordMovement = (vintage: number | null, delta: number, volumeMl: number) => {
+    stockMutation.mutate({
+      type: delta > 0 ? StockMovementType.ADJUSTMENT : removalType,
+      delta,
+      vintage,
+      volumeMl,
     });
   };
   
-  const handleNotesChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    setNotes(e.target.value);
+  // Applies a change to the local per-format stock before the server confirms it.
+  // Across all cellars this is an estimate until the server reports where the change went.
+  const adjustLocalEntries = (vintage: number | null, delta: number, volumeMl: number) => {
+    const target = stockEntries.find(e =>
+      e.vintage === vintage && e.volumeMl === volumeMl && (cellarScope === undefined || e.cellarId === cellarScope));
+    setStockEntries((target
+      ? stockEntries.map(e => e === target ? { ...e, stock: e.stock + delta } : e)
+      : [...stockEntries, { vintage, volumeMl, cellarId: cellarScope ?? null, stock: delta }]
+    ).filter(e => e.stock > 0));
+    setTotalStock(totalStock + delta);
+  };
+  
+  const handleFormatAdjust = (delta: number, volumeMl: number) => {
+    adjustLocalEntries(null, delta, volumeMl);
+    recordMovement(null, delta, volumeMl);
+  };
+  
+  const handleVintageAdjust = (vintage: number, delta: number, volumeMl: number) => {
+    const exists = vintageStocks.some(vs => vs.vintage === vintage);
+    const newVintageStocks = (exists
+      ? vintageStocks.map(vs => vs.vintage === vintage ? { ...vs, stock: vs.stock + delta } : vs)
+      : [...vintageStocks, { vintage, stock: delta }]
+    ).filter(vs => vs.stock > 0);
+    
+    setVintageStocks(newVintageStocks);
+    adjustLocalEntries(vintage, delta, volumeMl);
+    recordMovement(vintage, delta, volumeMl);
+  };
+  
+  const handleWindowChange = (vintage: number, drinkFrom: number | null, drinkBy: number | null) => {
+    windowMutation.mutate({ vintage, drinkFrom, drinkBy });
   };
   
-  const handleSaveNotes = () => {
-    updateMutation.mutate({ notes });
+  // Stored drinking window of a vintage, or a suggested one
+  const getWindowLabel = (vs: VintageStock): string | null => {
+    if (!wine) return null;
+    const window = getDrinkingWindow(wine.category, wine.region, vs.vintage, vs);
+    return window ? `drink ${formatDrinkingWindow(window)}${window.suggested ? " (suggested)" : ""}` : null;
   };
   
-  const handleRatingChange = (newRating: number) => {
+  const handleRatingChange = (newRating: number | null) => {
     setRating(newRating);
-    updateMutation.mutate({ rating: newRating });
+    saveChanges({ rating: newRating });
   };
   
   const handleDelete = () => {
@@ -184,6 +353,9 @@ export default function WineDetail() {
     );
   }
   
+  const scopedEntries = getScopedEntries(stockEntries, cellarScope);
+  const scopedStock = scopedEntries.reduce((sum, e) => sum + e.stock, 0);
+  
   if (isError || !wine) {
     return (
       <div className="flex flex-col min-h-screen bg-background text-foreground pb-20">
@@ -224,18 +396,22 @@ export default function WineDetail() {
       case 'country':
         setCountry(value);
         break;
+      case 'barcode':
+        setBarcode(value);
+        break;
     }
   };
   
   // Save all edited fields
   const handleSaveDetails = () => {
-    updateMutation.mutate({
+    saveChanges({
       name,
       wine: wineType,
       subType,
       producer,
       region,
-      country
+      country,
+      barcode: barcode || null
     });
   };
   
@@ -243,6 +419,27 @@ export default function WineDetail() {
     <div className="flex flex-col min-h-screen bg-background text-foreground pb-20">
       <Header title={wine.name} />
       
+      <ScannedBottleDialog
+        open={wasScanned}
+        onOpenChange={(open) => !open && navigate(`/wine/${wine.id}`, { replace: true })}
+        wine={wine}
+      />
+      
+      {wine.catalogId !== null && (
+        <CatalogLinkDialog
+          open={isCatalogLinkOpen}
+          onOpenChange={setIsCatalogLinkOpen}
+          wine={wine}
+        />
+      )}
+      
+      <WineConflictDialog
+        open={!!conflict}
+        conflicts={conflict?.fields || []}
+        onReload={handleReloadTheirs}
+        onKeepMine={handleKeepMine}
+      />
+      
       <main className="flex-1 container px-4 py-6 mx-auto">
         <div className="mb-6">
           <Button variant="ghost" onClick={() => navigate("/")} className="pl-0">
@@ -264,6 +461,17 @@ export default function WineDetail() {
                 {vintageStocks.length > 0 && vintageStocks.map(vs => (
                   <Badge key={vs.vintage} variant="outline">{vs.vintage}</Badge>
                 ))}
+                {wine.catalogId !== null && (
+                  <Badge
+                    variant="secondary"
+                    className="cursor-pointer"
+                    onClick={() => setIsCatalogLinkOpen(true)}
+                    title="Compare with the catalog entry and re-sync fields"
+                  >
+                    <Link2 className="mr-1 h-3 w-3" />
+                    Linked to catalog
+                  </Badge>
+                )}
               </div>
               
               {isEditing ? (
@@ -328,6 +536,8 @@ export default function WineDetail() {
           
           <CardContent className="pt-2">
             <div className="grid grid-cols-1 gap-6">
+              {wine.catalogId === null && <CatalogSuggestions wine={wine} />}
+              
               {/* Wine Information Section */}
               <div className="space-y-4">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -389,6 +599,21 @@ export default function WineDetail() {
                         <span className="text-sm">{wine.country || 'Not specified'}</span>
                       )}
                     </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm font-medium">Barcode:</span>
+                      {isEditing ? (
+                        <input
+                          type="text"
+                          inputMode="numeric"
+                          value={barcode || ''}
+                          onChange={(e) => handleFieldChange('barcode', e.target.value)}
+                          placeholder="EAN or UPC"
+                          className="text-sm p-1 border rounded w-1/2 text-right"
+                        />
+                      ) : (
+                        <span className="text-sm">{wine.barcode || 'Not specified'}</span>
+                      )}
+                    </div>
                   </div>
                   
                   <div className="space-y-2">
@@ -397,6 +622,18 @@ export default function WineDetail() {
                       <span className="text-sm font-medium">Total Stock:</span>
                       <span className="text-sm font-bold">{totalStock} bottles</span>
                     </div>
+                    <div className="flex justify-between">
+                      <span className="text-sm font-medium">Volume:</span>
+                      <span className="text-sm">{formatLitres(getTotalLitres(stockEntries))}</span>
+                    </div>
+                    {totalStock > 0 && (
+                      <Button variant="link" size="sm" className="px-0 h-auto" asChild>
+                        <Link href={`/cellar-map?wine=${wine.id}`}>
+                          <MapPin className="mr-1 h-3 w-3" />
+                          Find in Cellar Map
+                        </Link>
+                      </Button>
+                    )}
                     {isVintageApplicable(wine.category) && vintageStocks.length > 0 && (
                       <div className="flex justify-between items-start">
                         <span className="text-sm font-medium">Vintages:</span>
@@ -404,6 +641,9 @@ export default function WineDetail() {
                           {vintageStocks.sort((a, b) => a.vintage - b.vintage).map((vs, index) => (
                             <div key={vs.vintage}>
                               {vs.vintage}: {vs.stock} bottle{vs.stock !== 1 ? 's' : ''}
+                              {getWindowLabel(vs) && (
+                                <span className="text-muted-foreground"> · {getWindowLabel(vs)}</span>
+                              )}
                             </div>
                           ))}
                         </div>
@@ -426,48 +666,20 @@ export default function WineDetail() {
                 
                 <Separator />
                 
-                {/* Notes & Rating Section */}
+                {/* Tasting Notes & Rating Section */}
                 <div className="space-y-4">
                   <div>
-                    <h3 className="text-sm font-medium mb-2">Your Notes</h3>
-                    {isEditing ? (
-                      <div className="space-y-2">
-                        <Textarea 
-                          value={notes} 
-                          onChange={handleNotesChange} 
-                          placeholder="Add your tasting notes, impressions, or pairing ideas..." 
-                          rows={4}
-                        />
-                        <Button size="sm" onClick={handleSaveNotes}>Save Notes</Button>
-                      </div>
-                    ) : (
-                      <div 
-                        className="p-3 border rounded-md min-h-[100px] text-sm"
-                        onClick={() => setIsEditing(true)}
-                      >
-                        {notes || "Click to add notes..."}
-                      </div>
-                    )}
+                    <h3 className="text-sm font-medium mb-2">Tasting Notes</h3>
+                    <TastingNotesTimeline 
+                      wineId={wine.id} 
+                      vintages={vintageStocks.map(vs => vs.vintage)} 
+                    />
                   </div>
                   
                   {/* Rating implementation */}
                   <div>
                     <h3 className="text-sm font-medium mb-2">Your Rating</h3>
-                    <div className="flex items-center gap-1">
-                      {[1, 2, 3, 4, 5].map((star) => (
-                        <button 
-                          key={star} 
-                          onClick={() => handleRatingChange(star)}
-                          className={`text-lg ${
-                            (rating !== null && star <= rating) 
-                              ? 'text-yellow-500' 
-                              : 'text-muted-foreground'
-                          }`}
-                        >
-                          <Star className="h-5 w-5" />
-                        </button>
-                      ))}
-                    </div>
+                    <RatingInput value={rating} onChange={handleRatingChange} scale={scale} />
                   </div>
                 </div>
                 
@@ -475,31 +687,137 @@ export default function WineDetail() {
                 
                 {/* Inventory Management Section */}
                 <div className="bg-muted p-4 rounded-md">
-                  <h3 className="font-medium mb-4">Inventory Management</h3>
+                  <div className="flex justify-between items-center mb-4">
+                    <h3 className="font-medium">Inventory Management</h3>
+                    {cellars.length > 0 && (
+                      <div className="flex gap-2">
+                        <Select 
+                          value={toScopeValue(cellarScope)} 
+                          onValueChange={(value) => setCellarScope(fromScopeValue(value))}
+                        >
+                          <SelectTrigger className="w-40 h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={ALL_CELLARS}>All cellars</SelectItem>
+                            {cellars.map(cellar => (
+                              <SelectItem key={cellar.id} value={cellar.id.toString()}>{cellar.name}</SelectItem>
+                            ))}
+                            <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <Button 
+                          variant="outline" 
+                          size="sm" 
+                          onClick={() => setIsTransferring(true)}
+                          disabled={totalStock === 0}
+                        >
+                          <ArrowRightLeft className="mr-1 h-4 w-4" />
+                          Move
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                  <TransferStockDialog
+                    open={isTransferring}
+                    onOpenChange={setIsTransferring}
+                    wine={wine}
+                    cellars={cellars}
+                  />
                   
                   {!isVintageApplicable(wine.category) ? (
                     <div className="space-y-3">
                       <div className="flex justify-between items-center">
                         <span className="text-sm font-medium">Total Stock:</span>
-                        <span className="text-xl font-bold">{totalStock}</span>
+                        <span className="text-xl font-bold">{scopedStock}</span>
                       </div>
-                      <StockLevelControl 
-                        value={totalStock}
-                        onChange={handleStockChange}
+                      <FormatStockManager
+                        entries={scopedEntries.filter(e => e.vintage === null)}
+                        onAdjust={handleFormatAdjust}
+                        defaultVolumeMl={getDefaultVolumeMl(wine.category)}
                       />
                     </div>
                   ) : (
                     <div className="space-y-4">
                       <div className="flex justify-between items-center">
                         <span className="text-sm font-medium">Total Bottles:</span>
-                        <span className="text-xl font-bold">{totalStock}</span>
+                        <span className="text-xl font-bold">{scopedStock}</span>
                       </div>
                       <VintageManager 
-                        vintageStocks={vintageStocks}
-                        onChange={handleVintageStocksChange}
+                        vintageStocks={scopedEntries
+                          .filter(e => e.vintage !== null)
+                          .map(e => ({
+                            ...vintageStocks.find(vs => vs.vintage === e.vintage),
+                            vintage: e.vintage as number,
+                            stock: e.stock,
+                            volumeMl: e.volumeMl,
+                          }))}
+                        onAdjust={handleVintageAdjust}
+                        defaultVolumeMl={getDefaultVolumeMl(wine.category)}
+                        category={wine.category}
+                        region={wine.region}
+                        onWindowChange={handleWindowChange}
                       />
                     </div>
                   )}
+                  
+                  <div className="flex justify-between items-center mt-4">
+                    <span className="text-sm font-medium">Record removals as:</span>
+                    <Select 
+                      value={removalType} 
+                      onValueChange={(value) => setRemovalType(value as StockMovementTypeValue)}
+                    >
+                      <SelectTrigger className="w-40 h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={StockMovementType.CONSUMPTION}>Consumed</SelectItem>
+                        <SelectItem value={StockMovementType.GIFT}>Gift</SelectItem>
+                        <SelectItem value={StockMovementType.BREAKAGE}>Breakage</SelectItem>
+                        <SelectItem value={StockMovementType.ADJUSTMENT}>Adjustment</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                
+                <Separator />
+                
+                {/* Label Photos Section */}
+                <div>
+                  <h3 className="text-sm font-medium mb-2">Label Photos</h3>
+                  <WinePhotos wineId={wine.id} />
+                </div>
+                
+                <Separator />
+                
+                {/* Purchases Section */}
+                <div>
+                  <h3 className="text-sm font-medium mb-2">Purchases</h3>
+                  <PurchaseHistory wine={wine} isVintageApplicable={isVintageApplicable(wine.category)} />
+                </div>
+                
+                <Separator />
+                
+                {/* Market Value Section */}
+                <div>
+                  <h3 className="text-sm font-medium mb-2">Market Value</h3>
+                  <MarketValueList wineId={wine.id} vintages={vintageStocks.map(vs => vs.vintage)} />
+                </div>
+                
+                <Separator />
+                
+                {/* Individual Bottles Section */}
+                <div>
+                  <h3 className="text-sm font-medium mb-2">Bottles</h3>
+                  <BottleList wine={wine} isVintageApplicable={isVintageApplicable(wine.category)} />
+                </div>
+                
+                <Separator />
+                
+                {/* Stock History Section */}
+                <div>
+                  <h3 className="text-sm font-medium mb-2">Stock History</h3>
+                  <StockHistory wineId={wine.id} />
                 </div>
               </div>
             </div>
@@ -0,0 +1,31 @@
+-- Custom SQL migration file, put your code below! --
+-- Creates the stock movement ledger and seeds it with an opening balance for
+-- every existing wine so that totals recomputed from the ledger match today's.
+CREATE TABLE IF NOT EXISTS "stock_movements" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"wine_id" integer NOT NULL REFERENCES "wines"("id") ON DELETE CASCADE,
+	"user_id" varchar NOT NULL REFERENCES "users"("id"),
+	"type" text NOT NULL,
+	"delta" integer NOT NULL,
+	"vintage" integer,
+	"reason" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_stock_movements_wine" ON "stock_movements" ("wine_id");
+--> statement-breakpoint
+-- Opening balances for wines tracked per vintage
+INSERT INTO "stock_movements" ("wine_id", "user_id", "type", "delta", "vintage", "reason")
+SELECT w."id", w."user_id", 'adjustment', (vs->>'stock')::integer, (vs->>'vintage')::integer, 'Opening balance'
+FROM "wines" w, json_array_elements(w."vintage_stocks") vs
+WHERE json_array_length(w."vintage_stocks") > 0
+  AND (vs->>'stock')::integer <> 0
+  AND NOT EXISTS (SELECT 1 FROM "stock_movements" m WHERE m."wine_id" = w."id");
+--> statement-breakpoint
+-- Opening balances for non-vintage wines
+INSERT INTO "stock_movements" ("wine_id", "user_id", "type", "delta", "vintage", "reason")
+SELECT w."id", w."user_id", 'adjustment', w."stock_level", NULL, 'Opening balance'
+FROM "wines" w
+WHERE coalesce(json_array_length(w."vintage_stocks"), 0) = 0
+  AND coalesce(w."stock_level", 0) <> 0
+  AND NOT EXISTS (SELECT 1 FROM "stock_movements" m WHERE m."wine_id" = w."id");
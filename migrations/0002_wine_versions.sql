@@ -0,0 +1,4 @@
+-- Custom SQL migration file, put your code below! --
+-- Adds the version wines are edited against. Existing wines start at version 1.
+-- Run this before `npm run db:push`.
+ALTER TABLE "wines" ADD COLUMN IF NOT EXISTS "version" integer DEFAULT 1 NOT NULL;
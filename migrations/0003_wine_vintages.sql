@@ -0,0 +1,31 @@
+-- Custom SQL migration file, put your code below! --
+-- Moves vintage stock out of the untyped wines.vintage_stocks JSON column into
+-- the relational wine_vintages table. Run this before `npm run db:push`, which
+-- would otherwise drop the column without converting it.
+CREATE TABLE IF NOT EXISTS "wine_vintages" (
+	"wine_id" integer NOT NULL REFERENCES "wines"("id") ON DELETE CASCADE,
+	"vintage" integer NOT NULL,
+	"stock" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "wine_vintages_wine_id_vintage_pk" PRIMARY KEY("wine_id","vintage")
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_wine_vintages_vintage" ON "wine_vintages" ("vintage");
+--> statement-breakpoint
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'wines' AND column_name = 'vintage_stocks'
+  ) THEN
+    -- Duplicate vintages in the JSON are summed into a single row
+    INSERT INTO "wine_vintages" ("wine_id", "vintage", "stock")
+    SELECT w."id", (vs->>'vintage')::integer, sum((vs->>'stock')::integer)
+    FROM "wines" w, json_array_elements(w."vintage_stocks") vs
+    WHERE w."vintage_stocks" IS NOT NULL
+    GROUP BY w."id", (vs->>'vintage')::integer
+    ON CONFLICT ("wine_id", "vintage") DO NOTHING;
+
+    ALTER TABLE "wines" DROP COLUMN "vintage_stocks";
+  END IF;
+END $$;
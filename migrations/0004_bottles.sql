@@ -0,0 +1,19 @@
+-- Custom SQL migration file, put your code below! --
+-- Creates the bottles table for wines tracked per bottle. Existing stock is not
+-- tracked per bottle until the user starts doing so. Run this before
+-- `npm run db:push`.
+CREATE TABLE IF NOT EXISTS "bottles" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"wine_id" integer NOT NULL REFERENCES "wines"("id") ON DELETE CASCADE,
+	"user_id" varchar NOT NULL REFERENCES "users"("id"),
+	"vintage" integer,
+	"status" text DEFAULT 'in_cellar' NOT NULL,
+	"location" text,
+	"purchase_price" numeric(10, 2),
+	"condition" text,
+	"notes" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_bottles_wine" ON "bottles" ("wine_id");
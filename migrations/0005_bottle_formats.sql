@@ -0,0 +1,6 @@
+-- Custom SQL migration file, put your code below! --
+-- Records the bottle format of stock movements and bottles. Existing stock is
+-- taken to be in standard 75cl bottles. Run this before `npm run db:push`.
+ALTER TABLE "stock_movements" ADD COLUMN IF NOT EXISTS "volume_ml" integer DEFAULT 750 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "bottles" ADD COLUMN IF NOT EXISTS "volume_ml" integer DEFAULT 750 NOT NULL;
@@ -0,0 +1,6 @@
+-- Custom SQL migration file, put your code below! --
+-- Adds drinking windows to vintages. Existing vintages have none until they are
+-- set. Run this before `npm run db:push`.
+ALTER TABLE "wine_vintages" ADD COLUMN IF NOT EXISTS "drink_from" integer;
+--> statement-breakpoint
+ALTER TABLE "wine_vintages" ADD COLUMN IF NOT EXISTS "drink_by" integer;
@@ -0,0 +1,33 @@
+-- Custom SQL migration file, put your code below! --
+-- Creates the tasting_notes table and moves each wine's single free-text note
+-- into it as a first entry, dated when the wine was added. Run this before
+-- `npm run db:push`.
+CREATE TABLE IF NOT EXISTS "tasting_notes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"wine_id" integer NOT NULL REFERENCES "wines"("id") ON DELETE CASCADE,
+	"user_id" varchar NOT NULL REFERENCES "users"("id"),
+	"vintage" integer,
+	"tasted_at" timestamp DEFAULT now() NOT NULL,
+	"appearance" text,
+	"nose" text,
+	"palate" text,
+	"finish" text,
+	"sweetness" integer,
+	"acidity" integer,
+	"tannin" integer,
+	"body" integer,
+	"aromas" text[] DEFAULT '{}'::text[] NOT NULL,
+	"score" integer,
+	"comments" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_tasting_notes_wine" ON "tasting_notes" ("wine_id");
+--> statement-breakpoint
+INSERT INTO "tasting_notes" ("wine_id", "user_id", "tasted_at", "comments")
+SELECT w."id", w."user_id", coalesce(w."created_at", now()), trim(w."notes")
+FROM "wines" w
+WHERE trim(coalesce(w."notes", '')) <> '';
+--> statement-breakpoint
+UPDATE "wines" SET "notes" = NULL WHERE "notes" IS NOT NULL;
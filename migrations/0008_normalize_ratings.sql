@@ -0,0 +1,17 @@
+-- Custom SQL migration file, put your code below! --
+-- Adds each user's preferred rating scale and converts existing 1-5 ratings and
+-- tasting note scores to the normalized 0-100 range. The conversion is marked
+-- with a column comment so it only runs once. Run this before
+-- `npm run db:push`.
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "rating_scale" varchar DEFAULT 'five_star' NOT NULL;
+--> statement-breakpoint
+DO $$
+BEGIN
+	IF col_description('"wines"'::regclass, (
+		SELECT attnum FROM pg_attribute WHERE attrelid = '"wines"'::regclass AND attname = 'rating'
+	)) IS DISTINCT FROM 'normalized 0-100' THEN
+		UPDATE "wines" SET "rating" = "rating" * 20 WHERE "rating" BETWEEN 1 AND 5;
+		UPDATE "tasting_notes" SET "score" = "score" * 20 WHERE "score" BETWEEN 1 AND 5;
+		COMMENT ON COLUMN "wines"."rating" IS 'normalized 0-100';
+	END IF;
+END $$;
@@ -0,0 +1,21 @@
+-- Custom SQL migration file, put your code below! --
+-- Creates the purchases table. Existing stock has no purchase records; only
+-- purchases recorded from now on count towards spend. Run this before
+-- `npm run db:push`.
+CREATE TABLE IF NOT EXISTS "purchases" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"wine_id" integer NOT NULL REFERENCES "wines"("id") ON DELETE CASCADE,
+	"user_id" varchar NOT NULL REFERENCES "users"("id"),
+	"vintage" integer,
+	"volume_ml" integer DEFAULT 750 NOT NULL,
+	"quantity" integer NOT NULL,
+	"unit_price" numeric(10, 2) NOT NULL,
+	"currency" varchar(3) DEFAULT 'USD' NOT NULL,
+	"purchased_at" timestamp DEFAULT now() NOT NULL,
+	"merchant" text,
+	"invoice_ref" text,
+	"stock_movement_id" integer REFERENCES "stock_movements"("id") ON DELETE SET NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_purchases_wine" ON "purchases" ("wine_id");
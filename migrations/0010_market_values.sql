@@ -0,0 +1,16 @@
+-- Custom SQL migration file, put your code below! --
+-- Creates the market_values table used to value the collection. Run this before
+-- `npm run db:push`.
+CREATE TABLE IF NOT EXISTS "market_values" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"wine_id" integer NOT NULL REFERENCES "wines"("id") ON DELETE CASCADE,
+	"user_id" varchar NOT NULL REFERENCES "users"("id"),
+	"vintage" integer,
+	"value" numeric(10, 2) NOT NULL,
+	"currency" varchar(3) DEFAULT 'USD' NOT NULL,
+	"valued_at" timestamp DEFAULT now() NOT NULL,
+	"source" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_market_values_wine" ON "market_values" ("wine_id");
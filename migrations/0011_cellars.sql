@@ -0,0 +1,19 @@
+-- Custom SQL migration file, put your code below! --
+-- Creates the cellars table and places stock movements and bottles in a cellar.
+-- Existing stock stays unassigned. Run this before `npm run db:push`.
+CREATE TABLE IF NOT EXISTS "cellars" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" varchar NOT NULL REFERENCES "users"("id"),
+	"name" text NOT NULL,
+	"address" text,
+	"notes" text,
+	"capacity" integer,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_cellars_user" ON "cellars" ("user_id");
+--> statement-breakpoint
+ALTER TABLE "stock_movements" ADD COLUMN IF NOT EXISTS "cellar_id" integer REFERENCES "cellars"("id") ON DELETE SET NULL;
+--> statement-breakpoint
+ALTER TABLE "bottles" ADD COLUMN IF NOT EXISTS "cellar_id" integer REFERENCES "cellars"("id") ON DELETE SET NULL;
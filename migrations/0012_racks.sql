@@ -0,0 +1,33 @@
+-- Custom SQL migration file, put your code below! --
+-- Creates racks and their slots for the cellar map. Run this before
+-- `npm run db:push`.
+CREATE TABLE IF NOT EXISTS "racks" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" varchar NOT NULL REFERENCES "users"("id"),
+	"cellar_id" integer REFERENCES "cellars"("id") ON DELETE SET NULL,
+	"name" text NOT NULL,
+	"rows" integer NOT NULL,
+	"columns" integer NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_racks_user" ON "racks" ("user_id");
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "rack_slots" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"rack_id" integer NOT NULL REFERENCES "racks"("id") ON DELETE CASCADE,
+	"row" integer NOT NULL,
+	"column" integer NOT NULL,
+	"label" text,
+	"wine_id" integer REFERENCES "wines"("id") ON DELETE SET NULL,
+	"bottle_id" integer REFERENCES "bottles"("id") ON DELETE SET NULL,
+	"vintage" integer,
+	"volume_ml" integer,
+	"quantity" integer DEFAULT 1 NOT NULL,
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "IDX_rack_slots_position" ON "rack_slots" ("rack_id","row","column");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_rack_slots_wine" ON "rack_slots" ("wine_id");
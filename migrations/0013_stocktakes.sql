@@ -0,0 +1,28 @@
+-- Custom SQL migration file, put your code below! --
+-- Creates stocktake sessions and their counted lines. Run this before
+-- `npm run db:push`.
+CREATE TABLE IF NOT EXISTS "stocktakes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" varchar NOT NULL REFERENCES "users"("id"),
+	"cellar_id" integer REFERENCES "cellars"("id") ON DELETE SET NULL,
+	"status" text DEFAULT 'in_progress' NOT NULL,
+	"notes" text,
+	"created_at" timestamp DEFAULT now(),
+	"applied_at" timestamp
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_stocktakes_user" ON "stocktakes" ("user_id");
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "stocktake_lines" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"stocktake_id" integer NOT NULL REFERENCES "stocktakes"("id") ON DELETE CASCADE,
+	"wine_id" integer NOT NULL REFERENCES "wines"("id") ON DELETE CASCADE,
+	"vintage" integer,
+	"volume_ml" integer DEFAULT 750 NOT NULL,
+	"cellar_id" integer REFERENCES "cellars"("id") ON DELETE SET NULL,
+	"expected" integer NOT NULL,
+	"counted" integer,
+	"counted_at" timestamp
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_stocktake_lines_stocktake" ON "stocktake_lines" ("stocktake_id");
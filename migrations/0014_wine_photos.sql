@@ -0,0 +1,18 @@
+-- Custom SQL migration file, put your code below! --
+-- Adds label photos and wine thumbnails. Run this before `npm run db:push`.
+ALTER TABLE "wines" ADD COLUMN IF NOT EXISTS "thumbnail_url" text;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "wine_photos" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"wine_id" integer NOT NULL REFERENCES "wines"("id") ON DELETE CASCADE,
+	"user_id" varchar NOT NULL REFERENCES "users"("id"),
+	"side" text NOT NULL,
+	"key" varchar NOT NULL,
+	"width" integer NOT NULL,
+	"height" integer NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "IDX_wine_photos_side" ON "wine_photos" ("wine_id","side");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_wine_photos_key" ON "wine_photos" ("key");
@@ -0,0 +1,10 @@
+-- Custom SQL migration file, put your code below! --
+-- Adds EAN/UPC barcodes to the catalog and to wines. Run this before
+-- `npm run db:push`.
+ALTER TABLE "wines" ADD COLUMN IF NOT EXISTS "barcode" varchar;
+--> statement-breakpoint
+ALTER TABLE "wine_catalog" ADD COLUMN IF NOT EXISTS "barcode" varchar;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_wines_barcode" ON "wines" ("user_id","barcode");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_wine_catalog_barcode" ON "wine_catalog" ("barcode");
@@ -0,0 +1,18 @@
+-- Custom SQL migration file, put your code below! --
+-- Links wines to the catalog entries they were added from, and adds suggested
+-- links. Run this before `npm run db:push`.
+ALTER TABLE "wines" ADD COLUMN IF NOT EXISTS "catalog_id" integer REFERENCES "wine_catalog"("id") ON DELETE SET NULL;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_wines_catalog" ON "wines" ("catalog_id");
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "catalog_suggestions" (
+	"wine_id" integer NOT NULL REFERENCES "wines"("id") ON DELETE CASCADE,
+	"catalog_id" integer NOT NULL REFERENCES "wine_catalog"("id") ON DELETE CASCADE,
+	"user_id" varchar NOT NULL REFERENCES "users"("id"),
+	"score" integer NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	PRIMARY KEY ("wine_id","catalog_id")
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_catalog_suggestions_user" ON "catalog_suggestions" ("user_id","status");
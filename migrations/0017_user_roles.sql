@@ -0,0 +1,5 @@
+-- Custom SQL migration file, put your code below! --
+-- Adds user roles, for admins who manage the wine catalog. Run this before
+-- `npm run db:push`.
+-- Admins are set with ADMIN_EMAILS, or with: UPDATE "users" SET "role" = 'admin' WHERE "email" = '...';
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "role" varchar DEFAULT 'user' NOT NULL;
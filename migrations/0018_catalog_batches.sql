@@ -0,0 +1,24 @@
+-- Custom SQL migration file, put your code below! --
+-- Records changes to the wine catalog as batches with before and after images,
+-- so they can be compared and rolled back. Run this before `npm run db:push`.
+CREATE TABLE IF NOT EXISTS "catalog_batches" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"kind" text NOT NULL,
+	"user_id" varchar NOT NULL REFERENCES "users"("id"),
+	"rollback_of" integer,
+	"created_at" timestamp DEFAULT now(),
+	"rolled_back_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "catalog_batch_rows" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"batch_id" integer NOT NULL REFERENCES "catalog_batches"("id") ON DELETE CASCADE,
+	"catalog_id" integer NOT NULL,
+	"before" jsonb,
+	"after" jsonb,
+	"linked_wine_ids" jsonb
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_catalog_batch_rows_batch" ON "catalog_batch_rows" ("batch_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_catalog_batch_rows_catalog" ON "catalog_batch_rows" ("catalog_id");
@@ -0,0 +1,21 @@
+-- Custom SQL migration file, put your code below! --
+-- Indexes the wine catalog for accent-insensitive, typo-tolerant search with
+-- pg_trgm and unaccent. Run this before `npm run db:push`.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+--> statement-breakpoint
+CREATE EXTENSION IF NOT EXISTS unaccent;
+--> statement-breakpoint
+-- unaccent() is only STABLE, as its dictionary could change, so indexes use this IMMUTABLE wrapper
+CREATE OR REPLACE FUNCTION f_unaccent(text) RETURNS text
+	LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT
+	AS $$ SELECT public.unaccent('public.unaccent'::regdictionary, $1) $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_wine_catalog_name_trgm" ON "wine_catalog" USING gin (f_unaccent(lower(coalesce("name", ''))) gin_trgm_ops);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_wine_catalog_category_trgm" ON "wine_catalog" USING gin (f_unaccent(lower(coalesce("category", ''))) gin_trgm_ops);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_wine_catalog_producer_trgm" ON "wine_catalog" USING gin (f_unaccent(lower(coalesce("producer", ''))) gin_trgm_ops);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_wine_catalog_region_trgm" ON "wine_catalog" USING gin (f_unaccent(lower(coalesce("region", ''))) gin_trgm_ops);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "IDX_wine_catalog_country_trgm" ON "wine_catalog" USING gin (f_unaccent(lower(coalesce("country", ''))) gin_trgm_ops);
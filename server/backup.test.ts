@@ -0,0 +1,37 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import JSZip from "jszip";
+import { integer, pgTable, serial } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+import { MAX_ARCHIVE_ENTRIES, createBackupArchive, findUnlistedTables, readBackupArchive } from "./backup";
+
+test("every table holding user data is backed up or set aside", () => {
+  assert.deepEqual(findUnlistedTables(Object.values(schema)), []);
+});
+
+test("a new table under wines is reported until it is added to the backup", () => {
+  const wineLabels = pgTable("wine_labels", {
+    id: serial("id").primaryKey(),
+    wineId: integer("wine_id").notNull().references(() => schema.wines.id),
+  });
+  assert.deepEqual(findUnlistedTables([...Object.values(schema), wineLabels]), ["wine_labels"]);
+});
+
+test("a backup archive reads back as it was written", async () => {
+  const files = { "photos/abc.jpg": Buffer.from("front") };
+  const archive = await createBackupArchive({ createdAt: "2026-10-19T00:00:00.000Z", user: { ratingScale: "five_star" }, tables: {}, files });
+  const data = await readBackupArchive(archive);
+  assert.deepEqual(data.tables.wines, []);
+  assert.deepEqual(data.files, files);
+});
+
+test("an archive with more entries than allowed is refused before it is unpacked", async () => {
+  const zip = new JSZip();
+  for (let i = 0; i <= MAX_ARCHIVE_ENTRIES; i++) zip.file(`files/${i}`, "");
+  const archive = await zip.generateAsync({ type: "nodebuffer" });
+  await assert.rejects(readBackupArchive(archive), /more than \d+ files/);
+});
+
+test("an upload that is not a zip archive is refused", async () => {
+  await assert.rejects(readBackupArchive(Buffer.from("not a backup")), /Not a zip archive/);
+});
@@ -0,0 +1,295 @@
+import { randomUUID } from "crypto";
+import JSZip from "jszip";
+import { z } from "zod";
+import { createSchemaFactory } from "drizzle-zod";
+import { getTableColumns, getTableName, is } from "drizzle-orm";
+import { PgTable, getTableConfig } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+import {
+  bottles,
+  catalogBatches,
+  catalogSuggestions,
+  cellars,
+  marketValues,
+  purchases,
+  racks,
+  rackSlots,
+  stockMovements,
+  stocktakeLines,
+  stocktakes,
+  tastingNotes,
+  users,
+  wineCatalog,
+  winePhotos,
+  wines,
+  wineVintages,
+} from "@shared/schema";
+import { getPhotoUrl, getThumbnailUrl } from "@shared/photos";
+
+// Identifies backup archives. The version goes up whenever the layout changes in a way
+// older code cannot read; archives from newer versions are refused.
+export const BACKUP_FORMAT = "cellars.me/backup";
+export const BACKUP_VERSION = 1;
+
+// A table of user data. Rows belong to a user through a userId column, or through their
+// parent row. refs lists the columns holding ids of rows in other backed-up tables, so they
+// can be pointed at the new rows when an archive is restored. shared lists the columns holding
+// ids of rows shared by all users, such as catalog entries, which are kept only where they exist;
+// rows that cannot do without them are left out.
+export interface BackupTable {
+  name: string;
+  table: PgTable;
+  parent?: { column: string; table: string };
+  refs: Record<string, string>;
+  shared?: Record<string, PgTable>;
+}
+
+// Every table holding user data, parents before the tables that refer to them.
+// New user tables must be added here to be backed up; the server does not start otherwise.
+export const BACKUP_TABLES: BackupTable[] = [
+  { name: "cellars", table: cellars, refs: {} },
+  { name: "wines", table: wines, refs: {}, shared: { catalogId: wineCatalog } },
+  { name: "wineVintages", table: wineVintages, parent: { column: "wineId", table: "wines" }, refs: {} },
+  { name: "bottles", table: bottles, parent: { column: "wineId", table: "wines" }, refs: { cellarId: "cellars" } },
+  { name: "stockMovements", table: stockMovements, parent: { column: "wineId", table: "wines" }, refs: { cellarId: "cellars" } },
+  { name: "purchases", table: purchases, parent: { column: "wineId", table: "wines" }, refs: { stockMovementId: "stockMovements" } },
+  { name: "marketValues", table: marketValues, parent: { column: "wineId", table: "wines" }, refs: {} },
+  { name: "tastingNotes", table: tastingNotes, parent: { column: "wineId", table: "wines" }, refs: {} },
+  { name: "winePhotos", table: winePhotos, parent: { column: "wineId", table: "wines" }, refs: {} },
+  { name: "catalogSuggestions", table: catalogSuggestions, parent: { column: "wineId", table: "wines" }, refs: {}, shared: { catalogId: wineCatalog } },
+  { name: "racks", table: racks, refs: { cellarId: "cellars" } },
+  { name: "rackSlots", table: rackSlots, parent: { column: "rackId", table: "racks" }, refs: { wineId: "wines", bottleId: "bottles" } },
+  { name: "stocktakes", table: stocktakes, refs: { cellarId: "cellars" } },
+  { name: "stocktakeLines", table: stocktakeLines, parent: { column: "stocktakeId", table: "stocktakes" }, refs: { wineId: "wines", cellarId: "cellars" } },
+];
+
+// Tables that refer to users or to backed-up rows without being part of a user's data. The
+// catalog's change history belongs to the shared catalog, and only records which admin made a change.
+const NOT_BACKED_UP: PgTable[] = [catalogBatches];
+
+// The tables among the given ones that refer to a user or to rows that are backed up, but are
+// neither backed up nor set aside as not backed up
+export function findUnlistedTables(tables: unknown[]): string[] {
+  const listed = new Set<unknown>([users, ...NOT_BACKED_UP, ...BACKUP_TABLES.map(entry => entry.table)]);
+  const owners = new Set<unknown>([users, ...BACKUP_TABLES.map(entry => entry.table)]);
+  return tables
+    .filter((table): table is PgTable => is(table, PgTable) && !listed.has(table))
+    .filter(table => getTableConfig(table).foreignKeys.some(fk => owners.has(fk.reference().foreignTable)))
+    .map(table => getTableName(table));
+}
+
+const unlistedTables = findUnlistedTables(Object.values(schema));
+if (unlistedTables.length > 0) {
+  throw new Error(`Tables missing from BACKUP_TABLES: ${unlistedTables.join(", ")}`);
+}
+
+export type BackupRow = Record<string, unknown>;
+
+export interface BackupData {
+  createdAt: string;
+  user: { ratingScale: string };
+  tables: Record<string, BackupRow[]>;
+  // Uploaded files such as label photos, by their path in file storage
+  files?: Record<string, Buffer>;
+}
+
+interface BackupManifest {
+  format: string;
+  version: number;
+  createdAt: string;
+  user: { ratingScale: string };
+  tables: Record<string, { file: string; rows: number }>;
+  files?: string[];
+}
+
+// Uploaded files are kept in the archive under this folder
+const FILES_FOLDER = "files/";
+
+// Most entries and unpacked bytes an archive may hold. They are checked before it is unpacked,
+// so a small upload cannot expand into more than the server can hold.
+export const MAX_ARCHIVE_ENTRIES = 20000;
+export const MAX_ARCHIVE_BYTES = 250 * 1024 * 1024;
+
+const ARCHIVE_TOO_LARGE = `Backup holds more than ${MAX_ARCHIVE_BYTES / 1024 / 1024} MB of data`;
+
+// Checks the entry count and the unpacked sizes a zip archive declares in its central directory
+function checkArchiveSize(archive: Buffer): void {
+  // The end of central directory record is at least 22 bytes, followed by a comment of up to 64 KB
+  let end = archive.length - 22;
+  const stop = Math.max(0, end - 0xffff);
+  while (end >= stop && archive.readUInt32LE(end) !== 0x06054b50) end--;
+  if (end < stop) {
+    throw new Error("Not a zip archive");
+  }
+
+  const entries = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+  // Archives too large for the classic zip format mark these fields as stored elsewhere (zip64)
+  if (entries === 0xffff || offset === 0xffffffff) {
+    throw new Error(ARCHIVE_TOO_LARGE);
+  }
+  if (entries > MAX_ARCHIVE_ENTRIES) {
+    throw new Error(`Backup holds more than ${MAX_ARCHIVE_ENTRIES} files`);
+  }
+
+  let bytes = 0;
+  for (let i = 0; i < entries; i++) {
+    if (offset + 46 > archive.length || archive.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error("Corrupt zip archive");
+    }
+    bytes += archive.readUInt32LE(offset + 24);
+    if (bytes > MAX_ARCHIVE_BYTES) {
+      throw new Error(ARCHIVE_TOO_LARGE);
+    }
+    offset += 46 + archive.readUInt16LE(offset + 28) + archive.readUInt16LE(offset + 30) + archive.readUInt16LE(offset + 32);
+  }
+}
+
+// Unpacks an entry, counting it against what is left of the archive's limit. Entries can unpack
+// to more than they declare, so the limit is also kept while unpacking.
+function unpack(file: JSZip.JSZipObject, budget: { bytes: number }): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    const stream = file.nodeStream("nodebuffer");
+    stream.on("data", (chunk: Buffer) => {
+      budget.bytes -= chunk.length;
+      if (budget.bytes < 0) {
+        // Left paused, the entry is not unpacked any further
+        stream.pause();
+        reject(new Error(ARCHIVE_TOO_LARGE));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on("end", () => resolve(Buffer.concat(chunks)));
+    stream.on("error", reject);
+  });
+}
+
+// Rows are checked against the table they are restored into. Timestamps come back from JSON as strings.
+const { createSelectSchema } = createSchemaFactory({ coerce: { date: true } });
+
+export async function createBackupArchive(data: BackupData): Promise<Buffer> {
+  const zip = new JSZip();
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: data.createdAt,
+    user: data.user,
+    tables: {},
+  };
+
+  for (const { name } of BACKUP_TABLES) {
+    const rows = data.tables[name] ?? [];
+    const file = `data/${name}.json`;
+    zip.file(file, JSON.stringify(rows));
+    manifest.tables[name] = { file, rows: rows.length };
+  }
+  manifest.files = Object.keys(data.files ?? {});
+  for (const [filePath, contents] of Object.entries(data.files ?? {})) {
+    zip.file(FILES_FOLDER + filePath, contents);
+  }
+  zip.file("manifest.json", JSON.stringify(manifest, null, 2));
+
+  return await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
+
+// Reads and validates an archive. Tables added after the archive was made are restored empty.
+export async function readBackupArchive(archive: Buffer): Promise<BackupData> {
+  checkArchiveSize(archive);
+  const zip = await JSZip.loadAsync(archive);
+  const budget = { bytes: MAX_ARCHIVE_BYTES };
+  const manifestFile = zip.file("manifest.json");
+  if (!manifestFile) {
+    throw new Error("manifest.json is missing");
+  }
+
+  const manifest = JSON.parse((await unpack(manifestFile, budget)).toString("utf8")) as BackupManifest;
+  if (manifest.format !== BACKUP_FORMAT) {
+    throw new Error("Not a Cellars.me backup");
+  }
+  if (typeof manifest.version !== "number" || manifest.version > BACKUP_VERSION) {
+    throw new Error(`Backup version ${manifest.version} is newer than this server supports`);
+  }
+
+  const tables: Record<string, BackupRow[]> = {};
+  for (const { name, table } of BACKUP_TABLES) {
+    const entry = manifest.tables?.[name];
+    if (!entry) {
+      tables[name] = [];
+      continue;
+    }
+
+    const file = zip.file(entry.file);
+    if (!file) {
+      throw new Error(`${entry.file} is missing`);
+    }
+    // Columns added since the archive was made are missing from its rows, and restored empty
+    const { columns } = getBackupColumns(table);
+    const optional = Object.keys(columns).filter(column => !columns[column].notNull);
+    const rows = JSON.parse((await unpack(file, budget)).toString("utf8"));
+    if (Array.isArray(rows)) {
+      for (const row of rows) {
+        for (const column of optional) {
+          if (row && typeof row === "object" && !(column in row)) row[column] = null;
+        }
+      }
+    }
+    const parsed = z.array(createSelectSchema(table)).safeParse(rows);
+    if (!parsed.success) {
+      const issue = parsed.error.errors[0];
+      throw new Error(`${name}[${issue.path.join(".")}]: ${issue.message}`);
+    }
+    tables[name] = parsed.data as BackupRow[];
+  }
+
+  const files: Record<string, Buffer> = {};
+  for (const filePath of manifest.files ?? []) {
+    const file = zip.file(FILES_FOLDER + filePath);
+    if (!file) {
+      throw new Error(`${FILES_FOLDER}${filePath} is missing`);
+    }
+    files[filePath] = await unpack(file, budget);
+  }
+
+  return {
+    createdAt: manifest.createdAt,
+    user: { ratingScale: manifest.user?.ratingScale },
+    tables,
+    files,
+  };
+}
+
+// Gives the archive's photos new keys, so restoring one can never write over the files of
+// photos already stored, or point at another account's photos. Wines showing a photo are moved
+// to its new key, and links to photos the archive does not hold are cleared. Returns the new
+// key of each key in the archive.
+export function renewPhotoKeys(data: BackupData): Map<string, string> {
+  const keys = new Map<string, string>();
+  for (const photo of data.tables.winePhotos ?? []) {
+    const key = photo.key as string;
+    if (!keys.has(key)) keys.set(key, randomUUID());
+    photo.key = keys.get(key);
+  }
+
+  const urls = new Map<string, string>();
+  keys.forEach((newKey, key) => {
+    urls.set(getPhotoUrl(key), getPhotoUrl(newKey));
+    urls.set(getThumbnailUrl(key), getThumbnailUrl(newKey));
+  });
+  for (const wine of data.tables.wines ?? []) {
+    for (const column of ["imageUrl", "thumbnailUrl"]) {
+      const url = wine[column];
+      if (typeof url === "string" && url.startsWith(getPhotoUrl(""))) {
+        wine[column] = urls.get(url) ?? null;
+      }
+    }
+  }
+  return keys;
+}
+
+// Whether a table's rows can be told apart by an id, and whether they carry the owner's user id
+export const getBackupColumns = (table: PgTable) => {
+  const columns = getTableColumns(table);
+  return { columns, hasId: "id" in columns, hasUserId: "userId" in columns };
+};
@@ -0,0 +1,168 @@
+import {
+  CATALOG_IMPORT_FIELDS,
+  CatalogImportAction,
+  insertWineCatalogSchema,
+  type CatalogImport,
+  type CatalogImportField,
+  type CatalogImportReport,
+  type CatalogImportRow,
+  type InsertWineCatalog,
+  type UpdateWineCatalog,
+  type WineCatalog,
+} from "@shared/schema";
+import { normalizeCategory } from "@shared/category";
+
+// The changes a committed catalog import makes
+export interface CatalogImportPlan {
+  inserts: InsertWineCatalog[];
+  updates: { id: number; patch: UpdateWineCatalog }[];
+}
+
+// The catalog writes "NA" for values it does not have, which are imported as blank
+const clean = (value: string | null | undefined) => {
+  const trimmed = (value ?? "").trim();
+  return trimmed.toUpperCase() === "NA" ? "" : trimmed;
+};
+
+const normalize = (value: string | null | undefined) =>
+  clean(value).normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/\s+/g, " ").toLowerCase();
+
+// Entries without a barcode are told apart by name and producer
+const nameKey = (name: string, producer: string | null | undefined) => `${normalize(name)}|${normalize(producer)}`;
+
+const toInsert = (entry: WineCatalog): InsertWineCatalog => ({
+  name: entry.name,
+  category: entry.category,
+  wine: entry.wine,
+  subType: entry.subType,
+  producer: entry.producer,
+  region: entry.region,
+  country: entry.country,
+  barcode: entry.barcode,
+});
+
+const pickFields = (entry: InsertWineCatalog, fields: CatalogImportField[]): UpdateWineCatalog =>
+  Object.fromEntries(fields.map(field => [field, entry[field] ?? null]));
+
+// Works out what each mapped row does to the catalog. A row is the same entry as an existing one
+// with its barcode, or, failing that, with its name and producer; rows without a barcode are never
+// matched to an entry with a different one. Existing entries take the row's values, except where
+// its cells are blank or have no column. Later rows for an entry an earlier row already imports
+// are left out as duplicates.
+export function previewCatalogImport(input: CatalogImport, catalog: WineCatalog[]): CatalogImportRow[] {
+  const byBarcode = new Map<string, WineCatalog>();
+  const byName = new Map<string, WineCatalog[]>();
+  for (const entry of catalog) {
+    if (entry.barcode && !byBarcode.has(entry.barcode)) {
+      byBarcode.set(entry.barcode, entry);
+    }
+    const key = nameKey(entry.name, entry.producer);
+    const entries = byName.get(key);
+    if (entries) entries.push(entry);
+    else byName.set(key, [entry]);
+  }
+
+  // Line of the first row for each new entry, and for each existing entry
+  const firstLines = new Map<string, number>();
+  const claimed = new Map<number, number>();
+
+  return input.rows.map((row, index) => {
+    const line = index + 2;
+    const cell = (field: CatalogImportField) => {
+      const column = input.mapping[field];
+      return column === undefined ? "" : clean(row[column]);
+    };
+
+    const parsed = insertWineCatalogSchema.safeParse({
+      name: cell("name"),
+      category: normalizeCategory(cell("category")),
+      wine: cell("wine") || null,
+      subType: cell("subType") || null,
+      producer: cell("producer") || null,
+      region: cell("region") || null,
+      country: cell("country") || null,
+      barcode: cell("barcode") || null,
+    });
+    if (!parsed.success) {
+      return {
+        line,
+        action: CatalogImportAction.REJECTED,
+        entry: null,
+        existingId: null,
+        changes: [],
+        duplicateOf: null,
+        errors: parsed.error.errors.map(e => `${e.path.join(".")}: ${e.message}`),
+      };
+    }
+
+    const values = parsed.data;
+    const key = values.barcode ?? nameKey(values.name, values.producer);
+    const existing = (values.barcode ? byBarcode.get(values.barcode) : undefined)
+      ?? byName.get(nameKey(values.name, values.producer))?.find(entry => !values.barcode || !entry.barcode);
+
+    const duplicateOf = firstLines.get(key) ?? (existing ? claimed.get(existing.id) : undefined);
+    if (duplicateOf !== undefined) {
+      return {
+        line,
+        action: CatalogImportAction.DUPLICATE,
+        entry: values,
+        existingId: existing?.id ?? null,
+        changes: [],
+        duplicateOf,
+        errors: [],
+      };
+    }
+    firstLines.set(key, line);
+
+    if (!existing) {
+      return {
+        line,
+        action: CatalogImportAction.INSERT,
+        entry: values,
+        existingId: null,
+        changes: [],
+        duplicateOf: null,
+        errors: [],
+      };
+    }
+
+    claimed.set(existing.id, line);
+    const changes = CATALOG_IMPORT_FIELDS.filter(field => cell(field) !== "" && values[field] !== existing[field]);
+    return {
+      line,
+      action: changes.length > 0 ? CatalogImportAction.UPDATE : CatalogImportAction.UNCHANGED,
+      entry: { ...toInsert(existing), ...pickFields(values, changes) },
+      existingId: existing.id,
+      changes,
+      duplicateOf: null,
+      errors: [],
+    };
+  });
+}
+
+// The entries to add and the fields to change on existing ones
+export function planCatalogImport(rows: CatalogImportRow[]): CatalogImportPlan {
+  const plan: CatalogImportPlan = { inserts: [], updates: [] };
+  for (const row of rows) {
+    if (row.action === CatalogImportAction.INSERT && row.entry) {
+      plan.inserts.push(row.entry);
+    } else if (row.action === CatalogImportAction.UPDATE && row.entry && row.existingId !== null) {
+      plan.updates.push({ id: row.existingId, patch: pickFields(row.entry, row.changes) });
+    }
+  }
+  return plan;
+}
+
+export function reportCatalogImport(rows: CatalogImportRow[], dryRun: boolean, batchId: number | null = null): CatalogImportReport {
+  const count = (action: CatalogImportRow["action"]) => rows.filter(row => row.action === action).length;
+  return {
+    dryRun,
+    inserted: count(CatalogImportAction.INSERT),
+    updated: count(CatalogImportAction.UPDATE),
+    unchanged: count(CatalogImportAction.UNCHANGED),
+    duplicates: count(CatalogImportAction.DUPLICATE),
+    rejected: count(CatalogImportAction.REJECTED),
+    rows,
+    batchId,
+  };
+}
@@ -0,0 +1,159 @@
+import {
+  CATALOG_SYNC_FIELDS,
+  type CatalogSuggestionRecord,
+  type CatalogSyncField,
+  type WineCatalog,
+  type WineRecord,
+} from "@shared/schema";
+import { normalizeCategory } from "@shared/category";
+import { storage } from "./storage";
+
+// Entries matching at least this well are suggested, up to a few per wine
+const MIN_SUGGESTION_SCORE = 0.75;
+const MAX_SUGGESTIONS = 3;
+// Unlinked wines are looked at shortly after the server starts, then every few hours
+const FIRST_RUN_DELAY_MS = 60 * 1000;
+const RUN_INTERVAL_MS = 6 * 60 * 60 * 1000;
+// Wines are read and matched this many at a time
+const WINE_PAGE_SIZE = 500;
+
+export interface CatalogMatch {
+  entry: WineCatalog;
+  score: number; // 0-1
+}
+
+const normalize = (value: string | null | undefined) =>
+  (value ?? "").normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+
+// The catalog writes "NA" for values it does not have
+const toWords = (value: string | null | undefined) =>
+  value === "NA" ? [] : normalize(value).split(/[^a-z0-9]+/).filter(word => word.length >= 2);
+
+// Share of words the two have in common, from 0 to 1
+function overlap(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const inB = new Set(b);
+  const shared = Array.from(new Set(a)).filter(word => inB.has(word)).length;
+  return (2 * shared) / (new Set(a).size + inB.size);
+}
+
+// What each field of a wine linked to the entry would be re-synced to. Categories are mapped
+// onto the app's as they are on import.
+export function getCatalogValues(entry: WineCatalog): Partial<Record<CatalogSyncField, string>> {
+  const values: Partial<Record<CatalogSyncField, string>> = {};
+  for (const field of CATALOG_SYNC_FIELDS) {
+    const value = entry[field];
+    if (value && value !== "NA") {
+      values[field] = field === "category" ? normalizeCategory(value) : value;
+    }
+  }
+  return values;
+}
+
+// Catalog entries by the words of their names, so a wine is only compared with entries sharing a word
+export function indexCatalog(catalog: WineCatalog[]): Map<string, WineCatalog[]> {
+  const index = new Map<string, WineCatalog[]>();
+  for (const entry of catalog) {
+    for (const word of Array.from(new Set(toWords(entry.name)))) {
+      const entries = index.get(word);
+      if (entries) entries.push(entry);
+      else index.set(word, [entry]);
+    }
+  }
+  return index;
+}
+
+// How likely the wine is the catalog entry. A shared barcode settles it; otherwise the names
+// are compared, with the producer where both have one, and a different category counts against.
+export function scoreCatalogMatch(wine: WineRecord, entry: WineCatalog): number {
+  if (wine.barcode && wine.barcode === entry.barcode) {
+    return 1;
+  }
+
+  const nameScore = overlap(toWords(wine.name), toWords(entry.name));
+  const wineProducer = toWords(wine.producer);
+  const entryProducer = toWords(entry.producer);
+  let score = wineProducer.length > 0 && entryProducer.length > 0
+    ? nameScore * 0.7 + overlap(wineProducer, entryProducer) * 0.3
+    : nameScore * 0.9;
+  if (entry.category && entry.category !== "NA" && normalizeCategory(entry.category) !== wine.category) {
+    score *= 0.8;
+  }
+  return Math.round(score * 100) / 100;
+}
+
+// The catalog entries a wine most likely is, best first
+export function findCatalogMatches(wine: WineRecord, index: Map<string, WineCatalog[]>, barcodes: Map<string, WineCatalog>): CatalogMatch[] {
+  const candidates = new Map<number, WineCatalog>();
+  for (const word of toWords(wine.name)) {
+    for (const entry of index.get(word) ?? []) {
+      candidates.set(entry.id, entry);
+    }
+  }
+  const byBarcode = wine.barcode ? barcodes.get(wine.barcode) : undefined;
+  if (byBarcode) {
+    candidates.set(byBarcode.id, byBarcode);
+  }
+
+  return Array.from(candidates.values())
+    .map(entry => ({ entry, score: scoreCatalogMatch(wine, entry) }))
+    .filter(match => match.score >= MIN_SUGGESTION_SCORE)
+    .sort((a, b) => b.score - a.score || a.entry.id - b.entry.id)
+    .slice(0, MAX_SUGGESTIONS);
+}
+
+// Looks for catalog entries for every unlinked wine without a suggestion waiting. Entries
+// already suggested for a wine, including dismissed ones, are not suggested again.
+export async function matchUnlinkedWines(): Promise<number> {
+  let index: Map<string, WineCatalog[]> | undefined;
+  const barcodes = new Map<string, WineCatalog>();
+  let saved = 0;
+  let afterId = 0;
+
+  while (true) {
+    const wines = await storage.getWinesToMatch(afterId, WINE_PAGE_SIZE);
+    if (wines.length === 0) {
+      return saved;
+    }
+    afterId = wines[wines.length - 1].id;
+
+    // The catalog is only read once there are wines to match
+    if (!index) {
+      const catalog = await storage.getWineCatalog();
+      index = indexCatalog(catalog);
+      for (const entry of catalog) {
+        if (entry.barcode && !barcodes.has(entry.barcode)) barcodes.set(entry.barcode, entry);
+      }
+    }
+
+    const suggestions: Omit<CatalogSuggestionRecord, "status" | "createdAt">[] = [];
+    for (const wine of wines) {
+      for (const { entry, score } of findCatalogMatches(wine, index, barcodes)) {
+        suggestions.push({ wineId: wine.id, catalogId: entry.id, userId: wine.userId, score: Math.round(score * 100) });
+      }
+    }
+    saved += await storage.saveCatalogSuggestions(suggestions);
+  }
+}
+
+// Runs the matcher in the background for as long as the server is up. Runs never overlap.
+export function startCatalogMatcher(): void {
+  let running = false;
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const saved = await matchUnlinkedWines();
+      if (saved > 0) {
+        console.log(`Catalog matcher suggested ${saved} link${saved !== 1 ? "s" : ""}`);
+      }
+    } catch (err) {
+      console.error("Catalog matcher failed:", err);
+    } finally {
+      running = false;
+    }
+  };
+
+  setTimeout(run, FIRST_RUN_DELAY_MS).unref();
+  setInterval(run, RUN_INTERVAL_MS).unref();
+}
@@ -0,0 +1,115 @@
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+
+// Where uploaded files such as label photos are kept. Paths are relative and use forward slashes.
+export interface FileStorage {
+  put(filePath: string, data: Buffer, contentType: string): Promise<void>;
+  // Undefined when there is no such file
+  get(filePath: string): Promise<Buffer | undefined>;
+  // Deleting a file that does not exist is not an error
+  delete(filePath: string): Promise<void>;
+}
+
+// Files in a directory on the server's disk
+export class LocalFileStorage implements FileStorage {
+  constructor(private readonly root: string) {}
+
+  private resolve(filePath: string): string {
+    const resolved = path.resolve(this.root, filePath);
+    if (!resolved.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Invalid file path: ${filePath}`);
+    }
+    return resolved;
+  }
+
+  async put(filePath: string, data: Buffer): Promise<void> {
+    const resolved = this.resolve(filePath);
+    await fs.mkdir(path.dirname(resolved), { recursive: true });
+    await fs.writeFile(resolved, data);
+  }
+
+  async get(filePath: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.readFile(this.resolve(filePath));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw err;
+    }
+  }
+
+  async delete(filePath: string): Promise<void> {
+    await fs.rm(this.resolve(filePath), { force: true });
+  }
+}
+
+// Objects in an S3 bucket. An endpoint makes it work with S3-compatible services such as MinIO.
+export class S3FileStorage implements FileStorage {
+  private readonly client: S3Client;
+
+  constructor(
+    private readonly bucket: string,
+    options: { endpoint?: string; region?: string; accessKeyId?: string; secretAccessKey?: string } = {},
+  ) {
+    this.client = new S3Client({
+      region: options.region ?? "us-east-1",
+      endpoint: options.endpoint,
+      // MinIO and most other S3-compatible services only support path-style bucket addressing
+      forcePathStyle: options.endpoint !== undefined,
+      credentials: options.accessKeyId && options.secretAccessKey
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined,
+    });
+  }
+
+  async put(filePath: string, data: Buffer, contentType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: filePath,
+      Body: data,
+      ContentType: contentType,
+    }));
+  }
+
+  async get(filePath: string): Promise<Buffer | undefined> {
+    try {
+      const object = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: filePath }));
+      return object.Body ? Buffer.from(await object.Body.transformToByteArray()) : undefined;
+    } catch (err) {
+      if (err instanceof NoSuchKey) {
+        return undefined;
+      }
+      throw err;
+    }
+  }
+
+  async delete(filePath: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: filePath }));
+  }
+}
+
+// FILE_STORAGE=s3 keeps files in S3_BUCKET, otherwise they are written under UPLOAD_DIR
+function createFileStorage(): FileStorage {
+  if (process.env.FILE_STORAGE === "s3") {
+    if (!process.env.S3_BUCKET) {
+      throw new Error("S3_BUCKET must be set when FILE_STORAGE is s3");
+    }
+    return new S3FileStorage(process.env.S3_BUCKET, {
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      region: process.env.S3_REGION || undefined,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+    });
+  }
+  return new LocalFileStorage(process.env.UPLOAD_DIR || "uploads");
+}
+
+export const fileStorage = createFileStorage();
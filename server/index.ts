@@ -1,9 +1,11 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startCatalogMatcher } from "./catalog-matcher";
 
 const app = express();
-app.use(express.json());
+// Imports send whole spreadsheets as JSON rows
+app.use(express.json({ limit: "5mb" }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -67,4 +69,7 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  // Suggests catalog entries for wines that were added without one
+  startCatalogMatcher();
 })();
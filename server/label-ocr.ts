@@ -0,0 +1,273 @@
+import { createRequire } from "module";
+import path from "path";
+import sharp from "sharp";
+import { createWorker, PSM, type Worker } from "tesseract.js";
+import {
+  LabelScanSource,
+  type LabelScan,
+  type LabelScanField,
+  type LabelScanSuggestion,
+  type WineCatalog,
+} from "@shared/schema";
+import { InvalidPhotoError } from "./photos";
+
+const require = createRequire(import.meta.url);
+
+// A line of text read off a label. Taller lines are printed larger, like the wine's name.
+export interface LabelLine {
+  text: string;
+  confidence: number; // 0-1
+  height: number;
+}
+
+// Catalog entries matching at least this well are taken as the wine on the label
+const CATALOG_MATCH_SCORE = 0.75;
+const MIN_CATALOG_SCORE = 0.5;
+const MAX_CATALOG_MATCHES = 5;
+const MIN_LINE_CONFIDENCE = 0.4;
+
+// The English model reads the Latin script of most labels well enough. It ships with the app,
+// so labels are never sent anywhere to be read.
+let workerPromise: Promise<Worker> | null = null;
+
+function getWorker(): Promise<Worker> {
+  if (!workerPromise) {
+    const langPath = path.join(path.dirname(require.resolve("@tesseract.js-data/eng/package.json")), "4.0.0_best_int");
+    workerPromise = createWorker("eng", 1, { langPath, cacheMethod: "none", gzip: true })
+      .then(async (worker) => {
+        // Labels are scattered text in many sizes rather than paragraphs
+        await worker.setParameters({ tessedit_pageseg_mode: PSM.SPARSE_TEXT });
+        return worker;
+      })
+      .catch((err) => {
+        workerPromise = null;
+        throw err;
+      });
+  }
+  return workerPromise;
+}
+
+// Reads the lines of text on a label photo. Jobs are queued on a single worker.
+export async function readLabelLines(image: Buffer): Promise<LabelLine[]> {
+  let prepared: Buffer;
+  try {
+    prepared = await sharp(image)
+      .rotate()
+      .resize(1600, 1600, { fit: "inside", withoutEnlargement: true })
+      .grayscale()
+      .normalize()
+      .png()
+      .toBuffer();
+  } catch {
+    throw new InvalidPhotoError();
+  }
+
+  const worker = await getWorker();
+  const { data } = await worker.recognize(prepared, {}, { blocks: true });
+  return (data.blocks ?? [])
+    .flatMap(block => block.paragraphs)
+    .flatMap(paragraph => paragraph.lines)
+    .map(line => ({
+      text: line.text.replace(/\s+/g, " ").replace(/^[^A-Za-z0-9\u00C0-\u024F]+|[^A-Za-z0-9\u00C0-\u024F.)]+$/g, ""),
+      confidence: line.confidence / 100,
+      height: line.bbox.y1 - line.bbox.y0,
+    }))
+    .filter(line => line.text.length >= 2 && line.confidence >= MIN_LINE_CONFIDENCE);
+}
+
+const normalize = (value: string | null | undefined) =>
+  (value ?? "").normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+
+const toWords = (value: string | null | undefined) =>
+  normalize(value).split(/[^a-z0-9]+/).filter(word => word.length >= 3);
+
+// Whether a phrase appears in the text as whole words
+const containsPhrase = (text: string, phrase: string) =>
+  phrase.length > 0 && ` ${text} `.includes(` ${phrase} `);
+
+const toPlainText = (value: string | null | undefined) => normalize(value).replace(/[^a-z0-9]+/g, " ").trim();
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Labels are often printed in capitals, which read better in the collection as title case
+const toDisplayCase = (text: string) =>
+  text === text.toUpperCase()
+    ? text.toLowerCase().replace(/(^|[\s'-])([a-z\u00E0-\u024F])/g, (_, start, letter) => start + letter.toUpperCase())
+    : text;
+
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+// How well a catalog value's words are found among the words read, allowing for misread letters
+function wordsScore(words: string[], read: Set<string>): number {
+  if (words.length === 0) return 0;
+  let total = 0;
+  for (const word of words) {
+    if (read.has(word)) {
+      total += 1;
+      continue;
+    }
+    const allowed = word.length >= 6 ? 2 : 1;
+    for (const candidate of Array.from(read)) {
+      if (Math.abs(candidate.length - word.length) <= allowed && editDistance(word, candidate) <= allowed) {
+        total += 0.8;
+        break;
+      }
+    }
+  }
+  return total / words.length;
+}
+
+// Years such as founding dates are not vintages
+const NOT_VINTAGE = /\b(est|estd|established|since|founded|depuis|fonde|dal|seit|desde|anno)\b/;
+// Small print found on most labels, which is never the wine's name
+const BOILERPLATE = /\b(\d+\s?(ml|cl|l)|vol|alc|contains|sulfites|sulphites|bottled|mis en bouteille|imbottigliato|embotellado|product|produce|produit|prodotto|appellation|controlee|denominazione|origine)\b|%/;
+const PRODUCER_WORDS = /^(chateau|domaine|clos|maison|bodegas?|weingut|schloss|tenuta|cantina|castello|fattoria|podere|azienda|quinta|herdade|vina|estate|winery|cellars?)\b|\b(estate|winery|vineyards?|cellars)$/;
+const BOTTLED_BY = /\b(?:bottled by|mis en bouteille(?: au ch[aâ]teau| [aà] la propri[ée]t[ée])? par|imbottigliato da|embotellado por|abgef[üu]llt von)\s+(.+)$/i;
+
+// Country names as printed on labels, in their own language or English
+const COUNTRY_NAMES: Record<string, string> = {
+  "france": "France",
+  "italia": "Italy",
+  "italy": "Italy",
+  "espana": "Spain",
+  "spain": "Spain",
+  "deutschland": "Germany",
+  "germany": "Germany",
+  "osterreich": "Austria",
+  "austria": "Austria",
+  "portugal": "Portugal",
+  "usa": "USA",
+  "united states": "USA",
+  "australia": "Australia",
+  "new zealand": "New Zealand",
+  "south africa": "South Africa",
+  "argentina": "Argentina",
+  "chile": "Chile",
+};
+
+// Picks out the name, producer, vintage, region and country from the lines read off a label,
+// and the catalog entries the text matches. Suggestions from the label itself carry the
+// confidence of the line they were read from; those from the catalog, how well the entry matched.
+export function extractLabelFields(lines: LabelLine[], catalog: WineCatalog[]): LabelScan {
+  const suggestions: Partial<Record<LabelScanField, LabelScanSuggestion>> = {};
+  const fromLabel = (value: string, confidence: number): LabelScanSuggestion =>
+    ({ value, confidence: round(confidence), source: LabelScanSource.LABEL });
+  const plainLines = lines.map(line => toPlainText(line.text));
+  const tallestFirst = lines.map((line, i) => ({ line, plain: plainLines[i] })).sort((a, b) => b.line.height - a.line.height);
+
+  // Vintage: a plausible year, preferring the one printed largest
+  const currentYear = new Date().getFullYear();
+  for (const { line, plain } of tallestFirst) {
+    if (NOT_VINTAGE.test(plain)) continue;
+    const year = Array.from(plain.matchAll(/\b(1[89]\d\d|20\d\d)\b/g))
+      .map(match => parseInt(match[1]))
+      .find(y => y >= 1900 && y <= currentYear);
+    if (year) {
+      suggestions.vintage = fromLabel(year.toString(), line.confidence);
+      break;
+    }
+  }
+
+  // Country: known names, and any country in the catalog
+  const countries = new Map(Object.entries(COUNTRY_NAMES));
+  for (const entry of catalog) {
+    if (entry.country && entry.country !== "NA") countries.set(toPlainText(entry.country), entry.country);
+  }
+  // Region: the most specific catalog region named on the label
+  const regions = new Map<string, string>();
+  for (const entry of catalog) {
+    if (entry.region && entry.region !== "NA") regions.set(toPlainText(entry.region), entry.region);
+  }
+
+  const findPhrase = (phrases: Map<string, string>) => {
+    let best: { value: string; phrase: string; confidence: number } | undefined;
+    for (let i = 0; i < lines.length; i++) {
+      for (const [phrase, value] of Array.from(phrases.entries())) {
+        if (containsPhrase(plainLines[i], phrase) && (!best || phrase.length > best.phrase.length)) {
+          best = { value, phrase, confidence: lines[i].confidence };
+        }
+      }
+    }
+    return best;
+  };
+  const country = findPhrase(countries);
+  if (country) {
+    suggestions.country = fromLabel(country.value, country.confidence);
+  }
+  const region = findPhrase(new Map(Array.from(regions.entries()).filter(([phrase]) => phrase !== country?.phrase)));
+  if (region) {
+    suggestions.region = fromLabel(region.value, region.confidence);
+  }
+
+  // Producer: a line naming an estate, or who bottled the wine
+  for (const line of lines) {
+    const bottledBy = line.text.match(BOTTLED_BY);
+    if (bottledBy) {
+      suggestions.producer = fromLabel(toDisplayCase(bottledBy[1].trim()), line.confidence * 0.8);
+      break;
+    }
+  }
+  if (!suggestions.producer) {
+    const producerLine = tallestFirst.find(({ plain }) => PRODUCER_WORDS.test(plain) && !BOILERPLATE.test(plain));
+    if (producerLine) {
+      suggestions.producer = fromLabel(toDisplayCase(producerLine.line.text), producerLine.line.confidence * 0.8);
+    }
+  }
+
+  // Name: the largest text that is not the vintage, place or small print. Names are hard to
+  // tell from other large text, so these are given less confidence than the line itself.
+  const nameLine = tallestFirst.find(({ plain }) =>
+    /[a-z]{3}/.test(plain) &&
+    !BOILERPLATE.test(plain) &&
+    plain !== country?.phrase &&
+    plain !== region?.phrase,
+  );
+  if (nameLine) {
+    suggestions.name = fromLabel(toDisplayCase(nameLine.line.text), nameLine.line.confidence * 0.6);
+  }
+
+  // Catalog entries whose name, and producer where known, are found among the words read
+  const read = new Set(lines.flatMap(line => toWords(line.text)));
+  const catalogMatches = catalog
+    .map(entry => {
+      const nameScore = wordsScore(toWords(entry.name), read);
+      const producerWords = toWords(entry.producer === "NA" ? null : entry.producer);
+      const score = producerWords.length > 0 ? nameScore * 0.7 + wordsScore(producerWords, read) * 0.3 : nameScore;
+      return { entry, score: round(score) };
+    })
+    .filter(match => match.score >= MIN_CATALOG_SCORE)
+    .sort((a, b) => b.score - a.score || a.entry.name.length - b.entry.name.length)
+    .slice(0, MAX_CATALOG_MATCHES);
+
+  // A close catalog match knows the wine better than the label's layout does
+  const best = catalogMatches[0];
+  if (best && best.score >= CATALOG_MATCH_SCORE) {
+    const meanConfidence = lines.reduce((sum, line) => sum + line.confidence, 0) / lines.length;
+    const fromCatalog = (value: string | null): LabelScanSuggestion | undefined =>
+      value && value !== "NA"
+        ? { value, confidence: round(best.score * meanConfidence), source: LabelScanSource.CATALOG }
+        : undefined;
+    suggestions.name = fromCatalog(best.entry.name) ?? suggestions.name;
+    suggestions.producer = fromCatalog(best.entry.producer) ?? suggestions.producer;
+    suggestions.region = suggestions.region ?? fromCatalog(best.entry.region);
+    suggestions.country = suggestions.country ?? fromCatalog(best.entry.country);
+  }
+
+  return {
+    text: lines.map(line => line.text).join("\n"),
+    suggestions,
+    catalogMatches,
+  };
+}
@@ -0,0 +1,96 @@
+import { randomUUID } from "crypto";
+import sharp from "sharp";
+import { fileStorage } from "./file-storage";
+
+export const MAX_PHOTO_BYTES = 15 * 1024 * 1024;
+
+// Photos are stored no larger than this, which is plenty to read a label
+const PHOTO_MAX_SIZE = 1600;
+// Thumbnails fill a card in the collection's grid view
+const THUMBNAIL_SIZE = 400;
+
+export class InvalidPhotoError extends Error {
+  constructor() {
+    super("The file is not a supported image");
+    this.name = "InvalidPhotoError";
+  }
+}
+
+export interface StoredPhoto {
+  key: string;
+  width: number;
+  height: number;
+}
+
+const photoPath = (key: string) => `photos/${key}.jpg`;
+const thumbnailPath = (key: string) => `photos/${key}_thumb.jpg`;
+
+export async function readPhoto(key: string, thumbnail = false): Promise<Buffer | undefined> {
+  return await fileStorage.get(thumbnail ? thumbnailPath(key) : photoPath(key));
+}
+
+// Turns an uploaded image into a JPEG the right way up, along with its thumbnail, and stores
+// both under a new key. Phone cameras record the orientation separately, so it is applied here.
+export async function storePhoto(upload: Buffer): Promise<StoredPhoto> {
+  let photo: { data: Buffer; info: sharp.OutputInfo };
+  let thumbnail: Buffer;
+  try {
+    photo = await sharp(upload)
+      .rotate()
+      .resize(PHOTO_MAX_SIZE, PHOTO_MAX_SIZE, { fit: "inside", withoutEnlargement: true })
+      .jpeg({ quality: 85 })
+      .toBuffer({ resolveWithObject: true });
+    thumbnail = await sharp(photo.data)
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: true })
+      .jpeg({ quality: 80 })
+      .toBuffer();
+  } catch {
+    throw new InvalidPhotoError();
+  }
+
+  const key = randomUUID();
+  await fileStorage.put(photoPath(key), photo.data, "image/jpeg");
+  await fileStorage.put(thumbnailPath(key), thumbnail, "image/jpeg");
+  return { key, width: photo.info.width, height: photo.info.height };
+}
+
+// Removes the files of photos that are no longer used
+export async function removePhotos(keys: string[]): Promise<void> {
+  for (const key of keys) {
+    try {
+      await fileStorage.delete(photoPath(key));
+      await fileStorage.delete(thumbnailPath(key));
+    } catch (err) {
+      // A leftover file only takes up space, so it does not fail the request
+      console.error(`Failed to remove photo ${key}:`, err);
+    }
+  }
+}
+
+// The files of the given photos, by their path in file storage, for adding to a backup.
+// Photos whose files have gone missing are left out.
+export async function readPhotoFiles(keys: string[]): Promise<Record<string, Buffer>> {
+  const files: Record<string, Buffer> = {};
+  for (const key of keys) {
+    for (const filePath of [photoPath(key), thumbnailPath(key)]) {
+      const data = await fileStorage.get(filePath);
+      if (data) {
+        files[filePath] = data;
+      }
+    }
+  }
+  return files;
+}
+
+// Writes the files of photos from a restored backup to file storage. Each photo's files are
+// read from the archive under the key it had there, and written under the key it was restored with.
+export async function writePhotoFiles(files: Record<string, Buffer>, keys: [string, string][]): Promise<void> {
+  for (const [archiveKey, key] of keys) {
+    const paths = [[photoPath(archiveKey), photoPath(key)], [thumbnailPath(archiveKey), thumbnailPath(key)]];
+    for (const [archivePath, filePath] of paths) {
+      if (files[archivePath]) {
+        await fileStorage.put(filePath, files[archivePath], "image/jpeg");
+      }
+    }
+  }
+}
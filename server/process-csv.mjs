@@ -15,6 +15,13 @@ const pool = new Pool({
   connectionString: process.env.DATABASE_URL
 });
 
+// Barcodes are stored as digits only, with UPC-A codes as the EAN-13 they stand for
+function toBarcode(value) {
+  const digits = (value || '').replace(/\D/g, '');
+  if (!digits) return null;
+  return digits.length === 12 ? `0${digits}` : digits;
+}
+
 async function importChunk(records, startIdx, endIdx) {
   console.log(`Processing records ${startIdx} to ${endIdx}`);
 
@@ -23,8 +30,8 @@ async function importChunk(records, startIdx, endIdx) {
   try {
     // Prepare the insert query
     const insertQuery = `
-      INSERT INTO wine_catalog (name, category, wine, sub_type, producer, region, country)
-      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      INSERT INTO wine_catalog (name, category, wine, sub_type, producer, region, country, barcode)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
     `;
 
     // Process this chunk of records
@@ -38,7 +45,8 @@ async function importChunk(records, startIdx, endIdx) {
           record.SUB_TYPE || null,
           record.PRODUCER || null,
           record.REGION || null,
-          record.COUNTRY || null
+          record.COUNTRY || null,
+          toBarcode(record.BARCODE || record.EAN)
         ]);
 
         // Log progress occasionally
@@ -7,6 +7,7 @@ import type { Express, RequestHandler } from "express";
 import memoize from "memoizee";
 import connectPg from "connect-pg-simple";
 import { storage } from "./storage";
+import { UserRole } from "@shared/schema";
 
 if (!process.env.REPLIT_DOMAINS) {
   throw new Error("Environment variable REPLIT_DOMAINS not provided");
@@ -54,15 +55,24 @@ function updateUserSession(
   user.expires_at = user.claims?.exp;
 }
 
+// Users signing in with an email in ADMIN_EMAILS (comma-separated) are made admins.
+// Others keep the role they have, so admins can also be set in the database.
+const adminEmails = (process.env.ADMIN_EMAILS ?? "")
+  .split(",")
+  .map(email => email.trim().toLowerCase())
+  .filter(Boolean);
+
 async function upsertUser(
   claims: any,
 ) {
+  const isAdminEmail = typeof claims["email"] === "string" && adminEmails.includes(claims["email"].toLowerCase());
   await storage.upsertUser({
     id: claims["sub"],
     email: claims["email"],
     firstName: claims["first_name"],
     lastName: claims["last_name"],
     profileImageUrl: claims["profile_image_url"],
+    ...(isAdminEmail ? { role: UserRole.ADMIN } : {}),
   });
 }
 
@@ -179,4 +189,18 @@ export const isAuthenticated: RequestHandler = async (req, res, next) => {
   } catch (error) {
     return res.redirect("/api/login");
   }
-};
\ No newline at end of file
+};
+
+// Only lets admins through. Goes after isAuthenticated.
+export const isAdmin: RequestHandler = async (req, res, next) => {
+  try {
+    const user = await storage.getUser((req.user as any).claims.sub);
+    if (user?.role !== UserRole.ADMIN) {
+      return res.status(403).json({ message: "Admins only" });
+    }
+    return next();
+  } catch (error) {
+    console.error("Error checking admin role:", error);
+    return res.status(500).json({ message: "Failed to check admin role" });
+  }
+};
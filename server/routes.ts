@@ -1,10 +1,101 @@
-import type { Express } from "express";
+import express, { type Express, type RequestHandler } from "express";
+import multer from "multer";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertWineSchema } from "@shared/schema";
-import { setupAuth, isAuthenticated } from "./replitAuth";
+import {
+  storage,
+  InsufficientStockError,
+  VersionConflictError,
+  CellarNotFoundError,
+  CatalogEntryNotFoundError,
+  CatalogBatchStateError,
+  CellarInUseError,
+  InvalidRackSlotError,
+  StocktakeStateError,
+  BackupRestoreError,
+} from "./storage";
+import { 
+  insertWineSchema, 
+  updateWineSchema,
+  insertWineVintageSchema, 
+  insertStockMovementSchema, 
+  stockAdjustmentSchema,
+  addBottlesSchema,
+  trackBottlesSchema,
+  updateBottleSchema,
+  insertTastingNoteSchema,
+  updateTastingNoteSchema,
+  insertPurchaseSchema,
+  insertMarketValueSchema,
+  insertCellarSchema,
+  updateCellarSchema,
+  transferStockSchema,
+  insertRackSchema,
+  updateRackSchema,
+  assignRackSlotSchema,
+  startStocktakeSchema,
+  stocktakeCountSchema,
+  wineImportSchema,
+  userPreferencesSchema,
+  MAX_IMPORT_ROWS,
+  ExportFormat,
+  RestoreMode,
+  PhotoSide,
+  catalogSyncSchema,
+  insertWineCatalogSchema,
+  updateWineCatalogSchema,
+  catalogImportSchema,
+  CATALOG_PAGE_SIZE,
+  type CatalogLink,
+  type InsertWine,
+  type ExportFormatType,
+  type PhotoSideType,
+  type BarcodeLookup,
+  type WineImportResult
+} from "@shared/schema";
+import { matchesWineFilter } from "@shared/wine-filter";
+import { normalizeBarcode } from "@shared/barcode";
+import { computeValuation, parseMarketValueCsv } from "./valuation";
+import { XLSX_CONTENT_TYPE, importedNames, planWineImport, previewWineImport, readImportSheet } from "./wine-import";
+import { toCsv, toExportRows, toJsonDocument, toXlsx } from "./wine-export";
+import { createBackupArchive, readBackupArchive, renewPhotoKeys } from "./backup";
+import { extractLabelFields, readLabelLines } from "./label-ocr";
+import { getCatalogValues } from "./catalog-matcher";
+import { planCatalogImport, previewCatalogImport, reportCatalogImport } from "./catalog-import";
+import { InvalidPhotoError, MAX_PHOTO_BYTES, readPhoto, readPhotoFiles, removePhotos, storePhoto, writePhotoFiles } from "./photos";
+import { setupAuth, isAuthenticated, isAdmin } from "./replitAuth";
 import path from "path";
 
+// Parses the wine version out of an If-Match header such as `"3"` or `W/"3"`.
+// Returns undefined when the header is absent or `*`, and NaN when it is malformed.
+function parseIfMatch(header: string | undefined): number | undefined {
+  if (!header || header.trim() === "*") {
+    return undefined;
+  }
+  const match = header.trim().match(/^(?:W\/)?"(\d+)"$/);
+  return match ? parseInt(match[1]) : NaN;
+}
+
+function versionETag(version: number): string {
+  return `"${version}"`;
+}
+
+const isPhotoSide = (side: unknown): side is PhotoSideType =>
+  side === PhotoSide.FRONT || side === PhotoSide.BACK;
+
+// Takes a single image from the multipart "photo" field into memory, answering 400 or 413
+// itself when the upload is not acceptable
+const uploadPhoto: RequestHandler = (req, res, next) => {
+  const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: MAX_PHOTO_BYTES, files: 1 } });
+  upload.single("photo")(req, res, (err) => {
+    if (err instanceof multer.MulterError) {
+      return err.code === "LIMIT_FILE_SIZE"
+        ? res.status(413).json({ message: `Photos can be at most ${MAX_PHOTO_BYTES / 1024 / 1024}MB` })
+        : res.status(400).json({ message: err.message });
+    }
+    next(err);
+  });
+};
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupAuth(app);
@@ -21,6 +112,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Update the current user's preferences, such as their rating scale
+  app.patch('/api/auth/user/preferences', isAuthenticated, async (req: any, res) => {
+    try {
+      const parseResult = userPreferencesSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid preferences", 
+          errors: parseResult.error.format() 
+        });
+      }
+
+      const userId = req.user.claims.sub;
+      const user = await storage.updateUserPreferences(userId, parseResult.data);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      res.json(user);
+    } catch (error) {
+      console.error("Error updating preferences:", error);
+      res.status(500).json({ message: "Failed to update preferences" });
+    }
+  });
+
   // Wine Inventory API Routes (now user-specific)
   // Get all wines for authenticated user
   app.get("/api/wines", isAuthenticated, async (req: any, res) => {
@@ -33,6 +148,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Download the wines matching the collection's category and text filters,
+  // one row per vintage and bottle format
+  app.get("/api/wines/export", isAuthenticated, async (req: any, res) => {
+    try {
+      const format = typeof req.query.format === "string" ? req.query.format : ExportFormat.CSV;
+      if (!Object.values(ExportFormat).includes(format as ExportFormatType)) {
+        return res.status(400).json({ message: "Invalid export format" });
+      }
+
+      const category = typeof req.query.category === "string" && req.query.category ? req.query.category : "All";
+      const text = typeof req.query.q === "string" ? req.query.q : "";
+      const userId = req.user.claims.sub;
+      const wines = (await storage.getWines(userId)).filter(w => matchesWineFilter(w, category, text));
+      const rows = toExportRows(wines);
+
+      res.attachment(`cellars-${new Date().toISOString().slice(0, 10)}.${format}`);
+      switch (format) {
+        case ExportFormat.JSON:
+          return res.json(toJsonDocument(rows));
+        case ExportFormat.XLSX:
+          return res.type(XLSX_CONTENT_TYPE).send(await toXlsx(rows));
+        default:
+          return res.type("text/csv").send(toCsv(rows));
+      }
+    } catch (err) {
+      console.error("Failed to export wines:", err);
+      res.status(500).json({ message: "Failed to export wines" });
+    }
+  });
+
   // Get wine by ID for authenticated user
   app.get("/api/wines/:id", isAuthenticated, async (req: any, res) => {
     try {
@@ -47,6 +192,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Wine not found" });
       }
 
+      res.set("ETag", versionETag(wine.version));
       res.json(wine);
     } catch (err) {
       res.status(500).json({ message: "Failed to fetch wine" });
@@ -81,11 +227,94 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const newWine = await storage.addWine(parseResult.data, userId);
       res.status(201).json(newWine);
     } catch (err) {
+      if (err instanceof CellarNotFoundError || err instanceof CatalogEntryNotFoundError) {
+        return res.status(400).json({ message: err.message });
+      }
       console.error("Failed to add wine:", err);
       res.status(500).json({ message: "Failed to add wine" });
     }
   });
 
+  // Wine Import API Routes
+  // Reads an uploaded CSV or XLSX file into its columns and rows, for mapping in the import wizard
+  app.post("/api/wines/import/parse", isAuthenticated, express.raw({ type: ["text/csv", XLSX_CONTENT_TYPE, "application/octet-stream"], limit: "10mb" }), async (req: any, res) => {
+    try {
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ message: "Expected a CSV or XLSX file" });
+      }
+
+      let sheet;
+      try {
+        sheet = await readImportSheet(req.body);
+      } catch (err) {
+        return res.status(400).json({ message: `Could not read the file: ${err instanceof Error ? err.message : String(err)}` });
+      }
+
+      if (sheet.rows.length > MAX_IMPORT_ROWS) {
+        return res.status(400).json({ message: `Files can have at most ${MAX_IMPORT_ROWS} rows` });
+      }
+      res.json(sheet);
+    } catch (err) {
+      console.error("Failed to read import file:", err);
+      res.status(500).json({ message: "Failed to read import file" });
+    }
+  });
+
+  // Shows what each mapped row would import, without changing anything
+  app.post("/api/wines/import/preview", isAuthenticated, async (req: any, res) => {
+    try {
+      const parseResult = wineImportSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          message: "Invalid import",
+          errors: parseResult.error.format()
+        });
+      }
+
+      const userId = req.user.claims.sub;
+      const wines = await storage.getWines(userId);
+      const catalog = parseResult.data.matchCatalog ? await storage.findCatalogCandidates(importedNames(parseResult.data)) : [];
+      res.json(previewWineImport(parseResult.data, wines, catalog));
+    } catch (err) {
+      console.error("Failed to preview import:", err);
+      res.status(500).json({ message: "Failed to preview import" });
+    }
+  });
+
+  // Imports the valid rows. Rows with errors are left out and counted as invalid.
+  app.post("/api/wines/import", isAuthenticated, async (req: any, res) => {
+    try {
+      const parseResult = wineImportSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          message: "Invalid import",
+          errors: parseResult.error.format()
+        });
+      }
+
+      const userId = req.user.claims.sub;
+      const wines = await storage.getWines(userId);
+      const catalog = parseResult.data.matchCatalog ? await storage.findCatalogCandidates(importedNames(parseResult.data)) : [];
+      const rows = previewWineImport(parseResult.data, wines, catalog);
+      const plan = planWineImport(rows, parseResult.data);
+
+      const { created, updated } = await storage.importWines(plan.wines, userId);
+      const result: WineImportResult = {
+        created,
+        updated,
+        skipped: plan.skipped,
+        invalid: rows.filter(r => !r.wine).length,
+      };
+      res.json(result);
+    } catch (err) {
+      if (err instanceof CellarNotFoundError) {
+        return res.status(400).json({ message: err.message });
+      }
+      console.error("Failed to import wines:", err);
+      res.status(500).json({ message: "Failed to import wines" });
+    }
+  });
+
   // Update an existing wine for authenticated user
   app.patch("/api/wines/:id", isAuthenticated, async (req: any, res) => {
     try {
@@ -99,88 +328,161 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid wine ID" });
       }
 
-      // Direct SQL update - bypass complex validation 
-      const { pool } = await import('./db.js');
-      const updateData = req.body;
-      let setParts = [];
-      let values = [];
-      let valueIndex = 1;
+      const expectedVersion = parseIfMatch(req.get("If-Match"));
+      if (Number.isNaN(expectedVersion)) {
+        return res.status(400).json({ message: "Invalid If-Match header" });
+      }
 
-      if (updateData.name !== undefined) {
-        setParts.push(`name = $${valueIndex++}`);
-        values.push(updateData.name);
+      if (Object.keys(req.body || {}).length === 0) {
+        return res.status(400).json({ message: "No fields to update" });
       }
-      if (updateData.category !== undefined) {
-        setParts.push(`category = $${valueIndex++}`);
-        values.push(updateData.category);
+
+      const parseResult = updateWineSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          message: "Invalid wine data",
+          errors: parseResult.error.format()
+        });
       }
-      if (updateData.wine !== undefined) {
-        setParts.push(`wine = $${valueIndex++}`);
-        values.push(updateData.wine);
+
+      // Stock totals in the body are reconciled through the movement ledger
+      const updatedWine = await storage.updateWine(id, parseResult.data, userId, expectedVersion);
+      if (!updatedWine) {
+        return res.status(404).json({ message: "Wine not found or not owned by user" });
       }
-      if (updateData.subType !== undefined) {
-        setParts.push(`sub_type = $${valueIndex++}`);
-        values.push(updateData.subType);
+
+      res.set("ETag", versionETag(updatedWine.version));
+      res.json(updatedWine);
+    } catch (err) {
+      if (err instanceof VersionConflictError) {
+        res.set("ETag", versionETag(err.current.version));
+        return res.status(409).json({ message: err.message, current: err.current });
       }
-      if (updateData.producer !== undefined) {
-        setParts.push(`producer = $${valueIndex++}`);
-        values.push(updateData.producer);
+      if (err instanceof InsufficientStockError) {
+        return res.status(409).json({ message: err.message, available: err.available });
       }
-      if (updateData.region !== undefined) {
-        setParts.push(`region = $${valueIndex++}`);
-        values.push(updateData.region);
+      if (err instanceof CellarNotFoundError || err instanceof CatalogEntryNotFoundError) {
+        return res.status(400).json({ message: err.message });
       }
-      if (updateData.country !== undefined) {
-        setParts.push(`country = $${valueIndex++}`);
-        values.push(updateData.country);
+      console.error("Error updating wine:", err);
+      res.status(500).json({ message: "Failed to update wine" });
+    }
+  });
+
+  // Delete a wine for authenticated user
+  app.delete("/api/wines/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid wine ID" });
       }
-      if (updateData.stockLevel !== undefined) {
-        setParts.push(`stock_level = $${valueIndex++}`);
-        values.push(updateData.stockLevel);
+
+      const expectedVersion = parseIfMatch(req.get("If-Match"));
+      if (Number.isNaN(expectedVersion)) {
+        return res.status(400).json({ message: "Invalid If-Match header" });
       }
-      if (updateData.vintageStocks !== undefined) {
-        setParts.push(`vintage_stocks = $${valueIndex++}::json`);
-        values.push(JSON.stringify(updateData.vintageStocks));
+
+      const userId = req.user.claims.sub;
+      const photos = await storage.getWinePhotos(id, userId);
+      const success = await storage.deleteWine(id, userId, expectedVersion);
+      if (!success) {
+        return res.status(404).json({ message: "Wine not found" });
       }
-      if (updateData.imageUrl !== undefined) {
-        setParts.push(`image_url = $${valueIndex++}`);
-        values.push(updateData.imageUrl);
+
+      await removePhotos(await storage.getUnusedPhotoKeys(photos.map(photo => photo.key)));
+      res.status(204).send();
+    } catch (err) {
+      if (err instanceof VersionConflictError) {
+        res.set("ETag", versionETag(err.current.version));
+        return res.status(409).json({ message: err.message, current: err.current });
       }
-      if (updateData.rating !== undefined) {
-        setParts.push(`rating = $${valueIndex++}`);
-        values.push(updateData.rating);
+      res.status(500).json({ message: "Failed to delete wine" });
+    }
+  });
+
+  // Wine Vintage API Routes
+  // Get all vintages of a wine, including those without stock
+  app.get("/api/wines/:id/vintages", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid wine ID" });
       }
-      if (updateData.notes !== undefined) {
-        setParts.push(`notes = $${valueIndex++}`);
-        values.push(updateData.notes);
+
+      const userId = req.user.claims.sub;
+      const wine = await storage.getWineById(id, userId);
+      if (!wine) {
+        return res.status(404).json({ message: "Wine not found" });
       }
 
-      if (setParts.length === 0) {
-        return res.status(400).json({ message: "No fields to update" });
+      const vintages = await storage.getWineVintages(id, userId);
+      res.json(vintages);
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch vintages" });
+    }
+  });
+
+  // Create or update a vintage of a wine
+  app.put("/api/wines/:id/vintages/:vintage", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const vintage = parseInt(req.params.vintage);
+      if (isNaN(id) || isNaN(vintage)) {
+        return res.status(400).json({ message: "Invalid wine ID or vintage" });
       }
 
-      values.push(id, userId);
-      const query = `UPDATE wines SET ${setParts.join(', ')} WHERE id = $${valueIndex} AND user_id = $${valueIndex + 1} RETURNING *`;
-      
-      console.log('SQL:', query);
-      console.log('Values:', values);
+      const parseResult = insertWineVintageSchema.safeParse({ ...req.body, vintage });
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid vintage data", 
+          errors: parseResult.error.format() 
+        });
+      }
 
-      const result = await pool.query(query, values);
-      
-      if (result.rows.length === 0) {
-        return res.status(404).json({ message: "Wine not found or not owned by user" });
+      const userId = req.user.claims.sub;
+      const wineVintage = await storage.upsertWineVintage(id, parseResult.data, userId);
+      if (!wineVintage) {
+        return res.status(404).json({ message: "Wine not found" });
       }
 
-      console.log('Update successful:', result.rows[0].name);
-      res.json(result.rows[0]);
+      res.json(wineVintage);
     } catch (err) {
-      console.error("Error updating wine:", err);
-      res.status(500).json({ message: "Failed to update wine", error: err instanceof Error ? err.message : String(err) });
+      if (err instanceof InsufficientStockError) {
+        return res.status(409).json({ message: err.message, available: err.available });
+      }
+      if (err instanceof CellarNotFoundError) {
+        return res.status(400).json({ message: err.message });
+      }
+      console.error("Failed to save vintage:", err);
+      res.status(500).json({ message: "Failed to save vintage" });
     }
   });
 
-  // Delete a wine for authenticated user
-  app.delete("/api/wines/:id", isAuthenticated, async (req: any, res) => {
+  // Remove a vintage from a wine
+  app.delete("/api/wines/:id/vintages/:vintage", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const vintage = parseInt(req.params.vintage);
+      if (isNaN(id) || isNaN(vintage)) {
+        return res.status(400).json({ message: "Invalid wine ID or vintage" });
+      }
+
+      const userId = req.user.claims.sub;
+      const success = await storage.removeWineVintage(id, vintage, userId);
+      if (!success) {
+        return res.status(404).json({ message: "Vintage not found" });
+      }
+
+      res.status(204).send();
+    } catch (err) {
+      console.error("Failed to remove vintage:", err);
+      res.status(500).json({ message: "Failed to remove vintage" });
+    }
+  });
+
+  // Bottle API Routes
+  // Get the individual bottle records of a wine
+  app.get("/api/wines/:id/bottles", isAuthenticated, async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
@@ -188,36 +490,1385 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const userId = req.user.claims.sub;
-      const success = await storage.deleteWine(id, userId);
-      if (!success) {
+      const wine = await storage.getWineById(id, userId);
+      if (!wine) {
         return res.status(404).json({ message: "Wine not found" });
       }
 
-      res.status(204).send();
+      const wineBottles = await storage.getBottles(id, userId);
+      res.json(wineBottles);
     } catch (err) {
-      res.status(500).json({ message: "Failed to delete wine" });
+      res.status(500).json({ message: "Failed to fetch bottles" });
     }
   });
 
-  // Wine Catalog API Routes
-  // Search wine catalog
-  app.get("/api/catalog/search", async (req, res) => {
+  // Add newly purchased bottles as individual records
+  app.post("/api/wines/:id/bottles", isAuthenticated, async (req: any, res) => {
     try {
-      const query = req.query.q as string || "";
-      const results = await storage.searchWineCatalog(query);
-      res.json(results);
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid wine ID" });
+      }
+
+      const parseResult = addBottlesSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid bottle data", 
+          errors: parseResult.error.format() 
+        });
+      }
+
+      const userId = req.user.claims.sub;
+      const added = await storage.addBottles(id, parseResult.data, userId);
+      if (!added) {
+        return res.status(404).json({ message: "Wine not found" });
+      }
+
+      res.status(201).json(added);
     } catch (err) {
-      res.status(500).json({ message: "Failed to search wine catalog" });
+      if (err instanceof CellarNotFoundError) {
+        return res.status(400).json({ message: err.message });
+      }
+      console.error("Failed to add bottles:", err);
+      res.status(500).json({ message: "Failed to add bottles" });
     }
   });
 
-  // Get all catalog entries
-  app.get("/api/catalog", async (req, res) => {
+  // Start tracking the existing stock of a vintage as individual bottles
+  app.post("/api/wines/:id/bottles/track", isAuthenticated, async (req: any, res) => {
     try {
-      const catalog = await storage.getWineCatalog();
-      res.json(catalog);
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid wine ID" });
+      }
+
+      const parseResult = trackBottlesSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid vintage", 
+          errors: parseResult.error.format() 
+        });
+      }
+
+      const userId = req.user.claims.sub;
+      const tracked = await storage.trackBottles(id, parseResult.data, userId);
+      if (!tracked) {
+        return res.status(404).json({ message: "Wine not found" });
+      }
+
+      res.json(tracked);
     } catch (err) {
-      res.status(500).json({ message: "Failed to fetch wine catalog" });
+      if (err instanceof CellarNotFoundError) {
+        return res.status(400).json({ message: err.message });
+      }
+      console.error("Failed to track bottles:", err);
+      res.status(500).json({ message: "Failed to track bottles" });
+    }
+  });
+
+  // Update a single bottle, e.g. to mark it as consumed
+  app.patch("/api/wines/:id/bottles/:bottleId", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const bottleId = parseInt(req.params.bottleId);
+      if (isNaN(id) || isNaN(bottleId)) {
+        return res.status(400).json({ message: "Invalid wine or bottle ID" });
+      }
+
+      const parseResult = updateBottleSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid bottle data", 
+          errors: parseResult.error.format() 
+        });
+      }
+
+      const userId = req.user.claims.sub;
+      const bottle = await storage.updateBottle(id, bottleId, parseResult.data, userId);
+      if (!bottle) {
+        return res.status(404).json({ message: "Bottle not found" });
+      }
+
+      res.json(bottle);
+    } catch (err) {
+      if (err instanceof InsufficientStockError) {
+        return res.status(409).json({ message: err.message, available: err.available });
+      }
+      if (err instanceof CellarNotFoundError) {
+        return res.status(400).json({ message: err.message });
+      }
+      console.error("Failed to update bottle:", err);
+      res.status(500).json({ message: "Failed to update bottle" });
+    }
+  });
+
+  // Stock Movement API Routes
+  // Get the stock movement history of a wine
+  app.get("/api/wines/:id/movements", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid wine ID" });
+      }
+
+      const userId = req.user.claims.sub;
+      const wine = await storage.getWineById(id, userId);
+      if (!wine) {
+        return res.status(404).json({ message: "Wine not found" });
+      }
+
+      const movements = await storage.getStockMovements(id, userId);
+      res.json(movements);
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch stock movements" });
+    }
+  });
+
+  // Record a stock movement and return the wine with its recomputed stock
+  app.post("/api/wines/:id/movements", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid wine ID" });
+      }
+
+      const parseResult = insertStockMovementSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid stock movement", 
+          errors: parseResult.error.format() 
+        });
+      }
+
+      const userId = req.user.claims.sub;
+      const wine = await storage.recordStockMovement(id, parseResult.data, userId);
+      if (!wine) {
+        return res.status(404).json({ message: "Wine not found" });
+      }
+
+      res.status(201).json(wine);
+    } catch (err) {
+      if (err instanceof InsufficientStockError) {
+        return res.status(409).json({ message: err.message, available: err.available });
+      }
+      if (err instanceof CellarNotFoundError) {
+        return res.status(400).json({ message: err.message });
+      }
+      console.error("Failed to record stock movement:", err);
+      res.status(500).json({ message: "Failed to record stock movement" });
+    }
+  });
+
+  // Atomically adjust the stock of one vintage and return the new totals
+  app.post("/api/wines/:id/stock/adjust", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid wine ID" });
+      }
+
+      const parseResult = stockAdjustmentSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid stock adjustment", 
+          errors: parseResult.error.format() 
+        });
+      }
+
+      const userId = req.user.claims.sub;
+      const totals = await storage.adjustStock(id, parseResult.data, userId);
+      if (!totals) {
+        return res.status(404).json({ message: "Wine not found" });
+      }
+
+      res.json(totals);
+    } catch (err) {
+      if (err instanceof InsufficientStockError) {
+        return res.status(409).json({ message: err.message, available: err.available });
+      }
+      if (err instanceof CellarNotFoundError) {
+        return res.status(400).json({ message: err.message });
+      }
+      console.error("Failed to adjust stock:", err);
+      res.status(500).json({ message: "Failed to adjust stock" });
+    }
+  });
+
+  // Move bottles of one vintage and format between cellars
+  app.post("/api/wines/:id/transfer", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid wine ID" });
+      }
+
+      const parseResult = transferStockSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid stock transfer", 
+          errors: parseResult.error.format() 
+        });
+      }
+
+      const userId = req.user.claims.sub;
+      const totals = await storage.transferStock(id, parseResult.data, userId);
+      if (!totals) {
+        return res.status(404).json({ message: "Wine not found" });
+      }
+
+      res.json(totals);
+    } catch (err) {
+      if (err instanceof InsufficientStockError) {
+        return res.status(409).json({ message: err.message, available: err.available });
+      }
+      if (err instanceof CellarNotFoundError) {
+        return res.status(400).json({ message: err.message });
+      }
+      console.error("Failed to transfer stock:", err);
+      res.status(500).json({ message: "Failed to transfer stock" });
+    }
+  });
+
+  // Cellar API Routes
+  // Get the user's cellars with the bottles each holds
+  app.get("/api/cellars", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const userCellars = await storage.getCellars(userId);
+      res.json(userCellars);
+    } catch (err) {
+      console.error("Failed to fetch cellars:", err);
+      res.status(500).json({ message: "Failed to fetch cellars" });
+    }
+  });
+
+  // Add a cellar
+  app.post("/api/cellars", isAuthenticated, async (req: any, res) => {
+    try {
+      const parseResult = insertCellarSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid cellar data", 
+          errors: parseResult.error.format() 
+        });
+      }
+
+      const userId = req.user.claims.sub;
+      const cellar = await storage.addCellar(parseResult.data, userId);
+      res.status(201).json(cellar);
+    } catch (err) {
+      console.error("Failed to add cellar:", err);
+      res.status(500).json({ message: "Failed to add cellar" });
+    }
+  });
+
+  // Update a cellar's details
+  app.patch("/api/cellars/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid cellar ID" });
+      }
+
+      const parseResult = updateCellarSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid cellar data", 
+          errors: parseResult.error.format() 
+        });
+      }
+
+      const userId = req.user.claims.sub;
+      const cellar = await storage.updateCellar(id, parseResult.data, userId);
+      if (!cellar) {
+        return res.status(404).json({ message: "Cellar not found" });
+      }
+
+      res.json(cellar);
+    } catch (err) {
+      console.error("Failed to update cellar:", err);
+      res.status(500).json({ message: "Failed to update cellar" });
+    }
+  });
+
+  // Delete an empty cellar
+  app.delete("/api/cellars/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid cellar ID" });
+      }
+
+      const userId = req.user.claims.sub;
+      const deleted = await storage.deleteCellar(id, userId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Cellar not found" });
+      }
+
+      res.status(204).send();
+    } catch (err) {
+      if (err instanceof CellarInUseError) {
+        return res.status(409).json({ message: err.message, bottles: err.bottles });
+      }
+      console.error("Failed to delete cellar:", err);
+      res.status(500).json({ message: "Failed to delete cellar" });
+    }
+  });
+
+  // Rack API Routes
+  // Get the user's racks with what each slot holds
+  app.get("/api/racks", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const userRacks = await storage.getRacks(userId);
+      res.json(userRacks);
+    } catch (err) {
+      console.error("Failed to fetch racks:", err);
+      res.status(500).json({ message: "Failed to fetch racks" });
+    }
+  });
+
+  // Add a rack
+  app.post("/api/racks", isAuthenticated, async (req: any, res) => {
+    try {
+      const parseResult = insertRackSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid rack data", 
+          errors: parseResult.error.format() 
+        });
+      }
+
+      const userId = req.user.claims.sub;
+      const rack = await storage.addRack(parseResult.data, userId);
+      res.status(201).json(rack);
+    } catch (err) {
+      if (err instanceof CellarNotFoundError || err instanceof InvalidRackSlotError) {
+        return res.status(400).json({ message: err.message });
+      }
+      console.error("Failed to add rack:", err);
+      res.status(500).json({ message: "Failed to add rack" });
+    }
+  });
+
+  // Rename, move or resize a rack
+  app.patch("/api/racks/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid rack ID" });
+      }
+
+      const parseResult = updateRackSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid rack data", 
+          errors: parseResult.error.format() 
+        });
+      }
+
+      const userId = req.user.claims.sub;
+      const rack = await storage.updateRack(id, parseResult.data, userId);
+      if (!rack) {
+        return res.status(404).json({ message: "Rack not found" });
+      }
+
+      res.json(rack);
+    } catch (err) {
+      if (err instanceof CellarNotFoundError || err instanceof InvalidRackSlotError) {
+        return res.status(400).json({ message: err.message });
+      }
+      console.error("Failed to update rack:", err);
+      res.status(500).json({ message: "Failed to update rack" });
+    }
+  });
+
+  // Delete a rack and its slot assignments. The bottles themselves are untouched.
+  app.delete("/api/racks/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid rack ID" });
+      }
+
+      const userId = req.user.claims.sub;
+      const deleted = await storage.deleteRack(id, userId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Rack not found" });
+      }
+
+      res.status(204).send();
+    } catch (err) {
+      console.error("Failed to delete rack:", err);
+      res.status(500).json({ message: "Failed to delete rack" });
+    }
+  });
+
+  // Put a bottle or vintage stock in a slot, or name it as a bin
+  app.put("/api/racks/:id/slots/:row/:column", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const row = parseInt(req.params.row);
+      const column = parseInt(req.params.column);
+      if (isNaN(id) || isNaN(row) || isNaN(column)) {
+        return res.status(400).json({ message: "Invalid rack or slot" });
+      }
+
+      const parseResult = assignRackSlotSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid slot data", 
+          errors: parseResult.error.format() 
+        });
+      }
+
+      const userId = req.user.claims.sub;
+      const slot = await storage.assignRackSlot(id, row, column, parseResult.data, userId);
+      if (slot === undefined) {
+        return res.status(404).json({ message: "Rack not found" });
+      }
+      if (slot === null) {
+        return res.status(204).send();
+      }
+
+      res.json(slot);
+    } catch (err) {
+      if (err instanceof CellarNotFoundError || err instanceof InvalidRackSlotError) {
+        return res.status(400).json({ message: err.message });
+      }
+      console.error("Failed to assign slot:", err);
+      res.status(500).json({ message: "Failed to assign slot" });
+    }
+  });
+
+  // Empty a slot, removing any bin label too
+  app.delete("/api/racks/:id/slots/:row/:column", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const row = parseInt(req.params.row);
+      const column = parseInt(req.params.column);
+      if (isNaN(id) || isNaN(row) || isNaN(column)) {
+        return res.status(400).json({ message: "Invalid rack or slot" });
+      }
+
+      const userId = req.user.claims.sub;
+      const cleared = await storage.clearRackSlot(id, row, column, userId);
+      if (!cleared) {
+        return res.status(404).json({ message: "Slot not found" });
+      }
+
+      res.status(204).send();
+    } catch (err) {
+      console.error("Failed to clear slot:", err);
+      res.status(500).json({ message: "Failed to clear slot" });
+    }
+  });
+
+  // Stocktake API Routes
+  // Get past and current stocktakes with their progress, newest first
+  app.get("/api/stocktakes", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const sessions = await storage.getStocktakes(userId);
+      res.json(sessions);
+    } catch (err) {
+      console.error("Failed to fetch stocktakes:", err);
+      res.status(500).json({ message: "Failed to fetch stocktakes" });
+    }
+  });
+
+  // Start a stocktake of every cellar, or of one
+  app.post("/api/stocktakes", isAuthenticated, async (req: any, res) => {
+    try {
+      const parseResult = startStocktakeSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid stocktake", 
+          errors: parseResult.error.format() 
+        });
+      }
+
+      const userId = req.user.claims.sub;
+      const stocktake = await storage.startStocktake(parseResult.data, userId);
+      res.status(201).json(stocktake);
+    } catch (err) {
+      if (err instanceof StocktakeStateError) {
+        return res.status(409).json({ message: err.message });
+      }
+      if (err instanceof CellarNotFoundError) {
+        return res.status(400).json({ message: err.message });
+      }
+      console.error("Failed to start stocktake:", err);
+      res.status(500).json({ message: "Failed to start stocktake" });
+    }
+  });
+
+  // Get a stocktake with its expected and counted quantities
+  app.get("/api/stocktakes/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid stocktake ID" });
+      }
+
+      const userId = req.user.claims.sub;
+      const stocktake = await storage.getStocktake(id, userId);
+      if (!stocktake) {
+        return res.status(404).json({ message: "Stocktake not found" });
+      }
+
+      res.json(stocktake);
+    } catch (err) {
+      console.error("Failed to fetch stocktake:", err);
+      res.status(500).json({ message: "Failed to fetch stocktake" });
+    }
+  });
+
+  // Record the counted quantity of one vintage and format of a wine
+  app.put("/api/stocktakes/:id/counts", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid stocktake ID" });
+      }
+
+      const parseResult = stocktakeCountSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid count", 
+          errors: parseResult.error.format() 
+        });
+      }
+
+      const userId = req.user.claims.sub;
+      const line = await storage.recordStocktakeCount(id, parseResult.data, userId);
+      if (!line) {
+        return res.status(404).json({ message: "Stocktake or wine not found" });
+      }
+
+      res.json(line);
+    } catch (err) {
+      if (err instanceof StocktakeStateError) {
+        return res.status(409).json({ message: err.message });
+      }
+      if (err instanceof CellarNotFoundError) {
+        return res.status(400).json({ message: err.message });
+      }
+      console.error("Failed to record count:", err);
+      res.status(500).json({ message: "Failed to record count" });
+    }
+  });
+
+  // Adjust stock to the counted quantities and close the stocktake
+  app.post("/api/stocktakes/:id/apply", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid stocktake ID" });
+      }
+
+      const userId = req.user.claims.sub;
+      const stocktake = await storage.applyStocktake(id, userId);
+      if (!stocktake) {
+        return res.status(404).json({ message: "Stocktake not found" });
+      }
+
+      res.json(stocktake);
+    } catch (err) {
+      if (err instanceof StocktakeStateError) {
+        return res.status(409).json({ message: err.message });
+      }
+      if (err instanceof InsufficientStockError) {
+        return res.status(409).json({ message: err.message, available: err.available });
+      }
+      console.error("Failed to apply stocktake:", err);
+      res.status(500).json({ message: "Failed to apply stocktake" });
+    }
+  });
+
+  // Close a stocktake without changing any stock. It stays available for review.
+  app.post("/api/stocktakes/:id/discard", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid stocktake ID" });
+      }
+
+      const userId = req.user.claims.sub;
+      const stocktake = await storage.discardStocktake(id, userId);
+      if (!stocktake) {
+        return res.status(404).json({ message: "Stocktake not found" });
+      }
+
+      res.json(stocktake);
+    } catch (err) {
+      if (err instanceof StocktakeStateError) {
+        return res.status(409).json({ message: err.message });
+      }
+      console.error("Failed to discard stocktake:", err);
+      res.status(500).json({ message: "Failed to discard stocktake" });
+    }
+  });
+
+  // Purchase API Routes
+  // Get the purchases of a wine, newest first
+  app.get("/api/wines/:id/purchases", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid wine ID" });
+      }
+
+      const userId = req.user.claims.sub;
+      const purchases = await storage.getPurchases(id, userId);
+      res.json(purchases);
+    } catch (err) {
+      console.error("Failed to fetch purchases:", err);
+      res.status(500).json({ message: "Failed to fetch purchases" });
+    }
+  });
+
+  // Record a purchase, adding its bottles to the wine's stock
+  app.post("/api/wines/:id/purchases", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid wine ID" });
+      }
+
+      const parseResult = insertPurchaseSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid purchase data", 
+          errors: parseResult.error.format() 
+        });
+      }
+
+      const userId = req.user.claims.sub;
+      const purchase = await storage.addPurchase(id, parseResult.data, userId);
+      if (!purchase) {
+        return res.status(404).json({ message: "Wine not found" });
+      }
+
+      res.status(201).json(purchase);
+    } catch (err) {
+      if (err instanceof CellarNotFoundError) {
+        return res.status(400).json({ message: err.message });
+      }
+      console.error("Failed to record purchase:", err);
+      res.status(500).json({ message: "Failed to record purchase" });
+    }
+  });
+
+  // Total spend and average cost per bottle by category and currency
+  app.get("/api/purchases/summary", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const summary = await storage.getPurchaseSummary(userId);
+      res.json(summary);
+    } catch (err) {
+      console.error("Failed to fetch purchase summary:", err);
+      res.status(500).json({ message: "Failed to fetch purchase summary" });
+    }
+  });
+
+  // Market Value API Routes
+  // Get the recorded market values of a wine, newest first
+  app.get("/api/wines/:id/market-values", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid wine ID" });
+      }
+
+      const userId = req.user.claims.sub;
+      const values = await storage.getMarketValues(id, userId);
+      res.json(values);
+    } catch (err) {
+      console.error("Failed to fetch market values:", err);
+      res.status(500).json({ message: "Failed to fetch market values" });
+    }
+  });
+
+  // Record a market value for a vintage of a wine
+  app.post("/api/wines/:id/market-values", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid wine ID" });
+      }
+
+      const parseResult = insertMarketValueSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid market value data", 
+          errors: parseResult.error.format() 
+        });
+      }
+
+      const userId = req.user.claims.sub;
+      const value = await storage.addMarketValue(id, parseResult.data, userId);
+      if (!value) {
+        return res.status(404).json({ message: "Wine not found" });
+      }
+
+      res.status(201).json(value);
+    } catch (err) {
+      console.error("Failed to record market value:", err);
+      res.status(500).json({ message: "Failed to record market value" });
+    }
+  });
+
+  // Delete a market value
+  app.delete("/api/wines/:id/market-values/:valueId", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const valueId = parseInt(req.params.valueId);
+      if (isNaN(id) || isNaN(valueId)) {
+        return res.status(400).json({ message: "Invalid wine or market value ID" });
+      }
+
+      const userId = req.user.claims.sub;
+      const deleted = await storage.deleteMarketValue(id, valueId, userId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Market value not found" });
+      }
+
+      res.status(204).send();
+    } catch (err) {
+      console.error("Failed to delete market value:", err);
+      res.status(500).json({ message: "Failed to delete market value" });
+    }
+  });
+
+  // Bulk import market values from a CSV body. Valid rows are imported and the rest reported back.
+  app.post("/api/market-values/import", isAuthenticated, express.text({ type: "text/csv", limit: "5mb" }), async (req: any, res) => {
+    try {
+      if (typeof req.body !== "string" || !req.body.trim()) {
+        return res.status(400).json({ message: "Expected a CSV body" });
+      }
+
+      const userId = req.user.claims.sub;
+      const wines = await storage.getWines(userId);
+
+      let parsed;
+      try {
+        parsed = parseMarketValueCsv(req.body, wines);
+      } catch (err) {
+        return res.status(400).json({ message: `Invalid CSV: ${err instanceof Error ? err.message : String(err)}` });
+      }
+
+      const imported = await storage.importMarketValues(parsed.entries, userId);
+      res.json({ imported, errors: parsed.errors });
+    } catch (err) {
+      console.error("Failed to import market values:", err);
+      res.status(500).json({ message: "Failed to import market values" });
+    }
+  });
+
+  // Current value, unrealized gain and value over time of the collection
+  app.get("/api/valuation", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const inputs = await storage.getValuationInputs(userId);
+      res.json(computeValuation(inputs));
+    } catch (err) {
+      console.error("Failed to compute valuation:", err);
+      res.status(500).json({ message: "Failed to compute valuation" });
+    }
+  });
+
+  // Tasting Note API Routes
+  // Get all tasting notes of a wine, newest first
+  app.get("/api/wines/:id/tasting-notes", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid wine ID" });
+      }
+
+      const userId = req.user.claims.sub;
+      const notes = await storage.getTastingNotes(id, userId);
+      res.json(notes);
+    } catch (err) {
+      console.error("Failed to fetch tasting notes:", err);
+      res.status(500).json({ message: "Failed to fetch tasting notes" });
+    }
+  });
+
+  // Add a tasting note to a wine
+  app.post("/api/wines/:id/tasting-notes", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid wine ID" });
+      }
+
+      const parseResult = insertTastingNoteSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid tasting note data", 
+          errors: parseResult.error.format() 
+        });
+      }
+
+      const userId = req.user.claims.sub;
+      const note = await storage.addTastingNote(id, parseResult.data, userId);
+      if (!note) {
+        return res.status(404).json({ message: "Wine not found" });
+      }
+
+      res.status(201).json(note);
+    } catch (err) {
+      console.error("Failed to add tasting note:", err);
+      res.status(500).json({ message: "Failed to add tasting note" });
+    }
+  });
+
+  // Update a tasting note
+  app.patch("/api/wines/:id/tasting-notes/:noteId", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const noteId = parseInt(req.params.noteId);
+      if (isNaN(id) || isNaN(noteId)) {
+        return res.status(400).json({ message: "Invalid wine or tasting note ID" });
+      }
+
+      const parseResult = updateTastingNoteSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid tasting note data", 
+          errors: parseResult.error.format() 
+        });
+      }
+
+      const userId = req.user.claims.sub;
+      const note = await storage.updateTastingNote(id, noteId, parseResult.data, userId);
+      if (!note) {
+        return res.status(404).json({ message: "Tasting note not found" });
+      }
+
+      res.json(note);
+    } catch (err) {
+      console.error("Failed to update tasting note:", err);
+      res.status(500).json({ message: "Failed to update tasting note" });
+    }
+  });
+
+  // Delete a tasting note
+  app.delete("/api/wines/:id/tasting-notes/:noteId", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const noteId = parseInt(req.params.noteId);
+      if (isNaN(id) || isNaN(noteId)) {
+        return res.status(400).json({ message: "Invalid wine or tasting note ID" });
+      }
+
+      const userId = req.user.claims.sub;
+      const deleted = await storage.deleteTastingNote(id, noteId, userId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Tasting note not found" });
+      }
+
+      res.status(204).send();
+    } catch (err) {
+      console.error("Failed to delete tasting note:", err);
+      res.status(500).json({ message: "Failed to delete tasting note" });
+    }
+  });
+
+  // Label Photo API Routes
+  // Read the text on a photographed label and suggest what it fills in, with any catalog
+  // entries it matches. The photo is read on the server and not kept.
+  app.post("/api/wines/scan-label", isAuthenticated, uploadPhoto, async (req: any, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "Expected a photo" });
+      }
+
+      const lines = await readLabelLines(req.file.buffer);
+      const catalog = lines.length > 0 ? await storage.findCatalogCandidates(lines.map(line => line.text)) : [];
+      res.json(extractLabelFields(lines, catalog));
+    } catch (err) {
+      if (err instanceof InvalidPhotoError) {
+        return res.status(400).json({ message: err.message });
+      }
+      console.error("Failed to scan label:", err);
+      res.status(500).json({ message: "Failed to scan label" });
+    }
+  });
+
+  // Get the label photos of a wine
+  app.get("/api/wines/:id/photos", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid wine ID" });
+      }
+
+      const userId = req.user.claims.sub;
+      const photos = await storage.getWinePhotos(id, userId);
+      res.json(photos);
+    } catch (err) {
+      console.error("Failed to fetch photos:", err);
+      res.status(500).json({ message: "Failed to fetch photos" });
+    }
+  });
+
+  // Upload a photo of the front or back label as multipart form data, replacing any photo of that side
+  app.post("/api/wines/:id/photos", isAuthenticated, uploadPhoto, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid wine ID" });
+      }
+
+      const side = req.body?.side ?? PhotoSide.FRONT;
+      if (!isPhotoSide(side)) {
+        return res.status(400).json({ message: "Invalid photo side" });
+      }
+      if (!req.file) {
+        return res.status(400).json({ message: "Expected a photo" });
+      }
+
+      const userId = req.user.claims.sub;
+      const stored = await storePhoto(req.file.buffer);
+      const saved = await storage.saveWinePhoto(id, side, stored, userId);
+      if (!saved) {
+        await removePhotos([stored.key]);
+        return res.status(404).json({ message: "Wine not found" });
+      }
+
+      if (saved.replaced) {
+        await removePhotos(await storage.getUnusedPhotoKeys([saved.replaced.key]));
+      }
+      res.status(201).json(saved.photo);
+    } catch (err) {
+      if (err instanceof InvalidPhotoError) {
+        return res.status(400).json({ message: err.message });
+      }
+      console.error("Failed to upload photo:", err);
+      res.status(500).json({ message: "Failed to upload photo" });
+    }
+  });
+
+  // Remove the photo of one side of a wine's label
+  app.delete("/api/wines/:id/photos/:side", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid wine ID" });
+      }
+      if (!isPhotoSide(req.params.side)) {
+        return res.status(400).json({ message: "Invalid photo side" });
+      }
+
+      const userId = req.user.claims.sub;
+      const deleted = await storage.deleteWinePhoto(id, req.params.side, userId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Photo not found" });
+      }
+
+      await removePhotos(await storage.getUnusedPhotoKeys([deleted.key]));
+      res.status(204).send();
+    } catch (err) {
+      console.error("Failed to delete photo:", err);
+      res.status(500).json({ message: "Failed to delete photo" });
+    }
+  });
+
+  // Serve a photo, or its thumbnail, to the user it belongs to
+  const servePhoto = (thumbnail: boolean) => async (req: any, res: express.Response) => {
+    try {
+      const userId = req.user.claims.sub;
+      const photo = await storage.getPhotoByKey(req.params.key, userId);
+      const data = photo && await readPhoto(photo.key, thumbnail);
+      if (!data) {
+        return res.status(404).json({ message: "Photo not found" });
+      }
+
+      // The files behind a key never change
+      res.set("Cache-Control", "private, max-age=31536000, immutable");
+      res.type("image/jpeg").send(data);
+    } catch (err) {
+      console.error("Failed to fetch photo:", err);
+      res.status(500).json({ message: "Failed to fetch photo" });
+    }
+  };
+  app.get("/api/photos/:key", isAuthenticated, servePhoto(false));
+  app.get("/api/photos/:key/thumbnail", isAuthenticated, servePhoto(true));
+
+  // Backup API Routes
+  // Download everything the user has as a zip archive with a JSON manifest
+  app.get("/api/backup", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const data = await storage.getBackupData(userId);
+      data.files = await readPhotoFiles(data.tables.winePhotos.map(photo => photo.key as string));
+      const archive = await createBackupArchive(data);
+      res.attachment(`cellars-backup-${new Date().toISOString().slice(0, 10)}.zip`);
+      res.type("application/zip").send(archive);
+    } catch (err) {
+      console.error("Failed to create backup:", err);
+      res.status(500).json({ message: "Failed to create backup" });
+    }
+  });
+
+  // Restore a backup archive, replacing the account's data or merging into it
+  app.post("/api/backup/restore", isAuthenticated, express.raw({ type: ["application/zip", "application/octet-stream"], limit: "100mb" }), async (req: any, res) => {
+    try {
+      const mode = req.query.mode ?? RestoreMode.MERGE;
+      if (mode !== RestoreMode.REPLACE && mode !== RestoreMode.MERGE) {
+        return res.status(400).json({ message: "Invalid restore mode" });
+      }
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ message: "Expected a backup archive" });
+      }
+
+      let data;
+      try {
+        data = await readBackupArchive(req.body);
+      } catch (err) {
+        return res.status(400).json({ message: `Invalid backup: ${err instanceof Error ? err.message : String(err)}` });
+      }
+
+      const userId = req.user.claims.sub;
+      const photoKeys = renewPhotoKeys(data);
+      const previousKeys = await storage.getPhotoKeys(userId);
+      const result = await storage.restoreBackup(data, mode, userId);
+
+      // Only the files of photos that were restored are written back, and replaced photos are removed
+      const restoredKeys = await storage.getPhotoKeys(userId);
+      await writePhotoFiles(data.files ?? {}, Array.from(photoKeys.entries()).filter(([, key]) => restoredKeys.includes(key)));
+      await removePhotos(await storage.getUnusedPhotoKeys(previousKeys));
+      res.json(result);
+    } catch (err) {
+      if (err instanceof BackupRestoreError) {
+        return res.status(400).json({ message: err.message });
+      }
+      console.error("Failed to restore backup:", err);
+      res.status(500).json({ message: "Failed to restore backup" });
+    }
+  });
+
+  // Catalog Link API Routes
+  // The catalog entry a wine is linked to, with the values re-syncing would give its fields
+  app.get("/api/wines/:id/catalog", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid wine ID" });
+      }
+
+      const userId = req.user.claims.sub;
+      const wine = await storage.getWineById(id, userId);
+      if (!wine) {
+        return res.status(404).json({ message: "Wine not found or not owned by user" });
+      }
+      const entry = wine.catalogId !== null ? await storage.getCatalogEntry(wine.catalogId) : undefined;
+      if (!entry) {
+        return res.status(404).json({ message: "Wine is not linked to the catalog" });
+      }
+
+      const link: CatalogLink = { entry, values: getCatalogValues(entry) };
+      res.json(link);
+    } catch (err) {
+      console.error("Failed to fetch catalog link:", err);
+      res.status(500).json({ message: "Failed to fetch catalog link" });
+    }
+  });
+
+  // Copy the chosen fields from the linked catalog entry onto the wine
+  app.post("/api/wines/:id/catalog/sync", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid wine ID" });
+      }
+
+      const expectedVersion = parseIfMatch(req.get("If-Match"));
+      if (Number.isNaN(expectedVersion)) {
+        return res.status(400).json({ message: "Invalid If-Match header" });
+      }
+
+      const parseResult = catalogSyncSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          message: "Invalid sync request",
+          errors: parseResult.error.format()
+        });
+      }
+
+      const userId = req.user.claims.sub;
+      const wine = await storage.getWineById(id, userId);
+      if (!wine) {
+        return res.status(404).json({ message: "Wine not found or not owned by user" });
+      }
+      const entry = wine.catalogId !== null ? await storage.getCatalogEntry(wine.catalogId) : undefined;
+      if (!entry) {
+        return res.status(400).json({ message: "Wine is not linked to the catalog" });
+      }
+
+      // Fields the catalog has no value for are left as they are
+      const values = getCatalogValues(entry);
+      const patch = Object.fromEntries(
+        parseResult.data.fields.filter(field => values[field] !== undefined).map(field => [field, values[field]]),
+      ) as Partial<InsertWine>;
+      const updated = Object.keys(patch).length > 0
+        ? await storage.updateWine(id, patch, userId, expectedVersion)
+        : wine;
+      if (!updated) {
+        return res.status(404).json({ message: "Wine not found or not owned by user" });
+      }
+
+      res.set("ETag", versionETag(updated.version));
+      res.json(updated);
+    } catch (err) {
+      if (err instanceof VersionConflictError) {
+        res.set("ETag", versionETag(err.current.version));
+        return res.status(409).json({ message: err.message, current: err.current });
+      }
+      console.error("Failed to sync wine with catalog:", err);
+      res.status(500).json({ message: "Failed to sync wine with catalog" });
+    }
+  });
+
+  // Catalog entries the background matcher suggests for an unlinked wine
+  app.get("/api/wines/:id/catalog-suggestions", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid wine ID" });
+      }
+
+      const userId = req.user.claims.sub;
+      const suggestions = await storage.getCatalogSuggestions(id, userId);
+      res.json(suggestions);
+    } catch (err) {
+      console.error("Failed to fetch catalog suggestions:", err);
+      res.status(500).json({ message: "Failed to fetch catalog suggestions" });
+    }
+  });
+
+  // Turn down a suggested link. Accepting one is done by setting the wine's catalogId.
+  app.post("/api/wines/:id/catalog-suggestions/:catalogId/dismiss", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const catalogId = parseInt(req.params.catalogId);
+      if (isNaN(id) || isNaN(catalogId)) {
+        return res.status(400).json({ message: "Invalid wine or catalog ID" });
+      }
+
+      const userId = req.user.claims.sub;
+      const dismissed = await storage.dismissCatalogSuggestion(id, catalogId, userId);
+      if (!dismissed) {
+        return res.status(404).json({ message: "Suggestion not found" });
+      }
+      res.status(204).send();
+    } catch (err) {
+      console.error("Failed to dismiss catalog suggestion:", err);
+      res.status(500).json({ message: "Failed to dismiss catalog suggestion" });
+    }
+  });
+
+  // Wine Catalog API Routes
+  // Search wine catalog
+  app.get("/api/catalog/search", async (req, res) => {
+    try {
+      const query = req.query.q as string || "";
+      const results = await storage.searchWineCatalog(query);
+      res.json(results);
+    } catch (err) {
+      res.status(500).json({ message: "Failed to search wine catalog" });
+    }
+  });
+
+  // Look up a scanned barcode in the user's collection and in the catalog
+  app.get("/api/catalog/barcode/:code", isAuthenticated, async (req: any, res) => {
+    try {
+      const barcode = normalizeBarcode(req.params.code);
+      if (!barcode) {
+        return res.status(400).json({ message: "Invalid barcode" });
+      }
+
+      const userId = req.user.claims.sub;
+      const [wine, catalog] = await Promise.all([
+        storage.getWineByBarcode(barcode, userId),
+        storage.getCatalogEntryByBarcode(barcode),
+      ]);
+      const lookup: BarcodeLookup = { barcode, wine: wine ?? null, catalog: catalog ?? null };
+      res.json(lookup);
+    } catch (err) {
+      console.error("Failed to look up barcode:", err);
+      res.status(500).json({ message: "Failed to look up barcode" });
+    }
+  });
+
+  // Get all catalog entries
+  app.get("/api/catalog", async (req, res) => {
+    try {
+      const catalog = await storage.getWineCatalog();
+      res.json(catalog);
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch wine catalog" });
+    }
+  });
+
+  // Admin Catalog API Routes
+  // A page of catalog entries, optionally searched, for the admin console
+  app.get("/api/admin/catalog", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const query = req.query.q as string || "";
+      const page = req.query.page ? parseInt(req.query.page as string) : 1;
+      const pageSize = req.query.pageSize ? parseInt(req.query.pageSize as string) : CATALOG_PAGE_SIZE;
+      if (isNaN(page) || page < 1 || isNaN(pageSize) || pageSize < 1 || pageSize > 100) {
+        return res.status(400).json({ message: "Invalid page" });
+      }
+
+      res.json(await storage.getCatalogPage(query, page, pageSize));
+    } catch (err) {
+      console.error("Failed to fetch catalog page:", err);
+      res.status(500).json({ message: "Failed to fetch wine catalog" });
+    }
+  });
+
+  // Add a catalog entry
+  app.post("/api/admin/catalog", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const parseResult = insertWineCatalogSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          message: "Invalid catalog entry",
+          errors: parseResult.error.format()
+        });
+      }
+
+      const userId = req.user.claims.sub;
+      const entry = await storage.addCatalogEntry(parseResult.data, userId);
+      res.status(201).json(entry);
+    } catch (err) {
+      console.error("Failed to add catalog entry:", err);
+      res.status(500).json({ message: "Failed to add catalog entry" });
+    }
+  });
+
+  // Every batch of catalog changes, newest first
+  app.get("/api/admin/catalog/batches", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      res.json(await storage.getCatalogBatches());
+    } catch (err) {
+      console.error("Failed to fetch catalog batches:", err);
+      res.status(500).json({ message: "Failed to fetch catalog history" });
+    }
+  });
+
+  // The entries that differ between two versions of the catalog, from 0 for before any batch
+  app.get("/api/admin/catalog/batches/diff", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const from = parseInt(req.query.from as string);
+      const to = parseInt(req.query.to as string);
+      if (isNaN(from) || isNaN(to) || from < 0 || to <= from) {
+        return res.status(400).json({ message: "Invalid versions" });
+      }
+
+      res.json(await storage.getCatalogDiff(from, to));
+    } catch (err) {
+      console.error("Failed to diff catalog batches:", err);
+      res.status(500).json({ message: "Failed to compare catalog versions" });
+    }
+  });
+
+  // Undoes a batch, as far as later changes and linked wines allow
+  app.post("/api/admin/catalog/batches/:id/rollback", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid batch ID" });
+      }
+
+      const userId = req.user.claims.sub;
+      const result = await storage.rollbackCatalogBatch(id, userId);
+      if (!result) {
+        return res.status(404).json({ message: "Batch not found" });
+      }
+      res.json(result);
+    } catch (err) {
+      if (err instanceof CatalogBatchStateError) {
+        return res.status(409).json({ message: err.message });
+      }
+      console.error("Failed to roll back catalog batch:", err);
+      res.status(500).json({ message: "Failed to roll back catalog batch" });
+    }
+  });
+
+  // Adds and updates catalog entries from the mapped rows of a file read by /api/wines/import/parse.
+  // A dry run reports what would change without changing it.
+  app.post("/api/admin/catalog/import", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const parseResult = catalogImportSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          message: "Invalid import",
+          errors: parseResult.error.format()
+        });
+      }
+
+      const userId = req.user.claims.sub;
+      const dryRun = parseResult.data.dryRun ?? false;
+      const rows = previewCatalogImport(parseResult.data, await storage.getWineCatalog());
+      const batch = dryRun ? null : await storage.importCatalogEntries(planCatalogImport(rows), userId);
+      res.json(reportCatalogImport(rows, dryRun, batch?.id ?? null));
+    } catch (err) {
+      console.error("Failed to import catalog:", err);
+      res.status(500).json({ message: "Failed to import catalog" });
+    }
+  });
+
+  // Correct a catalog entry
+  app.patch("/api/admin/catalog/:id", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid catalog ID" });
+      }
+
+      const parseResult = updateWineCatalogSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          message: "Invalid catalog entry",
+          errors: parseResult.error.format()
+        });
+      }
+
+      const userId = req.user.claims.sub;
+      const entry = await storage.updateCatalogEntry(id, parseResult.data, userId);
+      if (!entry) {
+        return res.status(404).json({ message: "Catalog entry not found" });
+      }
+      res.json(entry);
+    } catch (err) {
+      console.error("Failed to update catalog entry:", err);
+      res.status(500).json({ message: "Failed to update catalog entry" });
+    }
+  });
+
+  // Delete a catalog entry. Wines linked to it are kept, unlinked.
+  app.delete("/api/admin/catalog/:id", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid catalog ID" });
+      }
+
+      const userId = req.user.claims.sub;
+      const deleted = await storage.deleteCatalogEntry(id, userId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Catalog entry not found" });
+      }
+      res.status(204).send();
+    } catch (err) {
+      console.error("Failed to delete catalog entry:", err);
+      res.status(500).json({ message: "Failed to delete catalog entry" });
     }
   });
   
@@ -1,22 +1,290 @@
 import { 
   wines, 
   wineCatalog, 
+  catalogSuggestions,
+  CatalogSuggestionStatus,
+  catalogBatches,
+  catalogBatchRows,
+  CatalogBatchKind,
+  CATALOG_IMPORT_FIELDS,
   users,
+  wineVintages,
+  bottles,
+  stockMovements,
+  tastingNotes,
+  winePhotos,
+  PhotoSide,
+  purchases,
+  cellars,
+  racks,
+  rackSlots,
+  stocktakes,
+  stocktakeLines,
+  StocktakeStatus,
+  marketValues,
+  StockMovementType,
+  BottleStatus,
+  IN_STOCK_BOTTLE_STATUSES,
+  DEFAULT_VOLUME_ML,
   type Wine, 
+  type WineRecord,
+  type WineVintage,
+  type InsertWineVintage,
   type InsertWine, 
   type WineCatalog, 
   type InsertWineCatalog,
+  type UpdateWineCatalog,
+  type CatalogPage,
+  type CatalogBatch,
+  type CatalogBatchKindType,
+  type CatalogBatchRow,
+  type CatalogBatchSummary,
+  type CatalogDiff,
+  type CatalogDiffEntry,
+  type CatalogRollbackResult,
+  type CatalogSuggestion,
+  type CatalogSuggestionRecord,
   type VintageStock,
+  type StockEntry,
+  type Bottle,
+  type AddBottles,
+  type UpdateBottle,
+  type TrackBottles,
+  type BottleStatusType,
+  type StockMovementTypeValue,
+  type StockMovement,
+  type InsertStockMovement,
+  type StockAdjustment,
+  type StockTotals,
+  type Purchase,
+  type InsertPurchase,
+  type PurchaseSummary,
+  type Cellar,
+  type CellarWithStock,
+  type InsertCellar,
+  type UpdateCellar,
+  type TransferStock,
+  type Rack,
+  type RackSlot,
+  type RackWithSlots,
+  type InsertRack,
+  type UpdateRack,
+  type AssignRackSlot,
+  type Stocktake,
+  type StocktakeLine,
+  type StocktakeWithLines,
+  type StocktakeSummary,
+  type StartStocktake,
+  type StocktakeCount,
+  type MarketValue,
+  type InsertMarketValue,
+  type TastingNote,
+  type InsertTastingNote,
+  type UpdateTastingNote,
+  type WinePhoto,
+  type PhotoSideType,
   type User,
-  type UpsertUser
+  type UpsertUser,
+  type UserPreferences,
+  RatingScale,
+  RestoreMode,
+  userPreferencesSchema,
+  type RestoreModeType,
+  type RestoreResult
 } from "@shared/schema";
-import fs from 'fs';
-import { createReadStream } from 'fs';
-import path from 'path';
-import { parse } from 'csv-parse';
 import { db } from './db';
-import { pool } from './db';
-import { eq, or, sql, and, ilike } from 'drizzle-orm';
+import type { MarketValueImport, ValuationInputs } from './valuation';
+import type { ImportedWine } from './wine-import';
+import type { CatalogImportPlan } from './catalog-import';
+import { BACKUP_TABLES, getBackupColumns, type BackupData, type BackupRow } from './backup';
+import type { StoredPhoto } from './photos';
+import { getPhotoUrl, getThumbnailUrl } from '@shared/photos';
+import { eq, or, sql, and, desc, asc, inArray, gt, lte, isNull, type SQL } from 'drizzle-orm';
+import { unionAll, type AnyPgColumn } from 'drizzle-orm/pg-core';
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type DbExecutor = typeof db | DbTransaction;
+
+// Thrown when a movement would take a wine's stock below zero
+export class InsufficientStockError extends Error {
+  constructor(public available: number) {
+    super(`Not enough stock: only ${available} available`);
+    this.name = "InsufficientStockError";
+  }
+}
+
+// Thrown when a wine was changed since the version the client last saw
+export class VersionConflictError extends Error {
+  constructor(public current: Wine) {
+    super("Wine has been modified by someone else");
+    this.name = "VersionConflictError";
+  }
+}
+
+// Thrown when a cellar does not exist or belongs to someone else
+export class CellarNotFoundError extends Error {
+  constructor(public cellarId: number) {
+    super(`Cellar ${cellarId} not found`);
+    this.name = "CellarNotFoundError";
+  }
+}
+
+// Thrown when a wine is linked to a catalog entry that does not exist
+export class CatalogEntryNotFoundError extends Error {
+  constructor(public catalogId: number) {
+    super(`Catalog entry ${catalogId} not found`);
+    this.name = "CatalogEntryNotFoundError";
+  }
+}
+
+// Thrown when deleting a cellar that still holds bottles
+export class CellarInUseError extends Error {
+  constructor(public bottles: number) {
+    super(`Cellar still holds ${bottles} bottle${bottles !== 1 ? "s" : ""}; move them out before deleting it`);
+    this.name = "CellarInUseError";
+  }
+}
+
+// Thrown when a slot is outside its rack, or would hold something that is not the user's
+export class InvalidRackSlotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidRackSlotError";
+  }
+}
+
+// Thrown when a stocktake cannot change in its current state, e.g. counting into an applied one
+export class StocktakeStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StocktakeStateError";
+  }
+}
+
+// Thrown when a catalog batch cannot be rolled back, because it already has been
+export class CatalogBatchStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CatalogBatchStateError";
+  }
+}
+
+// Thrown when a backup holds data that cannot be restored, such as rows that break a
+// constraint or stock movements that take stock below zero
+export class BackupRestoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackupRestoreError";
+  }
+}
+
+// Postgres rejects rows that break a constraint with a class 23 error, and values a column
+// cannot hold with a class 22 one
+const isInvalidDataError = (err: unknown) => {
+  const code = (err as { code?: unknown } | null)?.code;
+  return typeof code === "string" && (code.startsWith("22") || code.startsWith("23"));
+};
+
+// A change to one catalog entry, to record in a batch
+type CatalogChange = Omit<CatalogBatchRow, "id" | "batchId">;
+
+// Whether two images of an entry have the same values
+const sameCatalogEntry = (a: WineCatalog, b: WineCatalog) =>
+  CATALOG_IMPORT_FIELDS.every(field => (a[field] ?? null) === (b[field] ?? null));
+
+// An entry's values without its id, to write back
+const catalogValues = ({ id, ...values }: WineCatalog): InsertWineCatalog => values;
+
+// Most entries a catalog search returns
+const CATALOG_SEARCH_LIMIT = 50;
+// Most entries found for each text matched against the catalog, and how many texts are searched
+// in one statement
+const CATALOG_CANDIDATE_LIMIT = 10;
+const CATALOG_CANDIDATE_BATCH = 100;
+
+// Searched catalog columns, with how much a match in each counts towards an entry's relevance
+const CATALOG_SEARCH_WEIGHTS: [AnyPgColumn, number][] = [
+  [wineCatalog.name, 1],
+  [wineCatalog.producer, 0.8],
+  [wineCatalog.region, 0.6],
+  [wineCatalog.country, 0.5],
+  [wineCatalog.category, 0.4],
+];
+
+// Text as it is searched, in lower case and without accents. Columns are indexed on the same
+// expression by 0019_catalog_search.
+const searchable = (value: AnyPgColumn | string) => sql`f_unaccent(lower(coalesce(${value}, '')))`;
+
+// Catalog entries with the query in their name, producer, region, country or category, ignoring
+// accents. Words a letter or two off still match, through pg_trgm's word similarity.
+const catalogSearchCondition = (query: string): SQL | undefined => {
+  const pattern = `%${query.replace(/[\\%_]/g, "\\$&")}%`;
+  return or(...CATALOG_SEARCH_WEIGHTS.map(([column]) =>
+    sql`(${searchable(column)} like ${searchable(pattern)} or ${searchable(query)} <% ${searchable(column)})`));
+};
+
+// How well an entry matches the query, from 0 to 1: its best matching column, by weight
+const catalogSearchRelevance = (query: string): SQL<number> =>
+  sql<number>`greatest(${sql.join(CATALOG_SEARCH_WEIGHTS.map(([column, weight]) =>
+    sql`word_similarity(${searchable(query)}, ${searchable(column)}) * ${sql.raw(weight.toString())}`), sql`, `)})`;
+
+// Target totals used when a client sets stock directly instead of sending movements
+export interface StockTarget {
+  stockLevel?: number;
+  vintageStocks?: VintageStock[];
+}
+
+// The unit stock is kept in: one vintage (null for non-vintage) in one bottle format and cellar
+interface StockBucket {
+  vintage: number | null;
+  volumeMl: number;
+  cellarId: number | null;
+}
+
+type BucketChange = StockBucket & { delta: number };
+
+const toBucket = (source: { vintage?: number | null; volumeMl?: number; cellarId?: number | null }): StockBucket => ({
+  vintage: source.vintage ?? null,
+  volumeMl: source.volumeMl ?? DEFAULT_VOLUME_ML,
+  cellarId: source.cellarId ?? null,
+});
+
+const sameBucket = (a: StockBucket, b: StockBucket) =>
+  a.vintage === b.vintage && a.volumeMl === b.volumeMl && a.cellarId === b.cellarId;
+
+// Splits a change to the total across buckets into per-bucket changes. Additions go to
+// the only bucket held, or the fallback; removals take from the standard format first.
+const spreadDelta = (entries: StockEntry[], fallback: StockBucket, delta: number): BucketChange[] => {
+  const existing = entries.filter(e => e.stock > 0);
+  if (delta >= 0) {
+    const target = existing.length === 1 ? existing[0] : fallback;
+    return [{ vintage: target.vintage, volumeMl: target.volumeMl, cellarId: target.cellarId, delta }];
+  }
+
+  const ordered = [...existing].sort((a, b) =>
+    Number(b.volumeMl === DEFAULT_VOLUME_ML) - Number(a.volumeMl === DEFAULT_VOLUME_ML));
+  const changes: BucketChange[] = [];
+  let remaining = -delta;
+  for (const entry of ordered) {
+    const take = Math.min(entry.stock, remaining);
+    if (take > 0) {
+      changes.push({ vintage: entry.vintage, volumeMl: entry.volumeMl, cellarId: entry.cellarId, delta: -take });
+      remaining -= take;
+    }
+  }
+  // Anything left over is more than is held and will be rejected by the ledger
+  if (remaining > 0) {
+    changes.push({ ...fallback, delta: -remaining });
+  }
+  return changes;
+};
+
+const toStockTotals = (wine: Wine): StockTotals => ({
+  stockLevel: wine.stockLevel || 0,
+  vintageStocks: wine.vintageStocks || [],
+  stockEntries: wine.stockEntries || [],
+  version: wine.version,
+});
 
 // Interface for storage operations
 export interface IStorage {
@@ -24,26 +292,120 @@ export interface IStorage {
   // (IMPORTANT) these user operations are mandatory for Replit Auth.
   getUser(id: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
+  updateUserPreferences(id: string, preferences: UserPreferences): Promise<User | undefined>;
 
   // Wine inventory management (user-specific)
   getWines(userId: string): Promise<Wine[]>;
   getWineById(id: number, userId: string): Promise<Wine | undefined>;
   getWinesByCategory(category: string, userId: string): Promise<Wine[]>;
+  getWineByBarcode(barcode: string, userId: string): Promise<Wine | undefined>;
   addWine(wine: InsertWine, userId: string): Promise<Wine>;
-  updateWine(id: number, wine: Partial<InsertWine>, userId: string): Promise<Wine | undefined>;
-  deleteWine(id: number, userId: string): Promise<boolean>;
+  importWines(imported: ImportedWine[], userId: string): Promise<{ created: number; updated: number }>;
+  updateWine(id: number, wine: Partial<InsertWine>, userId: string, expectedVersion?: number): Promise<Wine | undefined>;
+  deleteWine(id: number, userId: string, expectedVersion?: number): Promise<boolean>;
+
+  // Wine vintages (user-specific)
+  getWineVintages(wineId: number, userId: string): Promise<WineVintage[]>;
+  upsertWineVintage(wineId: number, vintage: InsertWineVintage, userId: string): Promise<WineVintage | undefined>;
+  removeWineVintage(wineId: number, vintage: number, userId: string): Promise<boolean>;
+
+  // Cellars (user-specific)
+  getCellars(userId: string): Promise<CellarWithStock[]>;
+  addCellar(cellar: InsertCellar, userId: string): Promise<Cellar>;
+  updateCellar(id: number, patch: UpdateCellar, userId: string): Promise<Cellar | undefined>;
+  deleteCellar(id: number, userId: string): Promise<boolean>;
+
+  // Racks and their slots (user-specific)
+  getRacks(userId: string): Promise<RackWithSlots[]>;
+  addRack(rack: InsertRack, userId: string): Promise<Rack>;
+  updateRack(id: number, patch: UpdateRack, userId: string): Promise<Rack | undefined>;
+  deleteRack(id: number, userId: string): Promise<boolean>;
+  assignRackSlot(rackId: number, row: number, column: number, slot: AssignRackSlot, userId: string): Promise<RackSlot | null | undefined>;
+  clearRackSlot(rackId: number, row: number, column: number, userId: string): Promise<boolean>;
+
+  // Individual bottles (user-specific)
+  getBottles(wineId: number, userId: string): Promise<Bottle[]>;
+  addBottles(wineId: number, input: AddBottles, userId: string): Promise<Bottle[] | undefined>;
+  trackBottles(wineId: number, input: TrackBottles, userId: string): Promise<Bottle[] | undefined>;
+  updateBottle(wineId: number, bottleId: number, patch: UpdateBottle, userId: string): Promise<Bottle | undefined>;
+
+  // Stock movement ledger (user-specific)
+  getStockMovements(wineId: number, userId: string): Promise<StockMovement[]>;
+  recordStockMovement(wineId: number, movement: InsertStockMovement, userId: string): Promise<Wine | undefined>;
+  adjustStock(wineId: number, adjustment: StockAdjustment, userId: string): Promise<StockTotals | undefined>;
+  reconcileStock(wineId: number, target: StockTarget, userId: string, reason?: string): Promise<Wine | undefined>;
+  transferStock(wineId: number, transfer: TransferStock, userId: string): Promise<StockTotals | undefined>;
+
+  // Stocktakes (user-specific)
+  getStocktakes(userId: string): Promise<StocktakeSummary[]>;
+  getStocktake(id: number, userId: string): Promise<StocktakeWithLines | undefined>;
+  startStocktake(input: StartStocktake, userId: string): Promise<Stocktake>;
+  recordStocktakeCount(id: number, count: StocktakeCount, userId: string): Promise<StocktakeLine | undefined>;
+  applyStocktake(id: number, userId: string): Promise<StocktakeWithLines | undefined>;
+  discardStocktake(id: number, userId: string): Promise<Stocktake | undefined>;
+
+  // Purchases (user-specific)
+  getPurchases(wineId: number, userId: string): Promise<Purchase[]>;
+  addPurchase(wineId: number, purchase: InsertPurchase, userId: string): Promise<Purchase | undefined>;
+  getPurchaseSummary(userId: string): Promise<PurchaseSummary[]>;
+
+  // Market values (user-specific)
+  getMarketValues(wineId: number, userId: string): Promise<MarketValue[]>;
+  addMarketValue(wineId: number, value: InsertMarketValue, userId: string): Promise<MarketValue | undefined>;
+  importMarketValues(entries: MarketValueImport[], userId: string): Promise<number>;
+  deleteMarketValue(wineId: number, valueId: number, userId: string): Promise<boolean>;
+  getValuationInputs(userId: string): Promise<ValuationInputs>;
+
+  // Tasting notes (user-specific)
+  getTastingNotes(wineId: number, userId: string): Promise<TastingNote[]>;
+  addTastingNote(wineId: number, note: InsertTastingNote, userId: string): Promise<TastingNote | undefined>;
+  updateTastingNote(wineId: number, noteId: number, patch: UpdateTastingNote, userId: string): Promise<TastingNote | undefined>;
+  deleteTastingNote(wineId: number, noteId: number, userId: string): Promise<boolean>;
+
+  // Label photos (user-specific)
+  getWinePhotos(wineId: number, userId: string): Promise<WinePhoto[]>;
+  getPhotoByKey(key: string, userId: string): Promise<WinePhoto | undefined>;
+  getPhotoKeys(userId: string): Promise<string[]>;
+  saveWinePhoto(wineId: number, side: PhotoSideType, photo: StoredPhoto, userId: string): Promise<{ photo: WinePhoto; replaced?: WinePhoto } | undefined>;
+  deleteWinePhoto(wineId: number, side: PhotoSideType, userId: string): Promise<WinePhoto | undefined>;
+  getUnusedPhotoKeys(keys: string[]): Promise<string[]>;
+
+  // Backups (user-specific)
+  getBackupData(userId: string): Promise<BackupData>;
+  restoreBackup(data: BackupData, mode: RestoreModeType, userId: string): Promise<RestoreResult>;
 
   // Wine catalog management (from CSV) - shared across all users
   getWineCatalog(): Promise<WineCatalog[]>;
   searchWineCatalog(query: string): Promise<WineCatalog[]>;
+  findCatalogCandidates(texts: string[]): Promise<WineCatalog[]>;
+  getCatalogEntryByBarcode(barcode: string): Promise<WineCatalog | undefined>;
+  getCatalogEntry(id: number): Promise<WineCatalog | undefined>;
+
+  // Catalog administration (admins only)
+  getCatalogPage(query: string, page: number, pageSize: number): Promise<CatalogPage>;
+  addCatalogEntry(entry: InsertWineCatalog, userId: string): Promise<WineCatalog>;
+  updateCatalogEntry(id: number, patch: UpdateWineCatalog, userId: string): Promise<WineCatalog | undefined>;
+  deleteCatalogEntry(id: number, userId: string): Promise<boolean>;
+  importCatalogEntries(plan: CatalogImportPlan, userId: string): Promise<CatalogBatch | null>;
+
+  // Catalog history: every change above is recorded as a batch, which can be rolled back (admins only)
+  getCatalogBatches(): Promise<CatalogBatchSummary[]>;
+  getCatalogDiff(from: number, to: number): Promise<CatalogDiff>;
+  rollbackCatalogBatch(batchId: number, userId: string): Promise<CatalogRollbackResult | undefined>;
+
+  // Suggested catalog links for unlinked wines (user-specific, filled in by the background matcher)
+  getCatalogSuggestions(wineId: number, userId: string): Promise<CatalogSuggestion[]>;
+  dismissCatalogSuggestion(wineId: number, catalogId: number, userId: string): Promise<boolean>;
+  getWinesToMatch(afterId: number, limit: number): Promise<WineRecord[]>;
+  saveCatalogSuggestions(suggestions: Omit<CatalogSuggestionRecord, "status" | "createdAt">[]): Promise<number>;
 }
 
 export class DatabaseStorage implements IStorage {
   constructor() {
     console.log("DatabaseStorage initialized with database connection");
 
-    // Note: Wine catalog loading is now done manually via API endpoint
-    // to prevent overwriting existing data on startup
+    // Note: the wine catalog is not loaded on startup, so existing entries are never overwritten.
+    // Admins manage it through the /api/admin/catalog routes.
   }
 
   // User operations
@@ -68,43 +430,54 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async updateUserPreferences(id: string, preferences: UserPreferences): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ ...preferences, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
   // Wine inventory management (user-specific)
   async getWines(userId: string): Promise<Wine[]> {
-    return await db.select().from(wines).where(eq(wines.userId, userId));
+    const rows = await db.select().from(wines).where(eq(wines.userId, userId));
+    return await this.withVintages(db, rows);
   }
 
   async getWineById(id: number, userId: string): Promise<Wine | undefined> {
-    const [wine] = await db.select().from(wines).where(and(eq(wines.id, id), eq(wines.userId, userId)));
+    const rows = await db.select().from(wines).where(and(eq(wines.id, id), eq(wines.userId, userId)));
+    const [wine] = await this.withVintages(db, rows);
     return wine;
   }
 
   async getWinesByCategory(category: string, userId: string): Promise<Wine[]> {
-    return await db.select().from(wines).where(and(eq(wines.category, category), eq(wines.userId, userId)));
+    const rows = await db.select().from(wines).where(and(eq(wines.category, category), eq(wines.userId, userId)));
+    return await this.withVintages(db, rows);
+  }
+
+  // The oldest wine with the barcode, should more than one have it
+  async getWineByBarcode(barcode: string, userId: string): Promise<Wine | undefined> {
+    const rows = await db
+      .select()
+      .from(wines)
+      .where(and(eq(wines.barcode, barcode), eq(wines.userId, userId)))
+      .orderBy(asc(wines.id))
+      .limit(1);
+    const [wine] = await this.withVintages(db, rows);
+    return wine;
   }
 
   async addWine(wine: InsertWine, userId: string): Promise<Wine> {
     try {
       console.log('Adding wine with data:', wine);
-      
-      // Create the wine data object with proper types
-      const wineInsert = {
-        name: wine.name,
-        category: wine.category,
-        wine: wine.wine,
-        subType: wine.subType,
-        producer: wine.producer,
-        region: wine.region,
-        country: wine.country,
-        stockLevel: wine.stockLevel || 0,
-        vintageStocks: wine.vintageStocks || [],
-        imageUrl: wine.imageUrl,
-        rating: wine.rating,
-        notes: wine.notes,
-        userId: userId
-      };
 
-      const [newWine] = await db.insert(wines).values(wineInsert).returning();
-      return newWine;
+      return await db.transaction(async (tx) => {
+        const newWine = await this.insertWine(tx, wine, userId);
+        const rows = await tx.select().from(wines).where(eq(wines.id, newWine.id));
+        const [hydrated] = await this.withVintages(tx, rows);
+        return hydrated;
+      });
     } catch (error) {
       console.error('Error adding wine:', error);
       console.error('Wine data that failed:', wine);
@@ -112,7 +485,126 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async updateWine(id: number, wine: Partial<InsertWine>, userId: string): Promise<Wine | undefined> {
+  // Adds imported wines and their stock in one transaction, so a failed import adds nothing.
+  // Wines with a wineId are existing wines that only get the stock added.
+  async importWines(imported: ImportedWine[], userId: string): Promise<{ created: number; updated: number }> {
+    return await db.transaction(async (tx) => {
+      let created = 0;
+      let updated = 0;
+
+      for (const entry of imported) {
+        let wineId: number;
+        if (entry.wineId !== null) {
+          const existing = await this.lockWine(tx, entry.wineId, userId);
+          if (!existing) continue;
+          wineId = existing.id;
+          updated++;
+        } else {
+          // Stock is added below, one purchase movement per row
+          wineId = (await this.insertWine(tx, { ...entry.wine, stockLevel: 0, vintageStocks: null }, userId)).id;
+          created++;
+        }
+
+        for (const stock of entry.stock) {
+          await this.applyMovement(tx, wineId, {
+            type: StockMovementType.PURCHASE,
+            delta: stock.stock,
+            vintage: stock.vintage,
+            volumeMl: stock.volumeMl,
+            cellarId: stock.cellarId,
+            reason: "Imported",
+          }, userId);
+        }
+        if (entry.stock.length > 0) {
+          await this.recomputeStock(tx, wineId);
+        }
+        await this.saveDrinkingWindows(tx, wineId, entry.windows);
+      }
+
+      return { created, updated };
+    });
+  }
+
+  // Inserts a wine with its initial stock, purchase details, drinking windows and first tasting note
+  private async insertWine(tx: DbTransaction, wine: InsertWine, userId: string): Promise<WineRecord> {
+    // Stock starts empty and is filled by the initial purchase movements below
+    const wineInsert = {
+      name: wine.name,
+      category: wine.category,
+      wine: wine.wine,
+      subType: wine.subType,
+      producer: wine.producer,
+      region: wine.region,
+      country: wine.country,
+      barcode: wine.barcode,
+      catalogId: wine.catalogId ?? null,
+      stockLevel: 0,
+      imageUrl: wine.imageUrl,
+      rating: wine.rating,
+      userId: userId
+    };
+
+    if (wine.cellarId != null) {
+      await this.findCellar(tx, wine.cellarId, userId);
+    }
+    if (wine.catalogId != null) {
+      await this.findCatalogEntry(tx, wine.catalogId);
+    }
+
+    const [newWine] = await tx.insert(wines).values(wineInsert).returning();
+
+    const vintageStocks = (wine.vintageStocks || []) as VintageStock[];
+    const initialMovements = vintageStocks.length > 0
+      ? vintageStocks.map(vs => ({ vintage: vs.vintage, volumeMl: vs.volumeMl, delta: vs.stock }))
+      : [{ vintage: null, volumeMl: wine.volumeMl, delta: wine.stockLevel || 0 }];
+
+    const movements = initialMovements
+      .filter(m => m.delta > 0)
+      .map(m => ({
+        wineId: newWine.id,
+        userId,
+        type: StockMovementType.PURCHASE,
+        delta: m.delta,
+        vintage: m.vintage,
+        volumeMl: m.volumeMl ?? DEFAULT_VOLUME_ML,
+        cellarId: wine.cellarId ?? null,
+        reason: "Initial stock",
+      }));
+
+    if (movements.length > 0) {
+      const inserted = await tx.insert(stockMovements).values(movements).returning();
+      await this.recomputeStock(tx, newWine.id);
+
+      // Purchase details given with the wine are recorded for each bucket of the initial stock
+      if (wine.purchase) {
+        const details = wine.purchase;
+        await tx.insert(purchases).values(inserted.map(m => ({
+          wineId: newWine.id,
+          userId,
+          vintage: m.vintage,
+          volumeMl: m.volumeMl,
+          quantity: m.delta,
+          ...details,
+          stockMovementId: m.id,
+        })));
+      }
+    }
+
+    await this.saveDrinkingWindows(tx, newWine.id, vintageStocks);
+
+    // Notes given when adding a wine become its first tasting note
+    if (wine.notes && wine.notes.trim()) {
+      await tx.insert(tastingNotes).values({
+        wineId: newWine.id,
+        userId,
+        vintage: vintageStocks.length === 1 ? vintageStocks[0].vintage : null,
+        comments: wine.notes.trim(),
+      });
+    }
+    return newWine;
+  }
+
+  async updateWine(id: number, wine: Partial<InsertWine>, userId: string, expectedVersion?: number): Promise<Wine | undefined> {
     try {
       console.log('=== UPDATE WINE START ===');
       console.log('Wine ID:', id);
@@ -120,109 +612,1994 @@ export class DatabaseStorage implements IStorage {
       console.log('Wine data:', JSON.stringify(wine, null, 2));
       
       // Use direct SQL update which we know works
-      let updateParts: string[] = [];
-      let params: any[] = [];
-      let paramIndex = 1;
+      const updateParts: SQL[] = [];
       
       if (wine.name !== undefined) {
-        updateParts.push(`name = $${paramIndex++}`);
-        params.push(wine.name);
+        updateParts.push(sql`name = ${wine.name}`);
       }
       if (wine.category !== undefined) {
-        updateParts.push(`category = $${paramIndex++}`);
-        params.push(wine.category);
+        updateParts.push(sql`category = ${wine.category}`);
       }
       if (wine.wine !== undefined) {
-        updateParts.push(`wine = $${paramIndex++}`);
-        params.push(wine.wine);
+        updateParts.push(sql`wine = ${wine.wine}`);
       }
       if (wine.subType !== undefined) {
-        updateParts.push(`sub_type = $${paramIndex++}`);
-        params.push(wine.subType);
+        updateParts.push(sql`sub_type = ${wine.subType}`);
       }
       if (wine.producer !== undefined) {
-        updateParts.push(`producer = $${paramIndex++}`);
-        params.push(wine.producer);
+        updateParts.push(sql`producer = ${wine.producer}`);
       }
       if (wine.region !== undefined) {
-        updateParts.push(`region = $${paramIndex++}`);
-        params.push(wine.region);
+        updateParts.push(sql`region = ${wine.region}`);
       }
       if (wine.country !== undefined) {
-        updateParts.push(`country = $${paramIndex++}`);
-        params.push(wine.country);
+        updateParts.push(sql`country = ${wine.country}`);
       }
-      if (wine.stockLevel !== undefined) {
-        updateParts.push(`stock_level = $${paramIndex++}`);
-        params.push(wine.stockLevel);
+      if (wine.barcode !== undefined) {
+        updateParts.push(sql`barcode = ${wine.barcode}`);
       }
-      if (wine.vintageStocks !== undefined) {
-        updateParts.push(`vintage_stocks = $${paramIndex++}::json`);
-        params.push(JSON.stringify(wine.vintageStocks));
+      if (wine.catalogId !== undefined) {
+        updateParts.push(sql`catalog_id = ${wine.catalogId}`);
       }
       if (wine.imageUrl !== undefined) {
-        updateParts.push(`image_url = $${paramIndex++}`);
-        params.push(wine.imageUrl);
+        updateParts.push(sql`image_url = ${wine.imageUrl}`);
+        // The thumbnail only goes with the image it was made from
+        updateParts.push(sql`thumbnail_url = CASE WHEN image_url IS NOT DISTINCT FROM ${wine.imageUrl} THEN thumbnail_url END`);
       }
       if (wine.rating !== undefined) {
-        updateParts.push(`rating = $${paramIndex++}`);
-        params.push(wine.rating);
+        updateParts.push(sql`rating = ${wine.rating}`);
       }
       if (wine.notes !== undefined) {
-        updateParts.push(`notes = $${paramIndex++}`);
-        params.push(wine.notes);
+        updateParts.push(sql`notes = ${wine.notes}`);
       }
       
-      if (updateParts.length === 0) {
-        console.log('No fields to update');
-        const result = await pool.query('SELECT * FROM wines WHERE id = $1 AND user_id = $2', [id, userId]);
-        return result.rows[0] as Wine;
-      }
-      
-      params.push(id, userId);
-      const query = `UPDATE wines SET ${updateParts.join(', ')} WHERE id = $${paramIndex} AND user_id = $${paramIndex + 1} RETURNING *`;
-      
-      console.log('Executing query:', query);
-      console.log('With params:', params);
-      
-      const result = await pool.query(query, params);
-      console.log('Update result:', result.rows[0]);
-      
-      return result.rows[0] as Wine;
+      return await db.transaction(async (tx) => {
+        const current = await this.lockWine(tx, id, userId);
+        if (!current) {
+          return undefined;
+        }
+        
+        if (expectedVersion !== undefined && current.version !== expectedVersion) {
+          const [hydrated] = await this.withVintages(tx, [current]);
+          throw new VersionConflictError(hydrated);
+        }
+        
+        if (wine.catalogId != null) {
+          await this.findCatalogEntry(tx, wine.catalogId);
+          // Once linked, other suggestions for the wine no longer apply
+          await tx
+            .delete(catalogSuggestions)
+            .where(and(eq(catalogSuggestions.wineId, id), eq(catalogSuggestions.status, CatalogSuggestionStatus.PENDING)));
+        }
+        
+        if (updateParts.length > 0) {
+          updateParts.push(sql`version = version + 1`);
+          await tx.execute(sql`UPDATE wines SET ${sql.join(updateParts, sql`, `)} WHERE id = ${id} AND user_id = ${userId}`);
+        }
+        
+        // Stock totals are never written directly - they are reconciled through the ledger
+        if (wine.stockLevel !== undefined || wine.vintageStocks !== undefined) {
+          await this.applyStockTarget(tx, id, {
+            stockLevel: wine.stockLevel ?? undefined,
+            vintageStocks: (wine.vintageStocks ?? undefined) as VintageStock[] | undefined,
+          }, userId, "Manual adjustment");
+          await this.saveDrinkingWindows(tx, id, (wine.vintageStocks ?? []) as VintageStock[]);
+        }
+        
+        const rows = await tx.select().from(wines).where(eq(wines.id, id));
+        const [updated] = await this.withVintages(tx, rows);
+        return updated;
+      });
     } catch (error) {
       console.error('Error updating wine:', error);
       throw error;
     }
   }
 
-  async deleteWine(id: number, userId: string): Promise<boolean> {
-    const result = await db.delete(wines).where(and(eq(wines.id, id), eq(wines.userId, userId)));
+  async deleteWine(id: number, userId: string, expectedVersion?: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const current = await this.lockWine(tx, id, userId);
+      if (!current) {
+        return false;
+      }
+      
+      if (expectedVersion !== undefined && current.version !== expectedVersion) {
+        const [hydrated] = await this.withVintages(tx, [current]);
+        throw new VersionConflictError(hydrated);
+      }
+      
+      const result = await tx.delete(wines).where(and(eq(wines.id, id), eq(wines.userId, userId)));
+      return (result.rowCount || 0) > 0;
+    });
+  }
+
+  // Stock movement ledger (user-specific)
+  async getStockMovements(wineId: number, userId: string): Promise<StockMovement[]> {
+    return await db
+      .select()
+      .from(stockMovements)
+      .where(and(eq(stockMovements.wineId, wineId), eq(stockMovements.userId, userId)))
+      .orderBy(desc(stockMovements.createdAt), desc(stockMovements.id));
+  }
+
+  async recordStockMovement(wineId: number, movement: InsertStockMovement, userId: string): Promise<Wine | undefined> {
+    return await db.transaction(async (tx) => {
+      const wine = await this.lockWine(tx, wineId, userId);
+      if (!wine) {
+        return undefined;
+      }
+
+      await this.applyMovement(tx, wineId, movement, userId);
+      return await this.recomputeStock(tx, wineId);
+    });
+  }
+
+  // Without a cellar the change is spread over the cellars holding the vintage and format.
+  // Changes are recorded as adjustments unless the caller gives another type, such as a purchase.
+  async adjustStock(wineId: number, adjustment: StockAdjustment, userId: string): Promise<StockTotals | undefined> {
+    const wine = await db.transaction(async (tx) => {
+      const locked = await this.lockWine(tx, wineId, userId);
+      if (!locked) {
+        return undefined;
+      }
+
+      const bucket = toBucket(adjustment);
+      const changes = adjustment.cellarId !== undefined
+        ? [{ ...bucket, delta: adjustment.delta }]
+        : spreadDelta(
+            (await this.getStockTotals(tx, wineId)).filter(t => t.vintage === bucket.vintage && t.volumeMl === bucket.volumeMl),
+            bucket,
+            adjustment.delta,
+          );
+
+      for (const change of changes) {
+        await this.applyMovement(tx, wineId, {
+          type: adjustment.type ?? StockMovementType.ADJUSTMENT,
+          delta: change.delta,
+          vintage: change.vintage,
+          volumeMl: change.volumeMl,
+          cellarId: change.cellarId,
+          reason: adjustment.reason ?? null,
+        }, userId);
+      }
+      return await this.recomputeStock(tx, wineId);
+    });
+
+    return wine ? toStockTotals(wine) : undefined;
+  }
+
+  // Moves bottles between cellars as a pair of transfer movements, so the wine's totals stay
+  // the same. Bottle records move with the stock.
+  async transferStock(wineId: number, transfer: TransferStock, userId: string): Promise<StockTotals | undefined> {
+    const wine = await db.transaction(async (tx) => {
+      const locked = await this.lockWine(tx, wineId, userId);
+      if (!locked) {
+        return undefined;
+      }
+
+      const from = toBucket({ ...transfer, cellarId: transfer.fromCellarId });
+      const to = toBucket({ ...transfer, cellarId: transfer.toCellarId });
+      const cellarName = async (cellarId: number | null) =>
+        cellarId === null ? "unassigned" : (await this.findCellar(tx, cellarId, userId)).name;
+      const [fromName, toName] = [await cellarName(from.cellarId), await cellarName(to.cellarId)];
+
+      const counts = await this.getBottleCounts(tx, wineId);
+      const fromTracked = counts.some(c => sameBucket(c, from));
+      const toTracked = counts.some(c => sameBucket(c, to));
+
+      // Bottle records moving in need the stock already there to have records too
+      if (fromTracked && !toTracked) {
+        await this.ensureBottlesTracked(tx, wineId, to, userId);
+      }
+
+      await this.insertMovement(tx, wineId, {
+        type: StockMovementType.TRANSFER,
+        delta: -transfer.quantity,
+        ...from,
+        reason: `Transfer to ${toName}`,
+      }, userId);
+      await this.insertMovement(tx, wineId, {
+        type: StockMovementType.TRANSFER,
+        delta: transfer.quantity,
+        ...to,
+        reason: `Transfer from ${fromName}`,
+      }, userId);
+
+      if (fromTracked) {
+        const moving = await tx
+          .select({ id: bottles.id })
+          .from(bottles)
+          .where(and(
+            eq(bottles.wineId, wineId),
+            this.bottleBucketCondition(from),
+            inArray(bottles.status, IN_STOCK_BOTTLE_STATUSES),
+          ))
+          .orderBy(sql`case when ${bottles.status} = ${BottleStatus.IN_CELLAR} then 0 else 1 end`, asc(bottles.id))
+          .limit(transfer.quantity);
+        await tx
+          .update(bottles)
+          .set({ cellarId: to.cellarId, updatedAt: new Date() })
+          .where(inArray(bottles.id, moving.map(b => b.id)));
+      } else if (toTracked) {
+        await tx.insert(bottles).values(
+          Array.from({ length: transfer.quantity }, () => ({ wineId, userId, ...to }))
+        );
+      }
+
+      return await this.recomputeStock(tx, wineId);
+    });
+
+    return wine ? toStockTotals(wine) : undefined;
+  }
+
+  // Turns directly-set totals into adjustment movements so the ledger stays complete
+  async reconcileStock(wineId: number, target: StockTarget, userId: string, reason = "Manual adjustment"): Promise<Wine | undefined> {
+    return await db.transaction(async (tx) => {
+      const wine = await this.lockWine(tx, wineId, userId);
+      if (!wine) {
+        return undefined;
+      }
+
+      const updated = await this.applyStockTarget(tx, wineId, target, userId, reason);
+      if (updated) {
+        return updated;
+      }
+
+      const [hydrated] = await this.withVintages(tx, [wine]);
+      return hydrated;
+    });
+  }
+
+  // Writes the adjustment movements needed to reach the target totals. Vintage entries
+  // without a format set the total across that vintage's formats. Targets are totals
+  // across cellars, so changes are spread over the cellars holding the stock.
+  // Returns undefined when the wine already matches the target.
+  private async applyStockTarget(tx: DbTransaction, wineId: number, target: StockTarget, userId: string, reason: string): Promise<Wine | undefined> {
+    const current = await this.getStockTotals(tx, wineId);
+    const sumStock = (entries: { stock: number }[]) => entries.reduce((sum, e) => sum + e.stock, 0);
+    const adjustments: BucketChange[] = [];
+
+    if (target.vintageStocks !== undefined) {
+      const targets = target.vintageStocks;
+      const vintages = new Set<number>([
+        ...targets.map(vs => vs.vintage),
+        ...current.filter(t => t.vintage !== null).map(t => t.vintage as number),
+      ]);
+
+      vintages.forEach(vintage => {
+        const existing = current.filter(t => t.vintage === vintage);
+        const wanted = targets.filter(vs => vs.vintage === vintage);
+
+        if (wanted.some(vs => vs.volumeMl !== undefined)) {
+          // Per-format targets: formats that are left out are emptied
+          const formats = new Set<number>([
+            ...wanted.map(vs => vs.volumeMl ?? DEFAULT_VOLUME_ML),
+            ...existing.map(t => t.volumeMl),
+          ]);
+          formats.forEach(volumeMl => {
+            const want = sumStock(wanted.filter(vs => (vs.volumeMl ?? DEFAULT_VOLUME_ML) === volumeMl));
+            const held = existing.filter(t => t.volumeMl === volumeMl);
+            adjustments.push(...spreadDelta(held, toBucket({ vintage, volumeMl }), want - sumStock(held)));
+          });
+        } else {
+          adjustments.push(...spreadDelta(existing, toBucket({ vintage }), sumStock(wanted) - sumStock(existing)));
+        }
+      });
+    } else if (target.stockLevel !== undefined) {
+      const nonVintage = current.filter(t => t.vintage === null);
+      adjustments.push(...spreadDelta(nonVintage, toBucket({}), target.stockLevel - sumStock(current)));
+    }
+
+    const changes = adjustments.filter(a => a.delta !== 0);
+    if (changes.length === 0) {
+      return undefined;
+    }
+
+    for (const change of changes) {
+      await this.applyMovement(tx, wineId, {
+        type: StockMovementType.ADJUSTMENT,
+        delta: change.delta,
+        vintage: change.vintage,
+        volumeMl: change.volumeMl,
+        cellarId: change.cellarId,
+        reason,
+      }, userId);
+    }
+    return await this.recomputeStock(tx, wineId);
+  }
+
+  // Stores the drinking windows given alongside vintage stock. Entries without a window are left alone.
+  private async saveDrinkingWindows(tx: DbTransaction, wineId: number, entries: VintageStock[]): Promise<void> {
+    const windows = new Map<number, { drinkFrom: number | null; drinkBy: number | null }>();
+    entries
+      .filter(vs => vs.drinkFrom !== undefined || vs.drinkBy !== undefined)
+      .forEach(vs => windows.set(vs.vintage, { drinkFrom: vs.drinkFrom ?? null, drinkBy: vs.drinkBy ?? null }));
+
+    if (windows.size === 0) {
+      return;
+    }
+
+    await tx
+      .insert(wineVintages)
+      .values(Array.from(windows.entries()).map(([vintage, window]) => ({ wineId, vintage, ...window })))
+      .onConflictDoUpdate({
+        target: [wineVintages.wineId, wineVintages.vintage],
+        set: { drinkFrom: sql`excluded.drink_from`, drinkBy: sql`excluded.drink_by` },
+      });
+  }
+
+  private async findCellar(executor: DbExecutor, cellarId: number, userId: string): Promise<Cellar> {
+    const [cellar] = await executor
+      .select()
+      .from(cellars)
+      .where(and(eq(cellars.id, cellarId), eq(cellars.userId, userId)));
+    if (!cellar) {
+      throw new CellarNotFoundError(cellarId);
+    }
+    return cellar;
+  }
+
+  private async findCatalogEntry(executor: DbExecutor, catalogId: number): Promise<WineCatalog> {
+    const [entry] = await executor.select().from(wineCatalog).where(eq(wineCatalog.id, catalogId));
+    if (!entry) {
+      throw new CatalogEntryNotFoundError(catalogId);
+    }
+    return entry;
+  }
+
+  // Records changes to the catalog as the next batch
+  private async recordCatalogBatch(
+    tx: DbTransaction,
+    kind: CatalogBatchKindType,
+    userId: string,
+    changes: CatalogChange[],
+    rollbackOf: number | null = null,
+  ): Promise<CatalogBatch> {
+    const [batch] = await tx.insert(catalogBatches).values({ kind, userId, rollbackOf }).returning();
+    for (let i = 0; i < changes.length; i += 500) {
+      await tx.insert(catalogBatchRows).values(changes.slice(i, i + 500).map(change => ({ ...change, batchId: batch.id })));
+    }
+    return batch;
+  }
+
+  // Locks the wine row for the rest of the transaction so concurrent movements are serialized
+  private async lockWine(tx: DbTransaction, wineId: number, userId: string): Promise<WineRecord | undefined> {
+    const [wine] = await tx
+      .select()
+      .from(wines)
+      .where(and(eq(wines.id, wineId), eq(wines.userId, userId)))
+      .for("update");
+    return wine;
+  }
+
+  // Records a movement and keeps any per-bottle records of the affected bucket in step.
+  // Returns the id of the new movement.
+  private async applyMovement(tx: DbTransaction, wineId: number, movement: InsertStockMovement, userId: string): Promise<number> {
+    const movementId = await this.insertMovement(tx, wineId, movement, userId);
+    await this.syncTrackedBottles(tx, wineId, movement, userId);
+    return movementId;
+  }
+
+  // Inserts the movement only if the affected bucket stays at or above zero.
+  // The check and the insert are a single statement, and callers hold the wine row lock.
+  private async insertMovement(tx: DbTransaction, wineId: number, movement: InsertStockMovement, userId: string): Promise<number> {
+    const bucket = toBucket(movement);
+    if (bucket.cellarId !== null) {
+      await this.findCellar(tx, bucket.cellarId, userId);
+    }
+    const result = await tx.execute(sql`
+      INSERT INTO stock_movements (wine_id, user_id, type, delta, vintage, volume_ml, cellar_id, reason)
+      SELECT ${wineId}, ${userId}, ${movement.type}, ${movement.delta}, ${bucket.vintage}::integer, ${bucket.volumeMl}, ${bucket.cellarId}::integer, ${movement.reason ?? null}
+      WHERE (
+        SELECT coalesce(sum(delta), 0) FROM stock_movements
+        WHERE wine_id = ${wineId}
+          AND vintage IS NOT DISTINCT FROM ${bucket.vintage}::integer
+          AND volume_ml = ${bucket.volumeMl}
+          AND cellar_id IS NOT DISTINCT FROM ${bucket.cellarId}::integer
+      ) + ${movement.delta} >= 0
+      RETURNING id
+    `);
+
+    if (result.rows.length === 0) {
+      const totals = await this.getStockTotals(tx, wineId);
+      throw new InsufficientStockError(totals.find(t => sameBucket(t, bucket))?.stock || 0);
+    }
+    return (result.rows[0] as { id: number }).id;
+  }
+
+  private async getStockTotals(tx: DbTransaction, wineId: number): Promise<StockEntry[]> {
+    return await tx
+      .select({
+        vintage: stockMovements.vintage,
+        volumeMl: stockMovements.volumeMl,
+        cellarId: stockMovements.cellarId,
+        stock: sql<number>`coalesce(sum(${stockMovements.delta}), 0)::int`,
+      })
+      .from(stockMovements)
+      .where(eq(stockMovements.wineId, wineId))
+      .groupBy(stockMovements.vintage, stockMovements.volumeMl, stockMovements.cellarId);
+  }
+
+  // The stock of each bucket of the given wines. Buckets tracked per bottle take their stock from
+  // the bottle records and the others from the ledger, so every total a wine reports agrees.
+  private async getBucketStock(executor: DbExecutor, wineIds: number[]): Promise<(StockEntry & { wineId: number })[]> {
+    const ledgerTotals = await executor
+      .select({
+        wineId: stockMovements.wineId,
+        vintage: stockMovements.vintage,
+        volumeMl: stockMovements.volumeMl,
+        cellarId: stockMovements.cellarId,
+        stock: sql<number>`coalesce(sum(${stockMovements.delta}), 0)::int`,
+      })
+      .from(stockMovements)
+      .where(inArray(stockMovements.wineId, wineIds))
+      .groupBy(stockMovements.wineId, stockMovements.vintage, stockMovements.volumeMl, stockMovements.cellarId);
+
+    const bottleCounts = await executor
+      .select({
+        wineId: bottles.wineId,
+        vintage: bottles.vintage,
+        volumeMl: bottles.volumeMl,
+        cellarId: bottles.cellarId,
+        stock: sql<number>`(count(*) filter (where ${inArray(bottles.status, IN_STOCK_BOTTLE_STATUSES)}))::int`,
+      })
+      .from(bottles)
+      .where(inArray(bottles.wineId, wineIds))
+      .groupBy(bottles.wineId, bottles.vintage, bottles.volumeMl, bottles.cellarId);
+
+    const bucketKey = (e: StockBucket & { wineId: number }) => `${e.wineId}|${e.vintage}|${e.volumeMl}|${e.cellarId}`;
+    const tracked = new Set(bottleCounts.map(bucketKey));
+    return [...ledgerTotals.filter(t => !tracked.has(bucketKey(t))), ...bottleCounts];
+  }
+
+  // Recomputes the wine's stockLevel and its vintage stock rows and bumps the version
+  private async recomputeStock(tx: DbTransaction, wineId: number): Promise<Wine> {
+    const totals = await this.getBucketStock(tx, [wineId]);
+    const stockLevel = totals.reduce((sum, t) => sum + t.stock, 0);
+
+    // Vintages that dropped out of the ledger totals keep their row with zero stock
+    await tx.update(wineVintages).set({ stock: 0 }).where(eq(wineVintages.wineId, wineId));
+
+    // A vintage row holds the bottle count across all of its formats
+    const byVintage = new Map<number, number>();
+    totals.forEach(t => {
+      if (t.vintage !== null) {
+        byVintage.set(t.vintage, (byVintage.get(t.vintage) || 0) + t.stock);
+      }
+    });
+
+    const vintageTotals = Array.from(byVintage.entries()).filter(([, stock]) => stock !== 0);
+    if (vintageTotals.length > 0) {
+      await tx
+        .insert(wineVintages)
+        .values(vintageTotals.map(([vintage, stock]) => ({ wineId, vintage, stock })))
+        .onConflictDoUpdate({
+          target: [wineVintages.wineId, wineVintages.vintage],
+          set: { stock: sql`excluded.stock` },
+        });
+    }
+
+    const rows = await tx
+      .update(wines)
+      .set({ stockLevel, version: sql`${wines.version} + 1` })
+      .where(eq(wines.id, wineId))
+      .returning();
+    const [updated] = await this.withVintages(tx, rows);
+    return updated;
+  }
+
+  // Attaches the in-stock vintages and per-format stock to wine rows.
+  // vintageStocks keeps the shape the API has always returned.
+  private async withVintages(executor: DbExecutor, rows: WineRecord[]): Promise<Wine[]> {
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const wineIds = rows.map(row => row.id);
+    const vintageRows = await executor
+      .select()
+      .from(wineVintages)
+      .where(and(inArray(wineVintages.wineId, wineIds), gt(wineVintages.stock, 0)))
+      .orderBy(wineVintages.vintage);
+
+    // Non-vintage stock and unassigned stock come last, as Postgres sorts nulls
+    const nullsLast = (a: number | null, b: number | null) => a === b ? 0 : a === null ? 1 : b === null ? -1 : a - b;
+    const entryRows = (await this.getBucketStock(executor, wineIds))
+      .filter(e => e.stock > 0)
+      .sort((a, b) => nullsLast(a.vintage, b.vintage) || a.volumeMl - b.volumeMl || nullsLast(a.cellarId, b.cellarId));
+
+    return rows.map(row => ({
+      ...row,
+      vintageStocks: vintageRows
+        .filter(v => v.wineId === row.id)
+        .map(v => ({ vintage: v.vintage, stock: v.stock, drinkFrom: v.drinkFrom, drinkBy: v.drinkBy })),
+      stockEntries: entryRows
+        .filter(e => e.wineId === row.id)
+        .map(e => ({ vintage: e.vintage, volumeMl: e.volumeMl, cellarId: e.cellarId, stock: e.stock })),
+    }));
+  }
+
+  private bottleBucketCondition(bucket: StockBucket): SQL {
+    const vintageCondition = bucket.vintage === null ? isNull(bottles.vintage) : eq(bottles.vintage, bucket.vintage);
+    const cellarCondition = bucket.cellarId === null ? isNull(bottles.cellarId) : eq(bottles.cellarId, bucket.cellarId);
+    return and(vintageCondition, eq(bottles.volumeMl, bucket.volumeMl), cellarCondition)!;
+  }
+
+  // Number of in-stock bottles per bucket, for buckets that are tracked per bottle
+  private async getBottleCounts(tx: DbTransaction, wineId: number): Promise<(StockBucket & { inStock: number })[]> {
+    return await tx
+      .select({
+        vintage: bottles.vintage,
+        volumeMl: bottles.volumeMl,
+        cellarId: bottles.cellarId,
+        inStock: sql<number>`(count(*) filter (where ${inArray(bottles.status, IN_STOCK_BOTTLE_STATUSES)}))::int`,
+      })
+      .from(bottles)
+      .where(eq(bottles.wineId, wineId))
+      .groupBy(bottles.vintage, bottles.volumeMl, bottles.cellarId);
+  }
+
+  // Mirrors a movement onto the bottle records of a tracked bucket: additions create
+  // bottles, removals retire in-stock bottles (opened ones first)
+  private async syncTrackedBottles(tx: DbTransaction, wineId: number, movement: InsertStockMovement, userId: string): Promise<void> {
+    const bucket = toBucket(movement);
+    const [tracked] = await tx
+      .select({ count: sql<number>`count(*)::int` })
+      .from(bottles)
+      .where(and(eq(bottles.wineId, wineId), this.bottleBucketCondition(bucket)));
+
+    if (!tracked || tracked.count === 0) {
+      return;
+    }
+
+    if (movement.delta > 0) {
+      await tx.insert(bottles).values(
+        Array.from({ length: movement.delta }, () => ({ wineId, userId, ...bucket }))
+      );
+      return;
+    }
+
+    const retiring = await tx
+      .select({ id: bottles.id })
+      .from(bottles)
+      .where(and(
+        eq(bottles.wineId, wineId),
+        this.bottleBucketCondition(bucket),
+        inArray(bottles.status, IN_STOCK_BOTTLE_STATUSES),
+      ))
+      .orderBy(sql`case when ${bottles.status} = ${BottleStatus.OPENED} then 0 else 1 end`, asc(bottles.id))
+      .limit(-movement.delta);
+
+    if (retiring.length > 0) {
+      await tx
+        .update(bottles)
+        .set({ status: this.bottleStatusForMovement(movement.type), updatedAt: new Date() })
+        .where(inArray(bottles.id, retiring.map(b => b.id)));
+    }
+  }
+
+  private bottleStatusForMovement(type: string): BottleStatusType {
+    switch (type) {
+      case StockMovementType.CONSUMPTION:
+        return BottleStatus.CONSUMED;
+      case StockMovementType.GIFT:
+        return BottleStatus.GIFTED;
+      default:
+        return BottleStatus.LOST;
+    }
+  }
+
+  private movementTypeForBottleStatus(status: BottleStatusType): StockMovementTypeValue {
+    switch (status) {
+      case BottleStatus.CONSUMED:
+        return StockMovementType.CONSUMPTION;
+      case BottleStatus.GIFTED:
+        return StockMovementType.GIFT;
+      default:
+        return StockMovementType.ADJUSTMENT;
+    }
+  }
+
+  // Creates records for the untracked stock of a bucket so every in-stock bottle has one
+  private async ensureBottlesTracked(tx: DbTransaction, wineId: number, bucket: StockBucket, userId: string): Promise<void> {
+    const counts = await this.getBottleCounts(tx, wineId);
+    if (counts.some(c => sameBucket(c, bucket))) {
+      return;
+    }
+
+    const totals = await this.getStockTotals(tx, wineId);
+    const untracked = totals.find(t => sameBucket(t, bucket))?.stock || 0;
+    if (untracked > 0) {
+      await tx.insert(bottles).values(
+        Array.from({ length: untracked }, () => ({ wineId, userId, ...bucket }))
+      );
+    }
+  }
+
+  // Cellars (user-specific)
+  async getCellars(userId: string): Promise<CellarWithStock[]> {
+    const rows = await db
+      .select()
+      .from(cellars)
+      .where(eq(cellars.userId, userId))
+      .orderBy(asc(cellars.name));
+
+    const counts = await db
+      .select({
+        cellarId: stockMovements.cellarId,
+        bottles: sql<number>`coalesce(sum(${stockMovements.delta}), 0)::int`,
+      })
+      .from(stockMovements)
+      .where(eq(stockMovements.userId, userId))
+      .groupBy(stockMovements.cellarId);
+
+    return rows.map(cellar => ({
+      ...cellar,
+      bottles: counts.find(c => c.cellarId === cellar.id)?.bottles || 0,
+    }));
+  }
+
+  async addCellar(cellar: InsertCellar, userId: string): Promise<Cellar> {
+    const [created] = await db
+      .insert(cellars)
+      .values({ ...cellar, userId })
+      .returning();
+    return created;
+  }
+
+  async updateCellar(id: number, patch: UpdateCellar, userId: string): Promise<Cellar | undefined> {
+    const [updated] = await db
+      .update(cellars)
+      .set({ ...patch, updatedAt: new Date() })
+      .where(and(eq(cellars.id, id), eq(cellars.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  // Cellars can only be deleted once empty, so no stock loses its place silently
+  async deleteCellar(id: number, userId: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [held] = await tx
+        .select({ bottles: sql<number>`coalesce(sum(${stockMovements.delta}), 0)::int` })
+        .from(stockMovements)
+        .where(and(eq(stockMovements.cellarId, id), eq(stockMovements.userId, userId)));
+      if (held && held.bottles > 0) {
+        throw new CellarInUseError(held.bottles);
+      }
+
+      const result = await tx
+        .delete(cellars)
+        .where(and(eq(cellars.id, id), eq(cellars.userId, userId)));
+      return (result.rowCount || 0) > 0;
+    });
+  }
+
+  // Racks and their slots (user-specific)
+  // Slots of bottles that have left the cellar are returned empty, keeping any bin label
+  async getRacks(userId: string): Promise<RackWithSlots[]> {
+    const userRacks = await db
+      .select()
+      .from(racks)
+      .where(eq(racks.userId, userId))
+      .orderBy(asc(racks.name));
+    if (userRacks.length === 0) {
+      return [];
+    }
+
+    const slots = await db
+      .select({
+        slot: rackSlots,
+        wineName: wines.name,
+        category: wines.category,
+        bottleStatus: bottles.status,
+      })
+      .from(rackSlots)
+      .leftJoin(wines, eq(rackSlots.wineId, wines.id))
+      .leftJoin(bottles, eq(rackSlots.bottleId, bottles.id))
+      .where(inArray(rackSlots.rackId, userRacks.map(r => r.id)))
+      .orderBy(asc(rackSlots.row), asc(rackSlots.column));
+
+    const details = slots.map(({ slot, wineName, category, bottleStatus }) => {
+      const gone = slot.bottleId !== null && !IN_STOCK_BOTTLE_STATUSES.includes(bottleStatus as BottleStatusType);
+      return gone
+        ? { ...slot, wineId: null, bottleId: null, vintage: null, volumeMl: null, wineName: null, category: null }
+        : { ...slot, wineName, category };
+    });
+
+    return userRacks.map(rack => ({
+      ...rack,
+      slots: details.filter(d => d.rackId === rack.id && (d.wineId !== null || d.label)),
+    }));
+  }
+
+  async addRack(rack: InsertRack, userId: string): Promise<Rack> {
+    if (rack.cellarId != null) {
+      await this.findCellar(db, rack.cellarId, userId);
+    }
+
+    const [created] = await db
+      .insert(racks)
+      .values({ ...rack, userId })
+      .returning();
+    return created;
+  }
+
+  // A rack can only shrink when the rows and columns it loses are empty
+  async updateRack(id: number, patch: UpdateRack, userId: string): Promise<Rack | undefined> {
+    return await db.transaction(async (tx) => {
+      const [rack] = await tx
+        .select()
+        .from(racks)
+        .where(and(eq(racks.id, id), eq(racks.userId, userId)))
+        .for("update");
+      if (!rack) {
+        return undefined;
+      }
+      if (patch.cellarId != null) {
+        await this.findCellar(tx, patch.cellarId, userId);
+      }
+
+      const rows = patch.rows ?? rack.rows;
+      const columns = patch.columns ?? rack.columns;
+      const [outside] = await tx
+        .select({ count: sql<number>`count(*)::int` })
+        .from(rackSlots)
+        .where(and(
+          eq(rackSlots.rackId, id),
+          or(gt(rackSlots.row, rows), gt(rackSlots.column, columns)),
+        ));
+      if (outside && outside.count > 0) {
+        throw new InvalidRackSlotError(`${outside.count} slot${outside.count !== 1 ? "s are" : " is"} in use outside ${rows} × ${columns}; clear them first`);
+      }
+
+      const [updated] = await tx
+        .update(racks)
+        .set({ ...patch, updatedAt: new Date() })
+        .where(eq(racks.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async deleteRack(id: number, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(racks)
+      .where(and(eq(racks.id, id), eq(racks.userId, userId)));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Replaces what a slot holds. Returns null when the slot ends up with neither contents nor a label,
+  // in which case it is removed, and undefined when the rack does not exist.
+  async assignRackSlot(rackId: number, row: number, column: number, slot: AssignRackSlot, userId: string): Promise<RackSlot | null | undefined> {
+    const [rack] = await db
+      .select()
+      .from(racks)
+      .where(and(eq(racks.id, rackId), eq(racks.userId, userId)));
+    if (!rack) {
+      return undefined;
+    }
+    if (row < 1 || row > rack.rows || column < 1 || column > rack.columns) {
+      throw new InvalidRackSlotError(`Slot ${row}-${column} is outside ${rack.name}`);
+    }
+
+    let contents: Pick<RackSlot, "wineId" | "bottleId" | "vintage" | "volumeMl"> = { wineId: null, bottleId: null, vintage: null, volumeMl: null };
+    if (slot.wineId) {
+      const [wine] = await db
+        .select({ id: wines.id })
+        .from(wines)
+        .where(and(eq(wines.id, slot.wineId), eq(wines.userId, userId)));
+      if (!wine) {
+        throw new InvalidRackSlotError(`Wine ${slot.wineId} not found`);
+      }
+      contents = { wineId: wine.id, bottleId: null, vintage: slot.vintage ?? null, volumeMl: slot.volumeMl ?? null };
+
+      // A bottle brings its own vintage and format
+      if (slot.bottleId) {
+        const [bottle] = await db
+          .select()
+          .from(bottles)
+          .where(and(eq(bottles.id, slot.bottleId), eq(bottles.wineId, wine.id)));
+        if (!bottle) {
+          throw new InvalidRackSlotError(`Bottle ${slot.bottleId} not found`);
+        }
+        contents = { wineId: wine.id, bottleId: bottle.id, vintage: bottle.vintage, volumeMl: bottle.volumeMl };
+      }
+    }
+
+    const label = slot.label || null;
+    if (!contents.wineId && !label) {
+      await this.clearRackSlot(rackId, row, column, userId);
+      return null;
+    }
+
+    const values = {
+      ...contents,
+      label,
+      quantity: contents.bottleId ? 1 : slot.quantity ?? 1,
+      updatedAt: new Date(),
+    };
+    const [saved] = await db
+      .insert(rackSlots)
+      .values({ rackId, row, column, ...values })
+      .onConflictDoUpdate({
+        target: [rackSlots.rackId, rackSlots.row, rackSlots.column],
+        set: values,
+      })
+      .returning();
+    return saved;
+  }
+
+  async clearRackSlot(rackId: number, row: number, column: number, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(rackSlots)
+      .where(and(
+        eq(rackSlots.rackId, rackId),
+        eq(rackSlots.row, row),
+        eq(rackSlots.column, column),
+        inArray(rackSlots.rackId, db.select({ id: racks.id }).from(racks).where(eq(racks.userId, userId))),
+      ));
     return (result.rowCount || 0) > 0;
   }
 
+  // Individual bottles (user-specific)
+  async getBottles(wineId: number, userId: string): Promise<Bottle[]> {
+    return await db
+      .select()
+      .from(bottles)
+      .where(and(eq(bottles.wineId, wineId), eq(bottles.userId, userId)))
+      .orderBy(asc(bottles.vintage), asc(bottles.volumeMl), asc(bottles.id));
+  }
+
+  // Records newly purchased bottles. Existing stock of the same vintage and format is tracked first.
+  async addBottles(wineId: number, input: AddBottles, userId: string): Promise<Bottle[] | undefined> {
+    return await db.transaction(async (tx) => {
+      const wine = await this.lockWine(tx, wineId, userId);
+      if (!wine) {
+        return undefined;
+      }
+
+      const bucket = toBucket(input);
+      await this.ensureBottlesTracked(tx, wineId, bucket, userId);
+      await this.insertMovement(tx, wineId, {
+        type: StockMovementType.PURCHASE,
+        delta: input.count,
+        ...bucket,
+        reason: null,
+      }, userId);
+
+      const added = await tx
+        .insert(bottles)
+        .values(Array.from({ length: input.count }, () => ({
+          wineId,
+          userId,
+          ...bucket,
+          location: input.location ?? null,
+          purchasePrice: input.purchasePrice ?? null,
+          condition: input.condition ?? null,
+          notes: input.notes ?? null,
+        })))
+        .returning();
+
+      await this.recomputeStock(tx, wineId);
+      return added;
+    });
+  }
+
+  // Starts tracking the current stock of a vintage and format as individual bottles
+  async trackBottles(wineId: number, input: TrackBottles, userId: string): Promise<Bottle[] | undefined> {
+    return await db.transaction(async (tx) => {
+      const wine = await this.lockWine(tx, wineId, userId);
+      if (!wine) {
+        return undefined;
+      }
+
+      const bucket = toBucket(input);
+      await this.ensureBottlesTracked(tx, wineId, bucket, userId);
+      return await tx
+        .select()
+        .from(bottles)
+        .where(and(eq(bottles.wineId, wineId), this.bottleBucketCondition(bucket)))
+        .orderBy(asc(bottles.id));
+    });
+  }
+
+  // Updates a single bottle. Status changes in or out of stock are written to the ledger.
+  async updateBottle(wineId: number, bottleId: number, patch: UpdateBottle, userId: string): Promise<Bottle | undefined> {
+    return await db.transaction(async (tx) => {
+      const wine = await this.lockWine(tx, wineId, userId);
+      if (!wine) {
+        return undefined;
+      }
+
+      const [bottle] = await tx
+        .select()
+        .from(bottles)
+        .where(and(eq(bottles.id, bottleId), eq(bottles.wineId, wineId)));
+      if (!bottle) {
+        return undefined;
+      }
+
+      const wasInStock = IN_STOCK_BOTTLE_STATUSES.includes(bottle.status as BottleStatusType);
+      const willBeInStock = patch.status ? IN_STOCK_BOTTLE_STATUSES.includes(patch.status) : wasInStock;
+
+      const [updated] = await tx
+        .update(bottles)
+        .set({ ...patch, updatedAt: new Date() })
+        .where(eq(bottles.id, bottleId))
+        .returning();
+
+      if (wasInStock !== willBeInStock) {
+        await this.insertMovement(tx, wineId, {
+          type: willBeInStock ? StockMovementType.ADJUSTMENT : this.movementTypeForBottleStatus(patch.status!),
+          delta: willBeInStock ? 1 : -1,
+          vintage: bottle.vintage,
+          volumeMl: bottle.volumeMl,
+          cellarId: bottle.cellarId,
+          reason: willBeInStock ? `Bottle #${bottle.id} returned to cellar` : `Bottle #${bottle.id}`,
+        }, userId);
+        await this.recomputeStock(tx, wineId);
+      }
+
+      return updated;
+    });
+  }
+
+  // Wine vintages (user-specific)
+  async getWineVintages(wineId: number, userId: string): Promise<WineVintage[]> {
+    const wine = await this.getWineById(wineId, userId);
+    if (!wine) {
+      return [];
+    }
+
+    return await db
+      .select()
+      .from(wineVintages)
+      .where(eq(wineVintages.wineId, wineId))
+      .orderBy(wineVintages.vintage);
+  }
+
+  // Creates the vintage if needed and sets any drinking window given. A given stock is the
+  // total across formats and is reached through adjustment movements.
+  async upsertWineVintage(wineId: number, vintage: InsertWineVintage, userId: string): Promise<WineVintage | undefined> {
+    return await db.transaction(async (tx) => {
+      const wine = await this.lockWine(tx, wineId, userId);
+      if (!wine) {
+        return undefined;
+      }
+
+      const window = {
+        ...(vintage.drinkFrom !== undefined ? { drinkFrom: vintage.drinkFrom } : {}),
+        ...(vintage.drinkBy !== undefined ? { drinkBy: vintage.drinkBy } : {}),
+      };
+
+      if (Object.keys(window).length > 0) {
+        await tx
+          .insert(wineVintages)
+          .values({ wineId, vintage: vintage.vintage, ...window })
+          .onConflictDoUpdate({ target: [wineVintages.wineId, wineVintages.vintage], set: window });
+
+        // The window is part of the wine as returned by the API, so its version moves on
+        await tx.update(wines).set({ version: sql`${wines.version} + 1` }).where(eq(wines.id, wineId));
+      } else {
+        await tx
+          .insert(wineVintages)
+          .values({ wineId, vintage: vintage.vintage })
+          .onConflictDoNothing();
+      }
+
+      if (vintage.stock !== undefined) {
+        const existing = (await this.getStockTotals(tx, wineId)).filter(t => t.vintage === vintage.vintage);
+        const delta = vintage.stock - existing.reduce((sum, t) => sum + t.stock, 0);
+
+        if (delta !== 0) {
+          for (const change of spreadDelta(existing, toBucket({ vintage: vintage.vintage }), delta)) {
+            await this.applyMovement(tx, wineId, {
+              type: StockMovementType.ADJUSTMENT,
+              delta: change.delta,
+              vintage: change.vintage,
+              volumeMl: change.volumeMl,
+              cellarId: change.cellarId,
+              reason: "Manual adjustment",
+            }, userId);
+          }
+          await this.recomputeStock(tx, wineId);
+        }
+      }
+
+      const [row] = await tx
+        .select()
+        .from(wineVintages)
+        .where(and(eq(wineVintages.wineId, wineId), eq(wineVintages.vintage, vintage.vintage)));
+      return row;
+    });
+  }
+
+  // Removes a vintage, writing off any remaining stock through the ledger first
+  async removeWineVintage(wineId: number, vintage: number, userId: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const wine = await this.lockWine(tx, wineId, userId);
+      if (!wine) {
+        return false;
+      }
+
+      const remaining = (await this.getStockTotals(tx, wineId)).filter(t => t.vintage === vintage && t.stock !== 0);
+
+      if (remaining.length > 0) {
+        for (const entry of remaining) {
+          await this.applyMovement(tx, wineId, {
+            type: StockMovementType.ADJUSTMENT,
+            delta: -entry.stock,
+            vintage,
+            volumeMl: entry.volumeMl,
+            cellarId: entry.cellarId,
+            reason: "Vintage removed",
+          }, userId);
+        }
+        await this.recomputeStock(tx, wineId);
+      }
+
+      const result = await tx
+        .delete(wineVintages)
+        .where(and(eq(wineVintages.wineId, wineId), eq(wineVintages.vintage, vintage)));
+      return (result.rowCount || 0) > 0;
+    });
+  }
+
+  // Stocktakes (user-specific)
+  async getStocktakes(userId: string): Promise<StocktakeSummary[]> {
+    const rows = await db
+      .select({
+        stocktake: stocktakes,
+        lines: sql<number>`count(${stocktakeLines.id})::int`,
+        counted: sql<number>`count(${stocktakeLines.counted})::int`,
+        discrepancies: sql<number>`count(*) filter (where ${stocktakeLines.counted} <> ${stocktakeLines.expected})::int`,
+      })
+      .from(stocktakes)
+      .leftJoin(stocktakeLines, eq(stocktakeLines.stocktakeId, stocktakes.id))
+      .where(eq(stocktakes.userId, userId))
+      .groupBy(stocktakes.id)
+      .orderBy(desc(stocktakes.createdAt));
+
+    return rows.map(({ stocktake, ...progress }) => ({ ...stocktake, ...progress }));
+  }
+
+  async getStocktake(id: number, userId: string): Promise<StocktakeWithLines | undefined> {
+    const [stocktake] = await db
+      .select()
+      .from(stocktakes)
+      .where(and(eq(stocktakes.id, id), eq(stocktakes.userId, userId)));
+    if (!stocktake) {
+      return undefined;
+    }
+
+    const lines = await db
+      .select({
+        line: stocktakeLines,
+        wineName: wines.name,
+        producer: wines.producer,
+        category: wines.category,
+      })
+      .from(stocktakeLines)
+      .innerJoin(wines, eq(stocktakeLines.wineId, wines.id))
+      .where(eq(stocktakeLines.stocktakeId, id))
+      .orderBy(asc(wines.category), asc(wines.name), asc(stocktakeLines.vintage), asc(stocktakeLines.volumeMl));
+
+    return {
+      ...stocktake,
+      lines: lines.map(({ line, ...wine }) => ({ ...line, ...wine })),
+    };
+  }
+
+  // Snapshots the stock held, in one cellar or all of them, as the expected quantities.
+  // Only one stocktake can be in progress at a time.
+  async startStocktake(input: StartStocktake, userId: string): Promise<Stocktake> {
+    return await db.transaction(async (tx) => {
+      const [open] = await tx
+        .select({ id: stocktakes.id })
+        .from(stocktakes)
+        .where(and(eq(stocktakes.userId, userId), eq(stocktakes.status, StocktakeStatus.IN_PROGRESS)));
+      if (open) {
+        throw new StocktakeStateError(`Stocktake #${open.id} is still in progress; apply or discard it first`);
+      }
+      if (input.cellarId != null) {
+        await this.findCellar(tx, input.cellarId, userId);
+      }
+
+      const [stocktake] = await tx
+        .insert(stocktakes)
+        .values({ userId, cellarId: input.cellarId ?? null, notes: input.notes ?? null })
+        .returning();
+
+      const held = await tx
+        .select({
+          wineId: stockMovements.wineId,
+          vintage: stockMovements.vintage,
+          volumeMl: stockMovements.volumeMl,
+          cellarId: stockMovements.cellarId,
+          stock: sql<number>`sum(${stockMovements.delta})::int`,
+        })
+        .from(stockMovements)
+        .where(and(
+          eq(stockMovements.userId, userId),
+          input.cellarId != null ? eq(stockMovements.cellarId, input.cellarId) : undefined,
+        ))
+        .groupBy(stockMovements.wineId, stockMovements.vintage, stockMovements.volumeMl, stockMovements.cellarId)
+        .having(gt(sql`sum(${stockMovements.delta})`, 0));
+
+      if (held.length > 0) {
+        await tx.insert(stocktakeLines).values(held.map(({ stock, ...bucket }) => ({
+          ...bucket,
+          stocktakeId: stocktake.id,
+          expected: stock,
+        })));
+      }
+      return stocktake;
+    });
+  }
+
+  // Records a count. Stock found that was not expected gets a line of its own.
+  async recordStocktakeCount(id: number, count: StocktakeCount, userId: string): Promise<StocktakeLine | undefined> {
+    const stocktake = await this.findOpenStocktake(db, id, userId);
+    if (!stocktake) {
+      return undefined;
+    }
+
+    const [wine] = await db
+      .select({ id: wines.id })
+      .from(wines)
+      .where(and(eq(wines.id, count.wineId), eq(wines.userId, userId)));
+    if (!wine) {
+      return undefined;
+    }
+
+    const bucket = toBucket(count);
+    const counted = { counted: count.counted, countedAt: new Date() };
+    const [updated] = await db
+      .update(stocktakeLines)
+      .set(counted)
+      .where(and(
+        eq(stocktakeLines.stocktakeId, id),
+        eq(stocktakeLines.wineId, wine.id),
+        sql`${stocktakeLines.vintage} IS NOT DISTINCT FROM ${bucket.vintage}::integer`,
+        eq(stocktakeLines.volumeMl, bucket.volumeMl),
+        sql`${stocktakeLines.cellarId} IS NOT DISTINCT FROM ${bucket.cellarId}::integer`,
+      ))
+      .returning();
+    if (updated) {
+      return updated;
+    }
+
+    if (bucket.cellarId !== null) {
+      await this.findCellar(db, bucket.cellarId, userId);
+    }
+    const [created] = await db
+      .insert(stocktakeLines)
+      .values({ ...bucket, ...counted, stocktakeId: id, wineId: wine.id, expected: 0 })
+      .returning();
+    return created;
+  }
+
+  // Adjusts stock by the difference between what was counted and what was expected when the
+  // stocktake started, so movements recorded while counting are kept. Uncounted lines are left alone.
+  async applyStocktake(id: number, userId: string): Promise<StocktakeWithLines | undefined> {
+    const applied = await db.transaction(async (tx) => {
+      const stocktake = await this.findOpenStocktake(tx, id, userId, true);
+      if (!stocktake) {
+        return false;
+      }
+
+      const lines = await tx
+        .select()
+        .from(stocktakeLines)
+        .where(eq(stocktakeLines.stocktakeId, id));
+      const discrepancies = lines.filter(l => l.counted !== null && l.counted !== l.expected);
+
+      const wineIds = Array.from(new Set(discrepancies.map(l => l.wineId)));
+      for (const wineId of wineIds) {
+        if (!await this.lockWine(tx, wineId, userId)) continue;
+        for (const line of discrepancies.filter(l => l.wineId === wineId)) {
+          await this.applyMovement(tx, wineId, {
+            type: StockMovementType.ADJUSTMENT,
+            delta: line.counted! - line.expected,
+            vintage: line.vintage,
+            volumeMl: line.volumeMl,
+            cellarId: line.cellarId,
+            reason: `Stocktake #${id}`,
+          }, userId);
+        }
+        await this.recomputeStock(tx, wineId);
+      }
+
+      await tx
+        .update(stocktakes)
+        .set({ status: StocktakeStatus.APPLIED, appliedAt: new Date() })
+        .where(eq(stocktakes.id, id));
+      return true;
+    });
+
+    return applied ? await this.getStocktake(id, userId) : undefined;
+  }
+
+  async discardStocktake(id: number, userId: string): Promise<Stocktake | undefined> {
+    const stocktake = await this.findOpenStocktake(db, id, userId);
+    if (!stocktake) {
+      return undefined;
+    }
+
+    const [discarded] = await db
+      .update(stocktakes)
+      .set({ status: StocktakeStatus.DISCARDED })
+      .where(eq(stocktakes.id, id))
+      .returning();
+    return discarded;
+  }
+
+  // Finds a stocktake that can still change, throwing if it has already been applied or discarded
+  private async findOpenStocktake(executor: DbExecutor, id: number, userId: string, lock = false): Promise<Stocktake | undefined> {
+    const query = executor
+      .select()
+      .from(stocktakes)
+      .where(and(eq(stocktakes.id, id), eq(stocktakes.userId, userId)));
+    const [stocktake] = lock ? await query.for("update") : await query;
+    if (stocktake && stocktake.status !== StocktakeStatus.IN_PROGRESS) {
+      throw new StocktakeStateError(`Stocktake #${id} has already been ${stocktake.status}`);
+    }
+    return stocktake;
+  }
+
+  // Purchases (user-specific)
+  async getPurchases(wineId: number, userId: string): Promise<Purchase[]> {
+    return await db
+      .select()
+      .from(purchases)
+      .where(and(eq(purchases.wineId, wineId), eq(purchases.userId, userId)))
+      .orderBy(desc(purchases.purchasedAt), desc(purchases.id));
+  }
+
+  // Records a purchase and adds its bottles to stock through a purchase movement
+  async addPurchase(wineId: number, purchase: InsertPurchase, userId: string): Promise<Purchase | undefined> {
+    return await db.transaction(async (tx) => {
+      const wine = await this.lockWine(tx, wineId, userId);
+      if (!wine) {
+        return undefined;
+      }
+
+      const bucket = toBucket(purchase);
+      const stockMovementId = await this.applyMovement(tx, wineId, {
+        type: StockMovementType.PURCHASE,
+        delta: purchase.quantity,
+        ...bucket,
+        reason: purchase.merchant ? `Purchased from ${purchase.merchant}` : null,
+      }, userId);
+
+      // The cellar is kept on the movement; the purchase records what was bought
+      const { cellarId, ...details } = purchase;
+      const [created] = await tx
+        .insert(purchases)
+        .values({ ...details, vintage: bucket.vintage, volumeMl: bucket.volumeMl, wineId, userId, stockMovementId })
+        .returning();
+
+      await this.recomputeStock(tx, wineId);
+      return created;
+    });
+  }
+
+  // Spend and average cost per bottle by category. Currencies are kept apart as they are not converted.
+  async getPurchaseSummary(userId: string): Promise<PurchaseSummary[]> {
+    const spend = sql`sum(${purchases.quantity} * ${purchases.unitPrice})`;
+    return await db
+      .select({
+        category: wines.category,
+        currency: purchases.currency,
+        bottles: sql<number>`sum(${purchases.quantity})::int`,
+        totalSpend: sql<string>`(${spend})::numeric(12, 2)::text`,
+        averageCost: sql<string>`(${spend} / sum(${purchases.quantity}))::numeric(10, 2)::text`,
+      })
+      .from(purchases)
+      .innerJoin(wines, eq(purchases.wineId, wines.id))
+      .where(eq(purchases.userId, userId))
+      .groupBy(wines.category, purchases.currency)
+      .orderBy(asc(wines.category), asc(purchases.currency));
+  }
+
+  // Market values (user-specific)
+  async getMarketValues(wineId: number, userId: string): Promise<MarketValue[]> {
+    return await db
+      .select()
+      .from(marketValues)
+      .where(and(eq(marketValues.wineId, wineId), eq(marketValues.userId, userId)))
+      .orderBy(desc(marketValues.valuedAt), desc(marketValues.id));
+  }
+
+  async addMarketValue(wineId: number, value: InsertMarketValue, userId: string): Promise<MarketValue | undefined> {
+    const wine = await this.getWineById(wineId, userId);
+    if (!wine) {
+      return undefined;
+    }
+
+    const [created] = await db
+      .insert(marketValues)
+      .values({ ...value, wineId, userId })
+      .returning();
+    return created;
+  }
+
+  // Inserts imported values in one go. Callers have already matched each entry to one of the user's wines.
+  async importMarketValues(entries: MarketValueImport[], userId: string): Promise<number> {
+    if (entries.length === 0) {
+      return 0;
+    }
+
+    const inserted = await db
+      .insert(marketValues)
+      .values(entries.map(entry => ({ ...entry, userId })))
+      .returning({ id: marketValues.id });
+    return inserted.length;
+  }
+
+  async deleteMarketValue(wineId: number, valueId: number, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(marketValues)
+      .where(and(
+        eq(marketValues.id, valueId),
+        eq(marketValues.wineId, wineId),
+        eq(marketValues.userId, userId),
+      ));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getValuationInputs(userId: string): Promise<ValuationInputs> {
+    const [userWines, movements, values, userPurchases] = await Promise.all([
+      db.select().from(wines).where(eq(wines.userId, userId)),
+      db.select().from(stockMovements).where(eq(stockMovements.userId, userId)),
+      db.select().from(marketValues).where(eq(marketValues.userId, userId)),
+      db.select().from(purchases).where(eq(purchases.userId, userId)),
+    ]);
+    return { wines: userWines, movements, marketValues: values, purchases: userPurchases };
+  }
+
+  // Tasting notes (user-specific)
+  async getTastingNotes(wineId: number, userId: string): Promise<TastingNote[]> {
+    return await db
+      .select()
+      .from(tastingNotes)
+      .where(and(eq(tastingNotes.wineId, wineId), eq(tastingNotes.userId, userId)))
+      .orderBy(desc(tastingNotes.tastedAt), desc(tastingNotes.id));
+  }
+
+  async addTastingNote(wineId: number, note: InsertTastingNote, userId: string): Promise<TastingNote | undefined> {
+    const wine = await this.getWineById(wineId, userId);
+    if (!wine) {
+      return undefined;
+    }
+
+    const [created] = await db
+      .insert(tastingNotes)
+      .values({ ...note, wineId, userId })
+      .returning();
+    return created;
+  }
+
+  async updateTastingNote(wineId: number, noteId: number, patch: UpdateTastingNote, userId: string): Promise<TastingNote | undefined> {
+    const [updated] = await db
+      .update(tastingNotes)
+      .set({ ...patch, updatedAt: new Date() })
+      .where(and(
+        eq(tastingNotes.id, noteId),
+        eq(tastingNotes.wineId, wineId),
+        eq(tastingNotes.userId, userId),
+      ))
+      .returning();
+    return updated;
+  }
+
+  async deleteTastingNote(wineId: number, noteId: number, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(tastingNotes)
+      .where(and(
+        eq(tastingNotes.id, noteId),
+        eq(tastingNotes.wineId, wineId),
+        eq(tastingNotes.userId, userId),
+      ));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Label photos (user-specific)
+  async getWinePhotos(wineId: number, userId: string): Promise<WinePhoto[]> {
+    return await db
+      .select()
+      .from(winePhotos)
+      .where(and(eq(winePhotos.wineId, wineId), eq(winePhotos.userId, userId)))
+      .orderBy(asc(winePhotos.side));
+  }
+
+  async getPhotoByKey(key: string, userId: string): Promise<WinePhoto | undefined> {
+    const [photo] = await db
+      .select()
+      .from(winePhotos)
+      .where(and(eq(winePhotos.key, key), eq(winePhotos.userId, userId)))
+      .limit(1);
+    return photo;
+  }
+
+  async getPhotoKeys(userId: string): Promise<string[]> {
+    const photos = await db
+      .select({ key: winePhotos.key })
+      .from(winePhotos)
+      .where(eq(winePhotos.userId, userId));
+    return photos.map(photo => photo.key);
+  }
+
+  // Puts a photo on one side of a wine, in place of any photo already there.
+  // The front photo becomes the wine's image.
+  async saveWinePhoto(wineId: number, side: PhotoSideType, photo: StoredPhoto, userId: string): Promise<{ photo: WinePhoto; replaced?: WinePhoto } | undefined> {
+    return await db.transaction(async (tx) => {
+      const wine = await this.lockWine(tx, wineId, userId);
+      if (!wine) {
+        return undefined;
+      }
+
+      const [replaced] = await tx
+        .delete(winePhotos)
+        .where(and(eq(winePhotos.wineId, wineId), eq(winePhotos.side, side)))
+        .returning();
+      const [created] = await tx
+        .insert(winePhotos)
+        .values({ wineId, userId, side, ...photo })
+        .returning();
+
+      if (side === PhotoSide.FRONT) {
+        await tx
+          .update(wines)
+          .set({ imageUrl: getPhotoUrl(photo.key), thumbnailUrl: getThumbnailUrl(photo.key), version: sql`${wines.version} + 1` })
+          .where(eq(wines.id, wineId));
+      }
+      return { photo: created, replaced };
+    });
+  }
+
+  // Removes the photo on one side of a wine. The wine keeps any image that is not its front photo.
+  async deleteWinePhoto(wineId: number, side: PhotoSideType, userId: string): Promise<WinePhoto | undefined> {
+    return await db.transaction(async (tx) => {
+      const wine = await this.lockWine(tx, wineId, userId);
+      if (!wine) {
+        return undefined;
+      }
+
+      const [deleted] = await tx
+        .delete(winePhotos)
+        .where(and(eq(winePhotos.wineId, wineId), eq(winePhotos.side, side)))
+        .returning();
+      if (deleted && wine.imageUrl === getPhotoUrl(deleted.key)) {
+        await tx
+          .update(wines)
+          .set({ imageUrl: null, thumbnailUrl: null, version: sql`${wines.version} + 1` })
+          .where(eq(wines.id, wineId));
+      }
+      return deleted;
+    });
+  }
+
+  // The keys no photo refers to any more, whose files can be removed. Restored backups
+  // can give photos in more than one account the same key.
+  async getUnusedPhotoKeys(keys: string[]): Promise<string[]> {
+    if (keys.length === 0) {
+      return [];
+    }
+    const used = await db
+      .selectDistinct({ key: winePhotos.key })
+      .from(winePhotos)
+      .where(inArray(winePhotos.key, keys));
+    const usedKeys = new Set(used.map(photo => photo.key));
+    return Array.from(new Set(keys)).filter(key => !usedKeys.has(key));
+  }
+
+  // Backups (user-specific)
+  async getBackupData(userId: string): Promise<BackupData> {
+    const user = await this.getUser(userId);
+    const tables: Record<string, BackupRow[]> = {};
+
+    for (const entry of BACKUP_TABLES) {
+      const { columns, hasId } = getBackupColumns(entry.table);
+      let condition: SQL;
+      if (entry.parent) {
+        const parentIds = tables[entry.parent.table].map(row => row.id as number);
+        if (parentIds.length === 0) {
+          tables[entry.name] = [];
+          continue;
+        }
+        condition = inArray(columns[entry.parent.column], parentIds);
+      } else {
+        condition = eq(columns.userId, userId);
+      }
+
+      const query = db.select().from(entry.table).where(condition);
+      tables[entry.name] = hasId ? await query.orderBy(asc(columns.id)) : await query;
+    }
+
+    return {
+      createdAt: new Date().toISOString(),
+      user: { ratingScale: user?.ratingScale ?? RatingScale.FIVE_STAR },
+      tables,
+    };
+  }
+
+  // Restores an archive in one transaction. Replacing first deletes everything the user has.
+  // Merging keeps what the account already has: cellars, wines, racks and stocktakes whose id
+  // still belongs to the user are left as they are, along with everything under them.
+  // Restored rows get new ids, and references between them are updated to match.
+  async restoreBackup(data: BackupData, mode: RestoreModeType, userId: string): Promise<RestoreResult> {
+    try {
+      return await this.restoreBackupRows(data, mode, userId);
+    } catch (err) {
+      if (isInvalidDataError(err)) {
+        throw new BackupRestoreError(`Backup could not be restored: ${err instanceof Error ? err.message : String(err)}`);
+      }
+      throw err;
+    }
+  }
+
+  private async restoreBackupRows(data: BackupData, mode: RestoreModeType, userId: string): Promise<RestoreResult> {
+    return await db.transaction(async (tx) => {
+      if (mode === RestoreMode.REPLACE) {
+        // Everything else is deleted along with its parent
+        for (const entry of [...BACKUP_TABLES].reverse().filter(e => !e.parent)) {
+          await tx.delete(entry.table).where(eq(getBackupColumns(entry.table).columns.userId, userId));
+        }
+
+        const preferences = userPreferencesSchema.safeParse(data.user);
+        if (preferences.success) {
+          await tx.update(users).set({ ...preferences.data, updatedAt: new Date() }).where(eq(users.id, userId));
+        }
+      }
+
+      // Old ids mapped to the ids of the rows they became, and ids of rows the account already had
+      const idMaps = new Map<string, Map<number, number>>();
+      const kept = new Map<string, Set<number>>();
+      const result: RestoreResult = { mode, restored: {}, skipped: 0 };
+
+      for (const entry of BACKUP_TABLES) {
+        const { columns, hasId, hasUserId } = getBackupColumns(entry.table);
+        const rows = data.tables[entry.name] ?? [];
+        const idMap = new Map<number, number>();
+        const keptIds = new Set<number>();
+        idMaps.set(entry.name, idMap);
+        kept.set(entry.name, keptIds);
+
+        if (!entry.parent && hasId && mode === RestoreMode.MERGE && rows.length > 0) {
+          const existing = await tx
+            .select({ id: columns.id })
+            .from(entry.table)
+            .where(and(eq(columns.userId, userId), inArray(columns.id, rows.map(row => row.id as number))));
+          for (const { id } of existing as { id: number }[]) {
+            idMap.set(id, id);
+            keptIds.add(id);
+          }
+        }
+
+        // Shared rows such as catalog entries may not exist on this server
+        const sharedIds = new Map<string, Set<number>>();
+        for (const [column, sharedTable] of Object.entries(entry.shared ?? {})) {
+          const ids = Array.from(new Set(rows.map(row => row[column]).filter((id): id is number => typeof id === "number")));
+          const idColumn = getBackupColumns(sharedTable).columns.id;
+          const existing = ids.length > 0
+            ? await tx.select({ id: idColumn }).from(sharedTable).where(inArray(idColumn, ids)) as { id: number }[]
+            : [];
+          sharedIds.set(column, new Set(existing.map(({ id }) => id)));
+        }
+
+        const inserts: BackupRow[] = [];
+        const insertedIds: number[] = [];
+        for (const row of rows) {
+          if (hasId && keptIds.has(row.id as number)) {
+            result.skipped++;
+            continue;
+          }
+
+          const { id, ...values } = row;
+          if (hasUserId) {
+            values.userId = userId;
+          }
+
+          let isOrphan = false;
+          if (entry.parent) {
+            const parentId = row[entry.parent.column] as number;
+            if (kept.get(entry.parent.table)!.has(parentId)) {
+              // The account's own copy of the parent wins, along with what is under it
+              if (hasId) keptIds.add(id as number);
+              result.skipped++;
+              continue;
+            }
+            const newParentId = idMaps.get(entry.parent.table)!.get(parentId);
+            isOrphan = newParentId === undefined;
+            values[entry.parent.column] = newParentId;
+          }
+
+          // References to rows that were not restored are cleared where the column allows it
+          for (const [column, table] of Object.entries(entry.refs)) {
+            if (values[column] == null) continue;
+            const newId = idMaps.get(table)!.get(values[column] as number);
+            if (newId === undefined && columns[column].notNull) {
+              isOrphan = true;
+            }
+            values[column] = newId ?? null;
+          }
+          for (const [column, ids] of Array.from(sharedIds.entries())) {
+            if (values[column] != null && !ids.has(values[column] as number)) {
+              if (columns[column].notNull) {
+                isOrphan = true;
+              }
+              values[column] = null;
+            }
+          }
+
+          if (isOrphan) {
+            result.skipped++;
+            continue;
+          }
+          inserts.push(values);
+          if (hasId) insertedIds.push(id as number);
+        }
+
+        // Rows left alone under a kept parent can still be referred to, as long as they exist
+        if (hasId && hasUserId && keptIds.size > idMap.size) {
+          const existing = await tx
+            .select({ id: columns.id })
+            .from(entry.table)
+            .where(and(eq(columns.userId, userId), inArray(columns.id, Array.from(keptIds))));
+          for (const { id } of existing as { id: number }[]) {
+            idMap.set(id, id);
+          }
+        }
+
+        if (entry.table === stockMovements) {
+          this.checkRestoredLedger(inserts);
+        }
+
+        // Postgres returns the ids of a multi-row insert in the order the rows were given
+        for (let i = 0; i < inserts.length; i += 500) {
+          const chunk = inserts.slice(i, i + 500);
+          const inserted = await tx.insert(entry.table).values(chunk).returning() as BackupRow[];
+          if (hasId) {
+            inserted.forEach((row, j) => idMap.set(insertedIds[i + j], row.id as number));
+          }
+        }
+        result.restored[entry.name] = inserts.length;
+      }
+
+      return result;
+    });
+  }
+
+  // Restored movements only belong to restored wines, so they make up each bucket's whole
+  // ledger. Like live movements, none of them may take its bucket below zero.
+  private checkRestoredLedger(movements: BackupRow[]): void {
+    const totals = new Map<string, number>();
+    for (const movement of movements) {
+      const bucket = toBucket(movement as InsertStockMovement);
+      const key = `${movement.wineId}|${bucket.vintage}|${bucket.volumeMl}|${bucket.cellarId}`;
+      const total = (totals.get(key) ?? 0) + (movement.delta as number);
+      if (total < 0) {
+        throw new BackupRestoreError(`Backup could not be restored: its stock movements take a wine's stock below zero`);
+      }
+      totals.set(key, total);
+    }
+  }
+
   // Wine catalog management (shared across all users)
   async getWineCatalog(): Promise<WineCatalog[]> {
     return await db.select().from(wineCatalog);
   }
 
+  // The entries best matching the query, most relevant first
   async searchWineCatalog(query: string): Promise<WineCatalog[]> {
     if (!query.trim()) {
       return this.getWineCatalog();
     }
 
-    const searchPattern = `%${query}%`;
-    return await db.select().from(wineCatalog).where(
-      or(
-        ilike(wineCatalog.name, searchPattern),
-        ilike(wineCatalog.category, searchPattern),
-        ilike(wineCatalog.producer, searchPattern),
-        ilike(wineCatalog.region, searchPattern),
-        ilike(wineCatalog.country, searchPattern)
-      )
-    );
+    return await db
+      .select()
+      .from(wineCatalog)
+      .where(catalogSearchCondition(query.trim()))
+      .orderBy(desc(catalogSearchRelevance(query.trim())), asc(wineCatalog.name), asc(wineCatalog.id))
+      .limit(CATALOG_SEARCH_LIMIT);
+  }
+
+  // The entries best matching each of the texts, such as the lines read off a label or the
+  // names in an import, without loading the whole catalog. Each entry is returned once.
+  async findCatalogCandidates(texts: string[]): Promise<WineCatalog[]> {
+    const queries = Array.from(new Set(texts.map(text => text.trim()).filter(text => text.length >= 2)));
+    const found = new Map<number, WineCatalog>();
+    for (let i = 0; i < queries.length; i += CATALOG_CANDIDATE_BATCH) {
+      const [first, second, ...rest] = queries.slice(i, i + CATALOG_CANDIDATE_BATCH).map(query => db
+        .select()
+        .from(wineCatalog)
+        .where(catalogSearchCondition(query))
+        .orderBy(desc(catalogSearchRelevance(query)), asc(wineCatalog.id))
+        .limit(CATALOG_CANDIDATE_LIMIT));
+      const entries = second ? await unionAll(first, second, ...rest) : await first;
+      for (const entry of entries) {
+        found.set(entry.id, entry);
+      }
+    }
+    return Array.from(found.values());
+  }
+
+  async getCatalogEntryByBarcode(barcode: string): Promise<WineCatalog | undefined> {
+    const [entry] = await db
+      .select()
+      .from(wineCatalog)
+      .where(eq(wineCatalog.barcode, barcode))
+      .orderBy(asc(wineCatalog.id))
+      .limit(1);
+    return entry;
+  }
+
+  async getCatalogEntry(id: number): Promise<WineCatalog | undefined> {
+    const [entry] = await db.select().from(wineCatalog).where(eq(wineCatalog.id, id));
+    return entry;
+  }
+
+  // Catalog administration (admins only)
+  async getCatalogPage(query: string, page: number, pageSize: number): Promise<CatalogPage> {
+    const where = query.trim() ? catalogSearchCondition(query.trim()) : undefined;
+    const [{ total }] = await db.select({ total: sql<number>`count(*)::int` }).from(wineCatalog).where(where);
+    const entries = await db
+      .select()
+      .from(wineCatalog)
+      .where(where)
+      .orderBy(asc(wineCatalog.name), asc(wineCatalog.id))
+      .limit(pageSize)
+      .offset((page - 1) * pageSize);
+    return { entries, total, page, pageSize };
+  }
+
+  async addCatalogEntry(entry: InsertWineCatalog, userId: string): Promise<WineCatalog> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(wineCatalog).values(entry).returning();
+      await this.recordCatalogBatch(tx, CatalogBatchKind.EDIT, userId, [
+        { catalogId: created.id, before: null, after: created, linkedWineIds: null },
+      ]);
+      return created;
+    });
+  }
+
+  async updateCatalogEntry(id: number, patch: UpdateWineCatalog, userId: string): Promise<WineCatalog | undefined> {
+    if (Object.keys(patch).length === 0) {
+      return this.getCatalogEntry(id);
+    }
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(wineCatalog).where(eq(wineCatalog.id, id)).for("update");
+      if (!before) {
+        return undefined;
+      }
+      const [updated] = await tx.update(wineCatalog).set(patch).where(eq(wineCatalog.id, id)).returning();
+      await this.recordCatalogBatch(tx, CatalogBatchKind.EDIT, userId, [
+        { catalogId: id, before, after: updated, linkedWineIds: null },
+      ]);
+      return updated;
+    });
+  }
+
+  // Wines linked to the entry are unlinked, and suggestions of it are dropped. The wines are
+  // recorded so rolling the deletion back links them again.
+  async deleteCatalogEntry(id: number, userId: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(wineCatalog).where(eq(wineCatalog.id, id)).for("update");
+      if (!before) {
+        return false;
+      }
+      const linked = await tx.select({ id: wines.id }).from(wines).where(eq(wines.catalogId, id));
+      await tx.delete(wineCatalog).where(eq(wineCatalog.id, id));
+      await this.recordCatalogBatch(tx, CatalogBatchKind.EDIT, userId, [
+        { catalogId: id, before, after: null, linkedWineIds: linked.map(w => w.id) },
+      ]);
+      return true;
+    });
   }
 
-  
+  // Adds and updates the entries of a catalog import together, so a failed import changes nothing.
+  // Returns the batch the import was recorded as, or null when it changed nothing.
+  async importCatalogEntries(plan: CatalogImportPlan, userId: string): Promise<CatalogBatch | null> {
+    return await db.transaction(async (tx) => {
+      const changes: CatalogChange[] = [];
+      for (let i = 0; i < plan.inserts.length; i += 500) {
+        const created = await tx.insert(wineCatalog).values(plan.inserts.slice(i, i + 500)).returning();
+        changes.push(...created.map(entry => ({ catalogId: entry.id, before: null, after: entry, linkedWineIds: null })));
+      }
+      for (const { id, patch } of plan.updates) {
+        const [before] = await tx.select().from(wineCatalog).where(eq(wineCatalog.id, id)).for("update");
+        if (!before) continue; // Deleted since the import was checked
+        const [after] = await tx.update(wineCatalog).set(patch).where(eq(wineCatalog.id, id)).returning();
+        changes.push({ catalogId: id, before, after, linkedWineIds: null });
+      }
+      return changes.length > 0 ? await this.recordCatalogBatch(tx, CatalogBatchKind.IMPORT, userId, changes) : null;
+    });
+  }
+
+  // Catalog history (admins only)
+  // Every batch, newest first
+  async getCatalogBatches(): Promise<CatalogBatchSummary[]> {
+    const rows = await db
+      .select({
+        batch: catalogBatches,
+        userEmail: users.email,
+        inserted: sql<number>`count(${catalogBatchRows.id}) filter (where ${catalogBatchRows.before} is null)::int`,
+        updated: sql<number>`count(${catalogBatchRows.id}) filter (where ${catalogBatchRows.before} is not null and ${catalogBatchRows.after} is not null)::int`,
+        deleted: sql<number>`count(${catalogBatchRows.id}) filter (where ${catalogBatchRows.after} is null)::int`,
+      })
+      .from(catalogBatches)
+      .leftJoin(users, eq(catalogBatches.userId, users.id))
+      .leftJoin(catalogBatchRows, eq(catalogBatchRows.batchId, catalogBatches.id))
+      .groupBy(catalogBatches.id, users.email)
+      .orderBy(desc(catalogBatches.id));
+    return rows.map(({ batch, ...counts }) => ({ ...batch, ...counts }));
+  }
+
+  // How entries changed from the version `from` to the version `to`: each entry as it was before
+  // the first batch after `from` that changed it, and after the last one up to `to`
+  async getCatalogDiff(from: number, to: number): Promise<CatalogDiff> {
+    const rows = await db
+      .select()
+      .from(catalogBatchRows)
+      .where(and(gt(catalogBatchRows.batchId, from), lte(catalogBatchRows.batchId, to)))
+      .orderBy(asc(catalogBatchRows.batchId), asc(catalogBatchRows.id));
+
+    const byEntry = new Map<number, CatalogDiffEntry>();
+    for (const row of rows) {
+      const entry = byEntry.get(row.catalogId);
+      if (entry) {
+        entry.after = row.after;
+      } else {
+        byEntry.set(row.catalogId, { catalogId: row.catalogId, before: row.before, after: row.after, changes: [] });
+      }
+    }
+
+    const entries: CatalogDiffEntry[] = [];
+    for (const entry of Array.from(byEntry.values())) {
+      if (entry.before && entry.after) {
+        entry.changes = CATALOG_IMPORT_FIELDS.filter(field => (entry.before![field] ?? null) !== (entry.after![field] ?? null));
+        if (entry.changes.length === 0) continue;
+      } else if (!entry.before && !entry.after) {
+        continue; // Added and deleted again
+      }
+      entries.push(entry);
+    }
+    return { from, to, entries };
+  }
+
+  // Undoes a batch, entry by entry, and records the rollback as a batch of its own. Entries changed
+  // again since are left as they are, and added entries that wines have been linked to are kept so
+  // the wines stay linked. Deleted entries come back with their ids and the wines they had.
+  async rollbackCatalogBatch(batchId: number, userId: string): Promise<CatalogRollbackResult | undefined> {
+    return await db.transaction(async (tx) => {
+      const [batch] = await tx.select().from(catalogBatches).where(eq(catalogBatches.id, batchId)).for("update");
+      if (!batch) {
+        return undefined;
+      }
+      if (batch.rolledBackAt) {
+        throw new CatalogBatchStateError("This batch has already been rolled back");
+      }
+
+      const rows = await tx
+        .select()
+        .from(catalogBatchRows)
+        .where(eq(catalogBatchRows.batchId, batchId))
+        .orderBy(desc(catalogBatchRows.id));
+
+      const changes: CatalogChange[] = [];
+      let kept = 0;
+      let conflicts = 0;
+      for (const row of rows) {
+        const [current] = await tx.select().from(wineCatalog).where(eq(wineCatalog.id, row.catalogId)).for("update");
+
+        if (!row.before) {
+          // Added by the batch
+          if (!current) continue;
+          if (!row.after || !sameCatalogEntry(current, row.after)) {
+            conflicts++;
+            continue;
+          }
+          const [linked] = await tx.select({ id: wines.id }).from(wines).where(eq(wines.catalogId, current.id)).limit(1);
+          if (linked) {
+            kept++;
+            continue;
+          }
+          await tx.delete(wineCatalog).where(eq(wineCatalog.id, current.id));
+          changes.push({ catalogId: current.id, before: current, after: null, linkedWineIds: [] });
+        } else if (!row.after) {
+          // Deleted by the batch
+          if (current) {
+            conflicts++;
+            continue;
+          }
+          const [restored] = await tx.insert(wineCatalog).values(row.before).returning();
+          if (row.linkedWineIds && row.linkedWineIds.length > 0) {
+            await tx
+              .update(wines)
+              .set({ catalogId: restored.id, version: sql`${wines.version} + 1` })
+              .where(and(inArray(wines.id, row.linkedWineIds), isNull(wines.catalogId)));
+          }
+          changes.push({ catalogId: restored.id, before: null, after: restored, linkedWineIds: null });
+        } else {
+          if (!current || !sameCatalogEntry(current, row.after)) {
+            conflicts++;
+            continue;
+          }
+          const [restored] = await tx
+            .update(wineCatalog)
+            .set(catalogValues(row.before))
+            .where(eq(wineCatalog.id, current.id))
+            .returning();
+          changes.push({ catalogId: current.id, before: current, after: restored, linkedWineIds: null });
+        }
+      }
+
+      const rollback = await this.recordCatalogBatch(tx, CatalogBatchKind.ROLLBACK, userId, changes, batchId);
+      await tx.update(catalogBatches).set({ rolledBackAt: new Date() }).where(eq(catalogBatches.id, batchId));
+      return { batch: rollback, restored: changes.length, kept, conflicts };
+    });
+  }
+
+  // Suggested catalog links (user-specific)
+  // Pending suggestions for a wine, best first. A linked wine has none.
+  async getCatalogSuggestions(wineId: number, userId: string): Promise<CatalogSuggestion[]> {
+    const rows = await db
+      .select({ suggestion: catalogSuggestions, entry: wineCatalog })
+      .from(catalogSuggestions)
+      .innerJoin(wineCatalog, eq(catalogSuggestions.catalogId, wineCatalog.id))
+      .innerJoin(wines, eq(catalogSuggestions.wineId, wines.id))
+      .where(and(
+        eq(catalogSuggestions.wineId, wineId),
+        eq(catalogSuggestions.userId, userId),
+        eq(catalogSuggestions.status, CatalogSuggestionStatus.PENDING),
+        isNull(wines.catalogId),
+      ))
+      .orderBy(desc(catalogSuggestions.score), asc(wineCatalog.id));
+    return rows.map(({ suggestion, entry }) => ({ ...suggestion, entry }));
+  }
+
+  // Dismissed suggestions are kept, so the matcher does not suggest the same entry again
+  async dismissCatalogSuggestion(wineId: number, catalogId: number, userId: string): Promise<boolean> {
+    const result = await db
+      .update(catalogSuggestions)
+      .set({ status: CatalogSuggestionStatus.DISMISSED })
+      .where(and(
+        eq(catalogSuggestions.wineId, wineId),
+        eq(catalogSuggestions.catalogId, catalogId),
+        eq(catalogSuggestions.userId, userId),
+      ));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // A page of the unlinked wines of every user that have no suggestion waiting, in id order
+  // from after the given id
+  async getWinesToMatch(afterId: number, limit: number): Promise<WineRecord[]> {
+    return await db
+      .select()
+      .from(wines)
+      .where(and(
+        gt(wines.id, afterId),
+        isNull(wines.catalogId),
+        sql`NOT EXISTS (SELECT 1 FROM ${catalogSuggestions} WHERE ${catalogSuggestions.wineId} = ${wines.id} AND ${catalogSuggestions.status} = ${CatalogSuggestionStatus.PENDING})`,
+      ))
+      .orderBy(asc(wines.id))
+      .limit(limit);
+  }
+
+  // Adds new suggestions, leaving any already made for the same wine and entry as they are
+  async saveCatalogSuggestions(suggestions: Omit<CatalogSuggestionRecord, "status" | "createdAt">[]): Promise<number> {
+    let saved = 0;
+    for (let i = 0; i < suggestions.length; i += 500) {
+      const inserted = await db
+        .insert(catalogSuggestions)
+        .values(suggestions.slice(i, i + 500))
+        .onConflictDoNothing()
+        .returning({ wineId: catalogSuggestions.wineId });
+      saved += inserted.length;
+    }
+    return saved;
+  }
 }
 
 export const storage = new DatabaseStorage();
\ No newline at end of file
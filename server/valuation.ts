@@ -0,0 +1,211 @@
+import { parse } from "csv-parse/sync";
+import {
+  DEFAULT_VOLUME_ML,
+  insertMarketValueSchema,
+  type HoldingValuation,
+  type InsertMarketValue,
+  type MarketValue,
+  type Purchase,
+  type StockMovement,
+  type Valuation,
+  type ValuationPoint,
+  type ValuationReport,
+  type WineRecord,
+} from "@shared/schema";
+
+// Everything a valuation is computed from, for one user
+export interface ValuationInputs {
+  wines: WineRecord[];
+  movements: StockMovement[];
+  marketValues: MarketValue[];
+  purchases: Purchase[];
+}
+
+export type MarketValueImport = InsertMarketValue & { wineId: number };
+
+export interface MarketValueImportError {
+  line: number;
+  message: string;
+}
+
+interface Holding {
+  wineId: number;
+  vintage: number | null;
+  volumeMl: number;
+}
+
+const holdingKey = (h: Holding) => `${h.wineId}:${h.vintage ?? "nv"}:${h.volumeMl}`;
+
+const toAmount = (value: string | number) => Math.round(Number(value) * 100) / 100;
+
+// Bottles held per holding at a point in time, from the movement ledger
+function getHoldingsAt(movements: StockMovement[], at: Date): Map<string, Holding & { bottles: number }> {
+  const holdings = new Map<string, Holding & { bottles: number }>();
+  for (const m of movements) {
+    if (m.createdAt && m.createdAt > at) continue;
+    const key = holdingKey(m);
+    const current = holdings.get(key);
+    if (current) {
+      current.bottles += m.delta;
+    } else {
+      holdings.set(key, { wineId: m.wineId, vintage: m.vintage, volumeMl: m.volumeMl, bottles: m.delta });
+    }
+  }
+  return holdings;
+}
+
+// Latest value of a holding's vintage in a currency as of a date. A value recorded
+// without a vintage applies when the vintage has none of its own.
+function findMarketValue(values: MarketValue[], holding: Holding, currency: string, at: Date): MarketValue | undefined {
+  const latest = (vintage: number | null) => values
+    .filter(v => v.wineId === holding.wineId && v.vintage === vintage && v.currency === currency && v.valuedAt <= at)
+    .sort((a, b) => b.valuedAt.getTime() - a.valuedAt.getTime())[0];
+  return (holding.vintage !== null ? latest(holding.vintage) : undefined) ?? latest(null);
+}
+
+// Average price paid per bottle of a holding in a currency, weighted by quantity
+function findUnitCost(purchases: Purchase[], holding: Holding, currency: string): number | null {
+  const matching = purchases.filter(p =>
+    p.wineId === holding.wineId &&
+    p.vintage === holding.vintage &&
+    p.volumeMl === holding.volumeMl &&
+    p.currency === currency
+  );
+  const quantity = matching.reduce((sum, p) => sum + p.quantity, 0);
+  if (quantity === 0) return null;
+  return matching.reduce((sum, p) => sum + p.quantity * Number(p.unitPrice), 0) / quantity;
+}
+
+const scaleToFormat = (value: string, volumeMl: number) => Number(value) * volumeMl / DEFAULT_VOLUME_ML;
+
+// Month ends from the month of the first market value up to now, ending with now
+function getSeriesDates(values: MarketValue[], now: Date): Date[] {
+  if (values.length === 0) return [];
+  const first = values.reduce((min, v) => v.valuedAt < min ? v.valuedAt : min, values[0].valuedAt);
+  const dates: Date[] = [];
+  let monthEnd = new Date(first.getFullYear(), first.getMonth() + 1, 0, 23, 59, 59);
+  while (monthEnd < now) {
+    dates.push(monthEnd);
+    monthEnd = new Date(monthEnd.getFullYear(), monthEnd.getMonth() + 2, 0, 23, 59, 59);
+  }
+  dates.push(now);
+  return dates;
+}
+
+function valueAt(inputs: ValuationInputs, currency: string, at: Date): number {
+  let total = 0;
+  getHoldingsAt(inputs.movements, at).forEach(holding => {
+    if (holding.bottles <= 0) return;
+    const marketValue = findMarketValue(inputs.marketValues, holding, currency, at);
+    if (marketValue) {
+      total += holding.bottles * scaleToFormat(marketValue.value, holding.volumeMl);
+    }
+  });
+  return toAmount(total);
+}
+
+// Current value, unrealized gain against purchase prices and value over time, per currency
+export function computeValuation(inputs: ValuationInputs, now = new Date()): ValuationReport {
+  const wineById = new Map(inputs.wines.map(w => [w.id, w]));
+  const current = Array.from(getHoldingsAt(inputs.movements, now).values()).filter(h => h.bottles > 0);
+  const currencies = Array.from(new Set(inputs.marketValues.map(v => v.currency))).sort();
+
+  const valuations: Valuation[] = currencies.map(currency => {
+    const holdings: HoldingValuation[] = [];
+    for (const holding of current) {
+      const wine = wineById.get(holding.wineId);
+      const marketValue = findMarketValue(inputs.marketValues, holding, currency, now);
+      if (!wine || !marketValue) continue;
+
+      const unitValue = scaleToFormat(marketValue.value, holding.volumeMl);
+      const unitCost = findUnitCost(inputs.purchases, holding, currency);
+      holdings.push({
+        ...holding,
+        name: wine.name,
+        category: wine.category,
+        unitValue: toAmount(unitValue),
+        value: toAmount(unitValue * holding.bottles),
+        costBasis: unitCost === null ? null : toAmount(unitCost * holding.bottles),
+        valuedAt: marketValue.valuedAt.toISOString(),
+        source: marketValue.source,
+      });
+    }
+
+    const withCost = holdings.filter(h => h.costBasis !== null);
+    const costBasis = toAmount(withCost.reduce((sum, h) => sum + (h.costBasis ?? 0), 0));
+    const series: ValuationPoint[] = getSeriesDates(inputs.marketValues.filter(v => v.currency === currency), now)
+      .map(date => ({ date: date.toISOString(), value: valueAt(inputs, currency, date) }));
+
+    return {
+      currency,
+      currentValue: toAmount(holdings.reduce((sum, h) => sum + h.value, 0)),
+      costBasis,
+      unrealizedGain: toAmount(withCost.reduce((sum, h) => sum + h.value, 0) - costBasis),
+      holdings: holdings.sort((a, b) => b.value - a.value),
+      series,
+    };
+  });
+
+  const unvaluedBottles = current
+    .filter(h => !currencies.some(currency => findMarketValue(inputs.marketValues, h, currency, now)))
+    .reduce((sum, h) => sum + h.bottles, 0);
+
+  return { valuations, unvaluedBottles };
+}
+
+const normalize = (value: string | undefined) => (value ?? "").trim().toLowerCase();
+
+// Parses market values from CSV with a header row. Wines are matched by a wine_id column,
+// or by name and (when given) producer. Columns: wine_id, name, producer, vintage, value,
+// currency, date, source. Rows that cannot be matched or validated are reported, not imported.
+export function parseMarketValueCsv(csv: string, wines: WineRecord[]): { entries: MarketValueImport[]; errors: MarketValueImportError[] } {
+  const records: Record<string, string>[] = parse(csv, {
+    columns: (header: string[]) => header.map(h => normalize(h).replace(/\s+/g, "_")),
+    skip_empty_lines: true,
+    trim: true,
+  });
+
+  const entries: MarketValueImport[] = [];
+  const errors: MarketValueImportError[] = [];
+
+  records.forEach((record, index) => {
+    // Line numbers count the header row
+    const line = index + 2;
+
+    let matches: WineRecord[];
+    if (record.wine_id) {
+      matches = wines.filter(w => w.id === parseInt(record.wine_id));
+    } else {
+      matches = wines.filter(w =>
+        normalize(w.name) === normalize(record.name) &&
+        (!record.producer || normalize(w.producer ?? "") === normalize(record.producer))
+      );
+    }
+
+    if (matches.length === 0) {
+      errors.push({ line, message: `No wine in your collection matches "${record.wine_id || record.name || ""}"` });
+      return;
+    }
+    if (matches.length > 1) {
+      errors.push({ line, message: `"${record.name}" matches ${matches.length} wines; add a producer or wine_id column` });
+      return;
+    }
+
+    const parsed = insertMarketValueSchema.safeParse({
+      vintage: record.vintage ? parseInt(record.vintage) : null,
+      value: record.value?.replace(/[^\d.]/g, ""),
+      currency: record.currency ? record.currency.toUpperCase() : undefined,
+      valuedAt: record.date || undefined,
+      source: record.source || null,
+    });
+
+    if (!parsed.success) {
+      errors.push({ line, message: parsed.error.errors.map(e => `${e.path.join(".")}: ${e.message}`).join("; ") });
+      return;
+    }
+
+    entries.push({ ...parsed.data, wineId: matches[0].id });
+  });
+
+  return { entries, errors };
+}
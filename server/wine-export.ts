@@ -0,0 +1,110 @@
+import ExcelJS from "exceljs";
+import type { Wine } from "@shared/schema";
+
+// Columns of an export. They are named after the import fields, so an export can be imported as it is.
+const EXPORT_COLUMNS = [
+  "name",
+  "category",
+  "wine",
+  "subType",
+  "producer",
+  "region",
+  "country",
+  "barcode",
+  "vintage",
+  "quantity",
+  "volumeMl",
+  "drinkFrom",
+  "drinkBy",
+  "rating",
+  "notes",
+  "imageUrl",
+] as const;
+
+type ExportColumn = typeof EXPORT_COLUMNS[number];
+
+export type WineExportRow = Record<ExportColumn, string | number | null>;
+
+// Identifies JSON exports, which the import reads back
+export const EXPORT_DOCUMENT_FORMAT = "cellars.me/wines";
+
+// One row per vintage and bottle format of each wine, summed across cellars.
+// Wines without any stock get a single row so they are not lost.
+export function toExportRows(wines: Wine[]): WineExportRow[] {
+  return wines.flatMap(wine => {
+    const buckets = new Map<string, { vintage: number | null; volumeMl: number; quantity: number }>();
+    for (const entry of wine.stockEntries) {
+      const key = `${entry.vintage ?? "nv"}:${entry.volumeMl}`;
+      const bucket = buckets.get(key) ?? { vintage: entry.vintage, volumeMl: entry.volumeMl, quantity: 0 };
+      bucket.quantity += entry.stock;
+      buckets.set(key, bucket);
+    }
+
+    const stock = Array.from(buckets.values())
+      .filter(b => b.quantity > 0)
+      .sort((a, b) => (a.vintage ?? 0) - (b.vintage ?? 0) || a.volumeMl - b.volumeMl);
+
+    const toRow = (vintage: number | null, volumeMl: number | null, quantity: number): WineExportRow => {
+      const window = wine.vintageStocks.find(vs => vs.vintage === vintage);
+      return {
+        name: wine.name,
+        category: wine.category,
+        wine: wine.wine,
+        subType: wine.subType,
+        producer: wine.producer,
+        region: wine.region,
+        country: wine.country,
+        barcode: wine.barcode,
+        vintage,
+        quantity,
+        volumeMl,
+        drinkFrom: window?.drinkFrom ?? null,
+        drinkBy: window?.drinkBy ?? null,
+        rating: wine.rating,
+        notes: wine.notes,
+        imageUrl: wine.imageUrl,
+      };
+    };
+
+    return stock.length > 0
+      ? stock.map(b => toRow(b.vintage, b.volumeMl, b.quantity))
+      : [toRow(null, null, 0)];
+  });
+}
+
+// Spreadsheet cells show non-vintage stock as NV, which the import reads back as non-vintage
+const toCell = (row: WineExportRow, column: ExportColumn): string | number =>
+  column === "vintage" && row.vintage === null && row.quantity ? "NV" : row[column] ?? "";
+
+const escapeCsv = (value: string | number): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv(rows: WineExportRow[]): string {
+  const lines = [EXPORT_COLUMNS.join(",")];
+  for (const row of rows) {
+    lines.push(EXPORT_COLUMNS.map(column => escapeCsv(toCell(row, column))).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+export async function toXlsx(rows: WineExportRow[]): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet("Wines");
+  sheet.columns = EXPORT_COLUMNS.map(column => ({ header: column, key: column, width: column === "name" ? 32 : 14 }));
+  sheet.getRow(1).font = { bold: true };
+  for (const row of rows) {
+    sheet.addRow(Object.fromEntries(EXPORT_COLUMNS.map(column => [column, toCell(row, column)])));
+  }
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+export function toJsonDocument(rows: WineExportRow[]) {
+  return {
+    format: EXPORT_DOCUMENT_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    wines: rows,
+  };
+}
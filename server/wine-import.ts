@@ -0,0 +1,276 @@
+import { parse } from "csv-parse/sync";
+import ExcelJS from "exceljs";
+import {
+  DEFAULT_VOLUME_ML,
+  ImportDuplicateAction,
+  insertWineSchema,
+  type ImportSheet,
+  type InsertWine,
+  type StockEntry,
+  type VintageStock,
+  type WineCatalog,
+  type WineImport,
+  type WineImportField,
+  type WineImportRow,
+  type WineRecord,
+} from "@shared/schema";
+import { normalizeCategory } from "@shared/category";
+
+export const XLSX_CONTENT_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+// One wine of a committed import: created from its first row, or, when wineId is set,
+// an existing wine that the stock is added to
+export interface ImportedWine {
+  wineId: number | null;
+  wine: InsertWine;
+  stock: StockEntry[];
+  windows: VintageStock[]; // Drinking windows given for the imported vintages
+}
+
+const normalize = (value: string | null | undefined) =>
+  (value ?? "").normalize("NFD").replace(/[\u0300-\u036f]/g, "").trim().toLowerCase();
+
+const wineKey = (name: string, producer: string | null | undefined) => `${normalize(name)}|${normalize(producer)}`;
+
+// XLSX files are zip archives, which start with "PK"
+const isZip = (body: Buffer) => body.length > 2 && body[0] === 0x50 && body[1] === 0x4b;
+
+// Reads a JSON export's rows into a table, with a column for every key used
+function readJsonTable(text: string): string[][] {
+  const document = JSON.parse(text);
+  const records: unknown = Array.isArray(document) ? document : document?.wines;
+  if (!Array.isArray(records)) {
+    throw new Error("Expected a list of wines");
+  }
+
+  const columns: string[] = [];
+  for (const record of records) {
+    for (const key of Object.keys(record ?? {})) {
+      if (!columns.includes(key)) columns.push(key);
+    }
+  }
+  return [columns, ...records.map(record => columns.map(column => String(record?.[column] ?? "")))];
+}
+
+// Reads the first sheet of an XLSX file, a CSV file or a JSON export into its header row
+// and data rows. Blank rows are dropped and every cell is read as text.
+export async function readImportSheet(body: Buffer): Promise<ImportSheet> {
+  let table: string[][];
+  const text = isZip(body) ? "" : body.toString("utf8").replace(/^\uFEFF/, "");
+  if (isZip(body)) {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(body);
+    const sheet = workbook.worksheets[0];
+    if (!sheet) {
+      throw new Error("The workbook has no sheets");
+    }
+    table = [];
+    sheet.eachRow({ includeEmpty: false }, (row) => {
+      table.push(Array.from({ length: sheet.columnCount }, (_, c) => row.getCell(c + 1).text.trim()));
+    });
+  } else if (/^\s*[[{]/.test(text)) {
+    table = readJsonTable(text);
+  } else {
+    table = parse(text, {
+      skip_empty_lines: true,
+      relax_column_count: true,
+      trim: true,
+    });
+  }
+
+  table = table.filter(row => row.some(cell => cell !== ""));
+  if (table.length === 0) {
+    throw new Error("The file is empty");
+  }
+
+  const [columns, ...rows] = table;
+  return { columns: columns.map((c, i) => c || `Column ${i + 1}`), rows };
+}
+
+// Vintages like "2015", with "NV" and CellarTracker's 1001 standing for non-vintage
+function parseVintage(value: string): number | null {
+  if (!value || /^n\.?v\.?$/i.test(value) || value === "1001") {
+    return null;
+  }
+  const vintage = Number(value);
+  if (!Number.isInteger(vintage) || vintage < 1900 || vintage > 2200) {
+    throw new Error(`"${value}" is not a vintage year`);
+  }
+  return vintage;
+}
+
+// Bottle sizes like "750", "750ml", "75cl" or "1.5L". Bare numbers below 50 are litres.
+function parseVolumeMl(value: string): number {
+  const match = value.replace(",", ".").match(/^(\d+(?:\.\d+)?)\s*(ml|cl|l|ltr|litres?|liters?)?$/i);
+  if (!match) {
+    throw new Error(`"${value}" is not a bottle size`);
+  }
+  const amount = parseFloat(match[1]);
+  const unit = (match[2] ?? "").toLowerCase();
+  if (unit === "cl") return Math.round(amount * 10);
+  if (unit === "ml" || (!unit && amount >= 50)) return Math.round(amount);
+  return Math.round(amount * 1000);
+}
+
+function parseYear(value: string): number {
+  const year = Number(value);
+  if (!Number.isInteger(year)) {
+    throw new Error(`"${value}" is not a year`);
+  }
+  return year;
+}
+
+// Ratings are read as normalized 0-100 scores, as exported
+function parseRating(value: string): number {
+  const rating = Number(value);
+  if (!Number.isFinite(rating)) {
+    throw new Error(`"${value}" is not a rating`);
+  }
+  return Math.round(rating);
+}
+
+function parseQuantity(value: string): number {
+  const quantity = Number(value);
+  if (!Number.isInteger(quantity) || quantity < 0) {
+    throw new Error(`"${value}" is not a number of bottles`);
+  }
+  return quantity;
+}
+
+// Finds the catalog entry a row refers to by name, using the producer to tell entries apart
+function findCatalogMatch(catalogByName: Map<string, WineCatalog[]>, name: string, producer: string): WineCatalog | null {
+  const candidates = catalogByName.get(normalize(name)) ?? [];
+  if (producer) {
+    return candidates.find(c => normalize(c.producer) === normalize(producer)) ?? null;
+  }
+  return candidates.length === 1 ? candidates[0] : null;
+}
+
+// The names of the wines in the mapped rows, to look up in the catalog
+export function importedNames(input: WineImport): string[] {
+  const column = input.mapping.name;
+  return column === undefined ? [] : input.rows.map(row => (row[column] ?? "").trim()).filter(Boolean);
+}
+
+// Turns mapped rows into the wines they would import, with validation errors from insertWineSchema,
+// any matching catalog entry and any wine already in the collection that they duplicate
+export function previewWineImport(input: WineImport, wines: WineRecord[], catalog: WineCatalog[]): WineImportRow[] {
+  const catalogByName = new Map<string, WineCatalog[]>();
+  if (input.matchCatalog) {
+    for (const entry of catalog) {
+      const key = normalize(entry.name);
+      catalogByName.set(key, [...(catalogByName.get(key) ?? []), entry]);
+    }
+  }
+
+  const existing = new Map(wines.map(w => [wineKey(w.name, w.producer), w]));
+  const firstLines = new Map<string, number>();
+
+  return input.rows.map((row, index) => {
+    const line = index + 2;
+    const errors: string[] = [];
+    const cell = (field: WineImportField) => {
+      const column = input.mapping[field];
+      return column === undefined ? "" : (row[column] ?? "").trim();
+    };
+    const read = <T>(field: WineImportField, parseValue: (value: string) => T, fallback: T): T => {
+      const value = cell(field);
+      if (!value) return fallback;
+      try {
+        return parseValue(value);
+      } catch (err) {
+        errors.push(`${field}: ${err instanceof Error ? err.message : String(err)}`);
+        return fallback;
+      }
+    };
+
+    const name = cell("name");
+    const producer = cell("producer");
+    const catalogMatch = input.matchCatalog && name ? findCatalogMatch(catalogByName, name, producer) : null;
+    const category = cell("category") || catalogMatch?.category || "";
+
+    const vintage = read("vintage", parseVintage, null);
+    const quantity = input.mapping.quantity === undefined ? 1 : read("quantity", parseQuantity, 0);
+    const volumeMl = read("volumeMl", parseVolumeMl, DEFAULT_VOLUME_ML);
+    // Left undefined when blank so existing drinking windows are kept
+    const drinkFrom = read<number | undefined>("drinkFrom", parseYear, undefined);
+    const drinkBy = read<number | undefined>("drinkBy", parseYear, undefined);
+
+    // Blank required fields are left undefined so the schema reports them
+    const parsed = insertWineSchema.safeParse({
+      name: name || undefined,
+      category: category ? normalizeCategory(category) : undefined,
+      wine: cell("wine") || catalogMatch?.wine || null,
+      subType: cell("subType") || catalogMatch?.subType || null,
+      producer: producer || catalogMatch?.producer || null,
+      region: cell("region") || catalogMatch?.region || null,
+      country: cell("country") || catalogMatch?.country || null,
+      barcode: cell("barcode") || catalogMatch?.barcode || null,
+      catalogId: catalogMatch?.id ?? null,
+      notes: cell("notes") || null,
+      rating: read("rating", parseRating, null),
+      stockLevel: vintage === null ? quantity : undefined,
+      vintageStocks: vintage === null ? null : [{ vintage, stock: quantity, volumeMl, drinkFrom, drinkBy }],
+      volumeMl,
+      cellarId: input.cellarId ?? null,
+    });
+    if (!parsed.success) {
+      errors.push(...parsed.error.errors.map(e => `${e.path.join(".")}: ${e.message}`));
+    }
+
+    const wine = parsed.success && errors.length === 0 ? parsed.data : null;
+    const key = wine ? wineKey(wine.name, wine.producer) : null;
+    const duplicate = key ? existing.get(key) : undefined;
+    const sameWineAs = key ? firstLines.get(key) ?? null : null;
+    if (key && sameWineAs === null) {
+      firstLines.set(key, line);
+    }
+
+    return {
+      line,
+      wine,
+      errors,
+      catalogMatch,
+      duplicateOf: duplicate ? { id: duplicate.id, name: duplicate.name } : null,
+      sameWineAs,
+    };
+  });
+}
+
+// Groups the valid rows of a preview into the wines to create or add stock to.
+// Rows for the same wine are combined; duplicates are handled as the import asks.
+export function planWineImport(rows: WineImportRow[], input: WineImport): { wines: ImportedWine[]; skipped: number } {
+  const duplicates = input.duplicates ?? ImportDuplicateAction.SKIP;
+  const planned = new Map<number, ImportedWine>();
+  let skipped = 0;
+
+  for (const row of rows) {
+    if (!row.wine) continue;
+    if (row.duplicateOf && duplicates === ImportDuplicateAction.SKIP) {
+      skipped++;
+      continue;
+    }
+
+    const firstLine = row.sameWineAs ?? row.line;
+    const entry = planned.get(firstLine) ?? {
+      wineId: row.duplicateOf && duplicates === ImportDuplicateAction.ADD_STOCK ? row.duplicateOf.id : null,
+      wine: row.wine,
+      stock: [],
+      windows: [],
+    };
+
+    const vintageStock = row.wine.vintageStocks?.[0];
+    const stock: StockEntry = vintageStock
+      ? { vintage: vintageStock.vintage, volumeMl: vintageStock.volumeMl ?? DEFAULT_VOLUME_ML, cellarId: input.cellarId ?? null, stock: vintageStock.stock }
+      : { vintage: null, volumeMl: row.wine.volumeMl ?? DEFAULT_VOLUME_ML, cellarId: input.cellarId ?? null, stock: row.wine.stockLevel ?? 0 };
+    if (stock.stock > 0) {
+      entry.stock.push(stock);
+    }
+    if (vintageStock) {
+      entry.windows.push(vintageStock);
+    }
+    planned.set(firstLine, entry);
+  }
+
+  return { wines: Array.from(planned.values()), skipped };
+}
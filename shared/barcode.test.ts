@@ -0,0 +1,30 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { normalizeBarcode } from "./barcode";
+import { updateWineSchema } from "./schema";
+
+test("a UPC-A barcode is stored as the EAN-13 it stands for", () => {
+  assert.equal(normalizeBarcode("036000291452"), "0036000291452");
+  assert.equal(normalizeBarcode("0036000291452"), "0036000291452");
+});
+
+test("a wine edit with a 12-digit barcode is normalized to match barcode lookups", () => {
+  const result = updateWineSchema.safeParse({ name: "Rioja", barcode: " 036000291452 " });
+  assert.ok(result.success);
+  assert.equal(result.data.barcode, normalizeBarcode("036000291452"));
+});
+
+test("a wine edit with an invalid barcode is rejected", () => {
+  assert.equal(updateWineSchema.safeParse({ barcode: "036000291453" }).success, false);
+  assert.equal(updateWineSchema.safeParse({ barcode: "12345" }).success, false);
+});
+
+test("a blank barcode clears it and a missing one leaves it as it is", () => {
+  const cleared = updateWineSchema.safeParse({ barcode: "" });
+  assert.ok(cleared.success);
+  assert.equal(cleared.data.barcode, null);
+
+  const untouched = updateWineSchema.safeParse({ name: "Rioja" });
+  assert.ok(untouched.success);
+  assert.equal(untouched.data.barcode, undefined);
+});
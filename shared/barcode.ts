@@ -0,0 +1,24 @@
+// Checks the last digit of a GTIN (EAN-8, UPC-A, EAN-13 or GTIN-14) against the others
+function hasValidCheckDigit(code: string): boolean {
+  const digits = code.split("").map(Number);
+  const check = digits.pop()!;
+  // Weights alternate 3, 1, 3, ... starting from the digit next to the check digit
+  const sum = digits.reverse().reduce((total, digit, i) => total + digit * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === check;
+}
+
+// Brings a scanned or typed barcode to the form it is stored in, or null if it is not a valid
+// EAN or UPC. UPC-A codes and GTIN-14 codes padded with a zero are stored as the EAN-13 they
+// stand for, so a bottle is found whichever way its code was read.
+export function normalizeBarcode(code: string): string | null {
+  let digits = code.replace(/[\s-]/g, "");
+  if (!/^(\d{8}|\d{12,14})$/.test(digits) || !hasValidCheckDigit(digits)) {
+    return null;
+  }
+  if (digits.length === 12) {
+    digits = `0${digits}`;
+  } else if (digits.length === 14 && digits.startsWith("0")) {
+    digits = digits.slice(1);
+  }
+  return digits;
+}
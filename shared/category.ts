@@ -0,0 +1,20 @@
+import { WineCategory, type WineCategoryType } from "./schema";
+
+const normalize = (value: string) =>
+  value.normalize("NFD").replace(/[\u0300-\u036f]/g, "").trim().toLowerCase();
+
+// Maps category names used by other apps and the catalog onto the app's categories. Anything
+// not recognised, including the catalog's "NA" for a missing category, becomes Other.
+export function normalizeCategory(value: string | null | undefined): WineCategoryType {
+  const category = normalize(value ?? "").replace(/\s+wines?$/, "");
+  const known = Object.values(WineCategory).find(c => c.toLowerCase() === category);
+  if (known) {
+    return known;
+  }
+  if (["rosado", "rosato", "blush"].includes(category)) return WineCategory.ROSE;
+  if (["port", "sherry", "madeira", "marsala", "dessert"].includes(category)) return WineCategory.FORTIFIED;
+  if (["whiskey", "scotch", "bourbon"].includes(category)) return WineCategory.WHISKIES;
+  if (["spirit", "gin", "rum", "vodka", "brandy", "cognac"].includes(category)) return WineCategory.SPIRITS;
+  if (["ale", "lager", "stout"].includes(category)) return WineCategory.BEER;
+  return WineCategory.OTHER;
+}
@@ -0,0 +1,3 @@
+// Photos are served by key. A key's files never change, so they can be cached for good.
+export const getPhotoUrl = (key: string) => `/api/photos/${key}`;
+export const getThumbnailUrl = (key: string) => `${getPhotoUrl(key)}/thumbnail`;
@@ -0,0 +1,24 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { updateWineSchema } from "./schema";
+
+test("a wine edit keeps the rating on the normalized 0-100 range", () => {
+  assert.ok(updateWineSchema.safeParse({ rating: 85 }).success);
+  assert.ok(updateWineSchema.safeParse({ rating: 0 }).success);
+  assert.ok(updateWineSchema.safeParse({ rating: null }).success);
+  assert.equal(updateWineSchema.safeParse({ rating: 101 }).success, false);
+  assert.equal(updateWineSchema.safeParse({ rating: -1 }).success, false);
+});
+
+test("a wine edit with a star rating that was not normalized is rejected", () => {
+  assert.equal(updateWineSchema.safeParse({ rating: 4.5 }).success, false);
+  assert.equal(updateWineSchema.safeParse({ rating: "4" }).success, false);
+});
+
+test("a wine edit cannot set stock below zero or to part of a bottle", () => {
+  assert.ok(updateWineSchema.safeParse({ stockLevel: 0 }).success);
+  assert.equal(updateWineSchema.safeParse({ stockLevel: -2 }).success, false);
+  assert.equal(updateWineSchema.safeParse({ stockLevel: 1.5 }).success, false);
+  assert.equal(updateWineSchema.safeParse({ vintageStocks: [{ vintage: 2015, stock: -1 }] }).success, false);
+  assert.equal(updateWineSchema.safeParse({ vintageStocks: [{ vintage: 2015, stock: 0.5 }] }).success, false);
+});
@@ -5,12 +5,16 @@ import {
   timestamp,
   jsonb,
   index,
+  uniqueIndex,
   serial,
   integer,
-  json,
+  numeric,
+  primaryKey,
 } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { normalizeBarcode } from "./barcode";
 
 // Wine category enum
 export const WineCategory = {
@@ -42,75 +46,1078 @@ export const sessions = pgTable(
 
 // User storage table.
 // (IMPORTANT) This table is mandatory for Replit Auth, don't drop it.
+// Scale a user enters and reads ratings in
+export const RatingScale = {
+  FIVE_STAR: "five_star",
+  TWENTY_POINT: "twenty_point",
+  HUNDRED_POINT: "hundred_point",
+} as const;
+
+export type RatingScaleType = typeof RatingScale[keyof typeof RatingScale];
+
+// Admins can also manage the shared wine catalog
+export const UserRole = {
+  USER: "user",
+  ADMIN: "admin",
+} as const;
+
+export type UserRoleType = typeof UserRole[keyof typeof UserRole];
+
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().notNull(),
   email: varchar("email").unique(),
   firstName: varchar("first_name"),
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
+  ratingScale: varchar("rating_scale").notNull().default(RatingScale.FIVE_STAR),
+  role: varchar("role").notNull().default(UserRole.USER),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export const userPreferencesSchema = z.object({
+  ratingScale: z.enum([RatingScale.FIVE_STAR, RatingScale.TWENTY_POINT, RatingScale.HUNDRED_POINT]),
+}).partial();
+
+export type UserPreferences = z.infer<typeof userPreferencesSchema>;
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
 
-// Vintage with stock level
+// Standard 75cl bottle, used when no format is given
+export const DEFAULT_VOLUME_ML = 750;
+
+// Vintage with stock level. volumeMl is only set when the entry is for a single bottle format.
 export interface VintageStock {
   vintage: number;
   stock: number;
+  volumeMl?: number;
+  drinkFrom?: number | null;
+  drinkBy?: number | null;
+}
+
+// Stock of one vintage (null for non-vintage) in one bottle format and cellar
+export interface StockEntry {
+  vintage: number | null;
+  volumeMl: number;
+  cellarId: number | null; // Null for stock not assigned to a cellar
+  stock: number;
+}
+
+// Stock totals of a wine as computed from the movement ledger
+export interface StockTotals {
+  stockLevel: number;
+  vintageStocks: VintageStock[];
+  stockEntries: StockEntry[];
+  version: number;
+}
+
+// Purchase prices are recorded in this currency unless another is given
+export const DEFAULT_CURRENCY = "USD";
+
+// Spend on purchases of one category in one currency
+export interface PurchaseSummary {
+  category: string;
+  currency: string;
+  bottles: number;
+  totalSpend: string;
+  averageCost: string;
 }
 
+// Market value of one holding: a vintage (null for non-vintage) in one bottle format
+export interface HoldingValuation {
+  wineId: number;
+  name: string;
+  category: string;
+  vintage: number | null;
+  volumeMl: number;
+  bottles: number;
+  unitValue: number; // Per bottle of this format
+  value: number;
+  costBasis: number | null; // Null when no purchase in this currency matches the holding
+  valuedAt: string;
+  source: string | null;
+}
+
+export interface ValuationPoint {
+  date: string;
+  value: number;
+}
+
+// Valuation of the collection in one currency. Amounts are never converted between currencies.
+export interface Valuation {
+  currency: string;
+  currentValue: number;
+  costBasis: number; // Only covers holdings with a known cost
+  unrealizedGain: number;
+  holdings: HoldingValuation[];
+  series: ValuationPoint[];
+}
+
+export interface ValuationReport {
+  valuations: Valuation[];
+  unvaluedBottles: number; // Bottles in stock without any market value
+}
+
+// Places a user keeps bottles, e.g. a home cellar, a wine fridge or off-site storage
+export const cellars = pgTable(
+  "cellars",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    name: text("name").notNull(),
+    address: text("address"),
+    notes: text("notes"),
+    capacity: integer("capacity"), // Bottles it can hold, if known
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_cellars_user").on(table.userId)],
+);
+
 // Wine schema - now linked to users
-export const wines = pgTable("wines", {
+export const wines = pgTable(
+  "wines",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    name: text("name").notNull(),
+    category: text("category").notNull(),
+    wine: text("wine"), // The specific wine name/type
+    subType: text("sub_type"), // Subtype information
+    producer: text("producer"),
+    region: text("region"),
+    country: text("country"),
+    barcode: varchar("barcode"), // EAN or UPC, normalized to EAN-13 where possible
+    catalogId: integer("catalog_id").references(() => wineCatalog.id, { onDelete: "set null" }), // Catalog entry the wine was added from or linked to
+    stockLevel: integer("stock_level").default(0),
+    imageUrl: text("image_url"),
+    thumbnailUrl: text("thumbnail_url"), // Small version of imageUrl for lists and cards
+    rating: integer("rating"), // Normalized rating from 0-100, shown in the user's rating scale
+    notes: text("notes"), // User's personal tasting notes
+    version: integer("version").notNull().default(1), // Bumped on every change, used for ETags
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_wines_barcode").on(table.userId, table.barcode),
+    index("IDX_wines_catalog").on(table.catalogId),
+  ],
+);
+
+// Vintages of a wine - one row per wine and vintage year.
+// The stock column is computed from the stock movement ledger.
+export const wineVintages = pgTable(
+  "wine_vintages",
+  {
+    wineId: integer("wine_id").notNull().references(() => wines.id, { onDelete: "cascade" }),
+    vintage: integer("vintage").notNull(),
+    stock: integer("stock").notNull().default(0),
+    drinkFrom: integer("drink_from"), // First year the vintage is ready to drink
+    drinkBy: integer("drink_by"), // Last year the vintage should be drunk by
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.wineId, table.vintage] }),
+    index("IDX_wine_vintages_vintage").on(table.vintage),
+  ],
+);
+
+// Lifecycle of an individual bottle
+export const BottleStatus = {
+  IN_CELLAR: "in_cellar",
+  OPENED: "opened",
+  CONSUMED: "consumed",
+  GIFTED: "gifted",
+  LOST: "lost"
+} as const;
+
+export type BottleStatusType = typeof BottleStatus[keyof typeof BottleStatus];
+
+// Bottles with these statuses still count towards stock
+export const IN_STOCK_BOTTLE_STATUSES: BottleStatusType[] = [BottleStatus.IN_CELLAR, BottleStatus.OPENED];
+
+// Optional per-bottle records. When a wine's vintage has bottle records,
+// its stock is the number of those bottles that are still in stock.
+export const bottles = pgTable(
+  "bottles",
+  {
+    id: serial("id").primaryKey(),
+    wineId: integer("wine_id").notNull().references(() => wines.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    vintage: integer("vintage"), // Null for non-vintage stock
+    volumeMl: integer("volume_ml").notNull().default(DEFAULT_VOLUME_ML), // Bottle format
+    cellarId: integer("cellar_id").references(() => cellars.id, { onDelete: "set null" }), // Null when not assigned to a cellar
+    status: text("status").notNull().default(BottleStatus.IN_CELLAR),
+    location: text("location"),
+    purchasePrice: numeric("purchase_price", { precision: 10, scale: 2 }),
+    condition: text("condition"),
+    notes: text("notes"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_bottles_wine").on(table.wineId)],
+);
+
+// Racks are grids of slots, numbered from 1 by row and column
+export const racks = pgTable(
+  "racks",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    cellarId: integer("cellar_id").references(() => cellars.id, { onDelete: "set null" }),
+    name: text("name").notNull(),
+    rows: integer("rows").notNull(),
+    columns: integer("columns").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_racks_user").on(table.userId)],
+);
+
+// What a slot holds: a single bottle, or some stock of a vintage and format.
+// A slot with a label and nothing in it is a named, empty bin.
+export const rackSlots = pgTable(
+  "rack_slots",
+  {
+    id: serial("id").primaryKey(),
+    rackId: integer("rack_id").notNull().references(() => racks.id, { onDelete: "cascade" }),
+    row: integer("row").notNull(),
+    column: integer("column").notNull(),
+    label: text("label"), // Bin name
+    wineId: integer("wine_id").references(() => wines.id, { onDelete: "set null" }),
+    bottleId: integer("bottle_id").references(() => bottles.id, { onDelete: "set null" }),
+    vintage: integer("vintage"),
+    volumeMl: integer("volume_ml"),
+    quantity: integer("quantity").notNull().default(1), // Bottles in the slot when it holds vintage stock
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("IDX_rack_slots_position").on(table.rackId, table.row, table.column),
+    index("IDX_rack_slots_wine").on(table.wineId),
+  ],
+);
+
+// Stock movement types recorded in the ledger
+export const StockMovementType = {
+  PURCHASE: "purchase",
+  CONSUMPTION: "consumption",
+  GIFT: "gift",
+  BREAKAGE: "breakage",
+  ADJUSTMENT: "adjustment",
+  TRANSFER: "transfer"
+} as const;
+
+export type StockMovementTypeValue = typeof StockMovementType[keyof typeof StockMovementType];
+
+// Stock movement ledger - every change to a wine's stock is recorded here.
+// wines.stockLevel and wines.vintageStocks are computed from these rows.
+export const stockMovements = pgTable(
+  "stock_movements",
+  {
+    id: serial("id").primaryKey(),
+    wineId: integer("wine_id").notNull().references(() => wines.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    type: text("type").notNull(),
+    delta: integer("delta").notNull(), // Positive adds bottles, negative removes them
+    vintage: integer("vintage"), // Null for non-vintage stock
+    volumeMl: integer("volume_ml").notNull().default(DEFAULT_VOLUME_ML), // Bottle format
+    cellarId: integer("cellar_id").references(() => cellars.id, { onDelete: "set null" }), // Null when not assigned to a cellar
+    reason: text("reason"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_stock_movements_wine").on(table.wineId)],
+);
+
+// What was paid for bottles and where they were bought. Each purchase
+// adds its bottles to stock through the linked ledger movement.
+export const purchases = pgTable(
+  "purchases",
+  {
+    id: serial("id").primaryKey(),
+    wineId: integer("wine_id").notNull().references(() => wines.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    vintage: integer("vintage"), // Null for non-vintage stock
+    volumeMl: integer("volume_ml").notNull().default(DEFAULT_VOLUME_ML), // Bottle format
+    quantity: integer("quantity").notNull(),
+    unitPrice: numeric("unit_price", { precision: 10, scale: 2 }).notNull(),
+    currency: varchar("currency", { length: 3 }).notNull().default(DEFAULT_CURRENCY),
+    purchasedAt: timestamp("purchased_at").notNull().defaultNow(),
+    merchant: text("merchant"),
+    invoiceRef: text("invoice_ref"),
+    stockMovementId: integer("stock_movement_id").references(() => stockMovements.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_purchases_wine").on(table.wineId)],
+);
+
+// Market value of a bottle of a vintage on a date. Values are per standard 75cl
+// bottle and scaled by volume for other formats.
+export const marketValues = pgTable(
+  "market_values",
+  {
+    id: serial("id").primaryKey(),
+    wineId: integer("wine_id").notNull().references(() => wines.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    vintage: integer("vintage"), // Null applies to non-vintage stock and any vintage without its own value
+    value: numeric("value", { precision: 10, scale: 2 }).notNull(),
+    currency: varchar("currency", { length: 3 }).notNull().default(DEFAULT_CURRENCY),
+    valuedAt: timestamp("valued_at").notNull().defaultNow(),
+    source: text("source"), // e.g. auction house, merchant list, Wine-Searcher
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_market_values_wine").on(table.wineId)],
+);
+
+// Lifecycle of a stocktake session
+export const StocktakeStatus = {
+  IN_PROGRESS: "in_progress",
+  APPLIED: "applied",
+  DISCARDED: "discarded"
+} as const;
+
+export type StocktakeStatusType = typeof StocktakeStatus[keyof typeof StocktakeStatus];
+
+// A physical count of the collection, or of one cellar
+export const stocktakes = pgTable(
+  "stocktakes",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    cellarId: integer("cellar_id").references(() => cellars.id, { onDelete: "set null" }), // Null counts every cellar
+    status: text("status").notNull().default(StocktakeStatus.IN_PROGRESS),
+    notes: text("notes"),
+    createdAt: timestamp("created_at").defaultNow(),
+    appliedAt: timestamp("applied_at"),
+  },
+  (table) => [index("IDX_stocktakes_user").on(table.userId)],
+);
+
+// Expected stock of one bucket when the stocktake started, and what was counted
+export const stocktakeLines = pgTable(
+  "stocktake_lines",
+  {
+    id: serial("id").primaryKey(),
+    stocktakeId: integer("stocktake_id").notNull().references(() => stocktakes.id, { onDelete: "cascade" }),
+    wineId: integer("wine_id").notNull().references(() => wines.id, { onDelete: "cascade" }),
+    vintage: integer("vintage"),
+    volumeMl: integer("volume_ml").notNull().default(DEFAULT_VOLUME_ML),
+    cellarId: integer("cellar_id").references(() => cellars.id, { onDelete: "set null" }),
+    expected: integer("expected").notNull(),
+    counted: integer("counted"), // Null until counted
+    countedAt: timestamp("counted_at"),
+  },
+  (table) => [index("IDX_stocktake_lines_stocktake").on(table.stocktakeId)],
+);
+
+// Sides of a bottle that a label photo can show
+export const PhotoSide = {
+  FRONT: "front",
+  BACK: "back"
+} as const;
+
+export type PhotoSideType = typeof PhotoSide[keyof typeof PhotoSide];
+
+// Label photos, at most one per side of a wine. The image and its thumbnail are kept in file
+// storage under paths derived from the key. The front photo is also the wine's imageUrl.
+export const winePhotos = pgTable(
+  "wine_photos",
+  {
+    id: serial("id").primaryKey(),
+    wineId: integer("wine_id").notNull().references(() => wines.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    side: text("side").notNull(),
+    key: varchar("key").notNull(),
+    width: integer("width").notNull(),
+    height: integer("height").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("IDX_wine_photos_side").on(table.wineId, table.side),
+    index("IDX_wine_photos_key").on(table.key),
+  ],
+);
+
+// Dated tasting notes - a wine can be tasted many times, optionally per vintage.
+// sweetness, acidity, tannin and body are structured levels from 1 (low) to 5 (high).
+export const tastingNotes = pgTable(
+  "tasting_notes",
+  {
+    id: serial("id").primaryKey(),
+    wineId: integer("wine_id").notNull().references(() => wines.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    vintage: integer("vintage"), // Null when not tied to a vintage
+    tastedAt: timestamp("tasted_at").notNull().defaultNow(),
+    appearance: text("appearance"),
+    nose: text("nose"),
+    palate: text("palate"),
+    finish: text("finish"),
+    sweetness: integer("sweetness"),
+    acidity: integer("acidity"),
+    tannin: integer("tannin"),
+    body: integer("body"),
+    aromas: text("aromas").array().notNull().default(sql`'{}'::text[]`),
+    score: integer("score"), // Normalized like wines.rating
+    comments: text("comments"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_tasting_notes_wine").on(table.wineId)],
+);
+
+// Wine database catalog entry (from CSV)
+export const wineCatalog = pgTable(
+  "wine_catalog",
+  {
+    id: serial("id").primaryKey(),
+    name: text("name").notNull(),
+    category: text("category").notNull(),
+    wine: text("wine"), // The specific wine name/type
+    subType: text("sub_type"), // Subtype information
+    producer: text("producer"),
+    region: text("region"),
+    country: text("country"),
+    barcode: varchar("barcode"), // EAN or UPC, normalized like wines.barcode
+  },
+  (table) => [
+    index("IDX_wine_catalog_barcode").on(table.barcode),
+    // Trigram indexes for search, on the text without accents (f_unaccent is added by 0019_catalog_search)
+    index("IDX_wine_catalog_name_trgm").using("gin", sql`f_unaccent(lower(coalesce(${table.name}, ''))) gin_trgm_ops`),
+    index("IDX_wine_catalog_category_trgm").using("gin", sql`f_unaccent(lower(coalesce(${table.category}, ''))) gin_trgm_ops`),
+    index("IDX_wine_catalog_producer_trgm").using("gin", sql`f_unaccent(lower(coalesce(${table.producer}, ''))) gin_trgm_ops`),
+    index("IDX_wine_catalog_region_trgm").using("gin", sql`f_unaccent(lower(coalesce(${table.region}, ''))) gin_trgm_ops`),
+    index("IDX_wine_catalog_country_trgm").using("gin", sql`f_unaccent(lower(coalesce(${table.country}, ''))) gin_trgm_ops`),
+  ],
+);
+
+// Whether a suggested catalog link is still waiting for the user, or was turned down
+export const CatalogSuggestionStatus = {
+  PENDING: "pending",
+  DISMISSED: "dismissed"
+} as const;
+
+export type CatalogSuggestionStatusType = typeof CatalogSuggestionStatus[keyof typeof CatalogSuggestionStatus];
+
+// Catalog entries the background matcher found for wines that are not linked to one.
+// Dismissed suggestions are kept so the same entry is not suggested again.
+export const catalogSuggestions = pgTable(
+  "catalog_suggestions",
+  {
+    wineId: integer("wine_id").notNull().references(() => wines.id, { onDelete: "cascade" }),
+    catalogId: integer("catalog_id").notNull().references(() => wineCatalog.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    score: integer("score").notNull(), // How well the entry matched, 0-100
+    status: text("status").notNull().default(CatalogSuggestionStatus.PENDING),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.wineId, table.catalogId] }),
+    index("IDX_catalog_suggestions_user").on(table.userId, table.status),
+  ],
+);
+
+// What made a batch of catalog changes
+export const CatalogBatchKind = {
+  IMPORT: "import",
+  EDIT: "edit", // An entry added, corrected or deleted in the admin console
+  ROLLBACK: "rollback"
+} as const;
+
+export type CatalogBatchKindType = typeof CatalogBatchKind[keyof typeof CatalogBatchKind];
+
+// Every change to the catalog is recorded in a batch. Batch ids count up, so each batch is also
+// the version of the catalog it brought about.
+export const catalogBatches = pgTable("catalog_batches", {
   id: serial("id").primaryKey(),
+  kind: text("kind").notNull(),
   userId: varchar("user_id").notNull().references(() => users.id),
-  name: text("name").notNull(),
-  category: text("category").notNull(),
-  wine: text("wine"), // The specific wine name/type
-  subType: text("sub_type"), // Subtype information
-  producer: text("producer"),
-  region: text("region"),
-  country: text("country"),
-  stockLevel: integer("stock_level").default(0),
-  vintageStocks: json("vintage_stocks").$type<VintageStock[]>().default([]),
-  imageUrl: text("image_url"),
-  rating: integer("rating"), // Rating from 1-5
-  notes: text("notes"), // User's personal tasting notes
+  rollbackOf: integer("rollback_of"), // The batch a rollback undid
   createdAt: timestamp("created_at").defaultNow(),
+  rolledBackAt: timestamp("rolled_back_at"),
 });
 
-// Wine database catalog entry (from CSV)
-export const wineCatalog = pgTable("wine_catalog", {
-  id: serial("id").primaryKey(),
-  name: text("name").notNull(),
-  category: text("category").notNull(),
-  wine: text("wine"), // The specific wine name/type
-  subType: text("sub_type"), // Subtype information
-  producer: text("producer"),
-  region: text("region"),
-  country: text("country"),
-});
+// One entry changed by a batch, as it was before and after
+export const catalogBatchRows = pgTable(
+  "catalog_batch_rows",
+  {
+    id: serial("id").primaryKey(),
+    batchId: integer("batch_id").notNull().references(() => catalogBatches.id, { onDelete: "cascade" }),
+    catalogId: integer("catalog_id").notNull(), // Not a reference, as the entry may since be deleted
+    before: jsonb("before").$type<WineCatalog>(), // Null when the batch added the entry
+    after: jsonb("after").$type<WineCatalog>(), // Null when the batch deleted it
+    linkedWineIds: jsonb("linked_wine_ids").$type<number[]>(), // Wines unlinked by deleting the entry
+  },
+  (table) => [
+    index("IDX_catalog_batch_rows_batch").on(table.batchId),
+    index("IDX_catalog_batch_rows_catalog").on(table.catalogId),
+  ],
+);
 
 // Schemas for input validation
+const volumeMlSchema = z.number().int().min(50).max(30000);
+
+// Null stands for stock that is not assigned to any cellar
+const cellarIdSchema = z.number().int().nullable().optional();
+
+// Prices are kept as decimal strings to match the numeric columns
+const priceSchema = z.string().regex(/^\d+(\.\d{1,2})?$/, "Invalid price");
+
+// Barcodes are stored normalized. Blank clears the barcode.
+const barcodeSchema = z.string().trim().nullable().optional().transform((code, ctx) => {
+  if (!code) {
+    return code === undefined ? undefined : null;
+  }
+  const normalized = normalizeBarcode(code);
+  if (!normalized) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid barcode" });
+    return z.NEVER;
+  }
+  return normalized;
+});
+
+// Ratings are stored normalized to 0-100 whatever scale they were entered in
+const normalizedRatingSchema = z.number().int().min(0).max(100).nullable().optional();
+
+const drinkYearSchema = z.number().int().min(1900).max(2200).nullable().optional();
+
+const isValidWindow = (w: { drinkFrom?: number | null; drinkBy?: number | null }) =>
+  w.drinkFrom == null || w.drinkBy == null || w.drinkFrom <= w.drinkBy;
+
+const windowError = { message: "Drink-from year must not be after drink-by year", path: ["drinkBy"] };
+
+export const insertPurchaseSchema = createInsertSchema(purchases).omit({
+  id: true,
+  wineId: true,
+  userId: true,
+  stockMovementId: true,
+  createdAt: true,
+}).extend({
+  vintage: z.number().int().min(1900).nullable().optional(),
+  volumeMl: volumeMlSchema.optional(),
+  quantity: z.number().int().min(1).max(500),
+  cellarId: cellarIdSchema, // Cellar the bottles are added to
+  unitPrice: priceSchema,
+  currency: z.string().regex(/^[A-Z]{3}$/, "Invalid currency code").optional(),
+  purchasedAt: z.coerce.date().optional(),
+  merchant: z.string().nullable().optional(),
+  invoiceRef: z.string().nullable().optional(),
+});
+
+// Purchase details given when adding a wine; they apply to each bucket of its initial stock
+export const purchaseDetailsSchema = insertPurchaseSchema.pick({
+  unitPrice: true,
+  currency: true,
+  purchasedAt: true,
+  merchant: true,
+  invoiceRef: true,
+});
+
+export const insertMarketValueSchema = createInsertSchema(marketValues).omit({
+  id: true,
+  wineId: true,
+  userId: true,
+  createdAt: true,
+}).extend({
+  vintage: z.number().int().min(1900).nullable().optional(),
+  value: priceSchema,
+  currency: insertPurchaseSchema.shape.currency,
+  valuedAt: z.coerce.date().optional(),
+  source: z.string().nullable().optional(),
+});
+
+export const vintageStockSchema = z.object({
+  vintage: z.number().int(),
+  stock: z.number().int().min(0),
+  volumeMl: volumeMlSchema.optional(),
+  drinkFrom: drinkYearSchema,
+  drinkBy: drinkYearSchema,
+}).refine(isValidWindow, windowError);
+
 export const insertWineSchema = createInsertSchema(wines).omit({
+  id: true,
+  userId: true,
+  version: true,
+  thumbnailUrl: true,
+  createdAt: true,
+}).extend({
+  stockLevel: z.number().int().min(0).nullable().optional(),
+  vintageStocks: z.array(vintageStockSchema).nullable().optional(),
+  volumeMl: volumeMlSchema.optional(), // Bottle format of the initial non-vintage stock
+  cellarId: cellarIdSchema, // Cellar the initial stock is kept in
+  notes: z.string().nullable().optional(),
+  rating: normalizedRatingSchema,
+  barcode: barcodeSchema,
+  purchase: purchaseDetailsSchema.nullable().optional(),
+});
+
+// Edits to a wine. The initial stock's format, cellar and purchase only apply when it is added.
+export const updateWineSchema = insertWineSchema.omit({
+  volumeMl: true,
+  cellarId: true,
+  purchase: true,
+}).partial();
+
+export const insertWineVintageSchema = createInsertSchema(wineVintages).omit({
+  wineId: true,
+  createdAt: true,
+}).extend({
+  vintage: z.number().int().min(1900),
+  stock: z.number().int().min(0).optional(),
+  drinkFrom: drinkYearSchema,
+  drinkBy: drinkYearSchema,
+}).refine(isValidWindow, windowError);
+
+const bottleStatusSchema = z.enum([
+  BottleStatus.IN_CELLAR,
+  BottleStatus.OPENED,
+  BottleStatus.CONSUMED,
+  BottleStatus.GIFTED,
+  BottleStatus.LOST
+]);
+
+// Adds newly purchased bottles as individual records
+export const addBottlesSchema = z.object({
+  vintage: z.number().int().nullable().optional(),
+  volumeMl: volumeMlSchema.optional(),
+  cellarId: cellarIdSchema,
+  count: z.number().int().min(1).max(500),
+  location: z.string().nullable().optional(),
+  purchasePrice: priceSchema.nullable().optional(),
+  condition: z.string().nullable().optional(),
+  notes: z.string().nullable().optional(),
+});
+
+// Starts tracking the existing stock of a vintage as individual bottles
+export const trackBottlesSchema = z.object({
+  vintage: z.number().int().nullable().optional(),
+  volumeMl: volumeMlSchema.optional(),
+  cellarId: cellarIdSchema,
+});
+
+export const updateBottleSchema = z.object({
+  status: bottleStatusSchema.optional(),
+  location: z.string().nullable().optional(),
+  purchasePrice: priceSchema.nullable().optional(),
+  condition: z.string().nullable().optional(),
+  notes: z.string().nullable().optional(),
+});
+
+export const insertStockMovementSchema = createInsertSchema(stockMovements).omit({
+  id: true,
+  wineId: true,
+  userId: true,
+  createdAt: true,
+}).extend({
+  type: z.enum([
+    StockMovementType.PURCHASE,
+    StockMovementType.CONSUMPTION,
+    StockMovementType.GIFT,
+    StockMovementType.BREAKAGE,
+    StockMovementType.ADJUSTMENT,
+    StockMovementType.TRANSFER
+  ]),
+  delta: z.number().int().refine(delta => delta !== 0, "Delta cannot be zero"),
+  vintage: z.number().int().nullable().optional(),
+  volumeMl: volumeMlSchema.optional(),
+  cellarId: cellarIdSchema,
+  reason: z.string().nullable().optional(),
+});
+
+const tastingLevelSchema = z.number().int().min(1).max(5).nullable().optional();
+
+export const insertTastingNoteSchema = createInsertSchema(tastingNotes).omit({
+  id: true,
+  wineId: true,
+  userId: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  vintage: z.number().int().min(1900).nullable().optional(),
+  tastedAt: z.coerce.date().optional(),
+  sweetness: tastingLevelSchema,
+  acidity: tastingLevelSchema,
+  tannin: tastingLevelSchema,
+  body: tastingLevelSchema,
+  aromas: z.array(z.string().min(1).max(50)).max(50).optional(),
+  score: normalizedRatingSchema,
+});
+
+export const updateTastingNoteSchema = insertTastingNoteSchema.partial();
+
+// Atomic stock adjustment request for a single vintage (or non-vintage stock).
+// Without a cellarId the change is spread over the cellars holding that vintage and format.
+export const stockAdjustmentSchema = z.object({
+  vintage: z.number().int().nullable().optional(),
+  volumeMl: volumeMlSchema.optional(),
+  cellarId: cellarIdSchema,
+  delta: z.number().int().refine(delta => delta !== 0, "Delta cannot be zero"),
+  type: insertStockMovementSchema.shape.type.optional(),
+  reason: z.string().nullable().optional(),
+});
+
+export const insertCellarSchema = createInsertSchema(cellars).omit({
   id: true,
   userId: true,
   createdAt: true,
+  updatedAt: true,
 }).extend({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  address: z.string().nullable().optional(),
   notes: z.string().nullable().optional(),
-  rating: z.number().min(1).max(5).nullable().optional(),
+  capacity: z.number().int().min(1).nullable().optional(),
+});
+
+export const updateCellarSchema = insertCellarSchema.partial();
+
+// Moves bottles of one vintage and format between cellars, leaving the wine's totals unchanged
+export const transferStockSchema = z.object({
+  vintage: z.number().int().nullable().optional(),
+  volumeMl: volumeMlSchema.optional(),
+  fromCellarId: z.number().int().nullable(),
+  toCellarId: z.number().int().nullable(),
+  quantity: z.number().int().min(1).max(10000),
+}).refine(t => t.fromCellarId !== t.toCellarId, { message: "Choose two different cellars", path: ["toCellarId"] });
+
+export const insertRackSchema = createInsertSchema(racks).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  cellarId: cellarIdSchema,
+  rows: z.number().int().min(1).max(50),
+  columns: z.number().int().min(1).max(50),
+});
+
+export const updateRackSchema = insertRackSchema.partial();
+
+// Places a bottle or vintage stock in a slot, and/or names the slot as a bin
+export const assignRackSlotSchema = z.object({
+  label: z.string().trim().max(50).nullable().optional(),
+  wineId: z.number().int().nullable().optional(),
+  bottleId: z.number().int().nullable().optional(),
+  vintage: z.number().int().nullable().optional(),
+  volumeMl: volumeMlSchema.nullable().optional(),
+  quantity: z.number().int().min(1).max(1000).optional(),
+}).refine(s => !s.bottleId || s.wineId, { message: "A bottle needs its wine", path: ["wineId"] });
+
+export const startStocktakeSchema = z.object({
+  cellarId: z.number().int().nullable().optional(),
+  notes: z.string().nullable().optional(),
+});
+
+// The counted quantity of one vintage and format of a wine in a cellar
+export const stocktakeCountSchema = z.object({
+  wineId: z.number().int(),
+  vintage: z.number().int().nullable().optional(),
+  volumeMl: volumeMlSchema.optional(),
+  cellarId: cellarIdSchema,
+  counted: z.number().int().min(0).max(100000),
 });
 
+// Wine fields that columns of an imported spreadsheet can be mapped to
+export const WINE_IMPORT_FIELDS = [
+  "name",
+  "category",
+  "wine",
+  "subType",
+  "producer",
+  "region",
+  "country",
+  "barcode",
+  "vintage",
+  "quantity",
+  "volumeMl",
+  "drinkFrom",
+  "drinkBy",
+  "rating",
+  "notes",
+] as const;
+
+export type WineImportField = typeof WINE_IMPORT_FIELDS[number];
+
+// Largest number of rows a single import can hold
+export const MAX_IMPORT_ROWS = 5000;
+
+// What happens to imported rows that match a wine already in the collection
+export const ImportDuplicateAction = {
+  SKIP: "skip",
+  ADD_STOCK: "add_stock",
+  CREATE: "create"
+} as const;
+
+export type ImportDuplicateActionType = typeof ImportDuplicateAction[keyof typeof ImportDuplicateAction];
+
+// File formats the collection can be exported in. JSON exports can be imported again.
+export const ExportFormat = {
+  CSV: "csv",
+  JSON: "json",
+  XLSX: "xlsx"
+} as const;
+
+export type ExportFormatType = typeof ExportFormat[keyof typeof ExportFormat];
+
+// Rows of an imported spreadsheet with the index of the column each wine field is read from
+export const wineImportSchema = z.object({
+  rows: z.array(z.array(z.string())).min(1).max(MAX_IMPORT_ROWS),
+  mapping: z.record(z.enum(WINE_IMPORT_FIELDS), z.number().int().min(0)),
+  matchCatalog: z.boolean().optional(), // Fill in blank details from matching catalog entries
+  duplicates: z.enum([
+    ImportDuplicateAction.SKIP,
+    ImportDuplicateAction.ADD_STOCK,
+    ImportDuplicateAction.CREATE
+  ]).optional(),
+  cellarId: cellarIdSchema, // Cellar the imported stock is kept in
+});
+
+// A spreadsheet read for import: its header row and the rows below it
+export interface ImportSheet {
+  columns: string[];
+  rows: string[][];
+}
+
+// One row of an import as it would be imported
+export interface WineImportRow {
+  line: number; // Counts the header row, like the line numbers of a spreadsheet
+  wine: InsertWine | null; // Null when the row does not validate
+  errors: string[];
+  catalogMatch: WineCatalog | null;
+  duplicateOf: { id: number; name: string } | null; // A wine already in the collection
+  sameWineAs: number | null; // Line of an earlier row for the same wine, which this row adds stock to
+}
+
+export interface WineImportResult {
+  created: number;
+  updated: number; // Existing wines that stock was added to
+  skipped: number; // Rows left out as duplicates
+  invalid: number; // Rows left out because they did not validate
+}
+
+// Fields a photographed label can fill in on the Add Bottle form
+export const LABEL_SCAN_FIELDS = ["name", "producer", "vintage", "region", "country"] as const;
+
+export type LabelScanField = typeof LABEL_SCAN_FIELDS[number];
+
+// Where a suggestion came from: the text read off the label, or the catalog entry it matched
+export const LabelScanSource = {
+  LABEL: "label",
+  CATALOG: "catalog"
+} as const;
+
+export type LabelScanSourceType = typeof LabelScanSource[keyof typeof LabelScanSource];
+
+export interface LabelScanSuggestion {
+  value: string;
+  confidence: number; // 0-1
+  source: LabelScanSourceType;
+}
+
+export interface LabelScan {
+  text: string; // Everything read off the label, line by line
+  suggestions: Partial<Record<LabelScanField, LabelScanSuggestion>>;
+  catalogMatches: { entry: WineCatalog; score: number }[]; // Best first, score 0-1
+}
+
+// What a scanned barcode belongs to: a wine in the user's collection, a catalog entry, both or neither
+export interface BarcodeLookup {
+  barcode: string; // Normalized
+  wine: Wine | null;
+  catalog: WineCatalog | null;
+}
+
+// Fields of a linked wine that can be brought back in line with its catalog entry
+export const CATALOG_SYNC_FIELDS = ["name", "category", "wine", "subType", "producer", "region", "country", "barcode"] as const;
+
+export type CatalogSyncField = typeof CATALOG_SYNC_FIELDS[number];
+
+export const catalogSyncSchema = z.object({
+  fields: z.array(z.enum(CATALOG_SYNC_FIELDS)).min(1),
+});
+
+// The catalog entry a wine is linked to, with the values re-syncing would give each field.
+// Fields the entry has no value for are left out.
+export interface CatalogLink {
+  entry: WineCatalog;
+  values: Partial<Record<CatalogSyncField, string>>;
+}
+
+// How a backup archive is restored: replacing everything in the account, or adding what it is missing
+export const RestoreMode = {
+  REPLACE: "replace",
+  MERGE: "merge"
+} as const;
+
+export type RestoreModeType = typeof RestoreMode[keyof typeof RestoreMode];
+
+export interface RestoreResult {
+  mode: RestoreModeType;
+  restored: Record<string, number>; // Rows added per table
+  skipped: number; // Rows the account already had, or whose parent it already had
+}
+
 export const insertWineCatalogSchema = createInsertSchema(wineCatalog).omit({
   id: true,
+}).extend({
+  name: z.string().trim().min(1, "Name is required"),
+  category: z.string().trim().min(1, "Category is required"),
+  barcode: barcodeSchema,
 });
 
+export const updateWineCatalogSchema = insertWineCatalogSchema.partial();
+
+// Catalog entries per page of the admin console
+export const CATALOG_PAGE_SIZE = 25;
+
+// A page of catalog entries, with how many match in all
+export interface CatalogPage {
+  entries: WineCatalog[];
+  total: number;
+  page: number; // From 1
+  pageSize: number;
+}
+
+// Catalog fields that columns of an imported catalog file can be mapped to
+export const CATALOG_IMPORT_FIELDS = [
+  "name",
+  "category",
+  "wine",
+  "subType",
+  "producer",
+  "region",
+  "country",
+  "barcode",
+] as const;
+
+export type CatalogImportField = typeof CATALOG_IMPORT_FIELDS[number];
+
+// Rows of an imported catalog file with the index of the column each field is read from.
+// A dry run reports what the import would do without changing the catalog.
+export const catalogImportSchema = z.object({
+  rows: z.array(z.array(z.string())).min(1).max(MAX_IMPORT_ROWS),
+  mapping: z.record(z.enum(CATALOG_IMPORT_FIELDS), z.number().int().min(0)),
+  dryRun: z.boolean().optional(),
+});
+
+// What an imported catalog row does
+export const CatalogImportAction = {
+  INSERT: "insert",
+  UPDATE: "update",
+  UNCHANGED: "unchanged", // Matches an entry that already has the same values
+  DUPLICATE: "duplicate", // The same entry as an earlier row of the file, left out
+  REJECTED: "rejected" // Did not validate, left out
+} as const;
+
+export type CatalogImportActionType = typeof CatalogImportAction[keyof typeof CatalogImportAction];
+
+// One row of a catalog import and what it does
+export interface CatalogImportRow {
+  line: number; // Counts the header row, like the line numbers of a spreadsheet
+  action: CatalogImportActionType;
+  entry: InsertWineCatalog | null; // The entry as it is after the import; null when rejected
+  existingId: number | null; // The catalog entry the row updates or matches
+  changes: CatalogImportField[]; // Fields an update changes
+  duplicateOf: number | null; // Line of the earlier row for the same entry
+  errors: string[];
+}
+
+export interface CatalogImportReport {
+  dryRun: boolean;
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  duplicates: number;
+  rejected: number;
+  rows: CatalogImportRow[];
+  batchId: number | null; // The batch a committed import was recorded as, if it changed anything
+}
+
+// A batch with who made it and how many entries it added, updated and deleted
+export type CatalogBatchSummary = CatalogBatch & {
+  userEmail: string | null;
+  inserted: number;
+  updated: number;
+  deleted: number;
+};
+
+// How one entry differs between two versions of the catalog
+export interface CatalogDiffEntry {
+  catalogId: number;
+  before: WineCatalog | null; // Null when the entry was added since
+  after: WineCatalog | null; // Null when it was deleted since
+  changes: CatalogImportField[];
+}
+
+// The entries that differ between two versions, from 0 for the catalog before any batch
+export interface CatalogDiff {
+  from: number;
+  to: number;
+  entries: CatalogDiffEntry[];
+}
+
+export interface CatalogRollbackResult {
+  batch: CatalogBatch; // The rollback, recorded as a batch of its own
+  restored: number;
+  kept: number; // Added entries left in place because wines are linked to them
+  conflicts: number; // Entries changed again since, left as they are
+}
+
 // Types for usage throughout the app
-export type Wine = typeof wines.$inferSelect;
+// A wine row as stored, without its vintages
+export type WineRecord = typeof wines.$inferSelect;
+// A wine as returned by the API, with its in-stock vintages and per-format stock inlined
+export type Wine = WineRecord & { vintageStocks: VintageStock[]; stockEntries: StockEntry[] };
+export type WineVintage = typeof wineVintages.$inferSelect;
+export type InsertWineVintage = z.infer<typeof insertWineVintageSchema>;
 export type InsertWine = z.infer<typeof insertWineSchema>;
+export type Bottle = typeof bottles.$inferSelect;
+export type AddBottles = z.infer<typeof addBottlesSchema>;
+export type UpdateBottle = z.infer<typeof updateBottleSchema>;
+export type TrackBottles = z.infer<typeof trackBottlesSchema>;
+export type StockMovement = typeof stockMovements.$inferSelect;
+export type Purchase = typeof purchases.$inferSelect;
+export type InsertPurchase = z.infer<typeof insertPurchaseSchema>;
+export type PurchaseDetails = z.infer<typeof purchaseDetailsSchema>;
+export type MarketValue = typeof marketValues.$inferSelect;
+export type InsertMarketValue = z.infer<typeof insertMarketValueSchema>;
+export type TastingNote = typeof tastingNotes.$inferSelect;
+export type InsertTastingNote = z.infer<typeof insertTastingNoteSchema>;
+export type UpdateTastingNote = z.infer<typeof updateTastingNoteSchema>;
+export type InsertStockMovement = z.infer<typeof insertStockMovementSchema>;
+export type StockAdjustment = z.infer<typeof stockAdjustmentSchema>;
+export type Cellar = typeof cellars.$inferSelect;
+// A cellar with the number of bottles currently kept in it
+export type CellarWithStock = Cellar & { bottles: number };
+export type InsertCellar = z.infer<typeof insertCellarSchema>;
+export type UpdateCellar = z.infer<typeof updateCellarSchema>;
+export type TransferStock = z.infer<typeof transferStockSchema>;
+export type Rack = typeof racks.$inferSelect;
+export type RackSlot = typeof rackSlots.$inferSelect;
+// A slot with the wine it holds, for drawing the cellar map
+export type RackSlotDetail = RackSlot & { wineName: string | null; category: string | null };
+export type RackWithSlots = Rack & { slots: RackSlotDetail[] };
+export type InsertRack = z.infer<typeof insertRackSchema>;
+export type UpdateRack = z.infer<typeof updateRackSchema>;
+export type AssignRackSlot = z.infer<typeof assignRackSlotSchema>;
+export type Stocktake = typeof stocktakes.$inferSelect;
+export type StocktakeLine = typeof stocktakeLines.$inferSelect;
+// A line with the wine it counts, for walking through and reporting on a stocktake
+export type StocktakeLineDetail = StocktakeLine & { wineName: string; producer: string | null; category: string };
+export type StocktakeWithLines = Stocktake & { lines: StocktakeLineDetail[] };
+// A stocktake with its progress, for listing past sessions
+export type StocktakeSummary = Stocktake & { lines: number; counted: number; discrepancies: number };
+export type StartStocktake = z.infer<typeof startStocktakeSchema>;
+export type StocktakeCount = z.infer<typeof stocktakeCountSchema>;
+export type WineImport = z.infer<typeof wineImportSchema>;
+export type CatalogSync = z.infer<typeof catalogSyncSchema>;
+export type WinePhoto = typeof winePhotos.$inferSelect;
 export type WineCatalog = typeof wineCatalog.$inferSelect;
+export type CatalogSuggestionRecord = typeof catalogSuggestions.$inferSelect;
+// A pending suggestion with the catalog entry it suggests
+export type CatalogSuggestion = CatalogSuggestionRecord & { entry: WineCatalog };
 export type InsertWineCatalog = z.infer<typeof insertWineCatalogSchema>;
+export type UpdateWineCatalog = z.infer<typeof updateWineCatalogSchema>;
+export type CatalogImport = z.infer<typeof catalogImportSchema>;
+export type CatalogBatch = typeof catalogBatches.$inferSelect;
+export type CatalogBatchRow = typeof catalogBatchRows.$inferSelect;
 
 // Extended schema with additional validation for forms
 export const wineFormSchema = insertWineSchema.extend({
@@ -131,7 +1138,10 @@ export const wineFormSchema = insertWineSchema.extend({
   vintageStocks: z.array(
     z.object({
       vintage: z.number().min(1900).max(new Date().getFullYear()),
-      stock: z.number().min(0)
-    })
+      stock: z.number().min(0),
+      volumeMl: volumeMlSchema.optional(),
+      drinkFrom: drinkYearSchema,
+      drinkBy: drinkYearSchema
+    }).refine(isValidWindow, windowError)
   ).optional(),
 });
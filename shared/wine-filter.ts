@@ -0,0 +1,22 @@
+import type { Wine } from "./schema";
+
+// Whether a wine matches the collection filters: a category ("All" for any) and text found in
+// its name, producer, wine type, sub-type, region, country or vintages
+export function matchesWineFilter(wine: Wine, category: string, text: string): boolean {
+  const categoryMatch = category === "All" || wine.category === category;
+
+  const searchTerm = text.toLowerCase();
+  const filterMatch = !searchTerm ||
+    wine.name.toLowerCase().includes(searchTerm) ||
+    (!!wine.producer && wine.producer.toLowerCase().includes(searchTerm)) ||
+    (!!wine.wine && wine.wine.toLowerCase().includes(searchTerm)) ||
+    (!!wine.subType && wine.subType.toLowerCase().includes(searchTerm)) ||
+    (!!wine.region && wine.region.toLowerCase().includes(searchTerm)) ||
+    (!!wine.country && wine.country.toLowerCase().includes(searchTerm)) ||
+    // Search in vintages if they exist
+    (Array.isArray(wine.vintageStocks) && wine.vintageStocks.some(vs =>
+      vs.vintage.toString().includes(searchTerm)
+    ));
+
+  return categoryMatch && filterMatch;
+}